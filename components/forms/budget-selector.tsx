@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect } from "react"
 import { DollarSign, ChevronDown, Info } from "lucide-react"
 import { cn, formatCurrency } from "@/lib/utils"
+import { currencyRates, SUPPORTED_CURRENCIES } from "@/lib/budget-calculator"
 
 export interface BudgetData {
   amount: number
@@ -15,13 +16,12 @@ interface BudgetSelectorProps {
   onChange: (budget: BudgetData) => void
   className?: string
   disabled?: boolean
+  // Limits in USD, converted to the selected currency
   minAmount?: number
   maxAmount?: number
 }
 
-// Hardcoded to USD only
-const defaultCurrency = { code: "USD", symbol: "$", name: "US Dollar" }
-
+// Preset amounts in USD, converted to the selected currency
 const budgetRanges = [
   { value: 500, label: "Budget", description: "Basic accommodations, local food" },
   { value: 1500, label: "Mid-range", description: "Comfortable hotels, mixed dining" },
@@ -43,7 +43,11 @@ export function BudgetSelector({
   const dropdownRef = useRef<HTMLDivElement>(null)
   const buttonRef = useRef<HTMLButtonElement>(null)
 
-  const selectedCurrency = defaultCurrency
+  // Approximate, for presets and limits; trip prices use the daily rates
+  const toLocal = (usd: number, currency = value.currency) =>
+    Math.round(usd * (currencyRates[currency] ?? 1))
+  const min = toLocal(minAmount)
+  const max = toLocal(maxAmount)
 
   // Update custom amount when value changes
   useEffect(() => {
@@ -52,7 +56,7 @@ export function BudgetSelector({
 
   // Generate display text
   const getDisplayText = () => {
-    const amount = formatCurrency(value.amount, "USD")
+    const amount = formatCurrency(value.amount, value.currency)
     const rangeText = value.range === "per-person" ? "per person" : "total"
     return `${amount} ${rangeText}`
   }
@@ -62,7 +66,6 @@ export function BudgetSelector({
     onChange({
       ...value,
       amount,
-      currency: "USD", // Always set to USD
     })
     setShowCustomInput(false)
     setIsOpen(false)
@@ -73,7 +76,15 @@ export function BudgetSelector({
     onChange({
       ...value,
       range,
-      currency: "USD", // Always set to USD
+    })
+  }
+
+  // Handle currency change, keeping the amount's value
+  const handleCurrencyChange = (currency: string) => {
+    onChange({
+      ...value,
+      currency,
+      amount: Math.round((value.amount / (currencyRates[value.currency] ?? 1)) * (currencyRates[currency] ?? 1)),
     })
   }
 
@@ -83,25 +94,23 @@ export function BudgetSelector({
     setCustomAmount(newValue)
     
     const amount = parseInt(newValue) || 0
-    if (amount >= minAmount && amount <= maxAmount) {
+    if (amount >= min && amount <= max) {
       onChange({
         ...value,
         amount,
-        currency: "USD", // Always set to USD
       })
     }
   }
 
   // Handle custom amount blur
   const handleCustomAmountBlur = () => {
-    const amount = parseInt(customAmount) || minAmount
-    const clampedAmount = Math.max(minAmount, Math.min(maxAmount, amount))
+    const amount = parseInt(customAmount) || min
+    const clampedAmount = Math.max(min, Math.min(max, amount))
     
     setCustomAmount(clampedAmount.toString())
     onChange({
       ...value,
       amount: clampedAmount,
-      currency: "USD", // Always set to USD
     })
   }
 
@@ -168,6 +177,23 @@ export function BudgetSelector({
           className="absolute z-[100] mt-2 w-full bg-white border border-gray-300 rounded-lg shadow-xl p-4"
           style={{ zIndex: 1000 }}
         >
+          {/* Currency Selector */}
+          <div className="mb-4">
+            <label htmlFor="budget-currency" className="text-sm font-medium text-gray-700 mb-2 block">
+              Currency
+            </label>
+            <select
+              id="budget-currency"
+              value={value.currency}
+              onChange={(e) => handleCurrencyChange(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SUPPORTED_CURRENCIES.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Budget Range Type Selector */}
           <div className="mb-4">
             <label className="text-sm font-medium text-gray-700 mb-2 block">
@@ -230,10 +256,10 @@ export function BudgetSelector({
                   <button
                     key={range.value}
                     type="button"
-                    onClick={() => handlePresetSelect(range.value)}
+                    onClick={() => handlePresetSelect(toLocal(range.value))}
                     className={cn(
                       "w-full p-3 text-left border rounded-lg transition-colors",
-                      value.amount === range.value
+                      value.amount === toLocal(range.value)
                         ? "bg-blue-50 border-blue-200"
                         : "bg-white border-gray-200 hover:bg-gray-50"
                     )}
@@ -241,7 +267,7 @@ export function BudgetSelector({
                     <div className="flex justify-between items-start">
                       <div>
                         <div className="font-medium text-gray-900">
-                          {formatCurrency(range.value, "USD")} {range.label}
+                          {formatCurrency(toLocal(range.value), value.currency)} {range.label}
                         </div>
                         <div className="text-xs text-gray-500 mt-1">
                           {range.description}
@@ -269,7 +295,7 @@ export function BudgetSelector({
               <div className="space-y-3">
                 <div className="flex items-center space-x-2">
                   <span className="text-lg font-medium text-gray-900">
-                    {selectedCurrency.symbol}
+                    {value.currency}
                   </span>
                   <input
                     type="text"
@@ -282,7 +308,7 @@ export function BudgetSelector({
                 </div>
                 
                 <div className="text-xs text-gray-500">
-                  Range: {formatCurrency(minAmount, "USD")} - {formatCurrency(maxAmount, "USD")}
+                  Range: {formatCurrency(min, value.currency)} - {formatCurrency(max, value.currency)}
                 </div>
                 
                 <button
@@ -124,21 +124,12 @@ export function TripPlanningForm({
     children: 0,
     infants: 0,
   });
-  const [budget, setBudgetState] = useState<BudgetData>({
+  const [budget, setBudget] = useState<BudgetData>({
     amount: 1500,
-    currency: "USD", // Fixed to USD
+    currency: "USD",
     range: "per-person",
   });
 
-  // Custom budget setter
-  const setBudget = (newBudget: BudgetData) => {
-    // Always ensure currency is USD
-    setBudgetState({
-      ...newBudget,
-      currency: "USD",
-    });
-  };
-
   const [interests, setInterests] = useState<InterestCategories>([]);
   const [preferences, setPreferences] = useState<TravelPreferencesType>({
     pace: TravelPace.Moderate,
@@ -149,8 +140,6 @@ export function TripPlanningForm({
     specialRequests: "",
   });
 
-  // Remove currency tracking as we're now fixed to USD
-
   // Current form data for preservation
   const currentFormData = {
     destination,
@@ -198,7 +187,7 @@ export function TripPlanningForm({
     // Apply user's saved preferences if available, otherwise use defaults
     if (userDefaults) {
       if (userDefaults.travelers) setTravelers(userDefaults.travelers);
-      if (userDefaults.budget) setBudgetState(userDefaults.budget);
+      if (userDefaults.budget) setBudget(userDefaults.budget);
       if (userDefaults && userDefaults.preferences) {
         // Apply user preferences but ensure accessibility always defaults to false (trip-specific)
         setPreferences(
@@ -217,9 +206,9 @@ export function TripPlanningForm({
         children: 0,
         infants: 0,
       });
-      setBudgetState({
+      setBudget({
         amount: 1500,
-        currency: "USD", // Always USD
+        currency: "USD",
         range: "per-person",
       });
       setPreferences(defaultPreferences);
@@ -252,11 +241,11 @@ export function TripPlanningForm({
         // Apply preferences defaults
         if (userDefaults.travelers) setTravelers(userDefaults.travelers);
 
-        // Apply budget amount from user preferences but keep currency as USD
+        // Apply budget from user preferences
         if (userDefaults.budget) {
-          setBudgetState({
+          setBudget({
             amount: userDefaults.budget.amount,
-            currency: "USD", // Always USD
+            currency: userDefaults.budget.currency || "USD",
             range: userDefaults.budget.range,
           });
         }
@@ -284,21 +273,6 @@ export function TripPlanningForm({
     }
   }, [preferencesLoading, userDefaults, preferencesApplied]);
 
-  // Ensure currency is always USD (cleanup effect)
-  useEffect(() => {
-    if (!preferencesLoading) {
-      setBudgetState((prev) => {
-        if (prev.currency !== "USD") {
-          return {
-            ...prev,
-            currency: "USD",
-          };
-        }
-        return prev;
-      });
-    }
-  }, [preferencesLoading]);
-
   // Load saved form data from localStorage or error state (only if not a fresh start)
   useEffect(() => {
     // Skip restoration if this is a fresh form start
@@ -321,9 +295,9 @@ export function TripPlanningForm({
             : undefined,
         });
         setTravelers(preservedData.travelers);
-        setBudgetState({
+        setBudget({
           ...preservedData.budget,
-          currency: "USD", // Always ensure USD
+          currency: preservedData.budget?.currency || "USD",
         });
         setInterests(preservedData.interests);
         setPreferences(preservedData.preferences);
@@ -346,9 +320,9 @@ export function TripPlanningForm({
             : undefined,
         });
         setTravelers(data.travelers);
-        setBudgetState({
+        setBudget({
           ...data.budget,
-          currency: "USD", // Always ensure USD
+          currency: data.budget.currency || "USD",
         });
         setInterests(data.interests);
         if (data.preferences) {
@@ -695,8 +669,9 @@ export function TripPlanningForm({
         startDate: dateRange.startDate!.toISOString(),
         endDate: dateRange.endDate!.toISOString(),
         budget: totalBudget,
-        currency: "USD", // Always USD
+        currency: budget.currency,
         travelers: totalTravelers,
+        travelerBreakdown: travelers,
         generateItinerary: true, // Enable itinerary generation
         interests,
         accommodationType: preferences.accommodationType,
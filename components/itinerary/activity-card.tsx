@@ -13,13 +13,14 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
-import { Activity } from "@/lib/itinerary-types";
+import { Activity, ActivityVoteTally } from "@/lib/itinerary-types";
 import {
   formatTimeRange,
   getActivityIcon,
   getActivityColor,
 } from "@/lib/itinerary-types";
 import { formatCurrency } from "@/lib/utils";
+import { ActivityVoteControl } from "./activity-vote-control";
 import {
   Clock,
   MapPin,
@@ -33,6 +34,9 @@ import {
   ExternalLink,
   Heart,
   Info,
+  Lock,
+  Unlock,
+  RefreshCw,
 } from "lucide-react";
 import { motion } from "framer-motion";
 
@@ -43,6 +47,10 @@ interface ActivityCardProps {
   onEdit: (activity: Activity) => void;
   onRemove: (activity: Activity) => void;
   onToggleFavorite?: (activity: Activity) => void;
+  onReplace?: (activity: Activity) => void;
+  onToggleLock?: (activity: Activity) => void;
+  votes?: ActivityVoteTally;
+  onVote?: (activity: Activity, value: -1 | 0 | 1) => void;
   className?: string;
 }
 
@@ -53,6 +61,10 @@ export function ActivityCard({
   onEdit,
   onRemove,
   onToggleFavorite,
+  onReplace,
+  onToggleLock,
+  votes,
+  onVote,
   className = "",
 }: ActivityCardProps) {
   const [showDetails, setShowDetails] = useState(false);
@@ -168,6 +180,11 @@ export function ActivityCard({
                     >
                       {activity.name}
                     </h4>
+                    {activity.locked && (
+                      <span title="Locked: kept when the day is regenerated">
+                        <Lock className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" />
+                      </span>
+                    )}
                     {activity.rating && (
                       <div className="flex items-center gap-1 text-xs text-amber-600">
                         <Star className="h-3 w-3 fill-current" />
@@ -232,7 +249,16 @@ export function ActivityCard({
                     {activity.pricing && activity.pricing.amount > 0 && (
                       <div className="flex items-center gap-1">
                         <DollarSign className="h-3 w-3" />
-                        <span>{formatPrice(activity.pricing)}</span>
+                        <span>
+                          {activity.convertedPrice
+                            ? formatPrice({ ...activity.pricing, ...activity.convertedPrice })
+                            : formatPrice(activity.pricing)}
+                        </span>
+                        {activity.convertedPrice && (
+                          <span className="text-gray-400">
+                            ({formatCurrency(activity.pricing.amount, activity.pricing.currency)})
+                          </span>
+                        )}
                         {activity.priceCategory && (
                           <span className="text-gray-400">
                             ({activity.priceCategory})
@@ -242,6 +268,14 @@ export function ActivityCard({
                     )}
                   </div>
 
+                  {onVote && (
+                    <ActivityVoteControl
+                      tally={votes}
+                      onVote={(value) => onVote(activity, value)}
+                      className="mt-2 -ml-2"
+                    />
+                  )}
+
                   {/* Expandable details */}
                   {showDetails && (
                     <motion.div
@@ -349,6 +383,30 @@ export function ActivityCard({
                         <Edit className="h-4 w-4 mr-3 text-gray-600 group-hover:text-blue-600 transition-colors" />
                         <span className="font-medium">Edit Activity</span>
                       </DropdownMenuItem>
+                      {onReplace && !activity.locked && (
+                        <DropdownMenuItem
+                          onClick={() => onReplace(activity)}
+                          className="group"
+                        >
+                          <RefreshCw className="h-4 w-4 mr-3 text-gray-600 group-hover:text-blue-600 transition-colors" />
+                          <span className="font-medium">Replace with Something Else</span>
+                        </DropdownMenuItem>
+                      )}
+                      {onToggleLock && (
+                        <DropdownMenuItem
+                          onClick={() => onToggleLock(activity)}
+                          className="group"
+                        >
+                          {activity.locked ? (
+                            <Unlock className="h-4 w-4 mr-3 text-gray-600 group-hover:text-blue-600 transition-colors" />
+                          ) : (
+                            <Lock className="h-4 w-4 mr-3 text-gray-600 group-hover:text-blue-600 transition-colors" />
+                          )}
+                          <span className="font-medium">
+                            {activity.locked ? "Unlock" : "Lock"} Activity
+                          </span>
+                        </DropdownMenuItem>
+                      )}
                       {activity.bookingUrl && (
                         <DropdownMenuItem
                           onClick={() =>
@@ -29,6 +29,7 @@ import {
   ActivityFormData,
 } from "@/lib/itinerary-types";
 import { generateId } from "@/lib/utils";
+import { CommentsPanel } from "@/components/trip/comments-panel";
 import {
   MapPin,
   Clock,
@@ -37,6 +38,7 @@ import {
   Plus,
   Trash2,
   Save,
+  MessageSquare,
 } from "lucide-react";
 
 // Form validation schema
@@ -87,6 +89,8 @@ interface ActivityModalProps {
   onSave: (activity: Activity) => void;
   activity?: Activity;
   dayNumber: number;
+  tripId?: string;
+  onCommentCountChange?: (activityId: string, count: number) => void;
 }
 
 export function ActivityModal({
@@ -95,6 +99,8 @@ export function ActivityModal({
   onSave,
   activity,
   dayNumber,
+  tripId,
+  onCommentCountChange,
 }: ActivityModalProps) {
   const [newTip, setNewTip] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -649,6 +655,20 @@ export function ActivityModal({
             </Button>
           </DialogFooter>
         </form>
+
+        {activity && tripId && (
+          <div className="border-t pt-6 space-y-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Comments
+            </h3>
+            <CommentsPanel
+              tripId={tripId}
+              activityId={activity.id}
+              onCountChange={(count) => onCommentCountChange?.(activity.id, count)}
+            />
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
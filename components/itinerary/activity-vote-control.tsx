@@ -0,0 +1,67 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ActivityVoteTally } from "@/lib/itinerary-types";
+import { ThumbsUp, ThumbsDown, Scale } from "lucide-react";
+
+interface ActivityVoteControlProps {
+  tally?: ActivityVoteTally;
+  onVote?: (value: -1 | 0 | 1) => void;
+  className?: string;
+}
+
+export function ActivityVoteControl({
+  tally,
+  onVote,
+  className = "",
+}: ActivityVoteControlProps) {
+  const up = tally?.up ?? 0;
+  const down = tally?.down ?? 0;
+  const userVote = tally?.userVote ?? 0;
+
+  // Clicking your current vote again takes it back
+  const vote = (value: -1 | 1) => onVote?.(userVote === value ? 0 : value);
+
+  return (
+    <div
+      className={`flex items-center gap-1 text-xs ${className}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={!onVote}
+        onClick={() => vote(1)}
+        aria-label="Vote up"
+        aria-pressed={userVote > 0}
+        className={`h-7 px-2 ${userVote > 0 ? "text-green-600 bg-green-50" : "text-gray-500"}`}
+      >
+        <ThumbsUp className="h-3 w-3 mr-1" />
+        {up}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={!onVote}
+        onClick={() => vote(-1)}
+        aria-label="Vote down"
+        aria-pressed={userVote < 0}
+        className={`h-7 px-2 ${userVote < 0 ? "text-red-600 bg-red-50" : "text-gray-500"}`}
+      >
+        <ThumbsDown className="h-3 w-3 mr-1" />
+        {down}
+      </Button>
+      {tally?.contested && (
+        <span
+          className="flex items-center gap-1 text-amber-600"
+          title="The group is split on this activity"
+        >
+          <Scale className="h-3 w-3" />
+          Split
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default ActivityVoteControl;
@@ -1,13 +1,21 @@
 "use client"
 
-import React from 'react'
+import React, { useState } from 'react'
 import { useDroppable } from '@dnd-kit/core'
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { CommentsPanel } from '@/components/trip/comments-panel'
 import { ActivityCard } from './activity-card'
-import { Day, Activity } from '@/lib/itinerary-types'
+import { RegenerateTarget } from './regenerate-dialog'
+import { Day, Activity, ActivityVoteTally } from '@/lib/itinerary-types'
 import { formatCurrency } from '@/lib/utils'
 import { 
   ChevronDown, 
@@ -19,7 +27,10 @@ import {
   MapPin,
   Utensils,
   Camera,
-  Car
+  Car,
+  MessageSquare,
+  Sparkles,
+  Route
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 
@@ -31,8 +42,19 @@ interface DayCardProps {
   onActivityEdit: (activity: Activity, dayNumber: number) => void
   onActivityRemove: (activity: Activity, dayNumber: number) => void
   onAddActivity: () => void
+  tripId?: string
+  commentCounts?: Record<string, number>
+  onCommentCountChange?: (activityId: string, count: number) => void
+  votes?: Record<string, ActivityVoteTally>
+  onVote?: (activity: Activity, value: -1 | 0 | 1) => void
+  // Targeted AI regeneration; only offered for saved trips
+  onRegenerate?: (target: RegenerateTarget) => void
+  onToggleLock?: (activity: Activity) => void
+  onOptimiseRoute?: (day: Day) => void
 }
 
+const TIME_SLOTS = ['morning', 'afternoon', 'evening'] as const
+
 export function DayCard({
   day,
   isExpanded,
@@ -40,8 +62,18 @@ export function DayCard({
   onActivitySelect,
   onActivityEdit,
   onActivityRemove,
-  onAddActivity
+  onAddActivity,
+  tripId,
+  commentCounts = {},
+  onCommentCountChange,
+  votes = {},
+  onVote,
+  onRegenerate,
+  onToggleLock,
+  onOptimiseRoute
 }: DayCardProps) {
+  const [commentsFor, setCommentsFor] = useState<Activity | null>(null)
+
   const { setNodeRef } = useDroppable({
     id: `day-${day.day}`
   })
@@ -61,6 +93,10 @@ export function DayCard({
     , day.activities[0].endTime)
   } : null
 
+  const emptySlots = TIME_SLOTS.filter(
+    slot => !day.activities.some(activity => activity.timeSlot === slot)
+  )
+
   const activityCounts = day.activities.reduce((counts, activity) => {
     counts[activity.type] = (counts[activity.type] || 0) + 1
     return counts
@@ -246,6 +282,16 @@ export function DayCard({
                     <Plus className="h-4 w-4" />
                     Add Activity
                   </Button>
+                  {onRegenerate && (
+                    <Button
+                      onClick={() => onRegenerate({ scope: 'day', dayNumber: day.day })}
+                      variant="ghost"
+                      className="ml-2 text-gray-600 dark:text-gray-300"
+                    >
+                      <Sparkles className="h-4 w-4 mr-1" />
+                      Plan this day
+                    </Button>
+                  )}
                 </div>
               ) : (
                 <>
@@ -270,7 +316,24 @@ export function DayCard({
                             onSelect={onActivitySelect}
                             onEdit={(activity) => onActivityEdit(activity, day.day)}
                             onRemove={(activity) => onActivityRemove(activity, day.day)}
+                            votes={votes[activity.id]}
+                            onVote={onVote}
+                            onReplace={onRegenerate ? (activity) => onRegenerate({ scope: 'activity', activity }) : undefined}
+                            onToggleLock={onToggleLock}
                           />
+                          {tripId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="mt-1 h-7 px-2 text-xs text-gray-500 hover:text-blue-600"
+                              onClick={() => setCommentsFor(activity)}
+                            >
+                              <MessageSquare className="h-3 w-3 mr-1" />
+                              {commentCounts[activity.id]
+                                ? `${commentCounts[activity.id]} comment${commentCounts[activity.id] > 1 ? 's' : ''}`
+                                : 'Comment'}
+                            </Button>
+                          )}
                         </motion.div>
                       ))}
                     </div>
@@ -286,6 +349,44 @@ export function DayCard({
                       <Plus className="h-4 w-4" />
                       Add Activity
                     </Button>
+                    {(onRegenerate || onOptimiseRoute) && (
+                      <div className="flex flex-wrap items-center gap-2 pt-2">
+                        {onOptimiseRoute && day.activities.length > 2 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onOptimiseRoute(day)}
+                            className="flex items-center gap-1"
+                          >
+                            <Route className="h-3 w-3" />
+                            Optimise route
+                          </Button>
+                        )}
+                        {onRegenerate && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onRegenerate({ scope: 'day', dayNumber: day.day })}
+                            className="flex items-center gap-1"
+                          >
+                            <Sparkles className="h-3 w-3" />
+                            Regenerate day
+                          </Button>
+                        )}
+                        {onRegenerate && emptySlots.map(slot => (
+                          <Button
+                            key={slot}
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onRegenerate({ scope: 'slot', dayNumber: day.day, timeSlot: slot })}
+                            className="text-gray-600 dark:text-gray-300"
+                          >
+                            <Plus className="h-3 w-3 mr-1" />
+                            Suggest {slot} activity
+                          </Button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </>
               )}
@@ -293,6 +394,23 @@ export function DayCard({
           </motion.div>
         )}
       </AnimatePresence>
+
+      {tripId && (
+        <Dialog open={!!commentsFor} onOpenChange={(open) => !open && setCommentsFor(null)}>
+          <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{commentsFor?.name}</DialogTitle>
+            </DialogHeader>
+            {commentsFor && (
+              <CommentsPanel
+                tripId={tripId}
+                activityId={commentsFor.id}
+                onCountChange={(count) => onCommentCountChange?.(commentsFor.id, count)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
     </Card>
   )
 }
@@ -11,8 +11,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { CoordinateInteraction } from '@/components/maps/coordinate-interaction';
-import { Activity } from '@/lib/itinerary-types';
+import { Activity, ActivityVoteTally } from '@/lib/itinerary-types';
 import { Coordinates } from '@/lib/coordinate-validation';
+import { ActivityVoteControl } from './activity-vote-control';
 
 interface EnhancedActivityCardProps {
   activity: Activity;
@@ -22,6 +23,8 @@ interface EnhancedActivityCardProps {
   onAccuracyReport?: (activityId: string, report: any) => void;
   editable?: boolean;
   showCoordinateInteraction?: boolean;
+  votes?: ActivityVoteTally;
+  onVote?: (activityId: string, value: -1 | 0 | 1) => void;
   className?: string;
 }
 
@@ -33,6 +36,8 @@ export function EnhancedActivityCard({
   onAccuracyReport,
   editable = false,
   showCoordinateInteraction = true,
+  votes,
+  onVote,
   className = ''
 }: EnhancedActivityCardProps) {
   const [updatedActivity, setUpdatedActivity] = useState<Activity>(activity);
@@ -223,6 +228,15 @@ export function EnhancedActivityCard({
           </div>
         )}
 
+        {/* Group votes */}
+        {(votes || onVote) && (
+          <ActivityVoteControl
+            tally={votes}
+            onVote={onVote ? (value) => onVote(activity.id, value) : undefined}
+            className="-ml-2"
+          />
+        )}
+
         {/* Additional Metadata */}
         {(updatedActivity.rating || updatedActivity.estimatedCost) && (
           <div className="flex items-center justify-between pt-2 border-t border-gray-100">
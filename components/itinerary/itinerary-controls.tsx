@@ -11,6 +11,7 @@ import {
   Filter,
   Grid3X3,
   List,
+  ThumbsUp,
   X
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
@@ -72,7 +73,8 @@ export function ItineraryControls({
   const sortOptions = [
     { value: 'time', label: 'Time', icon: Clock },
     { value: 'type', label: 'Type', icon: Grid3X3 },
-    { value: 'price', label: 'Price', icon: DollarSign }
+    { value: 'price', label: 'Price', icon: DollarSign },
+    { value: 'votes', label: 'Group preference', icon: ThumbsUp }
   ]
 
   return (
@@ -109,7 +111,7 @@ export function ItineraryControls({
           <div className="flex items-center gap-2">
             <Label className="text-sm font-medium">Sort:</Label>
             <Select value={config.sortBy} onValueChange={handleSortChange}>
-              <SelectTrigger className="w-36 h-9">
+              <SelectTrigger className="w-44 h-9">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
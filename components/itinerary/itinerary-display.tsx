@@ -14,10 +14,17 @@ import { ActivityCard } from "./activity-card";
 import { ActivityModal } from "./activity-modal";
 import { TimelineView } from "./timeline-view";
 import { ItineraryControls } from "./itinerary-controls";
+import { RegenerateDialog, RegenerateTarget } from "./regenerate-dialog";
+import { RoutePreviewDialog } from "./route-preview-dialog";
+import { apiClient } from "@/lib/api-client";
+import type { DaySchedule } from "@/lib/schedule-validation";
+import { optimiseDayRoute, RouteOptimization } from "@/lib/route-optimizer";
+import { toast } from "sonner";
 import {
   Day,
   Activity,
   ActivityAction,
+  ActivityVoteTally,
   TimelineConfig,
 } from "@/lib/itinerary-types";
 import {
@@ -29,24 +36,33 @@ import {
   CheckCircle2,
   AlertTriangle,
   Calendar,
+  Route,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface ItineraryDisplayProps {
+  // Enables activity comments when the itinerary belongs to a saved trip
+  tripId?: string;
   days: Day[];
   onUpdateDays: (days: Day[]) => void;
-  onSave?: () => Promise<void>;
+  onSave?: (actions: ActivityAction[]) => Promise<void>;
   isLoading?: boolean;
   isDirty?: boolean;
+  onVotesChange?: () => void;
+  // Called after the server changed the itinerary (targeted regeneration) so it can be reloaded
+  onItineraryChanged?: () => void;
   className?: string;
 }
 
 export function ItineraryDisplay({
+  tripId,
   days,
   onUpdateDays,
   onSave,
   isLoading = false,
   isDirty = false,
+  onVotesChange,
+  onItineraryChanged,
   className = "",
 }: ItineraryDisplayProps) {
   const [editingActivity, setEditingActivity] = useState<{
@@ -65,6 +81,14 @@ export function ItineraryDisplay({
     past: [],
     future: [],
   });
+  // Every action applied since the last save, including undo/redo steps
+  const [pendingActions, setPendingActions] = useState<ActivityAction[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isCheckingSchedule, setIsCheckingSchedule] = useState(false);
+  const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
+  const [votes, setVotes] = useState<Record<string, ActivityVoteTally>>({});
+  const [regenerateTarget, setRegenerateTarget] = useState<RegenerateTarget | null>(null);
+  const [routePreview, setRoutePreview] = useState<RouteOptimization | null>(null);
   const [timelineConfig, setTimelineConfig] = useState<TimelineConfig>({
     showAllDays: true,
     expandedDays: new Set(days.map((d) => d.day)),
@@ -93,6 +117,59 @@ export function ItineraryDisplay({
     [timelineConfig.showAllDays, days]
   );
 
+  useEffect(() => {
+    if (!tripId) return;
+
+    apiClient
+      .getCommentCounts(tripId)
+      .then((response) => {
+        setCommentCounts((response as { counts: Record<string, number> }).counts);
+      })
+      .catch((error) => {
+        console.error("Failed to load comment counts:", error);
+      });
+  }, [tripId]);
+
+  useEffect(() => {
+    if (!tripId) return;
+
+    apiClient
+      .getVotes(tripId)
+      .then((response) => {
+        setVotes((response as { votes: Record<string, ActivityVoteTally> }).votes);
+      })
+      .catch((error) => {
+        console.error("Failed to load votes:", error);
+      });
+  }, [tripId]);
+
+  const handleVote = useCallback(
+    async (activity: Activity, value: -1 | 0 | 1) => {
+      if (!tripId) return;
+
+      try {
+        const response = (await apiClient.castVote(tripId, activity.id, value)) as {
+          tally: ActivityVoteTally;
+        };
+        setVotes((prev) => ({ ...prev, [activity.id]: response.tally }));
+        onVotesChange?.();
+      } catch (error) {
+        console.error("Failed to vote:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to save your vote");
+      }
+    },
+    [tripId, onVotesChange]
+  );
+
+  const handleCommentCountChange = useCallback(
+    (activityId: string, count: number) => {
+      setCommentCounts((prev) =>
+        prev[activityId] === count ? prev : { ...prev, [activityId]: count }
+      );
+    },
+    []
+  );
+
   // Update expandedDays when days change and showAllDays is true
   useEffect(() => {
     if (timelineConfig.showAllDays) {
@@ -157,9 +234,18 @@ export function ItineraryDisplay({
           }
           break;
         }
+        case "REORDER_DAY": {
+          const { dayNumber, activities } = action.payload;
+          const dayIndex = newDays.findIndex((d) => d.day === dayNumber);
+          if (dayIndex !== -1) {
+            newDays[dayIndex] = { ...newDays[dayIndex], activities: [...activities] };
+          }
+          break;
+        }
       }
 
       onUpdateDays(newDays);
+      setPendingActions((prev) => [...prev, action]);
 
       if (addToHistory) {
         setHistory((prev) => ({
@@ -200,6 +286,135 @@ export function ItineraryDisplay({
     }));
   }, [history.future, executeAction]);
 
+  // Send pending actions to the server. Ids of added activities may change on
+  // save, so the undo history starts over afterwards.
+  const handleSave = useCallback(async () => {
+    if (!onSave || pendingActions.length === 0) return;
+
+    const saving = pendingActions;
+    setIsSaving(true);
+    try {
+      await onSave(saving);
+      setPendingActions((prev) => prev.slice(saving.length));
+      setHistory({ past: [], future: [] });
+    } catch {
+      // Keep pending actions so the user can retry
+    } finally {
+      setIsSaving(false);
+    }
+  }, [onSave, pendingActions]);
+
+  const hasUnsavedChanges = isDirty || pendingActions.length > 0;
+  const isBusy = isLoading || isSaving;
+
+  // Regeneration works on the saved itinerary, so local edits must be saved first
+  const handleRegenerate = useCallback(
+    (target: RegenerateTarget) => {
+      if (hasUnsavedChanges) {
+        toast.error("Save your changes before regenerating");
+        return;
+      }
+      setRegenerateTarget(target);
+    },
+    [hasUnsavedChanges]
+  );
+
+  // Travel times are computed from the saved itinerary and shown in the timeline view
+  const handleCheckSchedule = useCallback(async () => {
+    if (!tripId || !onItineraryChanged) return;
+    if (hasUnsavedChanges) {
+      toast.error("Save your changes before checking travel times");
+      return;
+    }
+
+    setIsCheckingSchedule(true);
+    try {
+      const { days: schedules } = (await apiClient.checkSchedule(tripId)) as { days: DaySchedule[] };
+      const issues = schedules.flatMap((schedule) => schedule.issues);
+      const names = new Map(days.flatMap((day) => day.activities.map((activity) => [activity.id, activity.name])));
+
+      if (issues.length === 0) {
+        toast.success("Every activity leaves enough time to get to the next one");
+      } else {
+        toast.error(`${issues.length} connection${issues.length === 1 ? " is" : "s are"} too tight`, {
+          description: issues.slice(0, 3).map((issue) => issue.message).join("\n"),
+        });
+      }
+
+      schedules.forEach(({ dayNumber, suggestion }) => {
+        if (!suggestion) return;
+        toast(`Day ${dayNumber}: a different order saves about ${suggestion.savedMinutes} min of travel`, {
+          description: suggestion.activityIds.map((id) => names.get(id) ?? id).join(" → "),
+        });
+      });
+
+      setTimelineConfig((prev) => ({ ...prev, viewMode: "timeline" }));
+      onItineraryChanged();
+    } catch (error) {
+      console.error("Failed to check travel times:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to check travel times");
+    } finally {
+      setIsCheckingSchedule(false);
+    }
+  }, [tripId, onItineraryChanged, hasUnsavedChanges, days]);
+
+  // Optimise the full day, not the sorted or filtered copy shown on the card
+  const handleOptimiseRoute = useCallback((shown: Day) => {
+    const day = days.find((d) => d.day === shown.day) ?? shown;
+    const optimization = optimiseDayRoute(day);
+    if (!optimization) {
+      toast.success(`Day ${day.day} is already in the shortest order that fits its times`);
+      return;
+    }
+    setRoutePreview(optimization);
+  }, [days]);
+
+  // The whole reorder is one action, so a single undo restores the old order and times
+  const handleApplyRoute = useCallback(
+    (optimization: RouteOptimization) => {
+      const day = days.find((d) => d.day === optimization.dayNumber);
+      if (day) {
+        executeAction({
+          type: "REORDER_DAY",
+          payload: {
+            dayNumber: optimization.dayNumber,
+            activities: optimization.activities,
+            previousActivities: day.activities,
+          },
+        });
+      }
+      setRoutePreview(null);
+    },
+    [days, executeAction]
+  );
+
+  const handleToggleLock = useCallback(
+    async (activity: Activity) => {
+      if (!tripId) return;
+      if (hasUnsavedChanges) {
+        toast.error("Save your changes before locking activities");
+        return;
+      }
+
+      const locked = !activity.locked;
+      try {
+        await apiClient.setActivityLocked(tripId, activity.id, locked);
+        onUpdateDays(
+          days.map((day) => ({
+            ...day,
+            activities: day.activities.map((candidate) =>
+              candidate.id === activity.id ? { ...candidate, locked } : candidate
+            ),
+          }))
+        );
+      } catch (error) {
+        console.error("Failed to update lock:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to update activity");
+      }
+    },
+    [tripId, hasUnsavedChanges, days, onUpdateDays]
+  );
+
   // Drag and drop handlers
   const handleDragStart = (event: DragStartEvent) => {
     const { active } = event;
@@ -383,6 +598,12 @@ export function ItineraryDisplay({
             const priceA = a.pricing?.amount || 0;
             const priceB = b.pricing?.amount || 0;
             return priceA - priceB;
+          case "votes": {
+            // Most popular first, falling back to the planned order
+            const scoreA = votes[a.id]?.score ?? 0;
+            const scoreB = votes[b.id]?.score ?? 0;
+            return scoreB - scoreA || a.startTime.localeCompare(b.startTime);
+          }
           default:
             return 0;
         }
@@ -393,7 +614,7 @@ export function ItineraryDisplay({
         activities: filteredActivities,
       };
     });
-  }, [days, timelineConfig.filterBy, timelineConfig.sortBy]);
+  }, [days, timelineConfig.filterBy, timelineConfig.sortBy, votes]);
 
   const totalActivities = processedDays.reduce(
     (sum, day) => sum + day.activities.length,
@@ -439,22 +660,36 @@ export function ItineraryDisplay({
           {/* Status chip */}
           <div
             className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm border shadow-sm ${
-              isDirty
+              hasUnsavedChanges
                 ? "bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-700"
                 : "bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-700"
             }`}
             aria-live="polite"
           >
-            {isDirty ? (
+            {hasUnsavedChanges ? (
               <AlertTriangle className="h-4 w-4" />
             ) : (
               <CheckCircle2 className="h-4 w-4" />
             )}
             <span className="font-medium">
-              {isDirty ? "Unsaved changes" : "All changes saved"}
+              {hasUnsavedChanges ? "Unsaved changes" : "All changes saved"}
             </span>
           </div>
 
+          {tripId && onItineraryChanged && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCheckSchedule}
+              disabled={isBusy || isCheckingSchedule}
+              className="h-8 px-3 py-1 rounded-full flex items-center gap-2 shadow-sm"
+              title="Check that there is enough time to travel between activities"
+            >
+              <Route className="h-4 w-4" />
+              {isCheckingSchedule ? "Checking..." : "Check travel times"}
+            </Button>
+          )}
+
           {/* Undo / Redo */}
           <div className="flex items-center gap-2">
             {(() => {
@@ -510,17 +745,17 @@ export function ItineraryDisplay({
           {/* Save */}
           {onSave && (
             <Button
-              onClick={onSave}
-              disabled={isLoading || !isDirty}
+              onClick={handleSave}
+              disabled={isBusy || !hasUnsavedChanges}
               className={`flex items-center gap-2 rounded-full px-4 py-2 shadow-sm transition-all duration-200 ${
-                isLoading || !isDirty
+                isBusy || !hasUnsavedChanges
                   ? "bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-500 border border-gray-200 dark:border-gray-700 cursor-not-allowed"
                   : "bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-700 hover:to-blue-800 hover:shadow-lg"
               }`}
-              title={isDirty ? "Save changes to server" : "No changes to save"}
+              title={hasUnsavedChanges ? "Save changes to server" : "No changes to save"}
             >
               <Save className="h-4 w-4" />
-              {isLoading ? "Saving..." : "Save Changes"}
+              {isBusy ? "Saving..." : "Save Changes"}
             </Button>
           )}
         </div>
@@ -580,6 +815,14 @@ export function ItineraryDisplay({
                     onAddActivity={() =>
                       setShowAddModal({ dayNumber: day.day })
                     }
+                    tripId={tripId}
+                    commentCounts={commentCounts}
+                    onCommentCountChange={handleCommentCountChange}
+                    votes={votes}
+                    onVote={tripId ? handleVote : undefined}
+                    onRegenerate={tripId && onItineraryChanged ? handleRegenerate : undefined}
+                    onToggleLock={tripId ? handleToggleLock : undefined}
+                    onOptimiseRoute={handleOptimiseRoute}
                   />
                 </motion.div>
               ))}
@@ -604,6 +847,21 @@ export function ItineraryDisplay({
       </DndContext>
 
       {/* Modals */}
+      <RoutePreviewDialog
+        optimization={routePreview}
+        onClose={() => setRoutePreview(null)}
+        onApply={handleApplyRoute}
+      />
+
+      {tripId && onItineraryChanged && (
+        <RegenerateDialog
+          tripId={tripId}
+          target={regenerateTarget}
+          onClose={() => setRegenerateTarget(null)}
+          onRegenerated={onItineraryChanged}
+        />
+      )}
+
       {showAddModal && (
         <ActivityModal
           isOpen={true}
@@ -628,6 +886,8 @@ export function ItineraryDisplay({
           }
           activity={editingActivity.activity}
           dayNumber={editingActivity.dayNumber}
+          tripId={tripId}
+          onCommentCountChange={handleCommentCountChange}
         />
       )}
     </div>
@@ -679,6 +939,15 @@ function getReverseAction(
           newActivity: action.payload.oldActivity,
         },
       };
+    case "REORDER_DAY":
+      return {
+        type: "REORDER_DAY",
+        payload: {
+          dayNumber: action.payload.dayNumber,
+          activities: action.payload.previousActivities,
+          previousActivities: action.payload.activities,
+        },
+      };
     default:
       return null;
   }
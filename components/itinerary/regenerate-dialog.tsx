@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { apiClient } from "@/lib/api-client";
+import { Activity } from "@/lib/itinerary-types";
+import { toast } from "sonner";
+import { Loader2, Sparkles } from "lucide-react";
+
+export type RegenerateTarget =
+  | { scope: "day"; dayNumber: number }
+  | { scope: "activity"; activity: Activity }
+  | { scope: "slot"; dayNumber: number; timeSlot: "morning" | "afternoon" | "evening" };
+
+interface RegenerateDialogProps {
+  tripId: string;
+  target: RegenerateTarget | null;
+  onClose: () => void;
+  onRegenerated: () => void;
+}
+
+function describe(target: RegenerateTarget) {
+  switch (target.scope) {
+    case "day":
+      return {
+        title: `Regenerate day ${target.dayNumber}`,
+        description:
+          "Replaces this day's AI-planned activities. Activities you locked, edited, added or booked stay where they are.",
+        placeholder: "e.g. more time outdoors, fewer museums",
+        action: "Regenerate day",
+      };
+    case "activity":
+      return {
+        title: `Replace "${target.activity.name}"`,
+        description: "Swaps this activity for a new suggestion in the same time slot.",
+        placeholder: "e.g. something outdoors",
+        action: "Replace activity",
+      };
+    case "slot":
+      return {
+        title: `Fill the ${target.timeSlot} of day ${target.dayNumber}`,
+        description: "Adds one suggested activity to this time slot.",
+        placeholder: "e.g. a relaxed dinner with a view",
+        action: "Add suggestion",
+      };
+  }
+}
+
+export function RegenerateDialog({ tripId, target, onClose, onRegenerated }: RegenerateDialogProps) {
+  const [instructions, setInstructions] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (target) setInstructions("");
+  }, [target]);
+
+  if (!target) return null;
+
+  const copy = describe(target);
+
+  const handleSubmit = async () => {
+    setIsWorking(true);
+    const trimmed = instructions.trim() || undefined;
+
+    try {
+      await apiClient.regenerateItinerary(
+        tripId,
+        target.scope === "activity"
+          ? { scope: "activity", activityId: target.activity.id, instructions: trimmed }
+          : target.scope === "slot"
+          ? { scope: "slot", dayNumber: target.dayNumber, timeSlot: target.timeSlot, instructions: trimmed }
+          : { scope: "day", dayNumber: target.dayNumber, instructions: trimmed }
+      );
+      toast.success(target.scope === "day" ? "Day regenerated" : "Itinerary updated");
+      onRegenerated();
+      onClose();
+    } catch (error) {
+      console.error("Failed to regenerate:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to regenerate");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isWorking && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="regenerate-instructions">What would you like instead? (optional)</Label>
+          <Textarea
+            id="regenerate-instructions"
+            value={instructions}
+            onChange={(event) => setInstructions(event.target.value)}
+            placeholder={copy.placeholder}
+            maxLength={300}
+            disabled={isWorking}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isWorking}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isWorking}>
+            {isWorking ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="h-4 w-4 mr-2" />
+            )}
+            {copy.action}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default RegenerateDialog;
@@ -0,0 +1,68 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { RouteOptimization } from "@/lib/route-optimizer";
+import { ArrowRight, Route } from "lucide-react";
+
+interface RoutePreviewDialogProps {
+  optimization: RouteOptimization | null;
+  onClose: () => void;
+  onApply: (optimization: RouteOptimization) => void;
+}
+
+export function RoutePreviewDialog({ optimization, onClose, onApply }: RoutePreviewDialogProps) {
+  if (!optimization) return null;
+
+  const { dayNumber, changes, distanceBeforeKm, distanceAfterKm } = optimization;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Optimise day {dayNumber}</DialogTitle>
+          <DialogDescription>
+            Cuts the distance between activities from {distanceBeforeKm} km to {distanceAfterKm} km.
+            Activities stay in their time slot; locked and booked ones don&apos;t move.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+          {changes.map((change) => (
+            <li key={change.activityId} className="flex items-center justify-between gap-3 py-2">
+              <span className="font-medium text-gray-900 dark:text-gray-100 truncate">{change.name}</span>
+              <span className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400 flex-shrink-0">
+                <span className="line-through">
+                  #{change.fromIndex + 1} · {change.fromTime}
+                </span>
+                <ArrowRight className="h-3 w-3" />
+                <span className="text-emerald-700 dark:text-emerald-400">
+                  #{change.toIndex + 1} · {change.toTime}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Keep current order
+          </Button>
+          <Button onClick={() => onApply(optimization)}>
+            <Route className="h-4 w-4 mr-2" />
+            Apply new order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default RoutePreviewDialog;
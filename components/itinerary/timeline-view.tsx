@@ -1,9 +1,10 @@
 "use client"
 
-import { useState } from 'react'
+import { Fragment, useState } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Day, Activity, TimelineConfig } from '@/lib/itinerary-types'
+import type { LegMode, TravelLeg } from '@/lib/schedule-validation'
 import { getActivityIcon, getActivityColor } from '@/lib/itinerary-types'
 import { formatCurrency } from '@/lib/utils'
 import {
@@ -11,10 +12,47 @@ import {
   DollarSign,
   ChevronRight,
   Calendar,
-  Activity as ActivityIcon
+  Activity as ActivityIcon,
+  AlertTriangle,
+  Footprints,
+  Car,
+  Bike,
+  TrainFront
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 
+const LEG_MODES: Record<LegMode, { icon: typeof Car; label: string }> = {
+  walking: { icon: Footprints, label: 'walk' },
+  driving: { icon: Car, label: 'drive' },
+  cycling: { icon: Bike, label: 'cycle' },
+  transit: { icon: TrainFront, label: 'by transit' }
+}
+
+function TravelBlock({ leg }: { leg: TravelLeg }) {
+  const { icon: Icon, label } = LEG_MODES[leg.mode]
+
+  return (
+    <div
+      className={`ml-24 flex items-center gap-2 text-xs px-3 py-1.5 rounded-md border border-dashed ${
+        leg.feasible
+          ? 'text-gray-500 border-gray-200 bg-gray-50'
+          : 'text-red-700 border-red-200 bg-red-50'
+      }`}
+    >
+      <Icon className="h-3.5 w-3.5 flex-shrink-0" />
+      <span>
+        {leg.estimated ? '~' : ''}{leg.durationMinutes} min {label} · {leg.distanceKm} km
+      </span>
+      {!leg.feasible && leg.gapMinutes !== null && (
+        <span className="flex items-center gap-1 font-medium">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          {leg.gapMinutes < 0 ? 'Activities overlap' : `Only ${leg.gapMinutes} min planned`}
+        </span>
+      )}
+    </div>
+  )
+}
+
 interface TimelineViewProps {
   days: Day[]
   config: TimelineConfig
@@ -148,87 +186,102 @@ export function TimelineView({
                 ) : (
                   <div className="space-y-3 p-4">
                     {/* Simplified Timeline */}
-                    {filteredActivities.map((activity, index) => (
-                      <motion.div
-                        key={activity.id}
-                        layout
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.1 }}
-                        className="flex gap-4 p-4 bg-white rounded-lg border border-gray-200 hover:shadow-md transition-all duration-200 cursor-pointer group"
-                        onMouseEnter={() => setHoveredActivity(activity.id)}
-                        onMouseLeave={() => setHoveredActivity(null)}
-                        onClick={() => onActivitySelect(activity)}
-                      >
-                        {/* Time */}
-                        <div className="flex-shrink-0 w-20 text-center">
-                          <div className="text-sm font-medium text-gray-900">
-                            {formatTime(activity.startTime)}
-                          </div>
-                          <div className="text-xs text-gray-500">
-                            {formatTime(activity.endTime)}
-                          </div>
-                        </div>
-
-                        {/* Timeline connector */}
-                        <div className="flex-shrink-0 flex flex-col items-center">
-                          <div 
-                            className="w-3 h-3 rounded-full"
-                            style={{
-                              backgroundColor: getActivityColor(activity.type).includes('red') ? '#EF4444' :
-                                             getActivityColor(activity.type).includes('amber') ? '#F59E0B' :
-                                             getActivityColor(activity.type).includes('emerald') ? '#10B981' :
-                                             getActivityColor(activity.type).includes('blue') ? '#3B82F6' :
-                                             getActivityColor(activity.type).includes('purple') ? '#8B5CF6' :
-                                             '#6B7280'
-                            }}
-                          />
-                          {index < filteredActivities.length - 1 && (
-                            <div className="w-0.5 h-8 bg-gray-200 mt-2" />
-                          )}
-                        </div>
-
-                        {/* Activity content */}
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-start justify-between gap-2 mb-2">
-                            <div className="flex items-center gap-2">
-                              <div className="text-lg flex-shrink-0">
-                                {getActivityIcon(activity.type)}
+                    {filteredActivities.map((activity, index) => {
+                      const leg = index > 0
+                        ? day.travelLegs?.find(travel =>
+                          travel.fromActivityId === filteredActivities[index - 1].id &&
+                          travel.toActivityId === activity.id)
+                        : undefined
+
+                      return (
+                        <Fragment key={activity.id}>
+                          {leg && <TravelBlock leg={leg} />}
+                          <motion.div
+                            layout
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: index * 0.1 }}
+                            className="flex gap-4 p-4 bg-white rounded-lg border border-gray-200 hover:shadow-md transition-all duration-200 cursor-pointer group"
+                            onMouseEnter={() => setHoveredActivity(activity.id)}
+                            onMouseLeave={() => setHoveredActivity(null)}
+                            onClick={() => onActivitySelect(activity)}
+                          >
+                            {/* Time */}
+                            <div className="flex-shrink-0 w-20 text-center">
+                              <div className="text-sm font-medium text-gray-900">
+                                {formatTime(activity.startTime)}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {formatTime(activity.endTime)}
                               </div>
-                              <h4 className="font-medium text-gray-900 truncate">
-                                {activity.name}
-                              </h4>
                             </div>
-                            <Badge className={`text-xs ${getActivityColor(activity.type)} flex-shrink-0`}>
-                              {activity.type}
-                            </Badge>
-                          </div>
-                          
-                          <div className="text-sm text-gray-600 space-y-1">
-                            <div className="flex items-center gap-1">
-                              <MapPin className="h-4 w-4" />
-                              <span className="truncate">{activity.location.name}</span>
+
+                            {/* Timeline connector */}
+                            <div className="flex-shrink-0 flex flex-col items-center">
+                              <div 
+                                className="w-3 h-3 rounded-full"
+                                style={{
+                                  backgroundColor: getActivityColor(activity.type).includes('red') ? '#EF4444' :
+                                                 getActivityColor(activity.type).includes('amber') ? '#F59E0B' :
+                                                 getActivityColor(activity.type).includes('emerald') ? '#10B981' :
+                                                 getActivityColor(activity.type).includes('blue') ? '#3B82F6' :
+                                                 getActivityColor(activity.type).includes('purple') ? '#8B5CF6' :
+                                                 '#6B7280'
+                                }}
+                              />
+                              {index < filteredActivities.length - 1 && (
+                                <div className="w-0.5 h-8 bg-gray-200 mt-2" />
+                              )}
                             </div>
-                            {activity.pricing && activity.pricing.amount > 0 && (
-                              <div className="flex items-center gap-1">
-                                <DollarSign className="h-4 w-4" />
-                                <span>{formatCurrency(activity.pricing.amount, activity.pricing.currency)}</span>
+
+                            {/* Activity content */}
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-start justify-between gap-2 mb-2">
+                                <div className="flex items-center gap-2">
+                                  <div className="text-lg flex-shrink-0">
+                                    {getActivityIcon(activity.type)}
+                                  </div>
+                                  <h4 className="font-medium text-gray-900 truncate">
+                                    {activity.name}
+                                  </h4>
+                                </div>
+                                <Badge className={`text-xs ${getActivityColor(activity.type)} flex-shrink-0`}>
+                                  {activity.type}
+                                </Badge>
                               </div>
-                            )}
-                            {activity.description && (
-                              <p className="text-xs text-gray-500 mt-1 line-clamp-2">
-                                {activity.description}
-                              </p>
-                            )}
-                          </div>
-                        </div>
-
-                        {/* Arrow indicator */}
-                        <div className="flex-shrink-0 self-center">
-                          <ChevronRight className="h-4 w-4 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity" />
-                        </div>
-                      </motion.div>
-                    ))}
+                          
+                              <div className="text-sm text-gray-600 space-y-1">
+                                <div className="flex items-center gap-1">
+                                  <MapPin className="h-4 w-4" />
+                                  <span className="truncate">{activity.location.name}</span>
+                                </div>
+                                {activity.pricing && activity.pricing.amount > 0 && (
+                                  <div className="flex items-center gap-1">
+                                    <DollarSign className="h-4 w-4" />
+                                    <span>
+                                      {formatCurrency(
+                                        activity.convertedPrice?.amount ?? activity.pricing.amount,
+                                        activity.convertedPrice?.currency ?? activity.pricing.currency
+                                      )}
+                                    </span>
+                                  </div>
+                                )}
+                                {activity.description && (
+                                  <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+                                    {activity.description}
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+
+                            {/* Arrow indicator */}
+                            <div className="flex-shrink-0 self-center">
+                              <ChevronRight className="h-4 w-4 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity" />
+                            </div>
+                          </motion.div>
+                        </Fragment>
+                      )
+                    })}
                   </div>
                 )}
               </CardContent>
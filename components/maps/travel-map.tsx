@@ -18,6 +18,7 @@ import 'mapbox-gl/dist/mapbox-gl.css'
 interface TravelMapProps {
   days: Day[]
   destinationCoords?: { lat: number; lng: number } // Add trip destination coordinates
+  legs?: Array<{ destination: string; coordinates?: { lat: number; lng: number } | null }> // Stops of a multi-city trip, in order
   selectedDay?: number
   onActivitySelect?: (activity: Activity) => void
   onDaySelect?: (dayNumber: number) => void
@@ -38,6 +39,7 @@ interface TravelMapProps {
 export function TravelMap({
   days,
   destinationCoords,
+  legs,
   selectedDay,
   onActivitySelect,
   onDaySelect,
@@ -57,6 +59,7 @@ export function TravelMap({
   const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<mapboxgl.Map | null>(null)
   const markers = useRef<mapboxgl.Marker[]>([])
+  const legMarkers = useRef<mapboxgl.Marker[]>([])
   const [selectedActivity, setSelectedActivity] = useState<Activity | null>(null)
   const [popupPosition, setPopupPosition] = useState<{ x: number; y: number } | null>(null)
   const [currentZoom, setCurrentZoom] = useState(MAPBOX_CONFIG.DEFAULT_ZOOM)
@@ -79,7 +82,8 @@ export function TravelMap({
   // Initialize offline storage
   useEffect(() => {
     if (enableOfflineMode && offlineStorage.isOfflineSupported()) {
-      offlineStorage.initialize().catch(error => {
+      // The service worker adds every tile the map loads, so keep the store within its limits
+      offlineStorage.initialize().then(() => offlineStorage.cleanup()).catch(error => {
         console.warn('Failed to initialize offline storage:', error)
       })
     }
@@ -656,6 +660,65 @@ export function TravelMap({
     })
   }, [days, selectedDay, showRoutes, transportMode])
 
+  // Draw the overall route between the stops of a multi-city trip
+  const addLegRoute = useCallback(() => {
+    if (!map.current) return
+
+    if (map.current.getLayer('trip-legs-route')) {
+      map.current.removeLayer('trip-legs-route')
+    }
+    if (map.current.getSource('trip-legs-route')) {
+      map.current.removeSource('trip-legs-route')
+    }
+    legMarkers.current.forEach(marker => marker.remove())
+    legMarkers.current = []
+
+    const stops = (legs ?? []).filter(leg => leg.coordinates)
+    // Only shown on the whole-trip view; a selected day shows that day's routes
+    if (stops.length < 2 || selectedDay !== undefined) return
+
+    map.current.addSource('trip-legs-route', {
+      type: 'geojson',
+      data: {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+          type: 'LineString',
+          coordinates: stops.map(stop => [stop.coordinates!.lng, stop.coordinates!.lat])
+        }
+      }
+    })
+
+    map.current.addLayer({
+      id: 'trip-legs-route',
+      type: 'line',
+      source: 'trip-legs-route',
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round'
+      },
+      paint: {
+        'line-color': '#6b7280',
+        'line-width': 3,
+        'line-opacity': 0.7,
+        'line-dasharray': [2, 2]
+      }
+    })
+
+    stops.forEach((stop, index) => {
+      const el = document.createElement('div')
+      el.className = 'flex items-center justify-center w-7 h-7 rounded-full bg-gray-900 text-white text-xs font-semibold shadow-md border-2 border-white'
+      el.textContent = String(index + 1)
+      el.title = stop.destination
+
+      legMarkers.current.push(
+        new mapboxgl.Marker(el)
+          .setLngLat([stop.coordinates!.lng, stop.coordinates!.lat])
+          .addTo(map.current!)
+      )
+    })
+  }, [legs, selectedDay])
+
   // Update markers when days or selectedDay changes
   useEffect(() => {
     if (!isMapLoaded) return
@@ -674,6 +737,12 @@ export function TravelMap({
     }
   }, [addRoutes, isMapLoaded])
 
+  useEffect(() => {
+    if (isMapLoaded) {
+      addLegRoute()
+    }
+  }, [addLegRoute, isMapLoaded])
+
   // Handle map style changes
   useEffect(() => {
     if (map.current) {
@@ -0,0 +1,25 @@
+"use client";
+
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePWAUpdate } from "@/lib/pwa-utils";
+
+// Importing pwa-utils registers the service worker; this offers its updates
+export function PWAUpdatePrompt() {
+  const { updateAvailable, update } = usePWAUpdate();
+
+  if (!updateAvailable) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-lg border bg-white px-4 py-3 text-sm shadow-lg"
+    >
+      <span className="text-gray-700">A new version of Terra Voyage is ready.</span>
+      <Button size="sm" onClick={update}>
+        <RefreshCw className="mr-1 h-4 w-4" />
+        Reload
+      </Button>
+    </div>
+  );
+}
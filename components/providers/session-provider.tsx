@@ -2,6 +2,7 @@
 
 import { SessionProvider } from "next-auth/react";
 import { ThemeSync } from "./theme-provider";
+import { PWAUpdatePrompt } from "./pwa-provider";
 
 interface ProvidersProps {
   children: React.ReactNode;
@@ -19,6 +20,7 @@ export function Providers({ children }: ProvidersProps) {
     >
       <ThemeSync />
       {children}
+      <PWAUpdatePrompt />
     </SessionProvider>
   );
 }
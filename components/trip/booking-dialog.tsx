@@ -0,0 +1,313 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { apiClient } from '@/lib/api-client'
+import { SUPPORTED_CURRENCIES } from '@/lib/budget-calculator'
+import { toast } from 'sonner'
+import { Loader2, Plus, X } from 'lucide-react'
+
+export type BookingStatusValue = 'NOT_BOOKED' | 'PENDING' | 'CONFIRMED' | 'CANCELLED'
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatusValue, string> = {
+  NOT_BOOKED: 'Not booked',
+  PENDING: 'Pending',
+  CONFIRMED: 'Confirmed',
+  CANCELLED: 'Cancelled',
+}
+
+export interface BookingEntry {
+  activity: {
+    id: string
+    name: string
+    startTime: string | null
+    bookingRequired: boolean
+    bookingStatus: BookingStatusValue
+    bookingUrl: string | null
+    day: { dayNumber: number; date: string } | null
+  }
+  booking: {
+    status: BookingStatusValue
+    provider: string | null
+    confirmationNumber: string | null
+    amountPaid: number | null
+    currency: string | null
+    cancellationDeadline: string | null
+    documents: { name: string; url: string }[]
+    notes: string | null
+  } | null
+  nextStatuses: BookingStatusValue[]
+}
+
+interface BookingDialogProps {
+  tripId: string
+  open: boolean
+  entry: BookingEntry | null
+  defaultCurrency: string
+  onOpenChange: (open: boolean) => void
+  onSaved: (entry: BookingEntry) => void
+}
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(iso: string | null) {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export function BookingDialog({ tripId, open, entry, defaultCurrency, onOpenChange, onSaved }: BookingDialogProps) {
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<BookingStatusValue>('PENDING')
+  const [provider, setProvider] = useState('')
+  const [confirmationNumber, setConfirmationNumber] = useState('')
+  const [amountPaid, setAmountPaid] = useState('')
+  const [currency, setCurrency] = useState(defaultCurrency)
+  const [deadline, setDeadline] = useState('')
+  const [bookingUrl, setBookingUrl] = useState('')
+  const [documents, setDocuments] = useState<{ name: string; url: string }[]>([])
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    if (!open || !entry) return
+
+    const booking = entry.booking
+    setStatus(booking?.status ?? 'PENDING')
+    setProvider(booking?.provider ?? '')
+    setConfirmationNumber(booking?.confirmationNumber ?? '')
+    setAmountPaid(booking?.amountPaid != null ? String(booking.amountPaid) : '')
+    setCurrency(booking?.currency ?? defaultCurrency)
+    setDeadline(toLocalInput(booking?.cancellationDeadline ?? null))
+    setBookingUrl(entry.activity.bookingUrl ?? '')
+    setDocuments(booking?.documents ?? [])
+    setNotes(booking?.notes ?? '')
+  }, [open, entry, defaultCurrency])
+
+  if (!entry) return null
+
+  const current = entry.booking?.status
+  const statusOptions = [...(current ? [current] : []), ...entry.nextStatuses]
+    .filter((option): option is Exclude<BookingStatusValue, 'NOT_BOOKED'> => option !== 'NOT_BOOKED')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const paid = amountPaid.trim() === '' ? null : Number(amountPaid)
+    if (paid !== null && !(paid >= 0)) {
+      toast.error('Enter the amount paid as a number')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const saved = await apiClient.saveBooking(tripId, entry.activity.id, {
+        status: status === 'NOT_BOOKED' ? undefined : status,
+        provider: provider.trim() || null,
+        confirmationNumber: confirmationNumber.trim() || null,
+        amountPaid: paid,
+        currency: paid !== null ? currency : null,
+        cancellationDeadline: deadline ? new Date(deadline).toISOString() : null,
+        documents: documents.filter((document) => document.url.trim()).map((document) => ({
+          name: document.name.trim() || 'Document',
+          url: document.url.trim(),
+        })),
+        notes: notes.trim() || null,
+        bookingUrl: bookingUrl.trim() || null,
+      }) as BookingEntry
+      toast.success('Booking saved')
+      onOpenChange(false)
+      onSaved(saved)
+    } catch (error) {
+      console.error('Failed to save booking:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save booking')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateDocument = (index: number, field: 'name' | 'url', value: string) => {
+    setDocuments(documents.map((document, i) => (i === index ? { ...document, [field]: value } : document)))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry.booking ? 'Edit booking' : 'Record booking'}</DialogTitle>
+          <DialogDescription>{entry.activity.name}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as BookingStatusValue)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statusOptions.map((option) => (
+                    <SelectItem key={option} value={option}>{BOOKING_STATUS_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="booking-provider">Provider</Label>
+              <Input
+                id="booking-provider"
+                value={provider}
+                onChange={(e) => setProvider(e.target.value)}
+                maxLength={120}
+                placeholder="Hotel, airline, tour operator…"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="booking-confirmation">Confirmation number</Label>
+            <Input
+              id="booking-confirmation"
+              value={confirmationNumber}
+              onChange={(e) => setConfirmationNumber(e.target.value)}
+              maxLength={120}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="booking-paid">Paid</Label>
+              <Input
+                id="booking-paid"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amountPaid}
+                onChange={(e) => setAmountPaid(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="booking-deadline">Free cancellation until</Label>
+            <Input
+              id="booking-deadline"
+              type="datetime-local"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="booking-url">Booking link</Label>
+            <Input
+              id="booking-url"
+              type="url"
+              value={bookingUrl}
+              onChange={(e) => setBookingUrl(e.target.value)}
+              placeholder="https://"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Documents</Label>
+              {documents.length < 10 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDocuments([...documents, { name: '', url: '' }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add link
+                </Button>
+              )}
+            </div>
+            {documents.map((document, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={document.name}
+                  onChange={(e) => updateDocument(index, 'name', e.target.value)}
+                  placeholder="Ticket"
+                  maxLength={120}
+                  className="w-1/3"
+                  aria-label="Document name"
+                />
+                <Input
+                  type="url"
+                  value={document.url}
+                  onChange={(e) => updateDocument(index, 'url', e.target.value)}
+                  placeholder="https://"
+                  aria-label="Document link"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDocuments(documents.filter((_, i) => i !== index))}
+                  aria-label="Remove document"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="booking-notes">Notes</Label>
+            <Textarea
+              id="booking-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={2000}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save booking
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default BookingDialog
@@ -0,0 +1,203 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { apiClient } from '@/lib/api-client'
+import { formatCurrency } from '@/lib/utils'
+import { toast } from 'sonner'
+import { Ticket, Pencil, Trash2, Clock, FileText, ExternalLink, CircleAlert } from 'lucide-react'
+import { BookingDialog, BookingEntry, BookingStatusValue, BOOKING_STATUS_LABELS } from './booking-dialog'
+
+interface BookingLedgerResponse {
+  entries: BookingEntry[]
+  needsBooking: string[]
+  upcomingDeadlines: { activityId: string; name: string; deadline: string }[]
+  paid: Record<string, number>
+  canManage: boolean
+}
+
+interface BookingLedgerProps {
+  tripId: string
+  defaultCurrency: string
+  // Keeps the itinerary's booked markers in step
+  onStatusChange?: (activityId: string, status: BookingStatusValue) => void
+  className?: string
+}
+
+const STATUS_STYLES: Record<BookingStatusValue, string> = {
+  NOT_BOOKED: 'bg-gray-100 text-gray-700',
+  PENDING: 'bg-amber-100 text-amber-800',
+  CONFIRMED: 'bg-emerald-100 text-emerald-800',
+  CANCELLED: 'bg-red-100 text-red-700',
+}
+
+/**
+ * Reservations for the trip's activities: what still needs booking,
+ * confirmation details, what was paid and when free cancellation ends
+ */
+export function BookingLedger({ tripId, defaultCurrency, onStatusChange, className }: BookingLedgerProps) {
+  const [data, setData] = useState<BookingLedgerResponse | null>(null)
+  const [editing, setEditing] = useState<BookingEntry | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [removing, setRemoving] = useState<string | null>(null)
+
+  const loadBookings = useCallback(async () => {
+    try {
+      const response = await apiClient.getBookings(tripId) as BookingLedgerResponse
+      setData(response)
+    } catch (error) {
+      console.error('Failed to load bookings:', error)
+    }
+  }, [tripId])
+
+  useEffect(() => {
+    loadBookings()
+  }, [loadBookings])
+
+  const openDialog = (entry: BookingEntry) => {
+    setEditing(entry)
+    setDialogOpen(true)
+  }
+
+  const handleSaved = (entry: BookingEntry) => {
+    onStatusChange?.(entry.activity.id, entry.activity.bookingStatus)
+    loadBookings()
+  }
+
+  const handleRemove = async (entry: BookingEntry) => {
+    setRemoving(entry.activity.id)
+    try {
+      await apiClient.deleteBooking(tripId, entry.activity.id)
+      toast.success('Booking removed')
+      onStatusChange?.(entry.activity.id, 'NOT_BOOKED')
+      await loadBookings()
+    } catch (error) {
+      console.error('Failed to remove booking:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to remove booking')
+    } finally {
+      setRemoving(null)
+    }
+  }
+
+  if (!data || data.entries.length === 0) {
+    return null
+  }
+
+  const paidTotals = Object.entries(data.paid)
+  const soon = Date.now() + 48 * 60 * 60 * 1000
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Ticket className="h-5 w-5 text-indigo-600" />
+          Bookings
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {data.needsBooking.length > 0
+            ? `${data.needsBooking.length} still to book`
+            : 'Everything that needs booking is booked'}
+          {paidTotals.length > 0 && ` · ${paidTotals.map(([currency, amount]) => formatCurrency(amount, currency)).join(' + ')} paid`}
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {data.upcomingDeadlines.filter((item) => new Date(item.deadline).getTime() <= soon).map((item) => (
+          <div key={item.activityId} className="flex items-center gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            <Clock className="h-4 w-4 flex-shrink-0" />
+            Free cancellation for {item.name} ends {new Date(item.deadline).toLocaleString()}
+          </div>
+        ))}
+
+        <ul className="divide-y divide-gray-100 text-sm">
+          {data.entries.map((entry) => {
+            const { activity, booking } = entry
+            const needsBooking = data.needsBooking.includes(activity.id)
+
+            return (
+              <li key={activity.id} className="flex items-start justify-between gap-3 py-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    {needsBooking && <CircleAlert className="h-4 w-4 text-red-500 flex-shrink-0" aria-label="Needs booking" />}
+                    <p className="font-medium text-gray-900 truncate">{activity.name}</p>
+                    <Badge variant="secondary" className={STATUS_STYLES[activity.bookingStatus]}>
+                      {BOOKING_STATUS_LABELS[activity.bookingStatus]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {activity.day ? `Day ${activity.day.dayNumber}` : 'Unscheduled'}
+                    {activity.startTime && ` · ${activity.startTime}`}
+                    {booking?.provider && ` · ${booking.provider}`}
+                    {booking?.confirmationNumber && ` · #${booking.confirmationNumber}`}
+                    {booking?.amountPaid != null && ` · ${formatCurrency(booking.amountPaid, booking.currency || defaultCurrency)} paid`}
+                  </p>
+                  {booking?.cancellationDeadline && booking.status !== 'CANCELLED' && (
+                    <p className="text-xs text-gray-500">
+                      Free cancellation until {new Date(booking.cancellationDeadline).toLocaleString()}
+                    </p>
+                  )}
+                  {(booking?.documents.length || activity.bookingUrl) && (
+                    <div className="flex flex-wrap gap-3 text-xs">
+                      {activity.bookingUrl && (
+                        <a href={activity.bookingUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-blue-600 hover:underline">
+                          <ExternalLink className="h-3 w-3" />
+                          Booking page
+                        </a>
+                      )}
+                      {booking?.documents.map((document, index) => (
+                        <a key={index} href={document.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-blue-600 hover:underline">
+                          <FileText className="h-3 w-3" />
+                          {document.name}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {booking?.notes && <p className="text-xs text-gray-400">{booking.notes}</p>}
+                </div>
+
+                {data.canManage && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {booking ? (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(entry)} aria-label="Edit booking">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={removing === activity.id}
+                          onClick={() => handleRemove(entry)}
+                          aria-label="Remove booking"
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => openDialog(entry)}>
+                        Record booking
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </CardContent>
+
+      <BookingDialog
+        tripId={tripId}
+        open={dialogOpen}
+        entry={editing}
+        defaultCurrency={defaultCurrency}
+        onOpenChange={setDialogOpen}
+        onSaved={handleSaved}
+      />
+    </Card>
+  )
+}
+
+export default BookingLedger
@@ -0,0 +1,319 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { apiClient } from '@/lib/api-client'
+import { useSession } from 'next-auth/react'
+import { toast } from 'sonner'
+import { Users, Loader2, Mail, Trash2, Copy, LogOut } from 'lucide-react'
+
+type MemberRole = 'OWNER' | 'ADMIN' | 'EDITOR' | 'VIEWER'
+type AssignableRole = Exclude<MemberRole, 'OWNER'>
+
+interface TripMember {
+  userId: string
+  name: string | null
+  email: string
+  role: MemberRole
+}
+
+interface PendingInvitation {
+  id: string
+  email: string
+  role: MemberRole
+  expiresAt: string
+}
+
+interface MembersResponse {
+  members: TripMember[]
+  invitations: PendingInvitation[]
+  role: MemberRole
+  canManageMembers: boolean
+}
+
+interface CollaboratorsDialogProps {
+  tripId: string
+  className?: string
+}
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  EDITOR: 'Editor',
+  VIEWER: 'Viewer',
+}
+
+export function CollaboratorsDialog({ tripId, className }: CollaboratorsDialogProps) {
+  const { data: session } = useSession()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [data, setData] = useState<MembersResponse | null>(null)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<AssignableRole>('EDITOR')
+  const [lastInviteUrl, setLastInviteUrl] = useState<string | null>(null)
+
+  const currentUserId = session?.user?.id
+  // Only the owner can hand out or manage the admin role
+  const assignableRoles: AssignableRole[] = data?.role === 'OWNER'
+    ? ['ADMIN', 'EDITOR', 'VIEWER']
+    : ['EDITOR', 'VIEWER']
+
+  const loadMembers = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await apiClient.getCollaborators(tripId) as MembersResponse
+      setData(response)
+    } catch (error) {
+      console.error('Failed to load members:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load members')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tripId])
+
+  useEffect(() => {
+    if (isOpen) {
+      loadMembers()
+    }
+  }, [isOpen, loadMembers])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    try {
+      const response = await apiClient.inviteCollaborator(tripId, { email, role }) as {
+        inviteUrl: string
+        emailSent: boolean
+      }
+      setLastInviteUrl(response.inviteUrl)
+      setEmail('')
+      toast.success(response.emailSent ? `Invitation sent to ${email}` : 'Invitation created. Share the link below.')
+      await loadMembers()
+    } catch (error) {
+      console.error('Failed to invite member:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to invite member')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRoleChange = async (member: TripMember, newRole: AssignableRole) => {
+    try {
+      await apiClient.updateCollaboratorRole(tripId, member.userId, newRole)
+      toast.success(`${member.name || member.email} is now ${ROLE_LABELS[newRole].toLowerCase()}`)
+      await loadMembers()
+    } catch (error) {
+      console.error('Failed to change role:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to change role')
+    }
+  }
+
+  const handleRemove = async (member: TripMember) => {
+    const isSelf = member.userId === currentUserId
+    try {
+      await apiClient.removeCollaborator(tripId, member.userId)
+      if (isSelf) {
+        toast.success('You left the trip')
+        window.location.href = '/trips'
+        return
+      }
+      toast.success(`${member.name || member.email} was removed`)
+      await loadMembers()
+    } catch (error) {
+      console.error('Failed to remove member:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to remove member')
+    }
+  }
+
+  const handleRevokeInvitation = async (invitation: PendingInvitation) => {
+    try {
+      await apiClient.revokeInvitation(tripId, invitation.id)
+      toast.success(`Invitation for ${invitation.email} revoked`)
+      await loadMembers()
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke invitation')
+    }
+  }
+
+  const handleCopyInvite = async () => {
+    if (!lastInviteUrl) return
+    await navigator.clipboard.writeText(lastInviteUrl)
+    toast.success('Invitation link copied')
+  }
+
+  const canManageMember = (member: TripMember) =>
+    data?.canManageMembers &&
+    member.role !== 'OWNER' &&
+    member.userId !== currentUserId &&
+    (member.role !== 'ADMIN' || data.role === 'OWNER')
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={`flex items-center gap-2 ${className || ''}`}>
+          <Users className="h-4 w-4" />
+          Members
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trip Members</DialogTitle>
+          <DialogDescription>
+            Editors can change the itinerary, viewers can only look at it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !data && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {data && (
+          <div className="space-y-3">
+            {data.members.map((member) => (
+              <div key={member.userId} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {member.name || member.email}
+                    {member.userId === currentUserId && ' (you)'}
+                  </p>
+                  {member.name && (
+                    <p className="text-xs text-gray-500 truncate">{member.email}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {canManageMember(member) ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member, value as AssignableRole)}
+                      >
+                        <SelectTrigger className="h-8 w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableRoles.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {ROLE_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemove(member)}
+                        aria-label={`Remove ${member.email}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-gray-600">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {member.userId === currentUserId && member.role !== 'OWNER' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(member)}
+                      aria-label="Leave trip"
+                    >
+                      <LogOut className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {data.invitations.length > 0 && (
+              <div className="pt-2 border-t space-y-2">
+                <p className="text-xs font-medium text-gray-500 uppercase">Pending invitations</p>
+                {data.invitations.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{invitation.email}</p>
+                      <p className="text-xs text-gray-500">
+                        {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRevokeInvitation(invitation)}
+                      aria-label={`Revoke invitation for ${invitation.email}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {data?.canManageMembers && (
+          <form onSubmit={handleInvite} className="space-y-3 pt-2 border-t">
+            <Label htmlFor="invite-email">Invite by email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="invite-email"
+                type="email"
+                required
+                value={email}
+                placeholder="friend@example.com"
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <Select value={role} onValueChange={(value) => setRole(value as AssignableRole)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {ROLE_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={isLoading || !email} className="w-full">
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+              ) : (
+                <Mail className="h-4 w-4 mr-1.5" />
+              )}
+              Send Invitation
+            </Button>
+            {lastInviteUrl && (
+              <div className="flex gap-2">
+                <Input value={lastInviteUrl} readOnly className="text-sm" />
+                <Button type="button" variant="outline" size="icon" onClick={handleCopyInvite} aria-label="Copy invitation link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,338 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { apiClient } from '@/lib/api-client'
+import { toast } from 'sonner'
+import { MessageSquare, Loader2, Reply, Pencil, Trash2 } from 'lucide-react'
+
+interface CommentAuthor {
+  id: string
+  name: string | null
+  image: string | null
+}
+
+interface CommentNode {
+  id: string
+  content: string
+  activityId: string | null
+  parentId: string | null
+  createdAt: string
+  editedAt: string | null
+  deleted: boolean
+  author: CommentAuthor | null
+  canEdit: boolean
+  canDelete: boolean
+  replies: CommentNode[]
+}
+
+interface CommentsResponse {
+  comments: CommentNode[]
+  canComment: boolean
+}
+
+interface CommentsPanelProps {
+  tripId: string
+  // Limit the thread to one activity; trip-level comments otherwise
+  activityId?: string
+  // Set on public share pages so link holders can read and post
+  shareToken?: string
+  onCountChange?: (count: number) => void
+  className?: string
+}
+
+const MAX_COMMENT_LENGTH = 2000
+// Deeper replies are still shown, just without further indentation
+const MAX_INDENT_DEPTH = 4
+
+function countComments(comments: CommentNode[]): number {
+  return comments.reduce(
+    (total, comment) => total + (comment.deleted ? 0 : 1) + countComments(comment.replies),
+    0
+  )
+}
+
+export function CommentsPanel({
+  tripId,
+  activityId,
+  shareToken,
+  onCountChange,
+  className,
+}: CommentsPanelProps) {
+  const { status } = useSession()
+  const [data, setData] = useState<CommentsResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [replyDraft, setReplyDraft] = useState('')
+  const [editing, setEditing] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState('')
+
+  const isSignedIn = status === 'authenticated'
+
+  const loadComments = useCallback(async () => {
+    try {
+      const response = await apiClient.getComments(tripId, { activityId, shareToken }) as CommentsResponse
+      setData(response)
+      onCountChange?.(countComments(response.comments))
+    } catch (error) {
+      console.error('Failed to load comments:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load comments')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tripId, activityId, shareToken, onCountChange])
+
+  useEffect(() => {
+    loadComments()
+  }, [loadComments])
+
+  const submitComment = async (content: string, parentId?: string) => {
+    setIsSubmitting(true)
+    try {
+      await apiClient.createComment(tripId, {
+        content,
+        activityId,
+        parentId,
+        shareToken,
+      })
+      await loadComments()
+      return true
+    } catch (error) {
+      console.error('Failed to post comment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to post comment')
+      return false
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await submitComment(draft.trim())) {
+      setDraft('')
+    }
+  }
+
+  const handleReply = async (parentId: string) => {
+    if (await submitComment(replyDraft.trim(), parentId)) {
+      setReplyTo(null)
+      setReplyDraft('')
+    }
+  }
+
+  const handleEdit = async (commentId: string) => {
+    setIsSubmitting(true)
+    try {
+      await apiClient.updateComment(tripId, commentId, {
+        content: editDraft.trim(),
+        shareToken,
+      })
+      setEditing(null)
+      await loadComments()
+    } catch (error) {
+      console.error('Failed to edit comment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to edit comment')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async (comment: CommentNode) => {
+    if (!window.confirm('Delete this comment?')) return
+
+    try {
+      await apiClient.deleteComment(tripId, comment.id)
+      toast.success('Comment deleted')
+      await loadComments()
+    } catch (error) {
+      console.error('Failed to delete comment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete comment')
+    }
+  }
+
+  const handleSignIn = () => {
+    const callbackUrl = window.location.pathname + window.location.search
+    window.location.href = `/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`
+  }
+
+  const renderComment = (comment: CommentNode, depth: number) => (
+    <li key={comment.id} className="space-y-2">
+      <div className="rounded-md bg-gray-50 dark:bg-gray-800/50 px-3 py-2">
+        {comment.deleted ? (
+          <p className="text-sm italic text-gray-400">[deleted]</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="font-medium text-gray-800 dark:text-gray-200">
+                {comment.author?.name || 'Traveler'}
+              </span>
+              <span>{new Date(comment.createdAt).toLocaleString()}</span>
+              {comment.editedAt && <span>(edited)</span>}
+            </div>
+
+            {editing === comment.id ? (
+              <div className="mt-2 space-y-2">
+                <Textarea
+                  value={editDraft}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  rows={2}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={isSubmitting || !editDraft.trim()}
+                    onClick={() => handleEdit(comment.id)}
+                  >
+                    Save
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="mt-1 text-sm whitespace-pre-wrap break-words text-gray-700 dark:text-gray-300">
+                {comment.content}
+              </p>
+            )}
+
+            {editing !== comment.id && (
+              <div className="mt-1 flex items-center gap-1">
+                {data?.canComment && isSignedIn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => {
+                      setReplyTo(comment.id)
+                      setReplyDraft('')
+                    }}
+                  >
+                    <Reply className="h-3 w-3 mr-1" />
+                    Reply
+                  </Button>
+                )}
+                {comment.canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => {
+                      setEditing(comment.id)
+                      setEditDraft(comment.content)
+                    }}
+                  >
+                    <Pencil className="h-3 w-3 mr-1" />
+                    Edit
+                  </Button>
+                )}
+                {comment.canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                    onClick={() => handleDelete(comment)}
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {replyTo === comment.id && (
+        <div className="ml-4 space-y-2">
+          <Textarea
+            value={replyDraft}
+            autoFocus
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={2}
+            placeholder="Write a reply..."
+            onChange={(e) => setReplyDraft(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={isSubmitting || !replyDraft.trim()}
+              onClick={() => handleReply(comment.id)}
+            >
+              Reply
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setReplyTo(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul
+          className={`space-y-2 ${
+            depth < MAX_INDENT_DEPTH ? 'ml-4 pl-3 border-l border-gray-200 dark:border-gray-700' : ''
+          }`}
+        >
+          {comment.replies.map((reply) => renderComment(reply, depth + 1))}
+        </ul>
+      )}
+    </li>
+  )
+
+  return (
+    <div className={`space-y-4 ${className || ''}`}>
+      {isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      )}
+
+      {data && data.comments.length === 0 && (
+        <div className="flex flex-col items-center py-4 text-sm text-gray-500">
+          <MessageSquare className="h-6 w-6 mb-2 text-gray-300" />
+          No comments yet.
+        </div>
+      )}
+
+      {data && data.comments.length > 0 && (
+        <ul className="space-y-3">
+          {data.comments.map((comment) => renderComment(comment, 0))}
+        </ul>
+      )}
+
+      {data?.canComment && isSignedIn && (
+        <form onSubmit={handlePost} className="space-y-2">
+          <Textarea
+            value={draft}
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={3}
+            placeholder={activityId ? 'Comment on this activity...' : 'Start a discussion...'}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={isSubmitting || !draft.trim()}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+              Post Comment
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {data?.canComment && status === 'unauthenticated' && (
+        <div className="text-center">
+          <Button variant="outline" size="sm" onClick={handleSignIn}>
+            Sign in to comment
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CommentsPanel
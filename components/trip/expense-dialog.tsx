@@ -0,0 +1,381 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { apiClient } from '@/lib/api-client'
+import { SUPPORTED_CURRENCIES } from '@/lib/budget-calculator'
+import { EXPENSE_CATEGORIES, EXPENSE_CATEGORY_LABELS, ExpenseCategory } from '@/lib/expense-summary'
+import { SplitRule } from '@/lib/expense-splitting'
+import { toast } from 'sonner'
+import { Loader2 } from 'lucide-react'
+
+// Radix selects can't hold an empty value
+const NO_ACTIVITY = 'none'
+
+const SPLIT_LABELS: Record<SplitRule['type'], string> = {
+  equal: 'Equally',
+  shares: 'By shares',
+  exact: 'Exact amounts',
+}
+
+export interface ExpenseRecord {
+  id: string
+  amount: number
+  currency: string
+  category: ExpenseCategory
+  description: string
+  receiptNote: string | null
+  spentAt: string
+  paidBy: { id: string; name: string | null; email: string }
+  activity: { id: string; name: string } | null
+  // Null splits equally between everyone on the trip
+  split: SplitRule | null
+  canEdit: boolean
+}
+
+interface Member {
+  userId: string
+  name: string | null
+  email: string
+}
+
+interface ExpenseDialogProps {
+  tripId: string
+  open: boolean
+  // Edits this expense when given, otherwise logs a new one
+  expense?: ExpenseRecord | null
+  defaultCurrency: string
+  activities: { id: string; name: string; dayNumber: number }[]
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10)
+}
+
+export function ExpenseDialog({
+  tripId,
+  open,
+  expense,
+  defaultCurrency,
+  activities,
+  onOpenChange,
+  onSaved,
+}: ExpenseDialogProps) {
+  const [members, setMembers] = useState<Member[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [currency, setCurrency] = useState(defaultCurrency)
+  const [category, setCategory] = useState<ExpenseCategory>('food')
+  const [description, setDescription] = useState('')
+  const [paidById, setPaidById] = useState<string | undefined>(undefined)
+  const [activityId, setActivityId] = useState(NO_ACTIVITY)
+  const [spentOn, setSpentOn] = useState(today())
+  const [receiptNote, setReceiptNote] = useState('')
+  const [splitType, setSplitType] = useState<SplitRule['type']>('equal')
+  // Null includes every member
+  const [includedIds, setIncludedIds] = useState<string[] | null>(null)
+  const [splitValues, setSplitValues] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (!open) return
+
+    setAmount(expense ? String(expense.amount) : '')
+    setCurrency(expense?.currency ?? defaultCurrency)
+    setCategory(expense?.category ?? 'food')
+    setDescription(expense?.description ?? '')
+    setPaidById(expense?.paidBy.id)
+    setActivityId(expense?.activity?.id ?? NO_ACTIVITY)
+    setSpentOn(expense ? expense.spentAt.slice(0, 10) : today())
+    setReceiptNote(expense?.receiptNote ?? '')
+
+    const split = expense?.split
+    setSplitType(split?.type ?? 'equal')
+    setIncludedIds(split?.type === 'equal' ? split.userIds : null)
+    setSplitValues(
+      split && split.type !== 'equal'
+        ? Object.fromEntries(Object.entries(split.type === 'shares' ? split.shares : split.amounts).map(([id, value]) => [id, String(value)]))
+        : {}
+    )
+
+    apiClient.getCollaborators(tripId)
+      .then((response) => setMembers((response as { members: Member[] }).members))
+      .catch((error) => console.error('Failed to load trip members:', error))
+  }, [open, expense, defaultCurrency, tripId])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const value = Number(amount)
+    if (!(value > 0)) {
+      toast.error('Enter an amount greater than zero')
+      return
+    }
+
+    const isIncluded = (userId: string) => includedIds === null || includedIds.includes(userId)
+    const values = Object.fromEntries(
+      members
+        .map((member) => [member.userId, Number(splitValues[member.userId] || 0)] as const)
+        .filter(([, part]) => part > 0)
+    )
+    const split = members.length === 0
+      ? undefined
+      : splitType === 'equal'
+        ? { type: 'equal' as const, excludedUserIds: members.filter((member) => !isIncluded(member.userId)).map((member) => member.userId) }
+        : splitType === 'shares'
+          ? { type: 'shares' as const, shares: values }
+          : { type: 'exact' as const, amounts: values }
+
+    const payload = {
+      amount: value,
+      currency,
+      category,
+      description: description.trim(),
+      ...(paidById && { paidById }),
+      activityId: activityId === NO_ACTIVITY ? null : activityId,
+      receiptNote: receiptNote.trim() || null,
+      // Noon keeps the day stable across timezones
+      spentAt: new Date(`${spentOn}T12:00:00`).toISOString(),
+      ...(split && { split }),
+    }
+
+    setIsSaving(true)
+    try {
+      if (expense) {
+        await apiClient.updateExpense(tripId, expense.id, payload)
+      } else {
+        await apiClient.createExpense(tripId, payload)
+      }
+      toast.success(expense ? 'Expense updated' : 'Expense logged')
+      onOpenChange(false)
+      onSaved()
+    } catch (error) {
+      console.error('Failed to save expense:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save expense')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleIncluded = (userId: string, included: boolean) => {
+    const current = includedIds ?? members.map((member) => member.userId)
+    setIncludedIds(included ? [...current, userId] : current.filter((id) => id !== userId))
+  }
+
+  const exactRemaining = splitType === 'exact'
+    ? Number(amount || 0) - members.reduce((sum, member) => sum + Number(splitValues[member.userId] || 0), 0)
+    : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{expense ? 'Edit expense' : 'Log expense'}</DialogTitle>
+          <DialogDescription>
+            Record what was actually spent. It is compared against the trip&apos;s planned budget.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="expense-amount">Amount</Label>
+              <Input
+                id="expense-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="expense-description">Description</Label>
+            <Input
+              id="expense-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={200}
+              placeholder="Dinner at the harbour"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as ExpenseCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPENSE_CATEGORIES.map((option) => (
+                    <SelectItem key={option} value={option}>{EXPENSE_CATEGORY_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="expense-date">Date</Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={spentOn}
+                onChange={(e) => setSpentOn(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Paid by</Label>
+              <Select value={paidById} onValueChange={setPaidById}>
+                <SelectTrigger>
+                  <SelectValue placeholder="You" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Activity</Label>
+              <Select value={activityId} onValueChange={setActivityId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACTIVITY}>Not linked</SelectItem>
+                  {activities.map((activity) => (
+                    <SelectItem key={activity.id} value={activity.id}>
+                      Day {activity.dayNumber} · {activity.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {members.length > 1 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Split</Label>
+                <Select value={splitType} onValueChange={(value) => setSplitType(value as SplitRule['type'])}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SPLIT_LABELS) as SplitRule['type'][]).map((type) => (
+                      <SelectItem key={type} value={type}>{SPLIT_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 rounded-md border border-gray-200 p-2">
+                {members.map((member) => (
+                  <div key={member.userId} className="flex items-center justify-between gap-3 text-sm">
+                    {splitType === 'equal' ? (
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={includedIds === null || includedIds.includes(member.userId)}
+                          onChange={(e) => toggleIncluded(member.userId, e.target.checked)}
+                        />
+                        {member.name || member.email}
+                      </label>
+                    ) : (
+                      <>
+                        <span className="truncate">{member.name || member.email}</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step={splitType === 'shares' ? '1' : '0.01'}
+                          className="h-8 w-28"
+                          value={splitValues[member.userId] ?? ''}
+                          onChange={(e) => setSplitValues({ ...splitValues, [member.userId]: e.target.value })}
+                          placeholder="0"
+                          aria-label={`${splitType === 'shares' ? 'Shares' : 'Amount'} for ${member.name || member.email}`}
+                        />
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {splitType === 'exact' && Math.abs(exactRemaining) >= 0.01 && (
+                <p className="text-xs text-amber-700">
+                  {exactRemaining > 0
+                    ? `${exactRemaining.toFixed(2)} ${currency} left to assign`
+                    : `${(-exactRemaining).toFixed(2)} ${currency} more than the amount`}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="expense-receipt">Receipt note</Label>
+            <Textarea
+              id="expense-receipt"
+              value={receiptNote}
+              onChange={(e) => setReceiptNote(e.target.value)}
+              maxLength={1000}
+              rows={2}
+              placeholder="Receipt number, where the receipt is kept…"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {expense ? 'Save changes' : 'Log expense'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ExpenseDialog
@@ -0,0 +1,299 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { apiClient } from '@/lib/api-client'
+import { EXPENSE_CATEGORY_LABELS, ExpenseSummary, SpendLine } from '@/lib/expense-summary'
+import { formatCurrency } from '@/lib/utils'
+import { toast } from 'sonner'
+import { Wallet, Plus, Pencil, Trash2, AlertTriangle, ArrowRight, Download } from 'lucide-react'
+import { ExpenseDialog, ExpenseRecord } from './expense-dialog'
+
+interface ExpensesResponse {
+  expenses: ExpenseRecord[]
+  summary: ExpenseSummary & { rateDate: string; excluded: number }
+  canLog: boolean
+}
+
+interface Settlement {
+  currency: string
+  balances: { userId: string; name: string; paid: number; owed: number; balance: number }[]
+  transfers: { fromUserId: string; toUserId: string; fromName: string; toName: string; amount: number }[]
+}
+
+interface ExpenseTrackerProps {
+  tripId: string
+  activities: { id: string; name: string; dayNumber: number }[]
+  className?: string
+}
+
+const STATUS_COLORS: Record<SpendLine['status'], string> = {
+  ok: 'bg-emerald-500',
+  warning: 'bg-amber-500',
+  over: 'bg-red-500',
+}
+
+function SpendBar({ label, line, currency }: { label: string; line: SpendLine; currency: string }) {
+  const share = line.planned ? Math.min(line.actual / line.planned, 1) * 100 : 0
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-700">{label}</span>
+        <span className={line.status === 'over' ? 'text-red-600 font-medium' : 'text-gray-600'}>
+          {formatCurrency(line.actual, currency)}
+          {line.planned !== null && (
+            <span className="text-gray-400"> / {formatCurrency(line.planned, currency)}</span>
+          )}
+        </span>
+      </div>
+      {line.planned !== null && (
+        <div className="h-1.5 w-full rounded-full bg-gray-100 overflow-hidden">
+          <div className={`h-full ${STATUS_COLORS[line.status]}`} style={{ width: `${share}%` }} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * What the group has actually spent, against the itinerary's budget, per
+ * category and per day. Members log expenses once the trip is under way.
+ */
+export function ExpenseTracker({ tripId, activities, className }: ExpenseTrackerProps) {
+  const [data, setData] = useState<ExpensesResponse | null>(null)
+  const [settlement, setSettlement] = useState<Settlement | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<ExpenseRecord | null>(null)
+  const [deleting, setDeleting] = useState<string | null>(null)
+
+  const loadExpenses = useCallback(async () => {
+    try {
+      const [response, settled] = await Promise.all([
+        apiClient.getExpenses(tripId) as Promise<ExpensesResponse>,
+        apiClient.getSettlement(tripId) as Promise<{ settlement: Settlement }>,
+      ])
+      setData(response)
+      setSettlement(settled.settlement)
+    } catch (error) {
+      console.error('Failed to load expenses:', error)
+    }
+  }, [tripId])
+
+  useEffect(() => {
+    loadExpenses()
+  }, [loadExpenses])
+
+  const openDialog = (expense: ExpenseRecord | null) => {
+    setEditing(expense)
+    setDialogOpen(true)
+  }
+
+  const handleDelete = async (expense: ExpenseRecord) => {
+    setDeleting(expense.id)
+    try {
+      await apiClient.deleteExpense(tripId, expense.id)
+      toast.success('Expense removed')
+      await loadExpenses()
+    } catch (error) {
+      console.error('Failed to delete expense:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete expense')
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const { summary } = data
+  const spentDays = summary.days.filter(day => day.actual > 0 || day.planned !== null)
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-emerald-600" />
+            Expenses
+          </CardTitle>
+          {data.canLog && (
+            <Button size="sm" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Log expense
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">
+          {formatCurrency(summary.total.actual, summary.currency)} spent
+          {summary.total.planned !== null && ` of ${formatCurrency(summary.total.planned, summary.currency)} planned`}
+          <span className="text-xs text-gray-400"> · rates of {summary.rateDate}</span>
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {summary.warnings.length > 0 && (
+          <div className="space-y-2">
+            {summary.warnings.map((warning) => (
+              <div
+                key={warning.category}
+                className={`flex items-center gap-2 rounded-md px-3 py-2 text-sm ${
+                  warning.status === 'over' ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-800'
+                }`}
+              >
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {warning.message}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">By category</h4>
+            {summary.categories.map((line) => (
+              <SpendBar
+                key={line.category}
+                label={EXPENSE_CATEGORY_LABELS[line.category]}
+                line={line}
+                currency={summary.currency}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">By day</h4>
+            {spentDays.map((line) => (
+              <SpendBar
+                key={line.dayNumber}
+                label={`Day ${line.dayNumber} · ${new Date(line.date).toLocaleDateString()}`}
+                line={line}
+                currency={summary.currency}
+              />
+            ))}
+            {summary.unassigned > 0 && (
+              <p className="text-xs text-gray-500">
+                {formatCurrency(summary.unassigned, summary.currency)} spent outside the itinerary&apos;s days
+              </p>
+            )}
+          </div>
+        </div>
+
+        {summary.excluded > 0 && (
+          <p className="text-xs text-gray-500">
+            {summary.excluded} expense{summary.excluded > 1 ? 's are' : ' is'} left out of the totals: no exchange rate for {summary.excluded > 1 ? 'their currencies' : 'its currency'}.
+          </p>
+        )}
+
+        {settlement && settlement.balances.length > 1 && data.expenses.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900">Balances</h4>
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/user/trips/${tripId}/expenses/settlement?format=csv`} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export CSV
+                </a>
+              </Button>
+            </div>
+            <ul className="space-y-1 text-sm">
+              {settlement.balances.map((member) => (
+                <li key={member.userId} className="flex items-center justify-between">
+                  <span className="text-gray-700">
+                    {member.name}
+                    <span className="text-xs text-gray-400">
+                      {' '}· paid {formatCurrency(member.paid, settlement.currency)}, share {formatCurrency(member.owed, settlement.currency)}
+                    </span>
+                  </span>
+                  <span className={member.balance < 0 ? 'text-red-600' : member.balance > 0 ? 'text-emerald-600' : 'text-gray-500'}>
+                    {member.balance > 0 && '+'}
+                    {formatCurrency(member.balance, settlement.currency)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {settlement.transfers.length > 0 ? (
+              <div className="space-y-1">
+                <h5 className="text-xs font-medium uppercase tracking-wide text-gray-500">Settle up</h5>
+                {settlement.transfers.map((transfer) => (
+                  <p key={`${transfer.fromUserId}-${transfer.toUserId}`} className="flex items-center gap-2 text-sm text-gray-700">
+                    {transfer.fromName}
+                    <ArrowRight className="h-3 w-3 text-gray-400" />
+                    {transfer.toName}
+                    <span className="ml-auto font-medium">{formatCurrency(transfer.amount, settlement.currency)}</span>
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Everyone is settled up.</p>
+            )}
+          </div>
+        )}
+
+        {data.expenses.length > 0 ? (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {data.expenses.map((expense) => (
+              <li key={expense.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{expense.description}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {new Date(expense.spentAt).toLocaleDateString()} · {EXPENSE_CATEGORY_LABELS[expense.category]}
+                    {' · '}paid by {expense.paidBy.name || expense.paidBy.email}
+                    {expense.activity && ` · ${expense.activity.name}`}
+                    {expense.split?.type === 'shares' && ' · split by shares'}
+                    {expense.split?.type === 'exact' && ' · split by amount'}
+                    {expense.split?.type === 'equal' && settlement && expense.split.userIds.length < settlement.balances.length &&
+                      ` · split between ${expense.split.userIds.length}`}
+                  </p>
+                  {expense.receiptNote && (
+                    <p className="text-xs text-gray-400 truncate">{expense.receiptNote}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <span className="font-medium text-gray-900 mr-2">
+                    {formatCurrency(expense.amount, expense.currency)}
+                  </span>
+                  {expense.canEdit && (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(expense)} aria-label="Edit expense">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleting === expense.id}
+                        onClick={() => handleDelete(expense)}
+                        aria-label="Delete expense"
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">
+            {data.canLog ? 'No expenses logged yet.' : 'Expenses can be logged once the trip is active.'}
+          </p>
+        )}
+      </CardContent>
+
+      <ExpenseDialog
+        tripId={tripId}
+        open={dialogOpen}
+        expense={editing}
+        defaultCurrency={summary.currency}
+        activities={activities}
+        onOpenChange={setDialogOpen}
+        onSaved={loadExpenses}
+      />
+    </Card>
+  )
+}
+
+export default ExpenseTracker
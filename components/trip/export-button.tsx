@@ -0,0 +1,159 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { apiClient } from '@/lib/api-client'
+import { toast } from 'sonner'
+import { CalendarPlus, Download, Link2, Loader2, RefreshCw, XCircle } from 'lucide-react'
+
+interface ExportButtonProps {
+  tripId: string
+  className?: string
+}
+
+interface CalendarFeed {
+  token: string
+  feedUrl: string
+  webcalUrl: string
+  lastAccessedAt: string | null
+}
+
+export function ExportButton({ tripId, className }: ExportButtonProps) {
+  const [isWorking, setIsWorking] = useState(false)
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+  const [feedLoaded, setFeedLoaded] = useState(false)
+
+  const loadFeed = async () => {
+    if (feedLoaded) return
+    try {
+      const response = await apiClient.getCalendarFeed(tripId) as { feed: CalendarFeed | null }
+      setFeed(response.feed)
+    } catch {
+      // Non-owners can still download the file, just not manage the feed
+      setFeed(null)
+    } finally {
+      setFeedLoaded(true)
+    }
+  }
+
+  const handleExport = async () => {
+    setIsWorking(true)
+    try {
+      const response = await fetch('/api/export/calendar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tripId, format: 'ical' }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({ error: 'Export failed' }))
+        throw new Error(data.error || 'Export failed')
+      }
+
+      // Use the server-provided file name from Content-Disposition
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || 'trip.ics'
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+
+      toast.success('Calendar file downloaded')
+    } catch (error) {
+      console.error('Failed to export calendar:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to export calendar')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleSubscribe = async (rotate = false) => {
+    setIsWorking(true)
+    try {
+      const response = await apiClient.enableCalendarFeed(tripId, rotate) as { feed: CalendarFeed }
+      setFeed(response.feed)
+      await navigator.clipboard.writeText(response.feed.webcalUrl)
+      toast.success(
+        rotate
+          ? 'New subscription link copied. The old link no longer updates.'
+          : 'Subscription link copied. Add it to your calendar app to keep it in sync.'
+      )
+    } catch (error) {
+      console.error('Failed to set up calendar feed:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to set up calendar feed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    setIsWorking(true)
+    try {
+      await apiClient.revokeCalendarFeed(tripId)
+      setFeed(null)
+      toast.success('Calendar feed stopped')
+    } catch (error) {
+      console.error('Failed to revoke calendar feed:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke calendar feed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadFeed()}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={isWorking}
+          className={`flex items-center gap-2 ${className || ''}`}
+        >
+          {isWorking ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <CalendarPlus className="h-4 w-4" />
+          )}
+          Export to Calendar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuItem onClick={handleExport}>
+          <Download className="h-4 w-4 mr-2" />
+          Download .ics file
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+          Live feed updates when the itinerary changes
+        </DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleSubscribe()}>
+          <Link2 className="h-4 w-4 mr-2" />
+          {feed ? 'Copy subscription link' : 'Subscribe in calendar app'}
+        </DropdownMenuItem>
+        {feed && (
+          <>
+            <DropdownMenuItem onClick={() => handleSubscribe(true)}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Reset subscription link
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={handleRevoke} className="text-red-600">
+              <XCircle className="h-4 w-4 mr-2" />
+              Stop live feed
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { apiClient } from '@/lib/api-client'
+import { toast } from 'sonner'
+import { Check, Loader2, X } from 'lucide-react'
+
+interface InvitationResponseProps {
+  token: string
+  tripId: string
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED'
+  invitedEmail: string
+  userEmail: string | null
+}
+
+export function InvitationResponse({
+  token,
+  tripId,
+  status,
+  invitedEmail,
+  userEmail,
+}: InvitationResponseProps) {
+  const router = useRouter()
+  const [pendingAction, setPendingAction] = useState<'accept' | 'decline' | null>(null)
+  const [currentStatus, setCurrentStatus] = useState(status)
+
+  if (currentStatus === 'EXPIRED') {
+    return (
+      <p className="text-sm text-gray-600">
+        This invitation has expired. Ask the trip owner to send you a new one.
+      </p>
+    )
+  }
+
+  if (currentStatus === 'ACCEPTED') {
+    return (
+      <Button asChild className="w-full">
+        <Link href={`/trip/${tripId}`}>Open trip</Link>
+      </Button>
+    )
+  }
+
+  if (currentStatus === 'DECLINED') {
+    return <p className="text-sm text-gray-600">You declined this invitation.</p>
+  }
+
+  if (!userEmail) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Sign in as <strong>{invitedEmail}</strong> to respond to this invitation.
+        </p>
+        <Button asChild className="w-full">
+          <Link href={`/auth/signin?callbackUrl=${encodeURIComponent(`/invite/${token}`)}`}>
+            Sign in
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (userEmail.toLowerCase() !== invitedEmail.toLowerCase()) {
+    return (
+      <p className="text-sm text-gray-600">
+        This invitation was sent to <strong>{invitedEmail}</strong>, but you are signed in
+        as <strong>{userEmail}</strong>. Sign in with the invited account to respond.
+      </p>
+    )
+  }
+
+  const respond = async (action: 'accept' | 'decline') => {
+    setPendingAction(action)
+    try {
+      await apiClient.respondToInvitation(token, action)
+      if (action === 'accept') {
+        toast.success('You joined the trip')
+        setCurrentStatus('ACCEPTED')
+        router.push(`/trip/${tripId}`)
+      } else {
+        toast.success('Invitation declined')
+        setCurrentStatus('DECLINED')
+      }
+    } catch (error) {
+      console.error('Failed to respond to invitation:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to respond to invitation')
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <div className="flex gap-3">
+      <Button
+        className="flex-1 flex items-center gap-2"
+        onClick={() => respond('accept')}
+        disabled={pendingAction !== null}
+      >
+        {pendingAction === 'accept' ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Check className="h-4 w-4" />
+        )}
+        Accept
+      </Button>
+      <Button
+        variant="outline"
+        className="flex-1 flex items-center gap-2"
+        onClick={() => respond('decline')}
+        disabled={pendingAction !== null}
+      >
+        {pendingAction === 'decline' ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <X className="h-4 w-4" />
+        )}
+        Decline
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,447 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { apiClient } from '@/lib/api-client'
+import { PACKING_CATEGORY_LABELS, PackingItem } from '@/lib/weather-types'
+import { toast } from 'sonner'
+import { Luggage, Sparkles, Plus, Trash2, Download, Printer, BookmarkPlus, Loader2 } from 'lucide-react'
+
+type PackingCategory = PackingItem['category']
+
+interface PackingListItem {
+  id: string
+  name: string
+  category: PackingCategory
+  priority: string
+  reason: string | null
+  quantity: number
+  checked: boolean
+  source: 'generated' | 'custom' | 'template'
+}
+
+interface PackingListView {
+  traveller: { id: string; name: string }
+  canEdit: boolean
+  list: {
+    id: string
+    weatherSummary: string | null
+    generalTips: string[]
+    generatedAt: string | null
+    items: PackingListItem[]
+  } | null
+  travellers: { id: string; name: string; packed: number; total: number }[]
+}
+
+interface PackingTemplate {
+  id: string
+  name: string
+  items: { name: string; category: PackingCategory; quantity: number }[]
+}
+
+interface PackingListPanelProps {
+  tripId: string
+  className?: string
+}
+
+const CATEGORIES = Object.keys(PACKING_CATEGORY_LABELS) as PackingCategory[]
+
+/**
+ * Each traveller's packing list: weather-driven suggestions, their own
+ * items and templates, ticked off as they pack
+ */
+export function PackingListPanel({ tripId, className }: PackingListPanelProps) {
+  const [view, setView] = useState<PackingListView | null>(null)
+  const [travellerId, setTravellerId] = useState<string | undefined>(undefined)
+  const [templates, setTemplates] = useState<PackingTemplate[]>([])
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [newCategory, setNewCategory] = useState<PackingCategory>('accessories')
+  const [newQuantity, setNewQuantity] = useState('1')
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false)
+  const [templateName, setTemplateName] = useState('')
+  const [templateItemIds, setTemplateItemIds] = useState<Set<string>>(new Set())
+
+  const loadList = useCallback(async () => {
+    try {
+      const response = await apiClient.getPackingList(tripId, travellerId) as PackingListView
+      setView(response)
+    } catch (error) {
+      console.error('Failed to load packing list:', error)
+    }
+  }, [tripId, travellerId])
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await apiClient.getPackingTemplates() as { templates: PackingTemplate[] }
+      setTemplates(response.templates)
+    } catch (error) {
+      console.error('Failed to load packing templates:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadList()
+  }, [loadList])
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  // Every change returns the updated list
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setView(await action() as PackingListView)
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      toast.error(error instanceof Error ? error.message : failure)
+      return false
+    }
+  }
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    setTravellerId(undefined)
+    if (await run(() => apiClient.generatePackingList(tripId), 'Failed to suggest items')) {
+      toast.success('Packing list updated from the forecast')
+    }
+    setIsGenerating(false)
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const quantity = Number(newQuantity)
+    if (!newName.trim() || !(quantity >= 1)) return
+
+    if (await run(() => apiClient.addPackingItem(tripId, { name: newName.trim(), category: newCategory, quantity }), 'Failed to add item')) {
+      setNewName('')
+      setNewQuantity('1')
+    }
+  }
+
+  const handleApplyTemplate = async (templateId: string) => {
+    const template = templates.find((entry) => entry.id === templateId)
+    if (await run(() => apiClient.applyPackingTemplate(tripId, templateId), 'Failed to add template')) {
+      toast.success(`Added ${template?.name ?? 'template'}`)
+    }
+  }
+
+  const openTemplateDialog = () => {
+    const items = view?.list?.items ?? []
+    // Start from what the traveller added themselves; suggestions change with the weather
+    setTemplateItemIds(new Set(items.filter((item) => item.source !== 'generated').map((item) => item.id)))
+    setTemplateName('')
+    setTemplateDialogOpen(true)
+  }
+
+  const handleSaveTemplate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const items = (view?.list?.items ?? []).filter((item) => templateItemIds.has(item.id))
+    if (!templateName.trim() || items.length === 0) return
+
+    try {
+      await apiClient.savePackingTemplate({
+        name: templateName.trim(),
+        items: items.map((item) => ({ name: item.name, category: item.category, quantity: item.quantity })),
+      })
+      toast.success('Template saved')
+      setTemplateDialogOpen(false)
+      loadTemplates()
+    } catch (error) {
+      console.error('Failed to save template:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save template')
+    }
+  }
+
+  const handleDeleteTemplate = async (template: PackingTemplate) => {
+    try {
+      await apiClient.deletePackingTemplate(template.id)
+      toast.success(`Deleted ${template.name}`)
+      loadTemplates()
+    } catch (error) {
+      console.error('Failed to delete template:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template')
+    }
+  }
+
+  if (!view) return null
+
+  const items = view.list?.items ?? []
+  const packed = items.filter((item) => item.checked).length
+  const exportUrl = (format: 'csv' | 'text') =>
+    `/api/user/trips/${tripId}/packing?travellerId=${view.traveller.id}&format=${format}`
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Luggage className="h-5 w-5 text-teal-600" />
+              Packing list
+            </CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              {items.length > 0 ? `${packed} of ${items.length} packed` : 'Nothing on the list yet'}
+            </p>
+          </div>
+
+          {view.travellers.length > 1 && (
+            <Select value={view.traveller.id} onValueChange={setTravellerId}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {view.travellers.map((traveller) => (
+                  <SelectItem key={traveller.id} value={traveller.id}>
+                    {traveller.name} · {traveller.packed}/{traveller.total}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        {items.length > 0 && <Progress value={(packed / items.length) * 100} className="mt-2" />}
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {view.canEdit && (
+            <Button variant="outline" size="sm" onClick={handleGenerate} disabled={isGenerating}>
+              {isGenerating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+              {view.list?.generatedAt ? 'Refresh suggestions' : 'Suggest from weather'}
+            </Button>
+          )}
+          {view.canEdit && templates.length > 0 && (
+            <Select value="" onValueChange={handleApplyTemplate}>
+              <SelectTrigger className="w-44 h-9">
+                <SelectValue placeholder="Add a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name} ({template.items.length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {view.canEdit && items.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={openTemplateDialog}>
+              <BookmarkPlus className="h-4 w-4 mr-1" />
+              Save as template
+            </Button>
+          )}
+          {items.length > 0 && (
+            <>
+              <Button variant="ghost" size="sm" asChild>
+                <a href={exportUrl('csv')} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  CSV
+                </a>
+              </Button>
+              <Button variant="ghost" size="sm" asChild>
+                <a href={exportUrl('text')} target="_blank" rel="noopener noreferrer">
+                  <Printer className="h-4 w-4 mr-1" />
+                  Print
+                </a>
+              </Button>
+            </>
+          )}
+        </div>
+
+        {view.list?.weatherSummary && (
+          <p className="text-sm text-gray-600">{view.list.weatherSummary}</p>
+        )}
+
+        {CATEGORIES.map((category) => {
+          const group = items.filter((item) => item.category === category)
+          if (group.length === 0) return null
+
+          return (
+            <div key={category}>
+              <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                {PACKING_CATEGORY_LABELS[category]}
+              </h4>
+              <ul className="divide-y divide-gray-100 text-sm">
+                {group.map((item) => (
+                  <li key={item.id} className="flex items-center gap-3 py-1.5">
+                    <Checkbox
+                      checked={item.checked}
+                      disabled={!view.canEdit}
+                      onCheckedChange={(checked) => run(
+                        () => apiClient.updatePackingItem(tripId, item.id, { checked: checked === true }),
+                        'Failed to update item'
+                      )}
+                      aria-label={`Packed ${item.name}`}
+                    />
+                    <span
+                      className={`flex-1 min-w-0 truncate ${item.checked ? 'line-through text-gray-400' : 'text-gray-800'}`}
+                      title={item.reason ?? undefined}
+                    >
+                      {item.name}
+                      {item.priority === 'essential' && !item.checked && <span className="ml-1 text-xs text-red-500">essential</span>}
+                    </span>
+                    {view.canEdit ? (
+                      <Input
+                        type="number"
+                        min="1"
+                        max="99"
+                        defaultValue={item.quantity}
+                        onBlur={(e) => {
+                          const quantity = Number(e.target.value)
+                          if (quantity >= 1 && quantity !== item.quantity) {
+                            run(() => apiClient.updatePackingItem(tripId, item.id, { quantity }), 'Failed to update item')
+                          }
+                        }}
+                        className="h-7 w-16 text-right"
+                        aria-label={`Quantity of ${item.name}`}
+                      />
+                    ) : (
+                      item.quantity > 1 && <span className="text-xs text-gray-500">×{item.quantity}</span>
+                    )}
+                    {view.canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-gray-400 hover:text-red-600"
+                        onClick={() => run(() => apiClient.deletePackingItem(tripId, item.id), 'Failed to remove item')}
+                        aria-label={`Remove ${item.name}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        })}
+
+        {view.canEdit && (
+          <form onSubmit={handleAdd} className="flex items-center gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Add an item"
+              maxLength={120}
+              aria-label="Item name"
+            />
+            <Select value={newCategory} onValueChange={(value) => setNewCategory(value as PackingCategory)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CATEGORIES.map((category) => (
+                  <SelectItem key={category} value={category}>{PACKING_CATEGORY_LABELS[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="1"
+              max="99"
+              value={newQuantity}
+              onChange={(e) => setNewQuantity(e.target.value)}
+              className="w-16"
+              aria-label="Quantity"
+            />
+            <Button type="submit" size="icon" disabled={!newName.trim()} aria-label="Add item">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        )}
+
+        {view.canEdit && templates.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-xs text-gray-500">
+            Your templates:
+            {templates.map((template) => (
+              <span key={template.id} className="flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5">
+                {template.name}
+                <button type="button" onClick={() => handleDeleteTemplate(template)} aria-label={`Delete ${template.name}`}>
+                  <Trash2 className="h-3 w-3 hover:text-red-600" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={templateDialogOpen} onOpenChange={setTemplateDialogOpen}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Save as template</DialogTitle>
+            <DialogDescription>Reuse these items on your next trips, e.g. a camera kit.</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSaveTemplate} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                maxLength={80}
+                placeholder="My camera kit"
+              />
+            </div>
+
+            <ul className="space-y-2 text-sm">
+              {items.map((item) => (
+                <li key={item.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`template-${item.id}`}
+                    checked={templateItemIds.has(item.id)}
+                    onCheckedChange={(checked) => setTemplateItemIds((prev) => {
+                      const next = new Set(prev)
+                      if (checked === true) {
+                        next.add(item.id)
+                      } else {
+                        next.delete(item.id)
+                      }
+                      return next
+                    })}
+                  />
+                  <Label htmlFor={`template-${item.id}`} className="font-normal">
+                    {item.name}{item.quantity > 1 && ` ×${item.quantity}`}
+                  </Label>
+                </li>
+              ))}
+            </ul>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setTemplateDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!templateName.trim() || templateItemIds.size === 0}>
+                Save template
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
+
+export default PackingListPanel
@@ -10,7 +10,9 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { RetryProgress } from '@/components/ui/retry-progress'
 import { useRetryProgress, useRetryErrorHandler } from '@/hooks/use-retry-progress'
-import { Sparkles, RefreshCw, AlertCircle, CheckCircle } from 'lucide-react'
+import { readGenerationEvents, GenerationResult } from '@/lib/generation-events'
+import type { RetryProgress as RetryProgressState } from '@/lib/retry-logic'
+import { Sparkles, RefreshCw, AlertCircle, CheckCircle, CalendarDays, AlertTriangle } from 'lucide-react'
 
 interface TripGenerationData {
   tripId: string
@@ -26,6 +28,67 @@ interface RetryEnabledGenerationProps {
   autoStart?: boolean
 }
 
+interface PartialDay {
+  day?: number
+  theme?: string
+  activities?: unknown[]
+}
+
+interface StreamHandlers {
+  signal: AbortSignal
+  onProgress: (progress: RetryProgressState) => void
+  onDay?: (day: PartialDay, index: number) => void
+  onWarning?: (message: string) => void
+}
+
+/**
+ * Run generation through the SSE endpoint, resolving with the final result.
+ * Aborting the signal closes the connection, which cancels generation on the server.
+ */
+async function streamGeneration(tripId: string, handlers: StreamHandlers): Promise<GenerationResult> {
+  const response = await fetch(`/api/user/trips/${tripId}/generate-itinerary/stream`, {
+    method: 'POST',
+    headers: { Accept: 'text/event-stream' },
+    signal: handlers.signal
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.details || errorData.error || 'Generation failed')
+  }
+
+  let result: GenerationResult | null = null
+  let failure: string | null = null
+
+  await readGenerationEvents(response, (event) => {
+    switch (event.type) {
+      case 'progress':
+        handlers.onProgress(event.progress)
+        break
+      case 'day':
+        handlers.onDay?.(event.day as PartialDay, event.index)
+        break
+      case 'warning':
+        handlers.onWarning?.(event.message)
+        break
+      case 'result':
+        result = event.result
+        break
+      case 'error':
+        failure = event.failure.details || event.failure.error
+        break
+    }
+  })
+
+  if (failure) throw new Error(failure)
+  if (!result) throw new Error('Generation ended unexpectedly')
+  return result
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
 export function RetryEnabledGeneration({
   tripData,
   onSuccess,
@@ -37,6 +100,8 @@ export function RetryEnabledGeneration({
     'idle' | 'generating' | 'success' | 'error'
   >('idle')
   const [result, setResult] = useState<any>(null)
+  const [partialDays, setPartialDays] = useState<PartialDay[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
   
   const retryProgress = useRetryProgress()
   const { handleRetryError } = useRetryErrorHandler()
@@ -46,35 +111,28 @@ export function RetryEnabledGeneration({
     retryProgress.reset()
     setGenerationState('generating')
     setResult(null)
+    setPartialDays([])
+    setWarnings([])
 
-    // FR-003.3: Start retry system and get cancellation token
-    const cancellationToken = retryProgress.startRetry()
+    // FR-003.3: Cancelling the token aborts the stream, which stops the server-side generation
+    const abortController = new AbortController()
+    const cancellationToken = retryProgress.startRetry(() => abortController.abort())
 
     try {
-      // Make API call with retry progress tracking
-      const response = await fetch(`/api/user/trips/${tripData.tripId}/generate-itinerary`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const data = await streamGeneration(tripData.tripId, {
+        signal: abortController.signal,
+        onProgress: (progress) => {
+          // A new attempt regenerates from scratch
+          if (progress.isRetrying) setPartialDays([])
+          retryProgress.updateProgress(progress)
         },
-        body: JSON.stringify({
-          // Include retry progress callback
-          onProgress: retryProgress.updateProgress,
-          cancellationToken
-        })
+        onDay: (day, index) => setPartialDays(prev => {
+          const next = [...prev]
+          next[index] = day
+          return next
+        }),
+        onWarning: (message) => setWarnings(prev => prev.includes(message) ? prev : [...prev, message])
       })
-
-      // Check for cancellation after network request
-      if (cancellationToken.isCancelled) {
-        throw new Error('Operation cancelled by user')
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.details || errorData.error || 'Generation failed')
-      }
-
-      const data = await response.json()
       
       // FR-003.4: Success handling
       setResult(data)
@@ -85,6 +143,10 @@ export function RetryEnabledGeneration({
       retryProgress.reset()
 
     } catch (error) {
+      if (cancellationToken.isCancelled || isAbortError(error)) {
+        return
+      }
+
       // FR-003.5: Error handling and retry failure escalation
       const errorMessage = handleRetryError(error)
       
@@ -170,6 +232,36 @@ export function RetryEnabledGeneration({
                 )}
               </div>
             )}
+
+            {/* Days appear as soon as the AI finishes writing them */}
+            {partialDays.length > 0 && (
+              <ul className="space-y-2">
+                {partialDays.map((day, index) => day && (
+                  <li
+                    key={index}
+                    className="flex items-center gap-3 rounded-md border border-gray-200 bg-white px-3 py-2 text-sm"
+                  >
+                    <CalendarDays className="h-4 w-4 text-blue-500 flex-shrink-0" />
+                    <span className="font-medium">Day {day.day ?? index + 1}</span>
+                    <span className="text-gray-600 truncate flex-1">{day.theme}</span>
+                    <span className="text-xs text-gray-500">
+                      {day.activities?.length ?? 0} activities
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {warnings.length > 0 && (
+              <div className="rounded-md bg-amber-50 border border-amber-200 p-3 space-y-1">
+                {warnings.map((warning) => (
+                  <p key={warning} className="flex items-start gap-2 text-xs text-amber-800">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
         )
 
@@ -257,28 +349,22 @@ export function RetryEnabledGenerationCompact({
     retryProgress.reset()
     setIsGenerating(true)
 
-    const cancellationToken = retryProgress.startRetry()
+    const abortController = new AbortController()
+    const cancellationToken = retryProgress.startRetry(() => abortController.abort())
 
     try {
-      const response = await fetch(`/api/user/trips/${tripData.tripId}/generate-itinerary`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
+      const data = await streamGeneration(tripData.tripId, {
+        signal: abortController.signal,
+        onProgress: retryProgress.updateProgress
       })
-
-      if (cancellationToken.isCancelled) {
-        throw new Error('Operation cancelled by user')
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.details || errorData.error || 'Generation failed')
-      }
-
-      const data = await response.json()
       onSuccess?.(data)
       retryProgress.reset()
 
     } catch (error) {
+      if (cancellationToken.isCancelled || isAbortError(error)) {
+        return
+      }
+
       const errorMessage = handleRetryError(error)
       retryProgress.setError(errorMessage)
       onError?.(errorMessage)
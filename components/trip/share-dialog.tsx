@@ -0,0 +1,202 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { apiClient } from '@/lib/api-client'
+import type { ShareStats } from '@/lib/share-types'
+import { toast } from 'sonner'
+import { Share2, Copy, Loader2, Eye, Trash2 } from 'lucide-react'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface ShareDialogProps {
+  tripId: string
+  className?: string
+}
+
+export function ShareDialog({ tripId, className }: ShareDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [stats, setStats] = useState<ShareStats | null>(null)
+  const [showBudget, setShowBudget] = useState(false)
+  const [showContactInfo, setShowContactInfo] = useState(false)
+  const [allowComments, setAllowComments] = useState(false)
+  const [expiresInDays, setExpiresInDays] = useState('30')
+  // Updates only send the expiry when it was edited, so other changes don't restart it
+  const [expiryEdited, setExpiryEdited] = useState(false)
+  const [password, setPassword] = useState('')
+
+  const loadStats = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await apiClient.getShareStats(tripId) as { stats: ShareStats | null }
+      setStats(response.stats)
+      if (response.stats) {
+        setShowBudget(response.stats.options.showBudget)
+        setShowContactInfo(response.stats.options.showContactInfo)
+        setAllowComments(response.stats.options.allowComments)
+        setExpiresInDays(response.stats.expiresAt
+          ? String(Math.max(1, Math.ceil((new Date(response.stats.expiresAt).getTime() - Date.now()) / DAY_MS)))
+          : '0')
+      }
+      setExpiryEdited(false)
+    } catch (error) {
+      console.error('Failed to load share settings:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load share settings')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tripId])
+
+  useEffect(() => {
+    if (isOpen) {
+      loadStats()
+    }
+  }, [isOpen, loadStats])
+
+  const handleCreate = async () => {
+    setIsLoading(true)
+    try {
+      const days = parseInt(expiresInDays)
+      await apiClient.createShareLink(tripId, {
+        showBudget,
+        showContactInfo,
+        allowComments,
+        ...((!stats || expiryEdited) && { expiresInDays: days > 0 ? days : null }),
+        password: password || undefined,
+      })
+      setPassword('')
+      toast.success(stats ? 'Share settings updated' : 'Share link created')
+      await loadStats()
+    } catch (error) {
+      console.error('Failed to create share link:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create share link')
+      setIsLoading(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    setIsLoading(true)
+    try {
+      await apiClient.revokeShareLink(tripId)
+      setStats(null)
+      toast.success('Share link revoked')
+    } catch (error) {
+      console.error('Failed to revoke share link:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke share link')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!stats) return
+    await navigator.clipboard.writeText(stats.shareUrl)
+    toast.success('Link copied to clipboard')
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={`flex items-center gap-2 ${className || ''}`}>
+          <Share2 className="h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share Trip</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view a read-only copy of this itinerary.
+          </DialogDescription>
+        </DialogHeader>
+
+        {stats && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input value={stats.shareUrl} readOnly className="text-sm" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-4 text-xs text-gray-500">
+              <span className="flex items-center gap-1">
+                <Eye className="h-3 w-3" />
+                {stats.viewCount} view{stats.viewCount !== 1 ? 's' : ''}
+              </span>
+              {stats.expiresAt && (
+                <span className={stats.isExpired ? 'text-red-600' : ''}>
+                  {stats.isExpired ? 'Expired' : 'Expires'} {new Date(stats.expiresAt).toLocaleDateString()}
+                </span>
+              )}
+              {stats.hasPassword && <span>Password protected</span>}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="share-budget">Show budget and prices</Label>
+            <Switch id="share-budget" checked={showBudget} onCheckedChange={setShowBudget} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="share-contact">Show my contact info</Label>
+            <Switch id="share-contact" checked={showContactInfo} onCheckedChange={setShowContactInfo} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="share-comments">Allow comments</Label>
+            <Switch id="share-comments" checked={allowComments} onCheckedChange={setAllowComments} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="share-expiry">Expires after (days, 0 for never)</Label>
+            <Input
+              id="share-expiry"
+              type="number"
+              min={0}
+              max={365}
+              value={expiresInDays}
+              onChange={(e) => {
+                setExpiresInDays(e.target.value)
+                setExpiryEdited(true)
+              }}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="share-password">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              value={password}
+              placeholder={stats?.hasPassword ? 'Leave empty to remove the password' : ''}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2">
+          {stats ? (
+            <Button variant="outline" onClick={handleRevoke} disabled={isLoading} className="text-red-600">
+              <Trash2 className="h-4 w-4 mr-1.5" />
+              Revoke
+            </Button>
+          ) : <span />}
+          <Button onClick={handleCreate} disabled={isLoading}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+            {stats ? 'Update Link' : 'Create Link'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -13,6 +13,7 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { StatusBadge } from './status-badge'
 import { apiClient } from '@/lib/api-client'
+import { formatCurrency } from '@/lib/utils'
 import { 
   History, 
   User, 
@@ -182,6 +183,12 @@ export function StatusHistory({ tripId, children, className }: StatusHistoryProp
                     }
                     {entry.reason === 'date_based' && 'Date-based transition'}
                     {entry.reason === 'manual' && 'User action'}
+                    {entry.metadata.spend &&
+                      ` · ${formatCurrency(entry.metadata.spend.actual, entry.metadata.spend.currency)} spent` +
+                      (entry.metadata.spend.planned !== null
+                        ? ` of ${formatCurrency(entry.metadata.spend.planned, entry.metadata.spend.currency)} planned`
+                        : '')
+                    }
                   </span>
                 </div>
               )}
@@ -0,0 +1,236 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { apiClient } from '@/lib/api-client'
+import { toast } from 'sonner'
+import { Route, Plus, Trash2, Loader2 } from 'lucide-react'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_STOPS = 10
+
+interface LegsResponse {
+  legs: Array<{ destination: string; startDate: string; endDate: string }>
+  trip: { destination: string; startDate: string; endDate: string }
+  canEdit: boolean
+}
+
+// A stop is edited as a destination plus a number of days; dates are derived
+interface Stop {
+  destination: string
+  days: number
+}
+
+interface TripLegsDialogProps {
+  tripId: string
+  className?: string
+  onSaved?: () => void
+}
+
+function dayCount(startDate: string, endDate: string) {
+  return Math.round((new Date(endDate).getTime() - new Date(startDate).getTime()) / DAY_MS) + 1
+}
+
+function addDays(date: string, days: number) {
+  return new Date(new Date(date).getTime() + days * DAY_MS)
+}
+
+export function TripLegsDialog({ tripId, className, onSaved }: TripLegsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [canEdit, setCanEdit] = useState(false)
+  const [trip, setTrip] = useState<LegsResponse['trip'] | null>(null)
+  const [stops, setStops] = useState<Stop[]>([])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadLegs = async () => {
+      setIsLoading(true)
+      try {
+        const response = await apiClient.getTripLegs(tripId) as LegsResponse
+        setTrip(response.trip)
+        setCanEdit(response.canEdit)
+        setStops(response.legs.length > 0
+          ? response.legs.map(leg => ({ destination: leg.destination, days: dayCount(leg.startDate, leg.endDate) }))
+          : [{ destination: response.trip.destination, days: dayCount(response.trip.startDate, response.trip.endDate) }])
+      } catch (error) {
+        console.error('Failed to load trip destinations:', error)
+        toast.error(error instanceof Error ? error.message : 'Failed to load trip destinations')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadLegs()
+  }, [isOpen, tripId])
+
+  const totalDays = trip ? dayCount(trip.startDate, trip.endDate) : 0
+  // The last stop takes whatever days the others leave
+  const plannedDays = stops.slice(0, -1).reduce((sum, stop) => sum + stop.days, 0)
+  const lastStopDays = totalDays - plannedDays
+
+  const updateStop = (index: number, changes: Partial<Stop>) => {
+    setStops(stops.map((stop, i) => i === index ? { ...stop, ...changes } : stop))
+  }
+
+  const addStop = () => {
+    if (lastStopDays < 2) {
+      toast.error('Shorten a stop first so the new one has at least a day')
+      return
+    }
+    const previous = stops.map((stop, i) => i === stops.length - 1 ? { ...stop, days: lastStopDays - 1 } : stop)
+    setStops([...previous, { destination: '', days: 1 }])
+  }
+
+  const removeStop = (index: number) => {
+    setStops(stops.filter((_, i) => i !== index))
+  }
+
+  const handleSave = async () => {
+    if (!trip) return
+
+    if (stops.some(stop => !stop.destination.trim())) {
+      toast.error('Every stop needs a destination')
+      return
+    }
+    if (stops.some((stop, i) => i < stops.length - 1 && stop.days < 1) || lastStopDays < 1) {
+      toast.error(`The stops need to fit into the trip's ${totalDays} days`)
+      return
+    }
+
+    let offset = 0
+    const legs = stops.map((stop, i) => {
+      const days = i === stops.length - 1 ? lastStopDays : stop.days
+      const leg = {
+        destination: stop.destination.trim(),
+        startDate: addDays(trip.startDate, offset).toISOString(),
+        endDate: addDays(trip.startDate, offset + days - 1).toISOString(),
+      }
+      offset += days
+      return leg
+    })
+
+    setIsSaving(true)
+    try {
+      // A single stop is just the trip's destination
+      await apiClient.updateTripLegs(tripId, legs.length > 1 ? legs : [])
+      toast.success(legs.length > 1
+        ? 'Route saved. Regenerate the itinerary to plan each stop.'
+        : 'Trip set to a single destination')
+      setIsOpen(false)
+      onSaved?.()
+    } catch (error) {
+      console.error('Failed to save trip destinations:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save trip destinations')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const disabled = !canEdit || isSaving
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isSaving && setIsOpen(open)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={`flex items-center gap-2 ${className || ''}`}>
+          <Route className="h-4 w-4" />
+          Destinations
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trip Destinations</DialogTitle>
+          <DialogDescription>
+            {canEdit
+              ? 'Visit several cities in order. The first day at each new stop is planned as a travel day.'
+              : 'Only the trip owner and editors can change the destinations.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !trip && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {trip && (
+          <div className="space-y-3">
+            {stops.map((stop, index) => {
+              const isLast = index === stops.length - 1
+              return (
+                <div key={index} className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label htmlFor={`leg-destination-${index}`}>Stop {index + 1}</Label>
+                    <Input
+                      id={`leg-destination-${index}`}
+                      value={stop.destination}
+                      onChange={(event) => updateStop(index, { destination: event.target.value })}
+                      placeholder="City"
+                      maxLength={300}
+                      disabled={disabled}
+                    />
+                  </div>
+                  <div className="w-24 space-y-1">
+                    <Label htmlFor={`leg-days-${index}`}>Days</Label>
+                    <Input
+                      id={`leg-days-${index}`}
+                      type="number"
+                      min={1}
+                      max={totalDays}
+                      value={isLast ? lastStopDays : stop.days}
+                      onChange={(event) => updateStop(index, { days: Number(event.target.value) || 0 })}
+                      disabled={disabled || isLast}
+                    />
+                  </div>
+                  {canEdit && stops.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeStop(index)}
+                      disabled={isSaving}
+                      aria-label={`Remove stop ${index + 1}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+
+            {canEdit && stops.length < MAX_STOPS && (
+              <Button variant="outline" size="sm" onClick={addStop} disabled={isSaving}>
+                <Plus className="h-4 w-4 mr-1.5" />
+                Add stop
+              </Button>
+            )}
+          </div>
+        )}
+
+        {canEdit && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !trip}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+              Save Destinations
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { InterestSelector } from '@/components/forms/interest-selector'
+import { TravelerSelector } from '@/components/forms/traveler-selector'
+import { TravelPreferences } from '@/components/forms/travel-preferences'
+import { apiClient } from '@/lib/api-client'
+import type { TravelerData } from '@/lib/trip-validation'
+import { toast } from 'sonner'
+import { SlidersHorizontal, Loader2 } from 'lucide-react'
+
+interface TripPreferences {
+  interests: string[]
+  travelers: TravelerData
+  preferences: TravelPreferences
+  travelStyle?: string
+}
+
+interface PreferencesResponse {
+  preferences: TripPreferences
+  canEdit: boolean
+}
+
+interface TripPreferencesDialogProps {
+  tripId: string
+  className?: string
+  // Called after saving, since the trip's traveler count may have changed
+  onSaved?: () => void
+}
+
+export function TripPreferencesDialog({ tripId, className, onSaved }: TripPreferencesDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [canEdit, setCanEdit] = useState(false)
+  const [draft, setDraft] = useState<TripPreferences | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadPreferences = async () => {
+      setIsLoading(true)
+      try {
+        const response = await apiClient.getTripPreferences(tripId) as PreferencesResponse
+        setDraft(response.preferences)
+        setCanEdit(response.canEdit)
+      } catch (error) {
+        console.error('Failed to load trip preferences:', error)
+        toast.error(error instanceof Error ? error.message : 'Failed to load trip preferences')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPreferences()
+  }, [isOpen, tripId])
+
+  const handleSave = async () => {
+    if (!draft) return
+
+    if (draft.interests.length === 0) {
+      toast.error('Pick at least one interest')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await apiClient.updateTripPreferences(tripId, {
+        interests: draft.interests,
+        travelers: draft.travelers,
+        preferences: draft.preferences,
+      })
+      toast.success('Preferences saved. They will be used the next time the itinerary is generated.')
+      setIsOpen(false)
+      onSaved?.()
+    } catch (error) {
+      console.error('Failed to save trip preferences:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save trip preferences')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const disabled = !canEdit || isSaving
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isSaving && setIsOpen(open)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={`flex items-center gap-2 ${className || ''}`}>
+          <SlidersHorizontal className="h-4 w-4" />
+          Preferences
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Trip Preferences</DialogTitle>
+          <DialogDescription>
+            {canEdit
+              ? 'Used whenever the itinerary, a day or an activity is regenerated.'
+              : 'Only the trip owner and editors can change these preferences.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !draft && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {draft && (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Travelers</Label>
+              <TravelerSelector
+                value={draft.travelers}
+                onChange={(travelers) => setDraft({ ...draft, travelers })}
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Interests</Label>
+              <InterestSelector
+                selectedInterests={draft.interests}
+                onChange={(interests) => setDraft({ ...draft, interests })}
+                disabled={disabled}
+              />
+            </div>
+
+            <TravelPreferences
+              value={draft.preferences}
+              onChange={(preferences) => setDraft({ ...draft, preferences })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+
+        {canEdit && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+              Save Preferences
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
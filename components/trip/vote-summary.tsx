@@ -0,0 +1,148 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { apiClient } from '@/lib/api-client'
+import { toast } from 'sonner'
+import { Scale, ThumbsUp, ThumbsDown, Check, Trash2 } from 'lucide-react'
+
+interface ContestedActivity {
+  activityId: string
+  name: string
+  dayNumber: number | null
+  up: number
+  down: number
+  voters: { userId: string; name: string | null; value: number }[]
+}
+
+interface ContestedResponse {
+  contested: ContestedActivity[]
+  canResolve: boolean
+}
+
+interface VoteSummaryProps {
+  tripId: string
+  // Bump to reload after votes change elsewhere on the page
+  refreshKey?: number
+  onActivityRemoved?: (activityId: string) => void
+  className?: string
+}
+
+/**
+ * Activities the group is split on. Only shown while there is something to
+ * decide; the trip owner keeps or removes each one before the trip is planned.
+ */
+export function VoteSummary({ tripId, refreshKey = 0, onActivityRemoved, className }: VoteSummaryProps) {
+  const [data, setData] = useState<ContestedResponse | null>(null)
+  const [resolving, setResolving] = useState<string | null>(null)
+
+  const loadContested = useCallback(async () => {
+    try {
+      const response = await apiClient.getContestedActivities(tripId) as ContestedResponse
+      setData(response)
+    } catch (error) {
+      console.error('Failed to load contested activities:', error)
+    }
+  }, [tripId])
+
+  useEffect(() => {
+    loadContested()
+  }, [loadContested, refreshKey])
+
+  const handleResolve = async (activity: ContestedActivity, decision: 'keep' | 'remove') => {
+    setResolving(activity.activityId)
+    try {
+      await apiClient.resolveContestedActivity(tripId, activity.activityId, decision)
+      toast.success(decision === 'keep' ? `Keeping ${activity.name}` : `${activity.name} was removed`)
+      if (decision === 'remove') {
+        onActivityRemoved?.(activity.activityId)
+      }
+      await loadContested()
+    } catch (error) {
+      console.error('Failed to resolve activity:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve activity')
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  if (!data || data.contested.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className={`border-amber-200 bg-amber-50/40 ${className || ''}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Scale className="h-5 w-5 text-amber-600" />
+          Group decisions
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {data.canResolve
+            ? 'The group is split on these activities. Keep or remove them before marking the trip as planned.'
+            : 'The group is split on these activities. The trip owner will make the final call.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {data.contested.map((activity) => (
+          <div
+            key={activity.activityId}
+            className="flex flex-wrap items-center justify-between gap-3 rounded-md bg-white border border-gray-200 px-3 py-2"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {activity.dayNumber !== null && (
+                  <span className="text-gray-500 font-normal">Day {activity.dayNumber} · </span>
+                )}
+                {activity.name}
+              </p>
+              <div className="flex items-center gap-3 text-xs text-gray-600">
+                <span
+                  className="flex items-center gap-1 text-green-700"
+                  title={activity.voters.filter(v => v.value > 0).map(v => v.name || 'Traveler').join(', ')}
+                >
+                  <ThumbsUp className="h-3 w-3" />
+                  {activity.up}
+                </span>
+                <span
+                  className="flex items-center gap-1 text-red-700"
+                  title={activity.voters.filter(v => v.value < 0).map(v => v.name || 'Traveler').join(', ')}
+                >
+                  <ThumbsDown className="h-3 w-3" />
+                  {activity.down}
+                </span>
+              </div>
+            </div>
+
+            {data.canResolve && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={resolving === activity.activityId}
+                  onClick={() => handleResolve(activity, 'keep')}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Keep
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={resolving === activity.activityId}
+                  onClick={() => handleResolve(activity, 'remove')}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default VoteSummary
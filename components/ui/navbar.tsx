@@ -3,6 +3,7 @@
 import { useSession, signIn, signOut } from "next-auth/react";
 import { usePathname } from "next/navigation";
 import { Logo } from "./logo";
+import { NotificationBell } from "./notification-bell";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -15,6 +16,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { User, Settings, LogOut, MapPin, Plus } from "lucide-react";
 import Link from "next/link";
+import { pwaManager } from "@/lib/pwa-utils";
 import "./navbar.css";
 
 export function Navbar() {
@@ -103,6 +105,8 @@ export function Navbar() {
                 </Button>
               )}
 
+              <NotificationBell />
+
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
@@ -209,6 +213,7 @@ export function Navbar() {
                       onClick={async () => {
                         console.log("🚪 Starting sign out process...");
                         try {
+                          await pwaManager.clearUserData();
                           await signOut({
                             callbackUrl: "/",
                             redirect: true,
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiClient } from "@/lib/api-client";
+import { Bell, CheckCheck, Loader2, X } from "lucide-react";
+
+interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt: string;
+  data: { url?: string } | null;
+  trip: { id: string; title: string } | null;
+}
+
+interface NotificationsPage {
+  notifications: NotificationItem[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
+const POLL_INTERVAL = 60000; // 1 minute
+const PAGE_SIZE = 10;
+
+function formatRelativeTime(dateString: string): string {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(dateString).toLocaleDateString();
+}
+
+export function NotificationBell() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      // Skip the client cache so the badge reflects new notifications
+      apiClient.clearCache("/api/notifications/unread-count");
+      const response = (await apiClient.getUnreadNotificationCount()) as {
+        unreadCount: number;
+      };
+      setUnreadCount(response.unreadCount);
+    } catch (error) {
+      console.error("Failed to load unread notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    const interval = setInterval(refreshUnreadCount, POLL_INTERVAL);
+    window.addEventListener("focus", refreshUnreadCount);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("focus", refreshUnreadCount);
+    };
+  }, [refreshUnreadCount]);
+
+  const loadPage = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      apiClient.clearCache("/api/notifications");
+      const page = (await apiClient.getNotifications({
+        cursor,
+        limit: PAGE_SIZE,
+      })) as NotificationsPage;
+      setItems((prev) => (cursor ? [...prev, ...page.notifications] : page.notifications));
+      setNextCursor(page.nextCursor);
+      setUnreadCount(page.unreadCount);
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      loadPage();
+    }
+  };
+
+  const handleSelect = async (item: NotificationItem) => {
+    if (!item.read) {
+      setItems((prev) => prev.map((n) => (n.id === item.id ? { ...n, read: true } : n)));
+      setUnreadCount((count) => Math.max(0, count - 1));
+      apiClient.markNotificationRead(item.id).catch((error) => {
+        console.error("Failed to mark notification as read:", error);
+      });
+    }
+
+    const url = item.data?.url ?? (item.trip ? `/trip/${item.trip.id}` : null);
+    if (url) {
+      setIsOpen(false);
+      router.push(url);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await apiClient.markAllNotificationsRead();
+      setItems((prev) => prev.map((n) => ({ ...n, read: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, item: NotificationItem) => {
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await apiClient.deleteNotification(item.id);
+      setItems((prev) => prev.filter((n) => n.id !== item.id));
+      if (!item.read) {
+        setUnreadCount((count) => Math.max(0, count - 1));
+      }
+    } catch (error) {
+      console.error("Failed to delete notification:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-10 w-10 rounded-full"
+          aria-label={
+            unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"
+          }
+        >
+          <Bell className="h-5 w-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80 p-0" align="end" sideOffset={8}>
+        <div className="flex items-center justify-between px-4 py-3">
+          <DropdownMenuLabel className="p-0 text-sm font-semibold">
+            Notifications
+          </DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-blue-600"
+              onClick={handleMarkAllRead}
+            >
+              <CheckCheck className="h-3 w-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="my-0" />
+
+        <div className="max-h-96 overflow-y-auto">
+          {items.length === 0 && !isLoading && (
+            <p className="px-4 py-8 text-center text-sm text-gray-500">
+              You&apos;re all caught up.
+            </p>
+          )}
+
+          {items.map((item) => (
+            <DropdownMenuItem
+              key={item.id}
+              onSelect={() => handleSelect(item)}
+              className={`group flex items-start gap-3 px-4 py-3 rounded-none cursor-pointer ${
+                item.read ? "" : "bg-blue-50/60"
+              }`}
+            >
+              <span
+                className={`mt-1.5 h-2 w-2 rounded-full flex-shrink-0 ${
+                  item.read ? "bg-transparent" : "bg-blue-500"
+                }`}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{item.title}</p>
+                <p className="text-xs text-gray-600 line-clamp-2">{item.message}</p>
+                <p className="text-[11px] text-gray-400 mt-0.5">
+                  {formatRelativeTime(item.createdAt)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={(e) => handleDelete(e, item)}
+                className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600 transition-opacity"
+                aria-label="Dismiss notification"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </DropdownMenuItem>
+          ))}
+
+          {isLoading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            </div>
+          )}
+
+          {nextCursor && !isLoading && (
+            <div className="p-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-xs"
+                onClick={() => loadPage(nextCursor)}
+              >
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default NotificationBell;
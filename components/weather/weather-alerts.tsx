@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { WeatherAlert, ProcessedWeather } from '@/lib/weather-types'
-import { generateId } from '@/lib/utils'
+import { generateWeatherAlerts } from '@/lib/weather-alerts'
 import {
   AlertTriangle,
   CloudRain,
@@ -244,292 +244,6 @@ export function WeatherAlerts({
   )
 }
 
-// Function to generate weather alerts from weather data
-export function generateWeatherAlerts(weatherData: ProcessedWeather[]): WeatherAlert[] {
-  const alerts: WeatherAlert[] = []
-  
-  weatherData.forEach((day, index) => {
-    const date = day.date
-    
-    // Extreme temperature alerts
-    if (day.temperature.max > 35) {
-      alerts.push({
-        id: generateId(),
-        type: 'temperature',
-        severity: 'severe',
-        title: 'Extreme Heat Warning',
-        description: `Dangerous heat levels expected with temperatures reaching ${day.temperature.max}°C. Risk of heat exhaustion and dehydration.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Avoid outdoor activities during peak hours (10 AM - 4 PM)',
-          'Stay hydrated and seek air-conditioned spaces',
-          'Wear light-colored, loose-fitting clothing',
-          'Use sunscreen and wear a hat when outdoors'
-        ],
-        dismissed: false
-      })
-    } else if (day.temperature.max > 30) {
-      alerts.push({
-        id: generateId(),
-        type: 'temperature',
-        severity: 'warning',
-        title: 'Hot Weather Advisory',
-        description: `High temperatures of ${day.temperature.max}°C expected. Take precautions to stay cool.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Stay hydrated throughout the day',
-          'Plan outdoor activities for early morning or evening',
-          'Wear lightweight, breathable clothing'
-        ],
-        dismissed: false
-      })
-    }
-    
-    if (day.temperature.min < -10) {
-      alerts.push({
-        id: generateId(),
-        type: 'temperature',
-        severity: 'severe',
-        title: 'Extreme Cold Warning',
-        description: `Dangerously cold temperatures of ${day.temperature.min}°C expected. Risk of frostbite and hypothermia.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Limit time outdoors and dress in warm layers',
-          'Cover all exposed skin',
-          'Keep extremities warm with proper gloves and hats',
-          'Be aware of signs of frostbite and hypothermia'
-        ],
-        dismissed: false
-      })
-    } else if (day.temperature.min < 0) {
-      alerts.push({
-        id: generateId(),
-        type: 'temperature',
-        severity: 'warning',
-        title: 'Freezing Temperature Alert',
-        description: `Temperatures dropping to ${day.temperature.min}°C. Icy conditions possible.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Watch for icy surfaces when walking',
-          'Dress warmly in layers',
-          'Protect exposed skin from wind and cold'
-        ],
-        dismissed: false
-      })
-    }
-    
-    // Precipitation alerts
-    if (day.precipitation.probability > 80 && day.precipitation.amount > 20) {
-      alerts.push({
-        id: generateId(),
-        type: 'precipitation',
-        severity: 'severe',
-        title: 'Heavy Rain Warning',
-        description: `Heavy rainfall expected with ${day.precipitation.amount}mm of rain and ${day.precipitation.probability}% probability. Flooding possible.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Avoid low-lying areas prone to flooding',
-          'Carry waterproof protection for electronics',
-          'Allow extra time for transportation',
-          'Consider indoor activities as alternatives'
-        ],
-        dismissed: false
-      })
-    } else if (day.precipitation.probability > 70) {
-      alerts.push({
-        id: generateId(),
-        type: 'precipitation',
-        severity: 'warning',
-        title: 'Rain Expected',
-        description: `High chance of rain (${day.precipitation.probability}%) with up to ${day.precipitation.amount}mm expected.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Carry an umbrella or rain jacket',
-          'Wear appropriate footwear',
-          'Have backup indoor activities planned'
-        ],
-        dismissed: false
-      })
-    }
-    
-    // Snow alerts
-    if (day.precipitation.type === 'snow' && day.precipitation.amount > 10) {
-      alerts.push({
-        id: generateId(),
-        type: 'precipitation',
-        severity: 'warning',
-        title: 'Heavy Snow Expected',
-        description: `Significant snowfall expected. Travel conditions may be affected.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Wear appropriate winter footwear',
-          'Allow extra time for travel',
-          'Be cautious of slippery surfaces',
-          'Keep warm and dry'
-        ],
-        dismissed: false
-      })
-    }
-    
-    // Wind alerts
-    if (day.wind.speed > 50) {
-      alerts.push({
-        id: generateId(),
-        type: 'wind',
-        severity: 'severe',
-        title: 'High Wind Warning',
-        description: `Dangerous wind speeds of ${day.wind.speed} km/h expected. Risk of falling objects and difficult travel conditions.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Avoid areas with tall trees or unstable structures',
-          'Secure loose outdoor items',
-          'Be extra cautious when walking or driving',
-          'Consider indoor activities'
-        ],
-        dismissed: false
-      })
-    } else if (day.wind.speed > 30) {
-      alerts.push({
-        id: generateId(),
-        type: 'wind',
-        severity: 'warning',
-        title: 'Strong Wind Advisory',
-        description: `Strong winds of ${day.wind.speed} km/h expected. Outdoor activities may be affected.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Secure loose items and clothing',
-          'Be cautious when opening doors or walking near buildings',
-          'Consider indoor alternatives for some activities'
-        ],
-        dismissed: false
-      })
-    }
-    
-    // Visibility alerts
-    if (day.visibility < 1) {
-      alerts.push({
-        id: generateId(),
-        type: 'visibility',
-        severity: 'severe',
-        title: 'Dense Fog Warning',
-        description: `Very poor visibility (${day.visibility}km) due to fog or other conditions. Travel may be dangerous.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Allow extra time for travel',
-          'Use extra caution when walking or driving',
-          'Stay close to familiar areas',
-          'Consider postponing travel if possible'
-        ],
-        dismissed: false
-      })
-    } else if (day.visibility < 3) {
-      alerts.push({
-        id: generateId(),
-        type: 'visibility',
-        severity: 'warning',
-        title: 'Reduced Visibility',
-        description: `Limited visibility (${day.visibility}km) may affect outdoor activities and travel.`,
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Use extra caution when traveling',
-          'Stay alert to your surroundings',
-          'Consider activities that don\'t rely on distant views'
-        ],
-        dismissed: false
-      })
-    }
-    
-    // General extreme weather
-    if (day.isExtreme && !alerts.some(alert => alert.affectedDays.includes(date) && alert.severity === 'severe')) {
-      alerts.push({
-        id: generateId(),
-        type: 'general',
-        severity: 'severe',
-        title: 'Severe Weather Conditions',
-        description: 'Multiple severe weather conditions expected. Exercise extreme caution.',
-        startDate: date,
-        affectedDays: [date],
-        recommendations: [
-          'Monitor weather updates closely',
-          'Prioritize indoor activities',
-          'Have emergency contact information ready',
-          'Consider modifying travel plans'
-        ],
-        dismissed: false
-      })
-    }
-  })
-  
-  // Merge consecutive day alerts
-  return mergeConsecutiveAlerts(alerts)
-}
-
-// Helper function to merge alerts for consecutive days
-function mergeConsecutiveAlerts(alerts: WeatherAlert[]): WeatherAlert[] {
-  const groupedAlerts = new Map<string, WeatherAlert[]>()
-  
-  // Group similar alerts
-  alerts.forEach(alert => {
-    const key = `${alert.type}_${alert.severity}_${alert.title}`
-    if (!groupedAlerts.has(key)) {
-      groupedAlerts.set(key, [])
-    }
-    groupedAlerts.get(key)!.push(alert)
-  })
-  
-  const mergedAlerts: WeatherAlert[] = []
-  
-  groupedAlerts.forEach(alertGroup => {
-    if (alertGroup.length === 1) {
-      mergedAlerts.push(alertGroup[0])
-    } else {
-      // Check if dates are consecutive
-      const dates = alertGroup.map(a => a.affectedDays[0]).sort()
-      const isConsecutive = dates.every((date, index) => {
-        if (index === 0) return true
-        const prevDate = new Date(dates[index - 1])
-        const currentDate = new Date(date)
-        const diffTime = currentDate.getTime() - prevDate.getTime()
-        const diffDays = diffTime / (1000 * 60 * 60 * 24)
-        return diffDays <= 1
-      })
-      
-      if (isConsecutive) {
-        // Merge into single alert
-        const firstAlert = alertGroup[0]
-        mergedAlerts.push({
-          ...firstAlert,
-          id: generateId(),
-          affectedDays: dates,
-          startDate: dates[0],
-          endDate: dates[dates.length - 1],
-          description: `${firstAlert.description} Expected for ${dates.length} consecutive days.`
-        })
-      } else {
-        // Keep separate
-        mergedAlerts.push(...alertGroup)
-      }
-    }
-  })
-  
-  // Sort by severity and start date
-  return mergedAlerts.sort((a, b) => {
-    const severityOrder = { severe: 0, warning: 1, info: 2 }
-    const severityDiff = severityOrder[a.severity] - severityOrder[b.severity]
-    if (severityDiff !== 0) return severityDiff
-    return a.startDate.localeCompare(b.startDate)
-  })
-}
+export { generateWeatherAlerts }
 
 export default WeatherAlerts
\ No newline at end of file
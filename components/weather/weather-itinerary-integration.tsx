@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -17,6 +17,9 @@ import {
 import { weatherActivityFilter } from '@/lib/weather-activity-filter'
 import { packingListGenerator } from '@/lib/packing-list-generator'
 import { weatherService } from '@/lib/weather-service'
+import { weatherRescheduler, RescheduleProposal, ProposalSide } from '@/lib/weather-rescheduler'
+import { apiClient } from '@/lib/api-client'
+import { toast } from 'sonner'
 import {
   Calendar,
   MapPin,
@@ -29,11 +32,16 @@ import {
   Minus,
   RefreshCw,
   Eye,
-  EyeOff
+  EyeOff,
+  ArrowLeftRight,
+  Check,
+  X
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 
 interface WeatherItineraryIntegrationProps {
+  // Needed to apply rescheduling proposals; without it they aren't offered
+  tripId?: string
   days: Day[]
   destination: {
     name: string
@@ -42,15 +50,27 @@ interface WeatherItineraryIntegrationProps {
   startDate: string
   endDate: string
   onActivityRecommendationChange?: (dayNumber: number, recommendations: string[]) => void
+  // Called once accepted proposals are saved, so the itinerary can reload
+  onItineraryChanged?: () => void
   className?: string
 }
 
+type ProposalDecision = 'accepted' | 'rejected'
+
+const formatDay = (side: ProposalSide, which: 'from' | 'to') => {
+  const date = which === 'from' ? side.fromDate : side.toDate
+  const weekday = new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short' })
+  return `Day ${which === 'from' ? side.fromDay : side.toDay} (${weekday})`
+}
+
 export function WeatherItineraryIntegration({
+  tripId,
   days,
   destination,
   startDate,
   endDate,
   onActivityRecommendationChange,
+  onItineraryChanged,
   className = ''
 }: WeatherItineraryIntegrationProps) {
   const [weatherForecast, setWeatherForecast] = useState<WeatherForecast | null>(null)
@@ -60,6 +80,14 @@ export function WeatherItineraryIntegration({
   const [error, setError] = useState<string | null>(null)
   const [showDetails, setShowDetails] = useState(false)
   const [expandedDays, setExpandedDays] = useState<Set<number>>(new Set())
+  const [decisions, setDecisions] = useState<Record<string, ProposalDecision>>({})
+  const [isApplying, setIsApplying] = useState(false)
+
+  const proposals = useMemo<RescheduleProposal[]>(
+    () => (tripId && weatherForecast ? weatherRescheduler.proposeSwaps(days, weatherForecast.forecast) : []),
+    [tripId, days, weatherForecast]
+  )
+  const accepted = proposals.filter(proposal => decisions[proposal.id] === 'accepted')
 
   // Fetch weather data
   const fetchWeatherData = async () => {
@@ -117,6 +145,36 @@ export function WeatherItineraryIntegration({
     fetchWeatherData()
   }, [destination.coordinates.lat, destination.coordinates.lng, days.length])
 
+  const decide = (proposalId: string, decision: ProposalDecision) => {
+    // Clicking the chosen option again undoes it
+    setDecisions(prev => {
+      const next = { ...prev }
+      if (next[proposalId] === decision) {
+        delete next[proposalId]
+      } else {
+        next[proposalId] = decision
+      }
+      return next
+    })
+  }
+
+  const applyAccepted = async () => {
+    if (!tripId || accepted.length === 0) return
+
+    setIsApplying(true)
+    try {
+      await apiClient.saveActivityChanges(tripId, accepted.map(proposal => proposal.action))
+      toast.success(`${accepted.length} ${accepted.length === 1 ? 'activity swap' : 'activity swaps'} applied`)
+      setDecisions({})
+      onItineraryChanged?.()
+    } catch (err) {
+      console.error('Failed to apply rescheduling:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to apply rescheduling')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
   const toggleDayExpanded = (dayNumber: number) => {
     setExpandedDays(prev => {
       const newSet = new Set(prev)
@@ -253,6 +311,78 @@ export function WeatherItineraryIntegration({
         </CardContent>
       </Card>
 
+      {/* Weather-driven rescheduling */}
+      {proposals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <ArrowLeftRight className="h-5 w-5 text-gray-500" />
+                <div>
+                  <CardTitle className="text-lg">Suggested Rescheduling</CardTitle>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Swaps that put activities on days with better weather. Times and bookings stay as they are.
+                  </p>
+                </div>
+              </div>
+
+              <Button size="sm" onClick={applyAccepted} disabled={accepted.length === 0 || isApplying}>
+                {isApplying && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+                Apply {accepted.length > 0 ? accepted.length : ''} accepted
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-3">
+            {proposals.map(proposal => {
+              const decision = decisions[proposal.id]
+
+              return (
+                <div
+                  key={proposal.id}
+                  className={`p-3 border rounded-lg ${decision === 'rejected' ? 'opacity-50' : ''} ${decision === 'accepted' ? 'border-green-300 bg-green-50/50' : ''}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1 font-mono text-xs">
+                      {[proposal.activity, proposal.swapWith].map(side => (
+                        <div key={side.id}>
+                          <p className="text-red-700 bg-red-50 px-2 py-0.5 rounded truncate">
+                            − {formatDay(side, 'from')} {proposal.timeSlot}: {side.name} · {side.scoreBefore}/100
+                          </p>
+                          <p className="text-green-700 bg-green-50 px-2 py-0.5 rounded truncate">
+                            + {formatDay(side, 'to')} {proposal.timeSlot}: {side.name} · {side.scoreAfter}/100
+                          </p>
+                        </div>
+                      ))}
+                      <p className="font-sans text-gray-600 pt-1">{proposal.reason}</p>
+                    </div>
+
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button
+                        variant={decision === 'accepted' ? 'default' : 'outline'}
+                        size="icon"
+                        onClick={() => decide(proposal.id, 'accepted')}
+                        aria-label="Accept swap"
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant={decision === 'rejected' ? 'default' : 'outline'}
+                        size="icon"
+                        onClick={() => decide(proposal.id, 'rejected')}
+                        aria-label="Reject swap"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Daily Weather Impact */}
       <AnimatePresence>
         {showDetails && (
@@ -15,16 +15,31 @@ import {
   RefreshCw,
   BarChart3,
   Timer,
-  Zap
+  Zap,
+  CloudRain
 } from 'lucide-react';
 import { weatherService } from '@/lib/weather-service';
+import { apiClient } from '@/lib/api-client';
+
+interface WeatherChange {
+  id: string;
+  date: string;
+  kind: 'rain' | 'severe';
+  title: string;
+  message: string;
+  detectedAt: string;
+  trip: { id: string; title: string };
+}
 
 interface WeatherMonitoringProps {
+  // Limits the change list to one trip; otherwise all of the user's trips
+  tripId?: string;
   onStatsUpdate?: (stats: any) => void;
 }
 
-export function WeatherMonitoring({ onStatsUpdate }: WeatherMonitoringProps) {
+export function WeatherMonitoring({ tripId, onStatsUpdate }: WeatherMonitoringProps) {
   const [stats, setStats] = useState<any>(null);
+  const [changes, setChanges] = useState<WeatherChange[]>([]);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -33,6 +48,13 @@ export function WeatherMonitoring({ onStatsUpdate }: WeatherMonitoringProps) {
     return () => clearInterval(interval);
   }, []);
 
+  // Snapshots refresh every few hours in the background, so loading once is enough
+  useEffect(() => {
+    apiClient.getWeatherChanges(tripId)
+      .then((response) => setChanges((response as { changes: WeatherChange[] }).changes))
+      .catch((error) => console.error('Failed to load weather changes:', error));
+  }, [tripId]);
+
   const loadStats = async () => {
     setLoading(true);
     try {
@@ -203,6 +225,43 @@ export function WeatherMonitoring({ onStatsUpdate }: WeatherMonitoringProps) {
         </CardContent>
       </Card>
 
+      {/* Changes found by the background snapshot job */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CloudRain className="h-5 w-5" />
+            Recent Forecast Changes
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No meaningful changes in the latest forecasts.</p>
+          ) : (
+            <div className="space-y-3">
+              {changes.map((change) => (
+                <div key={change.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      {change.kind === 'severe' ? (
+                        <AlertTriangle className="h-4 w-4 text-red-600" />
+                      ) : (
+                        <CloudRain className="h-4 w-4 text-blue-600" />
+                      )}
+                      <h3 className="font-semibold text-sm">{change.title}</h3>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">{change.message}</p>
+                    {!tripId && <p className="text-xs text-muted-foreground mt-1">{change.trip.title}</p>}
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {new Date(change.detectedAt).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Alerts */}
       {overallSuccessRate < 80 && (
         <Alert>
@@ -6,7 +6,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Day } from '@/lib/itinerary-types'
 import { ProcessedWeather, WeatherForecast } from '@/lib/weather-types'
-import { getWeatherForecast } from '@/lib/weather-api'
+import { weatherService, FORECAST_HORIZON_DAYS } from '@/lib/weather-service'
+import { apiClient } from '@/lib/api-client'
 import {
   Calendar,
   MapPin,
@@ -21,11 +22,14 @@ import {
   AlertTriangle,
   ChevronDown,
   ChevronUp,
-  Umbrella
+  Umbrella,
+  Sunrise
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 
 interface WeatherSidebarProps {
+  // Saved trips render their stored snapshots before asking providers
+  tripId?: string
   days: Day[]
   destination: {
     name: string
@@ -59,6 +63,7 @@ const getTemperatureColor = (temp: number) => {
 }
 
 export function WeatherSidebar({
+  tripId,
   days,
   destination,
   startDate,
@@ -77,9 +82,21 @@ export function WeatherSidebar({
     setError(null)
 
     try {
-      const forecast = await getWeatherForecast(
+      if (tripId) {
+        const stored = await apiClient.getTripWeather(tripId)
+          .then((response) => (response as { forecast: WeatherForecast | null }).forecast)
+          .catch(() => null)
+        if (stored) {
+          setWeatherForecast(stored)
+          return
+        }
+      }
+
+      const forecast = await weatherService.getTripWeather(
         destination.coordinates.lat,
         destination.coordinates.lng,
+        startDate,
+        endDate,
         destination.name
       )
       setWeatherForecast(forecast)
@@ -92,7 +109,7 @@ export function WeatherSidebar({
 
   useEffect(() => {
     fetchWeatherData()
-  }, [destination.coordinates.lat, destination.coordinates.lng])
+  }, [tripId, destination.coordinates.lat, destination.coordinates.lng, startDate, endDate])
 
   if (isLoading) {
     return (
@@ -126,6 +143,9 @@ export function WeatherSidebar({
   const forecast = weatherForecast.forecast.slice(0, days.length)
   const rainyDays = forecast.filter(d => d.precipitation.probability > 40).length
   const avgTemp = Math.round(forecast.reduce((sum, d) => sum + d.temperature.max, 0) / forecast.length)
+  // Before the trip is within forecast range the "current" card shows its first day's normals
+  const isTypical = currentWeather.source === 'climatology'
+  const climatology = weatherForecast.climatology
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -138,7 +158,7 @@ export function WeatherSidebar({
               <CardTitle className="text-base">{destination.name}</CardTitle>
             </div>
             <Badge variant="outline" className="text-xs">
-              Live
+              {isTypical ? 'Typical' : 'Live'}
             </Badge>
           </div>
         </CardHeader>
@@ -163,16 +183,33 @@ export function WeatherSidebar({
               <span className="text-gray-600">Feels like</span>
               <span className="font-medium">{currentWeather.temperature.feelsLike}°C</span>
             </div>
-            <div className="flex items-center gap-2 p-2 bg-gray-50 rounded">
-              <Wind className="h-3 w-3 text-gray-500" />
-              <span className="text-gray-600">Wind</span>
-              <span className="font-medium">{currentWeather.wind.speed} km/h</span>
-            </div>
-            <div className="flex items-center gap-2 p-2 bg-gray-50 rounded">
-              <Droplets className="h-3 w-3 text-gray-500" />
-              <span className="text-gray-600">Humidity</span>
-              <span className="font-medium">{currentWeather.humidity}%</span>
-            </div>
+            {isTypical ? (
+              <>
+                <div className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                  <Sunrise className="h-3 w-3 text-gray-500" />
+                  <span className="text-gray-600">Daylight</span>
+                  <span className="font-medium">{currentWeather.daylightHours} h</span>
+                </div>
+                <div className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                  <Droplets className="h-3 w-3 text-gray-500" />
+                  <span className="text-gray-600">Rain</span>
+                  <span className="font-medium">{currentWeather.precipitation.probability}%</span>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                  <Wind className="h-3 w-3 text-gray-500" />
+                  <span className="text-gray-600">Wind</span>
+                  <span className="font-medium">{currentWeather.wind.speed} km/h</span>
+                </div>
+                <div className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                  <Droplets className="h-3 w-3 text-gray-500" />
+                  <span className="text-gray-600">Humidity</span>
+                  <span className="font-medium">{currentWeather.humidity}%</span>
+                </div>
+              </>
+            )}
             <div className="flex items-center gap-2 p-2 bg-gray-50 rounded">
               <Eye className="h-3 w-3 text-gray-500" />
               <span className="text-gray-600">Visibility</span>
@@ -206,6 +243,16 @@ export function WeatherSidebar({
             </div>
           </div>
 
+          {climatology && (
+            <p className="text-xs text-gray-500 mb-4">
+              Days more than {FORECAST_HORIZON_DAYS} days ahead show typical weather from climate normals
+              {climatology.basis === 'station'
+                ? ` for ${climatology.station}`
+                : ' for the latitude, as no weather station is nearby'}
+              . They switch to the forecast as the trip gets closer.
+            </p>
+          )}
+
           {/* Weather Recommendation */}
           <div className="p-3 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg mb-4">
             <div className="flex items-start gap-2">
@@ -285,6 +332,9 @@ export function WeatherSidebar({
                             <div className="text-sm font-medium capitalize">
                               {weather.condition.description}
                             </div>
+                            {weather.source === 'climatology' && (
+                              <div className="text-xs text-gray-400">Typical for the date</div>
+                            )}
                             <div className="text-xs text-gray-600">
                               {weather.precipitation.probability > 40 && (
                                 <span className="flex items-center gap-1">
@@ -24,7 +24,7 @@ interface UseRetryProgressReturn {
   state: UseRetryProgressState
   
   // Actions
-  startRetry: () => CancellationToken
+  startRetry: (onCancel?: () => void) => CancellationToken
   cancelRetry: () => void
   updateProgress: (progress: RetryProgress) => void
   setError: (error: string | null) => void
@@ -47,8 +47,8 @@ export function useRetryProgress(): UseRetryProgressReturn {
   const cancellationTokenRef = useRef<CancellationToken | null>(null)
   const startTimeRef = useRef<number>(Date.now())
 
-  const startRetry = useCallback((): CancellationToken => {
-    const token = createCancellationToken()
+  const startRetry = useCallback((onCancel?: () => void): CancellationToken => {
+    const token = createCancellationToken(onCancel)
     cancellationTokenRef.current = token
     startTimeRef.current = Date.now()
     
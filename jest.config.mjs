@@ -0,0 +1,22 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/lib"],
+  testMatch: ["**/__tests__/**/*.test.ts"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/$1",
+  },
+  // supercluster and kdbush ship ES modules only
+  transformIgnorePatterns: ["/node_modules/(?!(supercluster|kdbush)/)"],
+  transform: {
+    "^.+\\.[jt]sx?$": [
+      "ts-jest",
+      {
+        // The app's tsconfig targets the Next bundler; tests run as CommonJS
+        tsconfig: { module: "commonjs", moduleResolution: "node", jsx: "react-jsx", allowJs: true, isolatedModules: true },
+      },
+    ],
+  },
+};
+
+export default jestConfig;
@@ -0,0 +1,86 @@
+/**
+ * AI Provider Tests
+ * Tests for fixture replay and recording
+ */
+
+import { mkdtempSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FixtureReplayProvider, LLMProvider } from '../ai-providers';
+
+const request = { prompt: 'Plan 2 days in Lisbon', model: 'test-model', maxTokens: 100, temperature: 0.7 };
+
+function recordFixture(directory: string, text: string) {
+  const key = FixtureReplayProvider.keyFor(request.prompt);
+  writeFileSync(path.join(directory, `${key}.json`), JSON.stringify({ key, text, usage: { inputTokens: 6, outputTokens: 40 } }));
+}
+
+describe('FixtureReplayProvider', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'ai-fixtures-'));
+  });
+
+  it('replays the recorded response for a prompt', async () => {
+    recordFixture(directory, '{"itinerary": {}}');
+    const provider = new FixtureReplayProvider(directory);
+
+    await expect(provider.complete(request)).resolves.toEqual({
+      text: '{"itinerary": {}}',
+      usage: { inputTokens: 6, outputTokens: 40 },
+    });
+  });
+
+  it('streams recorded text in deterministic chunks', async () => {
+    recordFixture(directory, 'x'.repeat(600));
+    const provider = new FixtureReplayProvider(directory);
+    const lengths: number[] = [];
+
+    await provider.complete({ ...request, onText: (text) => lengths.push(text.length) });
+
+    expect(lengths).toEqual([256, 512, 600]);
+  });
+
+  it('stops streaming once the attempt is aborted', async () => {
+    recordFixture(directory, 'x'.repeat(600));
+    const provider = new FixtureReplayProvider(directory);
+    const controller = new AbortController();
+    const lengths: number[] = [];
+
+    const completion = provider.complete({
+      ...request,
+      signal: controller.signal,
+      onText: (text) => {
+        lengths.push(text.length);
+        controller.abort();
+      },
+    });
+
+    await expect(completion).rejects.toThrow('aborted');
+    expect(lengths).toEqual([256]);
+  });
+
+  it('fails without retrying when no response is recorded', async () => {
+    const provider = new FixtureReplayProvider(directory);
+
+    await expect(provider.complete(request)).rejects.toMatchObject({ code: 'FIXTURE_NOT_FOUND' });
+  });
+
+  it('records misses from the live provider', async () => {
+    const live: LLMProvider = {
+      name: 'live',
+      defaultModel: 'test-model',
+      getModelProfile: () => ({ maxOutputTokens: 100, contextTokens: 1000, inputCostPerMillion: 0, outputCostPerMillion: 0 }),
+      complete: jest.fn().mockResolvedValue({ text: 'recorded', usage: { inputTokens: 1, outputTokens: 2 } }),
+      healthCheck: async () => undefined,
+    };
+
+    await new FixtureReplayProvider(directory, live).complete(request);
+    const file = path.join(directory, `${FixtureReplayProvider.keyFor(request.prompt)}.json`);
+
+    expect(existsSync(file)).toBe(true);
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toMatchObject({ provider: 'live', text: 'recorded' });
+    await expect(new FixtureReplayProvider(directory).complete(request)).resolves.toMatchObject({ text: 'recorded' });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Calendar Generator Tests
+ * Tests for iCalendar export and calendar deep links
+ */
+
+import { calendarGenerator, TripWithActivities } from '../calendar-generator';
+
+const trip: TripWithActivities = {
+  id: 'trip-1',
+  title: 'Paris Getaway',
+  destination: 'Paris, France',
+  startDate: '2026-10-23T00:00:00.000Z',
+  endDate: '2026-10-27T00:00:00.000Z',
+  activities: [
+    {
+      id: 'louvre',
+      name: 'Louvre Museum',
+      location: 'Louvre Museum',
+      address: 'Rue de Rivoli, 75001 Paris',
+      coordinates: { lat: 48.8606, lng: 2.3376 },
+      startTime: '09:00',
+      endTime: '12:00',
+      notes: 'Tickets in email',
+      day: { date: '2026-10-24', dayNumber: 2 },
+    },
+    {
+      id: 'late-dinner',
+      name: 'Late Dinner',
+      startTime: '22:30',
+      endTime: '00:30',
+      day: { date: '2026-10-25', dayNumber: 3 },
+    },
+    {
+      id: 'free-day',
+      name: 'Free Day',
+      day: { date: '2026-10-26', dayNumber: 4 },
+    },
+    {
+      id: 'unscheduled',
+      name: 'Somewhere, sometime',
+    },
+  ],
+};
+
+describe('calendarGenerator', () => {
+  describe('getEventTimes', () => {
+    it('should use local wall-clock times on the day date', () => {
+      expect(calendarGenerator.getEventTimes(trip.activities[0])).toEqual({
+        start: '2026-10-24T09:00:00',
+        end: '2026-10-24T12:00:00',
+        allDay: false,
+      });
+    });
+
+    it('should roll end times before the start into the next day', () => {
+      const times = calendarGenerator.getEventTimes(trip.activities[1]);
+      expect(times?.end).toBe('2026-10-26T00:30:00');
+    });
+
+    it('should fall back to the duration when there is no end time', () => {
+      const times = calendarGenerator.getEventTimes({
+        id: 'walk',
+        name: 'Walk',
+        startTime: '10:00',
+        duration: '90 minutes',
+        day: { date: '2026-10-24' },
+      });
+      expect(times?.end).toBe('2026-10-24T11:30:00');
+    });
+
+    it('should make activities without a start time all-day events', () => {
+      expect(calendarGenerator.getEventTimes(trip.activities[2])?.allDay).toBe(true);
+    });
+
+    it('should return null for activities without a day', () => {
+      expect(calendarGenerator.getEventTimes(trip.activities[3])).toBeNull();
+    });
+  });
+
+  describe('generateiCal', () => {
+    const ics = calendarGenerator.generateiCal(trip);
+
+    it('should emit one event per scheduled activity', () => {
+      expect(ics).toContain('BEGIN:VCALENDAR');
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+      expect(ics).not.toContain('Somewhere, sometime');
+    });
+
+    it('should use stable UIDs and the destination timezone', () => {
+      expect(ics).toContain('UID:louvre@terravoyage.app');
+      expect(ics).toContain('DTSTART;TZID=Europe/Paris:20261024T090000');
+      expect(ics).toContain('GEO:48.8606;2.3376');
+    });
+
+    it('should describe the DST change inside the trip in VTIMEZONE', () => {
+      expect(ics).toContain('TZID:Europe/Paris');
+      expect(ics).toContain('DTSTART:20261025T030000');
+      expect(ics).toContain('TZOFFSETFROM:+0200');
+      expect(ics).toContain('TZOFFSETTO:+0100');
+    });
+
+    it('should mark overridden events as cancelled with a sequence', () => {
+      const cancelled = calendarGenerator.generateiCal(trip, {
+        eventOverrides: { louvre: { sequence: 3, cancelled: true } },
+      });
+      expect(cancelled).toContain('SEQUENCE:3');
+      expect(cancelled).toContain('STATUS:CANCELLED');
+    });
+
+    it('should put each activity in its own timezone with one VTIMEZONE per zone', () => {
+      const multiCity = calendarGenerator.generateiCal(trip, {
+        timezoneFor: (activity) => (activity.id === 'late-dinner' ? 'Europe/London' : undefined),
+      });
+      expect(multiCity).toContain('DTSTART;TZID=Europe/Paris:20261024T090000');
+      expect(multiCity).toContain('DTSTART;TZID=Europe/London:20261025T223000');
+      expect(multiCity.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2);
+      expect(multiCity).toContain('TZID:Europe/London');
+    });
+  });
+
+  describe('deep links', () => {
+    it('should build a Google Calendar link in the destination timezone', () => {
+      const url = new URL(
+        calendarGenerator.generateGoogleCalendarUrl(trip.activities[0], 'Europe/Paris')
+      );
+      expect(url.searchParams.get('dates')).toBe('20261024T090000/20261024T120000');
+      expect(url.searchParams.get('ctz')).toBe('Europe/Paris');
+    });
+
+    it('should build an Outlook link with UTC instants', () => {
+      const url = new URL(
+        calendarGenerator.generateOutlookCalendarUrl(trip.activities[0], 'Europe/Paris')
+      );
+      expect(url.searchParams.get('startdt')).toBe('2026-10-24T07:00:00Z');
+      expect(url.searchParams.get('enddt')).toBe('2026-10-24T10:00:00Z');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Climate Normals Tests
+ * Station lookup, daily interpolation, daylight and per-day expectations
+ */
+
+import { climatologyForDate, climatologyForRange, daylight, interpolateMonthly, normalsFor } from '../climate-normals';
+
+describe('normalsFor', () => {
+  it('uses the nearest station when one is close', () => {
+    expect(normalsFor(48.85, 2.29).basis).toMatchObject({ basis: 'station', station: 'Paris' });
+  });
+
+  it('falls back to latitude bands far from any station', () => {
+    expect(normalsFor(-45, -120).basis).toEqual({ basis: 'zonal' });
+  });
+});
+
+describe('interpolateMonthly', () => {
+  const values = [0, 30, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+  it('matches the monthly value mid-month', () => {
+    expect(interpolateMonthly(values, '2027-02-15')).toBeGreaterThan(29);
+  });
+
+  it('blends neighbouring months at the turn of the month', () => {
+    const blended = interpolateMonthly(values, '2027-02-01');
+
+    expect(blended).toBeGreaterThan(14);
+    expect(blended).toBeLessThan(17);
+  });
+});
+
+describe('daylight', () => {
+  it('is long in the northern summer and short in winter', () => {
+    expect(daylight(51.5, '2027-06-21').hours).toBeGreaterThan(16);
+    expect(daylight(51.5, '2027-12-21').hours).toBeLessThan(8);
+  });
+
+  it('handles the midnight sun', () => {
+    expect(daylight(78, '2027-06-21')).toEqual({ hours: 24, sunrise: '00:00', sunset: '23:59' });
+  });
+});
+
+describe('climatologyForDate', () => {
+  it('describes the trip date, not today', () => {
+    const winter = climatologyForDate(52.52, 13.4, '2027-01-15');
+    const summer = climatologyForDate(52.52, 13.4, '2027-07-15');
+
+    expect(winter.date).toBe('2027-01-15');
+    expect(winter.temperature.max).toBeLessThan(summer.temperature.max);
+    expect(summer.source).toBe('climatology');
+  });
+
+  it('flips the seasons south of the equator', () => {
+    expect(climatologyForDate(-33.87, 151.21, '2027-01-15').temperature.max)
+      .toBeGreaterThan(climatologyForDate(-33.87, 151.21, '2027-07-15').temperature.max);
+  });
+
+  it('reflects dry and wet seasons', () => {
+    expect(climatologyForDate(19.08, 72.88, '2027-02-15').precipitation.probability).toBe(0);
+    expect(climatologyForDate(19.08, 72.88, '2027-07-15').precipitation.probability).toBeGreaterThan(50);
+  });
+});
+
+describe('climatologyForRange', () => {
+  it('returns one day per trip date, inclusive', () => {
+    const days = climatologyForRange(41.9, 12.5, '2027-04-29', '2027-05-02');
+
+    expect(days.map(day => day.date)).toEqual(['2027-04-29', '2027-04-30', '2027-05-01', '2027-05-02']);
+  });
+});
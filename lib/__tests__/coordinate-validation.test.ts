@@ -10,6 +10,13 @@ describe('CoordinateValidator', () => {
     it('should validate correct coordinates', () => {
       const result = CoordinateValidator.validate({ lat: 48.8566, lng: 2.3522 });
       expect(result.valid).toBe(true);
+      // Four decimals meet the city-level minimum; high accuracy needs six
+      expect(result.accuracy).toBe('medium');
+    });
+
+    it('should rate six-decimal coordinates as high accuracy', () => {
+      const result = CoordinateValidator.validate({ lat: 48.856614, lng: 2.352222 });
+      expect(result.valid).toBe(true);
       expect(result.accuracy).toBe('high');
     });
 
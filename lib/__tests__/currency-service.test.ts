@@ -0,0 +1,106 @@
+/**
+ * Currency Service Tests
+ * ECB rate parsing and fetching, cross-currency conversion and trip rate dates
+ */
+
+import { convertAmount, CurrencyError, CurrencyService, RateSnapshot } from '../currency-service';
+import { EcbRateSource, FixtureRateSource, parseEcbXml } from '../fx-rate-sources';
+
+const ecbXml = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <Cube>
+    <Cube time='2026-10-15'>
+      <Cube currency='USD' rate='1.1000'/>
+      <Cube currency='JPY' rate='160.00'/>
+    </Cube>
+    <Cube time='2026-10-16'>
+      <Cube currency='USD' rate='1.1200'/>
+      <Cube currency='JPY' rate='162.40'/>
+      <Cube currency='GBP' rate='0.8600'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+const snapshot: RateSnapshot = {
+  date: '2026-10-18',
+  rateDate: '2026-10-16',
+  base: 'EUR',
+  source: 'ecb',
+  rates: { EUR: 1, USD: 1.12, JPY: 162.4 },
+};
+
+describe('parseEcbXml', () => {
+  it('reads one EUR-based entry per publication day, newest first', () => {
+    const days = parseEcbXml(ecbXml);
+
+    expect(days.map(day => day.date)).toEqual(['2026-10-16', '2026-10-15']);
+    expect(days[0]).toEqual({
+      date: '2026-10-16',
+      base: 'EUR',
+      rates: { EUR: 1, USD: 1.12, JPY: 162.4, GBP: 0.86 },
+    });
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts to and from the base currency', () => {
+    expect(convertAmount(100, 'EUR', 'USD', snapshot)).toBeCloseTo(112);
+    expect(convertAmount(112, 'USD', 'EUR', snapshot)).toBeCloseTo(100);
+  });
+
+  it('converts between two non-base currencies through the base', () => {
+    expect(convertAmount(1624, 'JPY', 'USD', snapshot)).toBeCloseTo(11.2);
+  });
+
+  it('rejects currencies the snapshot has no rate for', () => {
+    expect(() => convertAmount(10, 'XYZ', 'USD', snapshot)).toThrow(CurrencyError);
+  });
+});
+
+describe('CurrencyService.rateDateForTrip', () => {
+  it('uses the last day of a completed trip', () => {
+    expect(CurrencyService.rateDateForTrip({ status: 'COMPLETED', endDate: new Date('2025-06-10T00:00:00Z') }))
+      .toBe('2025-06-10');
+  });
+
+  it("uses today's rates for trips still being planned", () => {
+    const today = new Date().toISOString().slice(0, 10);
+    expect(CurrencyService.rateDateForTrip({ status: 'PLANNED', endDate: new Date('2025-06-10T00:00:00Z') }))
+      .toBe(today);
+  });
+});
+
+describe('FixtureRateSource', () => {
+  it('falls back to the built-in USD table', async () => {
+    const rates = await new FixtureRateSource().fetchRates('2026-01-02');
+
+    expect(rates).toMatchObject({ date: '2026-01-02', base: 'USD' });
+    expect(rates.rates.USD).toBe(1);
+    expect(rates.rates.EUR).toBeGreaterThan(0);
+  });
+});
+
+describe('EcbRateSource', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reaches past the 90-day file for older trips, with a timeout on every request', async () => {
+    const historyXml = ecbXml.replace("time='2026-10-15'", "time='2025-12-31'");
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async url =>
+      new Response(String(url).includes('hist') ? historyXml : ecbXml)
+    );
+
+    const rates = await new EcbRateSource().fetchRates('2026-01-02');
+
+    expect(rates).toMatchObject({ date: '2025-12-31', rates: { USD: 1.1 } });
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls).toEqual([
+      'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml',
+      'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist.xml',
+    ]);
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+    }
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Expense Splitting Tests
+ * Per-expense split rules, member balances and settle-up transfers
+ */
+
+import { computeBalances, settleUp, splitAmount } from '../expense-splitting';
+
+describe('splitAmount', () => {
+  it('splits equally to the cent', () => {
+    expect(splitAmount(100, { type: 'equal', userIds: ['ana', 'ben', 'cy'] })).toEqual({ ana: 33.34, ben: 33.33, cy: 33.33 });
+  });
+
+  it('splits by shares', () => {
+    expect(splitAmount(90, { type: 'shares', shares: { ana: 2, ben: 1 } })).toEqual({ ana: 60, ben: 30 });
+  });
+
+  it('keeps exact amounts in proportion after conversion', () => {
+    const parts = splitAmount(55, { type: 'exact', amounts: { ana: 80, ben: 20 } });
+
+    expect(parts).toEqual({ ana: 44, ben: 11 });
+  });
+});
+
+describe('computeBalances', () => {
+  it('nets what each member paid against their share', () => {
+    const balances = computeBalances([
+      { paidById: 'ana', amount: 90, split: { type: 'equal', userIds: ['ana', 'ben', 'cy'] } },
+      { paidById: 'ben', amount: 30, split: { type: 'equal', userIds: ['ben', 'cy'] } },
+    ], ['ana', 'ben', 'cy', 'dee']);
+
+    expect(balances).toEqual([
+      { userId: 'ana', paid: 90, owed: 30, balance: 60 },
+      { userId: 'ben', paid: 30, owed: 45, balance: -15 },
+      { userId: 'cy', paid: 0, owed: 45, balance: -45 },
+      { userId: 'dee', paid: 0, owed: 0, balance: 0 },
+    ]);
+  });
+
+  it('always balances to zero', () => {
+    const balances = computeBalances([
+      { paidById: 'ana', amount: 10, split: { type: 'equal', userIds: ['ana', 'ben', 'cy'] } },
+      { paidById: 'cy', amount: 17.77, split: { type: 'shares', shares: { ana: 1, ben: 3, cy: 3 } } },
+    ]);
+
+    expect(balances.reduce((sum, member) => sum + Math.round(member.balance * 100), 0)).toBe(0);
+  });
+});
+
+describe('settleUp', () => {
+  it('settles every balance with the fewest payments', () => {
+    const transfers = settleUp([
+      { userId: 'ana', paid: 90, owed: 30, balance: 60 },
+      { userId: 'ben', paid: 30, owed: 45, balance: -15 },
+      { userId: 'cy', paid: 0, owed: 45, balance: -45 },
+    ]);
+
+    expect(transfers).toEqual([
+      { fromUserId: 'cy', toUserId: 'ana', amount: 45 },
+      { fromUserId: 'ben', toUserId: 'ana', amount: 15 },
+    ]);
+  });
+
+  it('needs no payments when everyone is even', () => {
+    expect(settleUp([{ userId: 'ana', paid: 20, owed: 20, balance: 0 }])).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Expense Summary Tests
+ * Planned-vs-actual spending per category and per day, and overrun warnings
+ */
+
+import { summariseSpend, SpendPlan } from '../expense-summary';
+
+const plan: SpendPlan = {
+  total: 1000,
+  categories: { accommodation: 500, food: 200, activities: 150, transportation: 100, other: 50 },
+  days: [
+    { dayNumber: 1, date: '2026-05-01', planned: 300 },
+    { dayNumber: 2, date: '2026-05-02', planned: 300 },
+  ],
+};
+
+describe('summariseSpend', () => {
+  it('totals spending per category and per day', () => {
+    const summary = summariseSpend(plan, [
+      { amount: 40, category: 'food', dayNumber: 1 },
+      { amount: 25.5, category: 'food', dayNumber: 2 },
+      { amount: 60, category: 'activities', dayNumber: 2 },
+    ], 'EUR');
+
+    expect(summary.total).toEqual({ planned: 1000, actual: 125.5, status: 'ok' });
+    expect(summary.categories.find(line => line.category === 'food')).toMatchObject({ planned: 200, actual: 65.5 });
+    expect(summary.days.map(day => day.actual)).toEqual([40, 85.5]);
+    expect(summary.warnings).toEqual([]);
+  });
+
+  it('warns when a category nears its plan and when it overruns', () => {
+    const summary = summariseSpend(plan, [
+      { amount: 185, category: 'food', dayNumber: 1 },
+      { amount: 130, category: 'transportation', dayNumber: 1 },
+    ], 'EUR');
+
+    expect(summary.categories.find(line => line.category === 'food')!.status).toBe('warning');
+    expect(summary.categories.find(line => line.category === 'transportation')!.status).toBe('over');
+    expect(summary.warnings.map(warning => [warning.category, warning.status])).toEqual([
+      ['food', 'warning'],
+      ['transportation', 'over'],
+    ]);
+    expect(summary.days[0].status).toBe('over');
+  });
+
+  it('keeps spending outside the itinerary separate', () => {
+    const summary = summariseSpend(plan, [{ amount: 80, category: 'transportation', dayNumber: null }], 'EUR');
+
+    expect(summary.unassigned).toBe(80);
+    expect(summary.days.every(day => day.actual === 0)).toBe(true);
+  });
+
+  it('never warns about categories without a plan', () => {
+    const summary = summariseSpend({ total: null, categories: {}, days: [] }, [
+      { amount: 500, category: 'other', dayNumber: null },
+    ], 'EUR');
+
+    expect(summary.total).toEqual({ planned: null, actual: 500, status: 'ok' });
+    expect(summary.warnings).toEqual([]);
+  });
+});
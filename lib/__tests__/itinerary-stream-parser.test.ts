@@ -0,0 +1,60 @@
+/**
+ * Itinerary Stream Parser Tests
+ * Tests for extracting completed days from partial AI output
+ */
+
+import { PartialDayParser } from '../itinerary-stream-parser';
+
+const response = JSON.stringify({
+  itinerary: {
+    destination: 'Lisbon',
+    days: [
+      { day: 1, theme: 'Alfama {old town}', activities: [{ name: 'Tram "28"', tips: ['Go early [before 9]'] }] },
+      { day: 2, theme: 'Belém', activities: [] },
+    ],
+    generalTips: ['Wear comfy shoes'],
+  },
+});
+
+describe('PartialDayParser', () => {
+  it('emits each day once it is complete', () => {
+    const parser = new PartialDayParser();
+    const secondDayStart = response.indexOf('{"day":2');
+
+    expect(parser.push(response.slice(0, secondDayStart - 10))).toEqual([]);
+
+    const first = parser.push(response.slice(0, secondDayStart + 5));
+    expect(first).toHaveLength(1);
+    expect(first[0]).toMatchObject({ day: 1, theme: 'Alfama {old town}' });
+
+    const second = parser.push(response);
+    expect(second).toHaveLength(1);
+    expect(second[0]).toMatchObject({ day: 2 });
+  });
+
+  it('handles chunks that split strings and escapes', () => {
+    const parser = new PartialDayParser();
+    const days: unknown[] = [];
+
+    for (let end = 1; end <= response.length; end += 7) {
+      days.push(...parser.push(response.slice(0, end)));
+    }
+    days.push(...parser.push(response));
+
+    expect(days).toHaveLength(2);
+    expect(days[0]).toMatchObject({ activities: [{ name: 'Tram "28"' }] });
+  });
+
+  it('stops at the end of the days array', () => {
+    const parser = new PartialDayParser();
+    parser.push(response);
+
+    expect(parser.push(response + '{"day":3}')).toEqual([]);
+  });
+
+  it('ignores output without a days array', () => {
+    const parser = new PartialDayParser();
+
+    expect(parser.push('```json\n{"itinerary": {"destination": "Lisbon"')).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Offline Queue Replay Tests
+ * Queued changes map onto the trip and activity API routes
+ */
+
+import { offlineQueueRequest, OfflineQueueItem } from '../offline-cache';
+
+function queued(item: Pick<OfflineQueueItem, 'type' | 'resource' | 'data'>): OfflineQueueItem {
+  return { id: 'queue-1', timestamp: 0, retryCount: 0, ...item };
+}
+
+describe('offlineQueueRequest', () => {
+  it('creates trips on the trips collection', () => {
+    const { url, init } = offlineQueueRequest(queued({ type: 'create', resource: 'trip', data: { title: 'Lisbon' } }));
+
+    expect(url).toBe('/api/user/trips');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body as string)).toEqual({ title: 'Lisbon' });
+  });
+
+  it('updates a trip without sending its id in the body', () => {
+    const { url, init } = offlineQueueRequest(queued({ type: 'update', resource: 'trip', data: { id: 'trip-1', title: 'Porto' } }));
+
+    expect(url).toBe('/api/user/trips/trip-1');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body as string)).toEqual({ title: 'Porto' });
+  });
+
+  it('routes activity changes through their trip', () => {
+    expect(offlineQueueRequest(queued({ type: 'create', resource: 'activity', data: { tripId: 'trip-1', name: 'Tram 28' } })).url)
+      .toBe('/api/user/trips/trip-1/activities');
+
+    const update = offlineQueueRequest(queued({ type: 'update', resource: 'activity', data: { id: 'act-1', tripId: 'trip-1', notes: 'Go early' } }));
+    expect(update.url).toBe('/api/user/trips/trip-1/activities/act-1');
+    expect(update.init.method).toBe('PATCH');
+    expect(JSON.parse(update.init.body as string)).toEqual({ notes: 'Go early' });
+  });
+
+  it('sends deletes without a body', () => {
+    const { url, init } = offlineQueueRequest(queued({ type: 'delete', resource: 'activity', data: { id: 'act-1', tripId: 'trip-1' } }));
+
+    expect(url).toBe('/api/user/trips/trip-1/activities/act-1');
+    expect(init).toEqual({ method: 'DELETE' });
+  });
+});
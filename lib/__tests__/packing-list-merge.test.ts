@@ -0,0 +1,67 @@
+/**
+ * Packing List Merge Tests
+ * Regenerating suggestions must never cost the traveller their ticks or edits
+ */
+
+import { mergeGeneratedItems, SavedPackingItem } from '../packing-list-merge';
+import { PackingItem } from '../weather-types';
+
+function suggestion(item: string, overrides: Partial<PackingItem> = {}): PackingItem {
+  return { item, category: 'clothing', priority: 'recommended', reason: 'Forecast', quantity: 1, ...overrides };
+}
+
+function saved(id: string, name: string, overrides: Partial<SavedPackingItem> = {}): SavedPackingItem {
+  return { id, name, checked: false, source: 'generated', edited: false, ...overrides };
+}
+
+describe('mergeGeneratedItems', () => {
+  it('creates everything on a new list', () => {
+    const merge = mergeGeneratedItems([], [suggestion('Umbrella'), suggestion('Sunscreen')]);
+
+    expect(merge.create.map(item => item.item)).toEqual(['Umbrella', 'Sunscreen']);
+    expect(merge.update).toEqual([]);
+    expect(merge.remove).toEqual([]);
+  });
+
+  it('refreshes untouched generated items, matching names loosely', () => {
+    const merge = mergeGeneratedItems([saved('a', 'umbrella ')], [suggestion('Umbrella', { quantity: 2 })]);
+
+    expect(merge.create).toEqual([]);
+    expect(merge.update).toEqual([{ id: 'a', item: expect.objectContaining({ quantity: 2 }) }]);
+  });
+
+  it('keeps the traveller\'s version of an edited item', () => {
+    const merge = mergeGeneratedItems([saved('a', 'Umbrella', { edited: true })], [suggestion('Umbrella', { quantity: 2 })]);
+
+    expect(merge.update).toEqual([]);
+    expect(merge.create).toEqual([]);
+  });
+
+  it('does not duplicate custom or template items', () => {
+    const merge = mergeGeneratedItems(
+      [saved('a', 'Sunscreen', { source: 'custom' }), saved('b', 'Hat', { source: 'template' })],
+      [suggestion('Sunscreen'), suggestion('Hat')]
+    );
+
+    expect(merge).toEqual({ create: [], update: [], remove: [] });
+  });
+
+  it('drops generated items the weather no longer calls for', () => {
+    const merge = mergeGeneratedItems([saved('a', 'Umbrella')], [suggestion('Sunscreen')]);
+
+    expect(merge.remove).toEqual(['a']);
+  });
+
+  it('keeps stale items that are ticked, edited or added by hand', () => {
+    const merge = mergeGeneratedItems(
+      [
+        saved('a', 'Umbrella', { checked: true }),
+        saved('b', 'Raincoat', { edited: true }),
+        saved('c', 'Camera', { source: 'custom' })
+      ],
+      []
+    );
+
+    expect(merge.remove).toEqual([]);
+  });
+});
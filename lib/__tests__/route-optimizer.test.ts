@@ -0,0 +1,112 @@
+/**
+ * Route Optimizer Tests
+ * Reordering a day's activities within time slots, around pinned activities and opening hours
+ */
+
+import { optimiseDayRoute } from '../route-optimizer';
+import { Activity, Day } from '../itinerary-types';
+
+const places = {
+  eiffel: { lat: 48.8584, lng: 2.2945 },
+  trocadero: { lat: 48.8616, lng: 2.2893 },
+  sacreCoeur: { lat: 48.8867, lng: 2.3431 },
+  moulinRouge: { lat: 48.8841, lng: 2.3322 },
+};
+
+function activity(id: keyof typeof places, startTime: string, endTime: string, extra: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    timeSlot: 'morning',
+    startTime,
+    endTime,
+    type: 'attraction',
+    description: `Visit ${id}`,
+    location: { name: id, address: id, coordinates: places[id] },
+    pricing: { amount: 0, currency: 'EUR', priceType: 'free' },
+    duration: '60 minutes',
+    tips: [],
+    bookingRequired: false,
+    accessibility: { wheelchairAccessible: true, hasElevator: false, notes: '' },
+    ...extra,
+  };
+}
+
+function day(activities: Activity[]): Day {
+  return {
+    day: 1,
+    date: '2026-05-01',
+    theme: 'Paris',
+    activities,
+    dailyBudget: { amount: 100, currency: 'EUR' },
+    transportation: { primaryMethod: 'walking', estimatedCost: 0, notes: '' },
+  };
+}
+
+const ids = (activities: Activity[]) => activities.map(a => a.id);
+
+describe('optimiseDayRoute', () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+  it('visits nearby activities back to back and moves times with them', () => {
+    const result = optimiseDayRoute(day([
+      activity('eiffel', '09:00', '10:00', { locked: true }),
+      activity('sacreCoeur', '10:30', '11:30'),
+      activity('trocadero', '12:00', '13:00'),
+    ]));
+
+    expect(ids(result!.activities)).toEqual(['eiffel', 'trocadero', 'sacreCoeur']);
+    expect(result!.activities[1]).toMatchObject({ id: 'trocadero', startTime: '10:30', endTime: '11:30' });
+    expect(result!.distanceAfterKm).toBeLessThan(result!.distanceBeforeKm);
+    expect(result!.changes.map(change => change.activityId)).toEqual(['trocadero', 'sacreCoeur']);
+  });
+
+  it('returns null when the day is already in the shortest order', () => {
+    expect(optimiseDayRoute(day([
+      activity('eiffel', '09:00', '10:00'),
+      activity('trocadero', '10:30', '11:30'),
+      activity('sacreCoeur', '12:00', '13:00'),
+    ]))).toBeNull();
+  });
+
+  it('keeps locked and booked activities in place', () => {
+    const result = optimiseDayRoute(day([
+      activity('eiffel', '09:00', '10:00'),
+      activity('sacreCoeur', '10:30', '11:30', { locked: true }),
+      activity('trocadero', '12:00', '13:00'),
+      activity('moulinRouge', '13:30', '14:30', { isBooked: true }),
+    ]));
+
+    expect(result).toBeNull();
+  });
+
+  it('only reorders within a time slot', () => {
+    const result = optimiseDayRoute(day([
+      activity('eiffel', '09:00', '10:00'),
+      activity('sacreCoeur', '10:30', '11:30'),
+      activity('trocadero', '14:00', '15:00', { timeSlot: 'afternoon' }),
+    ]));
+
+    expect(result).toBeNull();
+  });
+
+  it('rejects orders that fall outside opening hours', () => {
+    const result = optimiseDayRoute(day([
+      activity('eiffel', '09:00', '10:00', { locked: true }),
+      activity('sacreCoeur', '10:30', '11:30'),
+      activity('trocadero', '12:00', '13:00', { openingHours: { open: '11:00', close: '18:00' } }),
+    ]));
+
+    expect(result).toBeNull();
+  });
+
+  it('rejects orders where a longer activity would run into the next one', () => {
+    const result = optimiseDayRoute(day([
+      activity('eiffel', '09:00', '10:00'),
+      activity('sacreCoeur', '10:00', '10:30'),
+      activity('trocadero', '10:30', '12:30'),
+    ]));
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Schedule Validation Tests
+ * Travel legs, impossible gaps and reorder suggestions, driven by the stub directions provider
+ */
+
+import { ScheduleValidator, ScheduledActivity } from '../schedule-validation';
+import { DirectionsProvider, StubDirectionsProvider } from '../directions';
+
+const eiffelTower = { lat: 48.8584, lng: 2.2945 };
+const trocadero = { lat: 48.8616, lng: 2.2893 };
+const louvre = { lat: 48.8606, lng: 2.3376 };
+const sacreCoeur = { lat: 48.8867, lng: 2.3431 };
+
+function activity(id: string, coordinates: ScheduledActivity['coordinates'], startTime?: string, endTime?: string): ScheduledActivity {
+  return { id, name: id, coordinates, startTime, endTime, timeSlot: 'morning' };
+}
+
+describe('ScheduleValidator', () => {
+  const provider = new StubDirectionsProvider();
+
+  it('computes a leg between each pair of consecutive activities', async () => {
+    const validator = new ScheduleValidator(provider, 'walking');
+    const schedule = await validator.validateDay(1, [
+      activity('eiffel', eiffelTower, '09:00', '10:00'),
+      activity('louvre', louvre, '11:30', '13:00'),
+    ]);
+
+    expect(schedule.legs).toHaveLength(1);
+    expect(schedule.legs[0]).toMatchObject({
+      fromActivityId: 'eiffel',
+      toActivityId: 'louvre',
+      mode: 'walking',
+      gapMinutes: 90,
+      feasible: true,
+    });
+    expect(schedule.issues).toEqual([]);
+    expect(schedule.totalTravelMinutes).toBe(schedule.legs[0].durationMinutes);
+  });
+
+  it('flags gaps too short for the journey', async () => {
+    const validator = new ScheduleValidator(provider, 'walking');
+    const schedule = await validator.validateDay(1, [
+      activity('eiffel', eiffelTower, '09:00', '10:00'),
+      activity('louvre', louvre, '10:10', '11:00'),
+    ]);
+
+    expect(schedule.legs[0].feasible).toBe(false);
+    expect(schedule.issues).toEqual([
+      expect.objectContaining({
+        type: 'insufficient-travel-time',
+        fromActivityId: 'eiffel',
+        toActivityId: 'louvre',
+        shortfallMinutes: schedule.legs[0].durationMinutes - 10,
+      }),
+    ]);
+  });
+
+  it('flags activities that overlap', async () => {
+    const validator = new ScheduleValidator(provider, 'walking');
+    const schedule = await validator.validateDay(1, [
+      activity('eiffel', eiffelTower, '09:00', '11:00'),
+      activity('trocadero', trocadero, '10:30', '11:30'),
+    ]);
+
+    expect(schedule.issues).toEqual([expect.objectContaining({ type: 'overlap' })]);
+  });
+
+  it('walks short hops and uses transit for longer ones', async () => {
+    const validator = new ScheduleValidator(provider, 'public');
+    const schedule = await validator.validateDay(1, [
+      activity('eiffel', eiffelTower),
+      activity('trocadero', trocadero),
+      activity('sacre-coeur', sacreCoeur),
+    ]);
+
+    expect(schedule.legs.map(leg => leg.mode)).toEqual(['walking', 'transit']);
+    expect(schedule.legs.every(leg => leg.gapMinutes === null && leg.feasible)).toBe(true);
+  });
+
+  it('skips activities without a real location', async () => {
+    const validator = new ScheduleValidator(provider, 'walking');
+    const schedule = await validator.validateDay(1, [
+      activity('eiffel', eiffelTower),
+      activity('unknown', { lat: 0, lng: 0 }),
+      activity('louvre', louvre),
+    ]);
+
+    expect(schedule.legs).toEqual([]);
+  });
+
+  it('suggests visiting nearby activities back to back', async () => {
+    const validator = new ScheduleValidator(provider, 'walking');
+    const schedule = await validator.validateDay(1, [
+      activity('eiffel', eiffelTower),
+      activity('sacre-coeur', sacreCoeur),
+      activity('trocadero', trocadero),
+    ]);
+
+    expect(schedule.suggestion).toMatchObject({
+      activityIds: ['eiffel', 'trocadero', 'sacre-coeur'],
+      currentTravelMinutes: schedule.totalTravelMinutes,
+    });
+    expect(schedule.suggestion!.savedMinutes).toBeGreaterThanOrEqual(10);
+  });
+
+  it('keeps fixed activities in place', async () => {
+    const validator = new ScheduleValidator(provider, 'walking');
+    const schedule = await validator.validateDay(1, [
+      activity('eiffel', eiffelTower),
+      { ...activity('sacre-coeur', sacreCoeur), fixed: true },
+      activity('trocadero', trocadero),
+    ]);
+
+    expect(schedule.suggestion).toBeUndefined();
+  });
+
+  it('falls back to an estimate when the provider fails', async () => {
+    const failing: DirectionsProvider = {
+      name: 'failing',
+      getDirections: jest.fn().mockRejectedValue(new Error('No route')),
+    };
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const schedule = await new ScheduleValidator(failing, 'walking').validateDay(1, [
+      activity('eiffel', eiffelTower),
+      activity('louvre', louvre),
+    ]);
+
+    expect(schedule.legs[0]).toMatchObject({ estimated: true });
+    expect(schedule.legs[0].durationMinutes).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Status Change Digest Tests
+ * Members in weekly digest mode skip the status email, so the change has to
+ * reach them as a notification the digest is built from
+ */
+
+import { db } from '../db';
+import { emailService } from '../email-service';
+import { TripStatusService } from '../trip-status-service';
+
+jest.mock('../db', () => ({
+  db: {
+    $transaction: jest.fn(),
+    trip: { findUnique: jest.fn(), update: jest.fn() },
+    statusHistory: { create: jest.fn() },
+    user: { findUnique: jest.fn(), findMany: jest.fn() },
+    emailOutbox: { create: jest.fn() },
+    notification: { createMany: jest.fn() }
+  }
+}));
+
+const mockDb = db as unknown as {
+  $transaction: jest.Mock;
+  trip: { findUnique: jest.Mock; update: jest.Mock };
+  statusHistory: { create: jest.Mock };
+  user: { findUnique: jest.Mock; findMany: jest.Mock };
+  emailOutbox: { create: jest.Mock };
+  notification: { createMany: jest.Mock };
+};
+
+const users: Record<string, { name: string; email: string; preferences: unknown }> = {
+  'owner-1': { name: 'Ana', email: 'ana@example.com', preferences: null },
+  'member-1': { name: 'Rui', email: 'rui@example.com', preferences: { notifications: { emailDigest: true } } }
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+
+  mockDb.$transaction.mockImplementation((run: (tx: typeof db) => unknown) => run(db));
+  mockDb.trip.findUnique.mockImplementation(({ select }: { select: Record<string, unknown> }) => {
+    if (select.user) {
+      return {
+        title: 'Lisbon',
+        user: { id: 'owner-1', name: 'Ana' },
+        collaborations: [{ user: { id: 'member-1', name: 'Rui' } }]
+      };
+    }
+    if (select.collaborations) {
+      return { userId: 'owner-1', collaborations: [{ userId: 'member-1' }] };
+    }
+    return { status: 'PLANNED', title: 'Lisbon' };
+  });
+  mockDb.user.findUnique.mockImplementation(({ where }: { where: { id: string } }) => users[where.id] ?? null);
+  mockDb.emailOutbox.create.mockImplementation(({ data }: { data: { status: string } }) => ({ id: 'email-1', status: data.status }));
+});
+
+describe('status changes for digest readers', () => {
+  it('skips the email and leaves a notification instead', async () => {
+    const result = await TripStatusService.manualTransitionStatus('trip-1', 'ACTIVE', 'owner-1');
+
+    expect(result.success).toBe(true);
+    expect(mockDb.emailOutbox.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ template: 'status-changed', toEmail: 'rui@example.com', status: 'SKIPPED' })
+    }));
+    expect(mockDb.notification.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({
+        userId: 'member-1',
+        tripId: 'trip-1',
+        type: 'TRIP_UPDATE',
+        title: 'Trip marked as active',
+        message: 'Ana moved "Lisbon" from Planned to Active'
+      })]
+    });
+  });
+
+  it('puts the change in the next weekly digest', async () => {
+    await TripStatusService.manualTransitionStatus('trip-1', 'ACTIVE', 'owner-1');
+    const [notification] = mockDb.notification.createMany.mock.calls[0][0].data;
+
+    mockDb.user.findMany.mockResolvedValue([{
+      id: 'member-1',
+      name: 'Rui',
+      notifications: [{ ...notification, createdAt: new Date('2026-10-14T09:00:00Z') }]
+    }]);
+    mockDb.emailOutbox.create.mockClear();
+
+    const queued = await emailService.queueWeeklyDigests(new Date('2026-10-19T08:00:00Z'));
+
+    expect(queued).toBe(1);
+    const digest = mockDb.emailOutbox.create.mock.calls[0][0].data;
+    expect(digest).toEqual(expect.objectContaining({ template: 'weekly-digest', status: 'PENDING' }));
+    expect(digest.text).toContain('Trip marked as active');
+  });
+});
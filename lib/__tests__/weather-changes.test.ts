@@ -0,0 +1,71 @@
+/**
+ * Weather Change Detection Tests
+ * What counts as news between two snapshots of a trip day
+ */
+
+import { detectWeatherChanges } from '../weather-changes';
+import { ProcessedWeather } from '../weather-types';
+
+function day(overrides: Partial<ProcessedWeather> = {}): ProcessedWeather {
+  return {
+    date: '2027-06-10',
+    temperature: { current: 22, min: 16, max: 26, feelsLike: 22 },
+    condition: { main: 'Clear', description: 'clear sky', icon: '01d', severity: 'mild' },
+    precipitation: { probability: 10, amount: 0, type: 'none' },
+    wind: { speed: 10, direction: 'W' },
+    humidity: 55,
+    visibility: 10,
+    sunrise: '05:50',
+    sunset: '21:50',
+    isExtreme: false,
+    source: 'forecast',
+    ...overrides
+  };
+}
+
+const rainy = { probability: 80, amount: 6, type: 'rain' as const };
+
+describe('detectWeatherChanges', () => {
+  it('reports rain appearing on a day with outdoor activities', () => {
+    const changes = detectWeatherChanges(day(), day({ precipitation: rainy }), ['Luxembourg Gardens']);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ kind: 'rain', date: '2027-06-10', activities: ['Luxembourg Gardens'] });
+    expect(changes[0].message).toContain('80%');
+  });
+
+  it('ignores rain on days spent indoors', () => {
+    expect(detectWeatherChanges(day(), day({ precipitation: rainy }), [])).toEqual([]);
+  });
+
+  it('ignores rain that was already expected', () => {
+    const before = day({ precipitation: { probability: 60, amount: 3, type: 'rain' } });
+
+    expect(detectWeatherChanges(before, day({ precipitation: rainy }), ['Picnic'])).toEqual([]);
+  });
+
+  it('reports severe alerts that are new', () => {
+    const changes = detectWeatherChanges(day(), day({ temperature: { current: 33, min: 25, max: 38, feelsLike: 36 } }), []);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].kind).toBe('severe');
+    expect(changes[0].title).toContain('Extreme Heat Warning');
+  });
+
+  it('does not repeat a severe alert already in the previous snapshot', () => {
+    const hot = day({ temperature: { current: 33, min: 25, max: 38, feelsLike: 36 } });
+
+    expect(detectWeatherChanges(hot, hot, [])).toEqual([]);
+  });
+
+  it('compares climate normals against the first forecast', () => {
+    const normal = day({ source: 'climatology' });
+
+    expect(detectWeatherChanges(normal, day({ precipitation: rainy }), ['Boat trip'])).toHaveLength(1);
+  });
+
+  it('has nothing to report without a previous snapshot or for normals', () => {
+    expect(detectWeatherChanges(null, day({ precipitation: rainy }), ['Picnic'])).toEqual([]);
+    expect(detectWeatherChanges(day(), day({ precipitation: rainy, source: 'climatology' }), ['Picnic'])).toEqual([]);
+  });
+});
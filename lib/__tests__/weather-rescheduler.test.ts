@@ -0,0 +1,89 @@
+/**
+ * Weather Rescheduler Tests
+ * Day-to-day activity swaps proposed from the forecast
+ */
+
+import { WeatherRescheduler } from '../weather-rescheduler';
+import { Activity, Day } from '../itinerary-types';
+import { ProcessedWeather } from '../weather-types';
+
+function weather(date: string, rainChance: number, overrides: Partial<ProcessedWeather> = {}): ProcessedWeather {
+  return {
+    date,
+    temperature: { current: 21, min: 15, max: 24, feelsLike: 21 },
+    condition: rainChance > 50
+      ? { main: 'Rain', description: 'heavy intensity rain', icon: '10d', severity: 'severe' }
+      : { main: 'Clear', description: 'clear sky', icon: '01d', severity: 'mild' },
+    precipitation: { probability: rainChance, amount: rainChance > 50 ? 8 : 0, type: rainChance > 0 ? 'rain' : 'none' },
+    wind: { speed: 10, direction: 'W' },
+    humidity: 60,
+    visibility: 10,
+    sunrise: '06:00',
+    sunset: '21:00',
+    isExtreme: false,
+    ...overrides
+  };
+}
+
+function activity(id: string, name: string, type: Activity['type'], description: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name,
+    type,
+    description,
+    timeSlot: 'morning',
+    startTime: '09:00',
+    endTime: '12:00',
+    ...overrides
+  } as Activity;
+}
+
+function day(dayNumber: number, date: string, activities: Activity[]): Day {
+  return { day: dayNumber, date, activities } as Day;
+}
+
+const hike = activity('hike', 'Mountain hiking trail', 'experience', 'A scenic hiking walk through the park');
+const museum = activity('museum', 'Louvre Museum', 'attraction', 'Art museum and gallery visit');
+const forecast = [weather('2027-06-08', 90), weather('2027-06-09', 0)];
+
+describe('WeatherRescheduler.proposeSwaps', () => {
+  const rescheduler = new WeatherRescheduler();
+
+  it('swaps an outdoor activity off a rainy day with an indoor one', () => {
+    const proposals = rescheduler.proposeSwaps([day(1, '2027-06-08', [hike]), day(2, '2027-06-09', [museum])], forecast);
+
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0].activity).toMatchObject({ id: 'hike', fromDay: 1, toDay: 2 });
+    expect(proposals[0].swapWith).toMatchObject({ id: 'museum', fromDay: 2, toDay: 1 });
+    expect(proposals[0].action).toEqual({
+      type: 'SWAP_ACTIVITIES',
+      payload: { day1: 1, day2: 2, activity1Id: 'hike', activity2Id: 'museum' }
+    });
+  });
+
+  it('only swaps within the same time slot', () => {
+    const eveningMuseum = { ...museum, timeSlot: 'evening' } as Activity;
+
+    expect(rescheduler.proposeSwaps([day(1, '2027-06-08', [hike]), day(2, '2027-06-09', [eveningMuseum])], forecast)).toEqual([]);
+  });
+
+  it('leaves booked, bookable and locked activities in place', () => {
+    for (const constraint of [{ isBooked: true }, { bookingRequired: true }, { locked: true }]) {
+      const pinned = { ...museum, ...constraint } as Activity;
+
+      expect(rescheduler.proposeSwaps([day(1, '2027-06-08', [hike]), day(2, '2027-06-09', [pinned])], forecast)).toEqual([]);
+    }
+  });
+
+  it('ignores days that only have climate normals', () => {
+    const typical = [forecast[0], weather('2027-06-09', 0, { source: 'climatology' })];
+
+    expect(rescheduler.proposeSwaps([day(1, '2027-06-08', [hike]), day(2, '2027-06-09', [museum])], typical)).toEqual([]);
+  });
+
+  it('proposes nothing when the weather is the same', () => {
+    const dry = [weather('2027-06-08', 0), weather('2027-06-09', 0)];
+
+    expect(rescheduler.proposeSwaps([day(1, '2027-06-08', [hike]), day(2, '2027-06-09', [museum])], dry)).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Weather Stretch Tests
+ * Multi-city trips take each leg's weather from where that leg is
+ */
+
+import { TripLocation, weatherStretches } from '../weather-snapshot-service';
+
+jest.mock('../db', () => ({ db: {} }));
+
+const paris = { lat: 48.8566, lng: 2.3522 };
+const rome = { lat: 41.9028, lng: 12.4964 };
+
+const trip: TripLocation = {
+  destination: 'Paris, France',
+  destinationCoords: paris,
+  startDate: new Date('2027-06-10T00:00:00Z'),
+  endDate: new Date('2027-06-16T00:00:00Z'),
+  legs: []
+};
+
+describe('weatherStretches', () => {
+  it('uses the destination for single-destination trips', () => {
+    expect(weatherStretches(trip)).toEqual([
+      { destination: 'Paris, France', coordinates: paris, startDate: '2027-06-10', endDate: '2027-06-16' }
+    ]);
+  });
+
+  it('gives each leg its own location and dates', () => {
+    const stretches = weatherStretches({
+      ...trip,
+      legs: [
+        { destination: 'Paris, France', coordinates: paris, startDate: new Date('2027-06-10T00:00:00Z'), endDate: new Date('2027-06-12T00:00:00Z') },
+        { destination: 'Rome, Italy', coordinates: rome, startDate: new Date('2027-06-13T00:00:00Z'), endDate: new Date('2027-06-16T00:00:00Z') }
+      ]
+    });
+
+    expect(stretches).toEqual([
+      { destination: 'Paris, France', coordinates: paris, startDate: '2027-06-10', endDate: '2027-06-12' },
+      { destination: 'Rome, Italy', coordinates: rome, startDate: '2027-06-13', endDate: '2027-06-16' }
+    ]);
+  });
+
+  it('leaves out legs without a location instead of using the first leg', () => {
+    const stretches = weatherStretches({
+      ...trip,
+      legs: [
+        { destination: 'Paris, France', coordinates: paris, startDate: new Date('2027-06-10T00:00:00Z'), endDate: new Date('2027-06-12T00:00:00Z') },
+        { destination: 'Somewhere', coordinates: null, startDate: new Date('2027-06-13T00:00:00Z'), endDate: new Date('2027-06-16T00:00:00Z') }
+      ]
+    });
+
+    expect(stretches.map(stretch => stretch.destination)).toEqual(['Paris, France']);
+  });
+});
@@ -0,0 +1,505 @@
+import { ActivityType, Prisma } from '@prisma/client'
+import { db } from './db'
+import { getTripPermissions, TripPermissions } from './trip-permissions'
+import { CollaborationService } from './collaboration-service'
+import { NotificationService } from './notification-service'
+import { ActivityActionInput, ActivityInput } from './activity-validation'
+
+type ActivityPermission = keyof Pick<
+  TripPermissions,
+  'canAddActivities' | 'canEditActivities' | 'canDeleteActivities'
+>
+
+export class ActivityError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ActivityError'
+    this.status = status
+  }
+}
+
+export interface SaveActivitiesResult {
+  applied: number
+  // Client-side ids of added activities mapped to their database ids
+  idMap: Record<string, string>
+}
+
+interface EditContext {
+  tripId: string
+  dayIds: Map<number, string>
+  idMap: Map<string, string>
+}
+
+const ACTION_PERMISSIONS: Record<ActivityActionInput['type'], ActivityPermission> = {
+  ADD_ACTIVITY: 'canAddActivities',
+  UPDATE_ACTIVITY: 'canEditActivities',
+  MOVE_ACTIVITY: 'canEditActivities',
+  SWAP_ACTIVITIES: 'canEditActivities',
+  REORDER_DAY: 'canEditActivities',
+  REMOVE_ACTIVITY: 'canDeleteActivities'
+}
+
+const ACTIVITY_TYPES: Record<string, ActivityType> = {
+  attraction: 'ATTRACTION',
+  restaurant: 'RESTAURANT',
+  experience: 'EXPERIENCE',
+  transportation: 'TRANSPORTATION',
+  accommodation: 'ACCOMMODATION',
+  shopping: 'SHOPPING',
+  other: 'OTHER'
+}
+
+/**
+ * Persists itinerary edits made in the UI.
+ * Activities within a day are kept in a dense 0..n-1 `order`.
+ */
+export class ActivityService {
+  /**
+   * Make sure the user may perform the given activity operations on a trip
+   */
+  static async assertCanEdit(tripId: string, userId: string, required: ActivityPermission[]) {
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: { id: true, userId: true, status: true, startDate: true, endDate: true }
+    })
+
+    if (!trip) {
+      throw new ActivityError('Trip not found', 404)
+    }
+
+    const role = await CollaborationService.getMemberRole(tripId, userId)
+    if (!role) {
+      throw new ActivityError('You do not have permission to edit this trip', 403)
+    }
+
+    const permissions = getTripPermissions(trip, userId, role)
+    const denied = required.find(permission => !permissions[permission])
+    if (denied) {
+      throw new ActivityError(
+        role === 'VIEWER'
+          ? 'Viewers cannot change activities on this trip'
+          : `Activities cannot be changed while the trip is ${trip.status.toLowerCase()}`,
+        403
+      )
+    }
+  }
+
+  /**
+   * List a trip's activities in day and display order
+   */
+  static async getActivities(tripId: string) {
+    return db.activity.findMany({
+      where: { tripId },
+      orderBy: [{ day: { dayNumber: 'asc' } }, { order: 'asc' }],
+      include: { day: { select: { dayNumber: true, date: true } } }
+    })
+  }
+
+  static async createActivity(
+    tripId: string,
+    userId: string,
+    dayNumber: number,
+    input: ActivityInput,
+    index?: number
+  ) {
+    await this.assertCanEdit(tripId, userId, ['canAddActivities'])
+
+    const activity = await db.$transaction(async (tx) => {
+      const ctx = await this.loadContext(tx, tripId)
+      const id = await this.addActivity(tx, ctx, dayNumber, input, index)
+      return tx.activity.findUniqueOrThrow({ where: { id } })
+    })
+
+    await this.notifyChange(tripId, userId, `added "${activity.name}" to day ${dayNumber}`, activity.id)
+    return activity
+  }
+
+  static async updateActivity(
+    tripId: string,
+    userId: string,
+    activityId: string,
+    input: Partial<ActivityInput>
+  ) {
+    await this.assertCanEdit(tripId, userId, ['canEditActivities'])
+    await this.findActivity(db, tripId, activityId)
+
+    const activity = await db.activity.update({
+      where: { id: activityId },
+      data: this.toEditedData(input)
+    })
+
+    await this.notifyChange(tripId, userId, `updated "${activity.name}"`, activity.id)
+    return activity
+  }
+
+  static async deleteActivity(tripId: string, userId: string, activityId: string) {
+    await this.assertCanEdit(tripId, userId, ['canDeleteActivities'])
+
+    const removed = await db.$transaction(async (tx) => {
+      const activity = await this.findActivity(tx, tripId, activityId)
+      const deleted = await tx.activity.delete({ where: { id: activity.id } })
+      if (activity.dayId) {
+        await this.compactDay(tx, activity.dayId)
+      }
+      return deleted
+    })
+
+    await this.notifyChange(tripId, userId, `removed "${removed.name}"`)
+  }
+
+  /**
+   * Move an activity to another position, on the same or a different day
+   */
+  static async moveActivity(
+    tripId: string,
+    userId: string,
+    activityId: string,
+    toDay: number,
+    toIndex?: number
+  ) {
+    await this.assertCanEdit(tripId, userId, ['canEditActivities'])
+
+    const activity = await db.$transaction(async (tx) => {
+      const ctx = await this.loadContext(tx, tripId)
+      await this.placeActivity(tx, ctx, activityId, toDay, toIndex)
+      return tx.activity.findUniqueOrThrow({ where: { id: activityId } })
+    })
+
+    await this.notifyChange(tripId, userId, `moved "${activity.name}" to day ${toDay}`, activity.id)
+    return activity
+  }
+
+  /**
+   * Set the order of a day's activities. Any activities of the day that are
+   * not listed keep their relative order after the listed ones.
+   */
+  static async reorderDay(tripId: string, userId: string, dayNumber: number, activityIds: string[]) {
+    await this.assertCanEdit(tripId, userId, ['canEditActivities'])
+
+    await db.$transaction(async (tx) => {
+      const ctx = await this.loadContext(tx, tripId)
+      const dayId = this.getDayId(ctx, dayNumber)
+      const siblings = await this.getDayActivities(tx, dayId)
+      const known = new Set(siblings.map(activity => activity.id))
+
+      const unknown = activityIds.find(id => !known.has(id))
+      if (unknown) {
+        throw new ActivityError(`Activity ${unknown} is not on day ${dayNumber}`, 400)
+      }
+
+      const listed = new Set(activityIds)
+      const ordered = [...activityIds, ...siblings.map(a => a.id).filter(id => !listed.has(id))]
+      await this.writeOrder(tx, ordered, siblings)
+    })
+
+    await this.notifyChange(tripId, userId, `reordered day ${dayNumber}`)
+  }
+
+  /**
+   * Apply a list of UI edit actions, in order, in a single transaction.
+   * Either every action is saved or none are.
+   */
+  static async applyActions(
+    tripId: string,
+    userId: string,
+    actions: ActivityActionInput[]
+  ): Promise<SaveActivitiesResult> {
+    const required = [...new Set(actions.map(action => ACTION_PERMISSIONS[action.type]))]
+    await this.assertCanEdit(tripId, userId, required)
+
+    const result = await db.$transaction(async (tx) => {
+      const ctx = await this.loadContext(tx, tripId)
+
+      for (const action of actions) {
+        await this.applyAction(tx, ctx, action)
+      }
+
+      return {
+        applied: actions.length,
+        idMap: Object.fromEntries(ctx.idMap)
+      }
+    }, {
+      timeout: 30000,
+      maxWait: 3000
+    })
+
+    // One notification per save rather than one per edit
+    await this.notifyChange(
+      tripId,
+      userId,
+      `saved ${actions.length} ${actions.length === 1 ? 'change' : 'changes'} to the itinerary`
+    )
+    return result
+  }
+
+  private static async applyAction(
+    tx: Prisma.TransactionClient,
+    ctx: EditContext,
+    action: ActivityActionInput
+  ) {
+    switch (action.type) {
+      case 'ADD_ACTIVITY': {
+        const { dayNumber, activity, index } = action.payload
+        await this.addActivity(tx, ctx, dayNumber, activity, index)
+        break
+      }
+      case 'UPDATE_ACTIVITY': {
+        const { activityId, newActivity } = action.payload
+        const activity = await this.findActivity(tx, ctx.tripId, this.resolveId(ctx, activityId))
+        await tx.activity.update({
+          where: { id: activity.id },
+          data: this.toEditedData(newActivity)
+        })
+        break
+      }
+      case 'REMOVE_ACTIVITY': {
+        const activity = await this.findActivity(tx, ctx.tripId, this.resolveId(ctx, action.payload.activityId))
+        await tx.activity.delete({ where: { id: activity.id } })
+        if (activity.dayId) {
+          await this.compactDay(tx, activity.dayId)
+        }
+        break
+      }
+      case 'MOVE_ACTIVITY': {
+        const { activityId, toDay, toIndex } = action.payload
+        await this.placeActivity(tx, ctx, this.resolveId(ctx, activityId), toDay, toIndex)
+        break
+      }
+      case 'SWAP_ACTIVITIES': {
+        const first = await this.findActivity(tx, ctx.tripId, this.resolveId(ctx, action.payload.activity1Id))
+        const second = await this.findActivity(tx, ctx.tripId, this.resolveId(ctx, action.payload.activity2Id))
+        await tx.activity.update({
+          where: { id: first.id },
+          data: { dayId: second.dayId, order: second.order }
+        })
+        await tx.activity.update({
+          where: { id: second.id },
+          data: { dayId: first.dayId, order: first.order }
+        })
+        break
+      }
+      case 'REORDER_DAY': {
+        const { dayNumber, activities } = action.payload
+        const dayId = this.getDayId(ctx, dayNumber)
+        const siblings = await this.getDayActivities(tx, dayId)
+        const known = new Set(siblings.map(activity => activity.id))
+        const ids = activities.map(activity => this.resolveId(ctx, activity.id))
+
+        const unknown = ids.find(id => !known.has(id))
+        if (unknown) {
+          throw new ActivityError(`Activity ${unknown} is not on day ${dayNumber}`, 400)
+        }
+
+        // Rescheduling isn't a content edit, so editedAt is left alone
+        for (const [index, activity] of activities.entries()) {
+          await tx.activity.update({
+            where: { id: ids[index] },
+            data: {
+              ...(activity.startTime !== undefined && { startTime: activity.startTime || null }),
+              ...(activity.endTime !== undefined && { endTime: activity.endTime || null })
+            }
+          })
+        }
+
+        const listed = new Set(ids)
+        await this.writeOrder(tx, [...ids, ...siblings.map(activity => activity.id).filter(id => !listed.has(id))], siblings)
+        break
+      }
+    }
+  }
+
+  private static async loadContext(tx: Prisma.TransactionClient, tripId: string): Promise<EditContext> {
+    const days = await tx.day.findMany({
+      where: { tripId },
+      select: { id: true, dayNumber: true }
+    })
+
+    return {
+      tripId,
+      dayIds: new Map(days.map(day => [day.dayNumber, day.id])),
+      idMap: new Map()
+    }
+  }
+
+  private static async addActivity(
+    tx: Prisma.TransactionClient,
+    ctx: EditContext,
+    dayNumber: number,
+    input: ActivityInput,
+    index?: number
+  ): Promise<string> {
+    const dayId = this.getDayId(ctx, dayNumber)
+
+    const created = await tx.activity.create({
+      data: {
+        name: input.name,
+        ...this.toEditedData(input),
+        tripId: ctx.tripId,
+        dayId
+      }
+    })
+
+    if (input.id) {
+      ctx.idMap.set(input.id, created.id)
+    }
+
+    await this.insertAt(tx, dayId, created.id, index)
+    return created.id
+  }
+
+  private static async placeActivity(
+    tx: Prisma.TransactionClient,
+    ctx: EditContext,
+    activityId: string,
+    toDay: number,
+    toIndex?: number
+  ) {
+    const activity = await this.findActivity(tx, ctx.tripId, activityId)
+    const dayId = this.getDayId(ctx, toDay)
+
+    if (activity.dayId !== dayId) {
+      await tx.activity.update({ where: { id: activity.id }, data: { dayId } })
+    }
+
+    await this.insertAt(tx, dayId, activity.id, toIndex)
+
+    if (activity.dayId && activity.dayId !== dayId) {
+      await this.compactDay(tx, activity.dayId)
+    }
+  }
+
+  // Put an activity at `index` among the other activities of its day and renumber
+  private static async insertAt(
+    tx: Prisma.TransactionClient,
+    dayId: string,
+    activityId: string,
+    index?: number
+  ) {
+    const activities = await this.getDayActivities(tx, dayId)
+    const ids = activities.map(activity => activity.id).filter(id => id !== activityId)
+    const position = index === undefined ? ids.length : Math.min(index, ids.length)
+    ids.splice(position, 0, activityId)
+    await this.writeOrder(tx, ids, activities)
+  }
+
+  private static async compactDay(tx: Prisma.TransactionClient, dayId: string) {
+    const activities = await this.getDayActivities(tx, dayId)
+    await this.writeOrder(tx, activities.map(activity => activity.id), activities)
+  }
+
+  // Only rows whose order actually changes are written
+  private static async writeOrder(
+    tx: Prisma.TransactionClient,
+    orderedIds: string[],
+    current: Array<{ id: string; order: number }>
+  ) {
+    const currentOrder = new Map(current.map(activity => [activity.id, activity.order]))
+
+    for (const [order, id] of orderedIds.entries()) {
+      if (currentOrder.get(id) !== order) {
+        await tx.activity.update({ where: { id }, data: { order } })
+      }
+    }
+  }
+
+  private static getDayActivities(tx: Prisma.TransactionClient, dayId: string) {
+    return tx.activity.findMany({
+      where: { dayId },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true, order: true }
+    })
+  }
+
+  private static getDayId(ctx: EditContext, dayNumber: number): string {
+    const dayId = ctx.dayIds.get(dayNumber)
+    if (!dayId) {
+      throw new ActivityError(`Day ${dayNumber} not found`, 404)
+    }
+    return dayId
+  }
+
+  private static async findActivity(
+    client: Prisma.TransactionClient,
+    tripId: string,
+    activityId: string
+  ) {
+    const activity = await client.activity.findFirst({
+      where: { id: activityId, tripId },
+      select: { id: true, dayId: true, order: true }
+    })
+
+    if (!activity) {
+      throw new ActivityError(`Activity ${activityId} not found`, 404)
+    }
+    return activity
+  }
+
+  static async notifyChange(tripId: string, userId: string, change: string, activityId?: string) {
+    const [actorName, trip] = await Promise.all([
+      NotificationService.displayName(userId),
+      db.trip.findUnique({ where: { id: tripId }, select: { title: true } })
+    ])
+
+    await NotificationService.notifyTripMembers(tripId, userId, {
+      type: 'ACTIVITY_CHANGED',
+      title: trip ? `Itinerary updated: ${trip.title}` : 'Itinerary updated',
+      message: `${actorName} ${change}`,
+      data: {
+        url: NotificationService.tripUrl(tripId),
+        ...(activityId ? { activityId } : {})
+      }
+    })
+  }
+
+  // Activities added earlier in the same batch are referenced by their client id
+  private static resolveId(ctx: EditContext, activityId: string): string {
+    return ctx.idMap.get(activityId) ?? activityId
+  }
+
+  // Map the UI activity shape onto Activity columns, skipping fields not provided.
+  // The client-side id is never written.
+  private static toActivityData(input: Partial<ActivityInput>): Partial<Prisma.ActivityUncheckedCreateInput> {
+    const data: Partial<Prisma.ActivityUncheckedCreateInput> = {}
+
+    if (input.name !== undefined) data.name = input.name
+    if (input.description !== undefined) data.description = input.description
+    if (input.type !== undefined) data.type = ACTIVITY_TYPES[input.type.toLowerCase()] ?? 'OTHER'
+    if (input.timeSlot !== undefined) data.timeSlot = input.timeSlot
+    if (input.startTime !== undefined) data.startTime = input.startTime || null
+    if (input.endTime !== undefined) data.endTime = input.endTime || null
+    if (input.duration !== undefined) data.duration = input.duration
+    if (input.location) {
+      data.location = input.location.name
+      data.address = input.location.address
+      if (input.location.coordinates) data.coordinates = input.location.coordinates
+    }
+    if (input.pricing) {
+      data.price = input.pricing.amount
+      if (input.pricing.currency) data.currency = input.pricing.currency
+      if (input.pricing.priceType) data.priceType = input.pricing.priceType
+    }
+    if (input.tips !== undefined) data.tips = input.tips
+    if (input.bookingRequired !== undefined) data.bookingRequired = input.bookingRequired
+    if (input.bookingUrl !== undefined) data.bookingUrl = input.bookingUrl || null
+    if (input.notes !== undefined) data.notes = input.notes
+    if (input.accessibility !== undefined) data.accessibility = input.accessibility
+    if (input.openingHours !== undefined) data.openingHours = input.openingHours
+    if (input.locked !== undefined) data.locked = input.locked
+
+    return data
+  }
+
+  // Content changes mark the activity as user-edited so targeted regeneration keeps it.
+  // Toggling the lock on its own doesn't.
+  private static toEditedData(input: Partial<ActivityInput>): Partial<Prisma.ActivityUncheckedCreateInput> {
+    const data = this.toActivityData(input)
+    if (Object.keys(data).some(key => key !== 'locked')) {
+      data.editedAt = new Date()
+    }
+    return data
+  }
+}
+
+export default ActivityService
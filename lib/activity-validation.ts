@@ -0,0 +1,162 @@
+import { z } from "zod"
+
+const timeSchema = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, "Time must be in HH:MM format")
+
+// Activity fields as edited in the itinerary UI. Deliberately more lenient than
+// the AI response schema in itinerary-validation.ts, since users can enter
+// anything that makes sense to them.
+export const activityInputSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().trim().min(1, "Activity name is required").max(200),
+  description: z.string().max(2000).optional(),
+  type: z.string().optional(),
+  timeSlot: z.enum(["morning", "afternoon", "evening"]).optional(),
+  startTime: timeSchema.optional().or(z.literal("")),
+  endTime: timeSchema.optional().or(z.literal("")),
+  duration: z.string().max(50).optional(),
+  location: z.object({
+    name: z.string().max(200).optional().default(""),
+    address: z.string().max(300).optional().default(""),
+    coordinates: z.object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    }).optional(),
+  }).optional(),
+  pricing: z.object({
+    amount: z.number().min(0),
+    currency: z.string().length(3).optional(),
+    priceType: z.enum(["per_person", "per_group", "free"]).optional(),
+  }).optional(),
+  tips: z.array(z.string()).max(20).optional(),
+  bookingRequired: z.boolean().optional(),
+  bookingUrl: z.string().url().optional().or(z.literal("")),
+  notes: z.string().max(2000).optional(),
+  // Locked activities are never replaced by regeneration
+  locked: z.boolean().optional(),
+  openingHours: z.object({
+    open: timeSchema,
+    close: timeSchema,
+  }).optional(),
+  accessibility: z.object({
+    wheelchairAccessible: z.boolean(),
+    hasElevator: z.boolean(),
+    notes: z.string(),
+  }).optional(),
+})
+
+const dayNumberSchema = z.number().int().min(1)
+const indexSchema = z.number().int().min(0)
+
+// Mirrors the ActivityAction union in itinerary-types.ts
+export const activityActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("MOVE_ACTIVITY"),
+    payload: z.object({
+      fromDay: dayNumberSchema,
+      toDay: dayNumberSchema,
+      fromIndex: indexSchema,
+      toIndex: indexSchema,
+      activityId: z.string().min(1),
+    }),
+  }),
+  z.object({
+    type: z.literal("ADD_ACTIVITY"),
+    payload: z.object({
+      dayNumber: dayNumberSchema,
+      activity: activityInputSchema,
+      index: indexSchema,
+    }),
+  }),
+  z.object({
+    type: z.literal("REMOVE_ACTIVITY"),
+    payload: z.object({
+      dayNumber: dayNumberSchema,
+      activityId: z.string().min(1),
+      index: indexSchema.optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("UPDATE_ACTIVITY"),
+    payload: z.object({
+      dayNumber: dayNumberSchema,
+      activityId: z.string().min(1),
+      newActivity: activityInputSchema,
+    }),
+  }),
+  z.object({
+    type: z.literal("SWAP_ACTIVITIES"),
+    payload: z.object({
+      day1: dayNumberSchema,
+      day2: dayNumberSchema,
+      activity1Id: z.string().min(1),
+      activity2Id: z.string().min(1),
+    }),
+  }),
+  z.object({
+    type: z.literal("REORDER_DAY"),
+    payload: z.object({
+      dayNumber: dayNumberSchema,
+      // The day's activities in their new order, with their new times
+      activities: z.array(z.object({
+        id: z.string().min(1),
+        startTime: timeSchema.optional().or(z.literal("")),
+        endTime: timeSchema.optional().or(z.literal("")),
+      })).min(1).max(50),
+    }),
+  }),
+])
+
+export const saveActivitiesSchema = z.object({
+  actions: z.array(activityActionSchema).min(1).max(500),
+})
+
+export const createActivitySchema = z.object({
+  dayNumber: dayNumberSchema,
+  index: indexSchema.optional(),
+  activity: activityInputSchema,
+})
+
+export const updateActivitySchema = z.object({
+  activity: activityInputSchema.partial(),
+})
+
+export const moveActivitySchema = z.object({
+  toDay: dayNumberSchema,
+  toIndex: indexSchema.optional(),
+})
+
+export const reorderActivitiesSchema = z.object({
+  dayNumber: dayNumberSchema,
+  activityIds: z.array(z.string().min(1)).min(1),
+})
+
+const instructionsSchema = z.string().trim().max(300).optional()
+
+// Targeted regeneration: redo a whole day, replace one activity, or fill a time slot
+export const regenerateItinerarySchema = z.discriminatedUnion("scope", [
+  z.object({
+    scope: z.literal("day"),
+    dayNumber: dayNumberSchema,
+    instructions: instructionsSchema,
+  }),
+  z.object({
+    scope: z.literal("activity"),
+    activityId: z.string().min(1),
+    instructions: instructionsSchema,
+  }),
+  z.object({
+    scope: z.literal("slot"),
+    dayNumber: dayNumberSchema,
+    timeSlot: z.enum(["morning", "afternoon", "evening"]),
+    instructions: instructionsSchema,
+  }),
+])
+
+// Travel-time check of one day, or the whole trip when no day is given
+export const checkScheduleSchema = z.object({
+  dayNumber: dayNumberSchema.optional(),
+})
+
+export type ActivityInput = z.infer<typeof activityInputSchema>
+export type ActivityActionInput = z.infer<typeof activityActionSchema>
+export type RegenerateItineraryInput = z.infer<typeof regenerateItinerarySchema>
@@ -0,0 +1,460 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { CancellationToken, RetryCancelledException } from './retry-logic'
+
+/**
+ * Capabilities and list prices of one model. Prices are USD per million tokens.
+ */
+export interface ModelProfile {
+  maxOutputTokens: number
+  contextTokens: number
+  inputCostPerMillion: number
+  outputCostPerMillion: number
+}
+
+export interface CompletionRequest {
+  prompt: string
+  model: string
+  maxTokens: number
+  temperature: number
+  cancellationToken?: CancellationToken
+  // Aborted when AIService gives up on the attempt; no onText calls follow
+  signal?: AbortSignal
+  // Streams the response; called with the full text received so far
+  onText?: (text: string) => void
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface CompletionResult {
+  text: string
+  usage: TokenUsage
+}
+
+/**
+ * A text-generation backend. Providers throw AIProviderError for failures they
+ * can classify; AIService handles retries, timeouts and usage tracking.
+ */
+export interface LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  getModelProfile(model: string): ModelProfile
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  healthCheck(): Promise<void>
+}
+
+export type AIErrorCode =
+  | 'AUTHENTICATION_ERROR'
+  | 'AI_QUOTA_EXCEEDED'
+  | 'RATE_LIMIT_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'FIXTURE_NOT_FOUND'
+
+export class AIProviderError extends Error {
+  code: AIErrorCode
+  status: number
+
+  constructor(code: AIErrorCode, message: string, status: number = 500) {
+    super(message)
+    this.name = 'AIProviderError'
+    this.code = code
+    this.status = status
+  }
+}
+
+const DEFAULT_PROFILE: ModelProfile = {
+  maxOutputTokens: 8192,
+  contextTokens: 128000,
+  inputCostPerMillion: 0,
+  outputCostPerMillion: 0
+}
+
+// Longest matching prefix wins, so dated model snapshots pick up their family's profile
+function lookupProfile(profiles: Record<string, ModelProfile>, model: string): ModelProfile {
+  const match = Object.keys(profiles)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? profiles[match] : DEFAULT_PROFILE
+}
+
+// Rough count for providers that don't report usage (about four characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function ensureNotCancelled(request: CompletionRequest) {
+  if (request.cancellationToken?.isCancelled) {
+    throw new RetryCancelledException('Generation cancelled while streaming')
+  }
+  if (request.signal?.aborted) {
+    throw new Error('AI request aborted while streaming')
+  }
+}
+
+const GEMINI_PROFILES: Record<string, ModelProfile> = {
+  'gemini-2.0-flash-lite': { maxOutputTokens: 8192, contextTokens: 1048576, inputCostPerMillion: 0.075, outputCostPerMillion: 0.3 },
+  'gemini-2.0-flash': { maxOutputTokens: 8192, contextTokens: 1048576, inputCostPerMillion: 0.1, outputCostPerMillion: 0.4 },
+  'gemini-2.5-flash': { maxOutputTokens: 65536, contextTokens: 1048576, inputCostPerMillion: 0.3, outputCostPerMillion: 2.5 },
+  'gemini-2.5-pro': { maxOutputTokens: 65536, contextTokens: 1048576, inputCostPerMillion: 1.25, outputCostPerMillion: 10 }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini'
+  private client: GoogleGenerativeAI
+
+  constructor(apiKey: string, readonly defaultModel: string = 'gemini-2.0-flash') {
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  getModelProfile(model: string): ModelProfile {
+    return lookupProfile(GEMINI_PROFILES, model)
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = this.client.getGenerativeModel({ model: request.model })
+    const params = {
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature
+      }
+    }
+
+    try {
+      if (!request.onText) {
+        const result = await model.generateContent(params, { signal: request.signal })
+        const text = result.response.text()
+        return { text, usage: this.usage(result.response.usageMetadata, request.prompt, text) }
+      }
+
+      // Cancellation is checked between chunks so an abort doesn't wait for the full response
+      const result = await model.generateContentStream(params, { signal: request.signal })
+      let text = ''
+      for await (const chunk of result.stream) {
+        ensureNotCancelled(request)
+        text += chunk.text()
+        request.onText(text)
+      }
+      const response = await result.response
+      return { text, usage: this.usage(response.usageMetadata, request.prompt, text) }
+    } catch (error) {
+      throw this.classify(error)
+    }
+  }
+
+  async healthCheck(): Promise<void> {
+    // Token counting is free and still exercises the key and model name
+    await this.client.getGenerativeModel({ model: this.defaultModel }).countTokens('ping')
+  }
+
+  private usage(
+    metadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined,
+    prompt: string,
+    text: string
+  ): TokenUsage {
+    return {
+      inputTokens: metadata?.promptTokenCount ?? estimateTokens(prompt),
+      outputTokens: metadata?.candidatesTokenCount ?? estimateTokens(text)
+    }
+  }
+
+  // The SDK reports HTTP failures as "[GoogleGenerativeAI Error]: ... [429 Too Many Requests]"
+  private classify(error: unknown): unknown {
+    if (!(error instanceof Error) || error instanceof RetryCancelledException) return error
+
+    const status = Number(/\[(\d{3})[ \]]/.exec(error.message)?.[1])
+    if (status === 401 || status === 403 || /API key/i.test(error.message)) {
+      return new AIProviderError('AUTHENTICATION_ERROR', error.message, 401)
+    }
+    if (status === 429) {
+      return /quota/i.test(error.message)
+        ? new AIProviderError('AI_QUOTA_EXCEEDED', error.message, 429)
+        : new AIProviderError('RATE_LIMIT_ERROR', error.message, 429)
+    }
+    if (status >= 500) {
+      return new AIProviderError('SERVICE_UNAVAILABLE', error.message, status)
+    }
+    return error
+  }
+}
+
+const OPENAI_PROFILES: Record<string, ModelProfile> = {
+  'gpt-4o-mini': { maxOutputTokens: 16384, contextTokens: 128000, inputCostPerMillion: 0.15, outputCostPerMillion: 0.6 },
+  'gpt-4o': { maxOutputTokens: 16384, contextTokens: 128000, inputCostPerMillion: 2.5, outputCostPerMillion: 10 },
+  'gpt-4.1-mini': { maxOutputTokens: 32768, contextTokens: 1047576, inputCostPerMillion: 0.4, outputCostPerMillion: 1.6 },
+  'gpt-4.1': { maxOutputTokens: 32768, contextTokens: 1047576, inputCostPerMillion: 2, outputCostPerMillion: 8 },
+  'gpt-4-turbo': { maxOutputTokens: 4096, contextTokens: 128000, inputCostPerMillion: 10, outputCostPerMillion: 30 },
+  'gpt-3.5-turbo': { maxOutputTokens: 4096, contextTokens: 16385, inputCostPerMillion: 0.5, outputCostPerMillion: 1.5 }
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string
+  apiKey?: string
+  model: string
+  // Overrides for self-hosted models missing from the built-in table
+  profile?: Partial<ModelProfile>
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself,
+ * Azure-style gateways, or a local vLLM / Ollama / LM Studio instance.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai'
+  readonly defaultModel: string
+
+  constructor(private config: OpenAICompatibleConfig) {
+    this.defaultModel = config.model
+  }
+
+  getModelProfile(model: string): ModelProfile {
+    return { ...lookupProfile(OPENAI_PROFILES, model), ...this.config.profile }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const stream = !!request.onText
+    const response = await this.fetch('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({
+        model: request.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal: request.signal
+    })
+
+    if (!stream) {
+      const body = await response.json()
+      const text: string = body.choices?.[0]?.message?.content || ''
+      return { text, usage: this.usage(body.usage, request.prompt, text) }
+    }
+
+    if (!response.body) {
+      throw new AIProviderError('SERVICE_UNAVAILABLE', 'Streaming response has no body', 502)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let text = ''
+    let reported: { prompt_tokens?: number; completion_tokens?: number } | undefined
+
+    while (true) {
+      ensureNotCancelled(request)
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : ''
+        if (!data || data === '[DONE]') continue
+
+        try {
+          const chunk = JSON.parse(data)
+          if (chunk.usage) reported = chunk.usage
+          const delta: string | undefined = chunk.choices?.[0]?.delta?.content
+          if (delta) {
+            text += delta
+            request.onText!(text)
+          }
+        } catch {
+          // Ignore keep-alives and partial frames
+        }
+      }
+    }
+
+    return { text, usage: this.usage(reported, request.prompt, text) }
+  }
+
+  async healthCheck(): Promise<void> {
+    await this.fetch('/models', { method: 'GET' })
+  }
+
+  private async fetch(endpoint: string, init: RequestInit): Promise<Response> {
+    let response: Response
+    try {
+      response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}${endpoint}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+        }
+      })
+    } catch (error) {
+      throw new AIProviderError(
+        'SERVICE_UNAVAILABLE',
+        `Could not reach ${this.config.baseUrl}: ${error instanceof Error ? error.message : error}`,
+        503
+      )
+    }
+
+    if (response.ok) return response
+
+    const detail = await response.text().catch(() => '')
+    const message = `${this.name} request failed with ${response.status}: ${detail.slice(0, 300)}`
+    if (response.status === 401 || response.status === 403) {
+      throw new AIProviderError('AUTHENTICATION_ERROR', message, 401)
+    }
+    if (response.status === 429) {
+      throw detail.includes('insufficient_quota')
+        ? new AIProviderError('AI_QUOTA_EXCEEDED', message, 429)
+        : new AIProviderError('RATE_LIMIT_ERROR', message, 429)
+    }
+    if (response.status >= 500) {
+      throw new AIProviderError('SERVICE_UNAVAILABLE', message, response.status)
+    }
+    throw new Error(message)
+  }
+
+  private usage(
+    reported: { prompt_tokens?: number; completion_tokens?: number } | undefined,
+    prompt: string,
+    text: string
+  ): TokenUsage {
+    return {
+      inputTokens: reported?.prompt_tokens ?? estimateTokens(prompt),
+      outputTokens: reported?.completion_tokens ?? estimateTokens(text)
+    }
+  }
+}
+
+interface RecordedCompletion {
+  key: string
+  provider: string
+  model: string
+  // Leading part of the prompt, to make fixture files recognisable
+  promptPreview: string
+  text: string
+  usage: TokenUsage
+  recordedAt: string
+}
+
+/**
+ * Replays responses recorded under AI_FIXTURES_DIR, keyed by a hash of the prompt.
+ * With a recorder it forwards misses to that provider and saves the answer, so a
+ * run against a real model produces the fixtures that CI then replays offline.
+ * Streaming replays the text in fixed-size chunks, so output is fully deterministic.
+ */
+export class FixtureReplayProvider implements LLMProvider {
+  readonly name = 'fixture'
+  readonly defaultModel: string
+  private static readonly CHUNK_SIZE = 256
+
+  constructor(private directory: string, private recorder?: LLMProvider) {
+    this.defaultModel = recorder?.defaultModel || 'fixture'
+  }
+
+  static keyFor(prompt: string): string {
+    return createHash('sha256').update(prompt).digest('hex').slice(0, 32)
+  }
+
+  getModelProfile(model: string): ModelProfile {
+    return this.recorder?.getModelProfile(model) || DEFAULT_PROFILE
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const key = FixtureReplayProvider.keyFor(request.prompt)
+    const file = path.join(this.directory, `${key}.json`)
+
+    const recorded = await this.read(file)
+    if (recorded) {
+      if (request.onText) {
+        for (let end = FixtureReplayProvider.CHUNK_SIZE; ; end += FixtureReplayProvider.CHUNK_SIZE) {
+          ensureNotCancelled(request)
+          request.onText(recorded.text.slice(0, end))
+          if (end >= recorded.text.length) break
+        }
+      }
+      return { text: recorded.text, usage: recorded.usage }
+    }
+
+    if (!this.recorder) {
+      throw new AIProviderError(
+        'FIXTURE_NOT_FOUND',
+        `No recorded response for prompt ${key} in ${this.directory}. Record it with AI_FIXTURES_RECORD set.`,
+        404
+      )
+    }
+
+    const result = await this.recorder.complete(request)
+    await this.write(file, {
+      key,
+      provider: this.recorder.name,
+      model: request.model,
+      promptPreview: request.prompt.slice(0, 200),
+      text: result.text,
+      usage: result.usage,
+      recordedAt: new Date().toISOString()
+    })
+    return result
+  }
+
+  async healthCheck(): Promise<void> {
+    await fs.access(this.directory)
+    await this.recorder?.healthCheck()
+  }
+
+  private async read(file: string): Promise<RecordedCompletion | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as RecordedCompletion
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  private async write(file: string, recorded: RecordedCompletion): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify(recorded, null, 2) + '\n')
+  }
+}
+
+function createLiveProvider(name: string): LLMProvider {
+  if (name === 'openai') {
+    return new OpenAICompatibleProvider({
+      baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.AI_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      profile: process.env.AI_MAX_OUTPUT_TOKENS
+        ? { maxOutputTokens: parseInt(process.env.AI_MAX_OUTPUT_TOKENS, 10) }
+        : undefined
+    })
+  }
+
+  if (name === 'gemini') {
+    const apiKey = process.env.GEMINI_API_KEY
+    if (!apiKey) {
+      throw new Error('Gemini API key not configured. Please set GEMINI_API_KEY environment variable.')
+    }
+    return new GeminiProvider(apiKey, process.env.AI_MODEL || process.env.GEMINI_MODEL || 'gemini-2.0-flash')
+  }
+
+  throw new Error(`Unknown AI provider "${name}". Expected gemini, openai or fixture.`)
+}
+
+/**
+ * Pick a provider from the environment. AI_PROVIDER selects gemini (default),
+ * openai or fixture; AI_MODEL overrides the provider's default model.
+ */
+export function createProviderFromEnv(): LLMProvider {
+  const name = (process.env.AI_PROVIDER || 'gemini').toLowerCase()
+
+  if (name === 'fixture') {
+    const directory = path.resolve(process.env.AI_FIXTURES_DIR || 'fixtures/ai')
+    const record = process.env.AI_FIXTURES_RECORD?.toLowerCase()
+    return new FixtureReplayProvider(directory, record ? createLiveProvider(record) : undefined)
+  }
+
+  return createLiveProvider(name)
+}
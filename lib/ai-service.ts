@@ -1,41 +1,71 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { circuitBreakers } from "./circuit-breaker";
-import { retryManagers } from "./retry-logic";
 import {
   RetryProgress,
   CancellationToken,
-  RetryConfig,
   RetryCancelledException,
-  RetryExhaustedException,
   retryConfigs,
 } from "./retry-logic";
+import {
+  AIProviderError,
+  LLMProvider,
+  ModelProfile,
+  TokenUsage,
+  createProviderFromEnv,
+} from "./ai-providers";
+
+export interface ModelUsage {
+  provider: string;
+  model: string;
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface AIUsageStats {
+  provider: string;
+  defaultModel: string;
+  totalRequests: number;
+  totalFailures: number;
+  totalCostUsd: number;
+  since: string;
+  models: ModelUsage[];
+}
 
 // AI Service configuration
 class AIService {
-  private client: GoogleGenerativeAI | null = null;
-  private model: any = null;
-  private isInitialized = false;
+  private provider: LLMProvider | null = null;
+  // Per provider/model counters since process start (or the last setProvider)
+  private usage = new Map<string, ModelUsage>();
+  private usageSince = new Date();
 
   constructor() {
-    // Initialize client only when needed
+    // Provider is created from the environment only when needed
   }
 
-  private async initialize() {
-    if (this.isInitialized) return;
-
-    const apiKey = process.env.GEMINI_API_KEY;
-
-    if (!apiKey) {
-      throw new Error(
-        "Gemini API key not configured. Please set GEMINI_API_KEY environment variable."
-      );
+  getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = createProviderFromEnv();
     }
+    return this.provider;
+  }
+
+  /**
+   * Swap the backend, e.g. a FixtureReplayProvider in tests. Resets usage stats.
+   */
+  setProvider(provider: LLMProvider) {
+    this.provider = provider;
+    this.usage.clear();
+    this.usageSince = new Date();
+  }
 
-    this.client = new GoogleGenerativeAI(apiKey);
-    const modelName = process.env.GEMINI_MODEL || "gemini-2.0-flash";
-    this.model = this.client.getGenerativeModel({ model: modelName });
+  get defaultModel(): string {
+    return this.getProvider().defaultModel;
+  }
 
-    this.isInitialized = true;
+  getModelProfile(model?: string): ModelProfile {
+    const provider = this.getProvider();
+    return provider.getModelProfile(model || provider.defaultModel);
   }
 
   async generateCompletion(
@@ -47,21 +77,25 @@ class AIService {
       timeout?: number;
       onProgress?: (progress: RetryProgress) => void;
       cancellationToken?: CancellationToken;
+      // Streams the response; called with the full text received so far.
+      // Every retry streams from scratch under the next attempt number
+      onText?: (text: string, attempt: number) => void;
     } = {}
   ): Promise<string> {
-    await this.initialize();
-
+    const provider = this.getProvider();
     const {
-      maxTokens = 20000, // Increased from 12000 to prevent truncation for complex itineraries
+      model = provider.defaultModel,
+      maxTokens: requestedTokens = 20000, // Increased from 12000 to prevent truncation for complex itineraries
       temperature = 0.8,
       timeout = 180000, // Increased to 3 minutes for longer generations
       onProgress,
       cancellationToken,
+      onText,
     } = options;
 
-    if (!this.model) {
-      throw new Error("AI client not initialized - model is null");
-    }
+    // Clamp to what the model can produce so providers don't reject the request
+    const profile = provider.getModelProfile(model);
+    const maxTokens = Math.min(requestedTokens, profile.maxOutputTokens);
 
     // Create retry manager with progress callback
     // Using rateLimit config: 5 attempts with 2s, 5s, 12.5s, 30s, 30s delays
@@ -97,39 +131,63 @@ class AIService {
       }
     );
 
+    let attempts = 0;
+
     // Execute with retry logic and cancellation support
     return retryManager.execute(async () => {
-      // Create generation config
-      const generationConfig = {
-        maxOutputTokens: maxTokens,
-        temperature: temperature,
-      };
+      const attempt = ++attempts;
+      // Aborting stops the provider, so a timed-out attempt can't keep
+      // streaming text into the next one
+      const controller = new AbortController();
 
       // Generate content with timeout
-      const timeoutPromise = new Promise<never>((_, reject) =>
-        setTimeout(
-          () => reject(new Error(`AI request timeout after ${timeout}ms`)),
-          timeout
-        )
-      );
-
-      const generatePromise = this.model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig,
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error(`AI request timeout after ${timeout}ms`));
+        }, timeout);
+      });
+
+      const generatePromise = provider.complete({
+        prompt,
+        model,
+        maxTokens,
+        temperature,
+        cancellationToken,
+        signal: controller.signal,
+        onText: onText && ((text) => {
+          if (!controller.signal.aborted) onText(text, attempt);
+        }),
       });
 
       try {
-        const result = await Promise.race([generatePromise, timeoutPromise]);
-        const response = await result.response;
-        const content = response.text();
+        const { text: content, usage } = await Promise.race([
+          generatePromise,
+          timeoutPromise,
+        ]);
 
         if (!content) {
           throw new Error("AI returned empty response - no content generated");
         }
 
-        console.log(`✅ AI generated ${content.length} characters`);
+        this.recordUsage(provider, model, usage);
+        console.log(
+          `✅ AI generated ${content.length} characters (${provider.name}/${model}, ${usage.outputTokens} tokens)`
+        );
         return content;
       } catch (error) {
+        if (error instanceof RetryCancelledException) {
+          throw error;
+        }
+
+        this.recordUsage(provider, model, null);
+
+        // Provider-classified failures keep their category
+        if (error instanceof AIProviderError) {
+          throw new Error(`${error.code}: ${error.message}`);
+        }
+
         // Provide categorized error information for better user experience
         if (error instanceof Error) {
           if (error.message.includes("timeout")) {
@@ -158,9 +216,85 @@ class AIService {
             );
           }
         }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        controller.abort();
       }
     });
   }
+
+  async healthCheck(): Promise<{
+    status: "healthy" | "unhealthy";
+    latency?: number;
+    provider: string;
+    model: string;
+    error?: string;
+  }> {
+    const startTime = Date.now();
+    const provider = this.getProvider();
+
+    try {
+      await provider.healthCheck();
+      return {
+        status: "healthy",
+        latency: Date.now() - startTime,
+        provider: provider.name,
+        model: provider.defaultModel,
+      };
+    } catch (error) {
+      return {
+        status: "unhealthy",
+        provider: provider.name,
+        model: provider.defaultModel,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  getUsageStats(): AIUsageStats {
+    const models = Array.from(this.usage.values());
+    return {
+      provider: this.provider?.name || process.env.AI_PROVIDER || "gemini",
+      defaultModel: this.provider?.defaultModel || "",
+      totalRequests: models.reduce((sum, entry) => sum + entry.requests, 0),
+      totalFailures: models.reduce((sum, entry) => sum + entry.failures, 0),
+      totalCostUsd: Number(
+        models.reduce((sum, entry) => sum + entry.estimatedCostUsd, 0).toFixed(6)
+      ),
+      since: this.usageSince.toISOString(),
+      models,
+    };
+  }
+
+  // Failed attempts count as a request with no tokens
+  private recordUsage(provider: LLMProvider, model: string, usage: TokenUsage | null) {
+    const key = `${provider.name}:${model}`;
+    const entry = this.usage.get(key) || {
+      provider: provider.name,
+      model,
+      requests: 0,
+      failures: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimatedCostUsd: 0,
+    };
+
+    entry.requests++;
+    if (usage) {
+      const profile = provider.getModelProfile(model);
+      entry.inputTokens += usage.inputTokens;
+      entry.outputTokens += usage.outputTokens;
+      entry.estimatedCostUsd +=
+        (usage.inputTokens * profile.inputCostPerMillion +
+          usage.outputTokens * profile.outputCostPerMillion) /
+        1_000_000;
+    } else {
+      entry.failures++;
+    }
+
+    this.usage.set(key, entry);
+  }
 }
 
 export const aiService = new AIService();
@@ -1,8 +1,28 @@
+import type { TravelPreferences } from "./trip-validation";
+import type { ExpenseCategory } from "./expense-summary";
+import type { SplitInput } from "./expense-service";
+import type { BookingInput } from "./booking-service";
+import type { PackingItemInput, PackingItemUpdate, PackingTemplateInput } from "./packing-service";
+import type { ActivityAction } from "./itinerary-types";
+import type { ShareOptions } from "./share-types";
+
 interface ApiError {
   error: string;
   details?: any;
 }
 
+interface ExpenseRequest {
+  amount: number;
+  currency: string;
+  category: ExpenseCategory;
+  description: string;
+  paidById?: string;
+  activityId?: string | null;
+  receiptNote?: string | null;
+  spentAt?: string;
+  split?: SplitInput | null;
+}
+
 class ApiClientError extends Error {
   public status: number;
   public details?: any;
@@ -140,6 +160,16 @@ export const apiClient = {
       return response;
     }),
 
+  // Itinerary edits
+  saveActivityChanges: (tripId: string, actions: ActivityAction[]) =>
+    apiRequest(`/api/user/trips/${tripId}/activities/batch`, {
+      method: "POST",
+      body: JSON.stringify({ actions }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
   getTripStatusHistory: (tripId: string, params?: { page?: number; limit?: number }) => {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', params.page.toString());
@@ -149,6 +179,426 @@ export const apiClient = {
     return apiRequest(`/api/user/trips/${tripId}/status-history${query ? `?${query}` : ''}`);
   },
 
+  // Trip Sharing
+  getShareStats: (tripId: string) =>
+    apiRequest(`/api/share?tripId=${encodeURIComponent(tripId)}`),
+
+  createShareLink: (tripId: string, options: ShareOptions = {}) =>
+    apiRequest("/api/share", {
+      method: "POST",
+      body: JSON.stringify({ tripId, options }),
+    }).then((response) => {
+      invalidateCache("/api/share");
+      return response;
+    }),
+
+  revokeShareLink: (tripId: string) =>
+    apiRequest("/api/share", {
+      method: "DELETE",
+      body: JSON.stringify({ tripId }),
+    }).then((response) => {
+      invalidateCache("/api/share");
+      return response;
+    }),
+
+  // Collaboration
+  getCollaborators: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/collaborators`),
+
+  inviteCollaborator: (
+    tripId: string,
+    data: { email: string; role: string; message?: string }
+  ) =>
+    apiRequest(`/api/user/trips/${tripId}/collaborators`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/collaborators`);
+      return response;
+    }),
+
+  updateCollaboratorRole: (tripId: string, userId: string, role: string) =>
+    apiRequest(`/api/user/trips/${tripId}/collaborators/${userId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ role }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/collaborators`);
+      return response;
+    }),
+
+  removeCollaborator: (tripId: string, userId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/collaborators/${userId}`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/collaborators`);
+      return response;
+    }),
+
+  revokeInvitation: (tripId: string, invitationId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/invitations/${invitationId}`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/collaborators`);
+      return response;
+    }),
+
+  respondToInvitation: (token: string, action: "accept" | "decline") =>
+    apiRequest(`/api/invitations/${token}`, {
+      method: "POST",
+      body: JSON.stringify({ action }),
+    }).then((response) => {
+      invalidateCache("/api/user/trips");
+      return response;
+    }),
+
+  // Comments
+  getComments: (
+    tripId: string,
+    params?: { activityId?: string; shareToken?: string }
+  ) => {
+    const searchParams = new URLSearchParams();
+    if (params?.activityId) searchParams.set("activityId", params.activityId);
+    if (params?.shareToken) searchParams.set("shareToken", params.shareToken);
+
+    const query = searchParams.toString();
+    return apiRequest(`/api/user/trips/${tripId}/comments${query ? `?${query}` : ""}`);
+  },
+
+  getCommentCounts: (tripId: string, params?: { shareToken?: string }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.shareToken) searchParams.set("shareToken", params.shareToken);
+
+    const query = searchParams.toString();
+    return apiRequest(`/api/user/trips/${tripId}/comments/counts${query ? `?${query}` : ""}`);
+  },
+
+  createComment: (
+    tripId: string,
+    data: {
+      content: string;
+      activityId?: string;
+      parentId?: string;
+      shareToken?: string;
+    }
+  ) =>
+    apiRequest(`/api/user/trips/${tripId}/comments`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/comments`);
+      return response;
+    }),
+
+  updateComment: (
+    tripId: string,
+    commentId: string,
+    data: { content: string; shareToken?: string }
+  ) =>
+    apiRequest(`/api/user/trips/${tripId}/comments/${commentId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/comments`);
+      return response;
+    }),
+
+  deleteComment: (tripId: string, commentId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/comments/${commentId}`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/comments`);
+      return response;
+    }),
+
+  // Targeted itinerary regeneration
+  regenerateItinerary: (
+    tripId: string,
+    data:
+      | { scope: "day"; dayNumber: number; instructions?: string }
+      | { scope: "activity"; activityId: string; instructions?: string }
+      | { scope: "slot"; dayNumber: number; timeSlot: "morning" | "afternoon" | "evening"; instructions?: string }
+  ) =>
+    apiRequest(`/api/user/trips/${tripId}/regenerate`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
+  // Travel times between activities; stored on each day for the timeline
+  checkSchedule: (tripId: string, dayNumber?: number) =>
+    apiRequest(`/api/user/trips/${tripId}/schedule`, {
+      method: "POST",
+      body: JSON.stringify({ dayNumber }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
+  setActivityLocked: (tripId: string, activityId: string, locked: boolean) =>
+    apiRequest(`/api/user/trips/${tripId}/activities/${activityId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ activity: { locked } }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
+  // Trip planning preferences
+  getTripPreferences: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/preferences`),
+
+  updateTripPreferences: (
+    tripId: string,
+    data: {
+      interests?: string[];
+      travelers?: { adults: number; children: number; infants: number };
+      preferences?: Partial<TravelPreferences>;
+      travelStyle?: string;
+    }
+  ) =>
+    apiRequest(`/api/user/trips/${tripId}/preferences`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    }).then((response) => {
+      // Also refreshes the trip itself, whose traveler count may have changed
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
+  // Multi-city legs
+  getTripLegs: (tripId: string) => apiRequest(`/api/user/trips/${tripId}/legs`),
+
+  updateTripLegs: (
+    tripId: string,
+    legs: Array<{ destination: string; startDate: string; endDate: string; timezone?: string }>
+  ) =>
+    apiRequest(`/api/user/trips/${tripId}/legs`, {
+      method: "PUT",
+      body: JSON.stringify({ legs }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
+  // Activity Votes
+  getVotes: (tripId: string) => apiRequest(`/api/user/trips/${tripId}/votes`),
+
+  castVote: (tripId: string, activityId: string, value: -1 | 0 | 1) =>
+    apiRequest(`/api/user/trips/${tripId}/activities/${activityId}/vote`, {
+      method: "PUT",
+      body: JSON.stringify({ value }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/votes`);
+      return response;
+    }),
+
+  getContestedActivities: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/votes/contested`),
+
+  resolveContestedActivity: (
+    tripId: string,
+    activityId: string,
+    decision: "keep" | "remove"
+  ) =>
+    apiRequest(`/api/user/trips/${tripId}/votes/contested`, {
+      method: "POST",
+      body: JSON.stringify({ activityId, decision }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
+  // Notifications
+  getNotifications: (params?: { cursor?: string; limit?: number; unreadOnly?: boolean }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.cursor) searchParams.set("cursor", params.cursor);
+    if (params?.limit) searchParams.set("limit", params.limit.toString());
+    if (params?.unreadOnly) searchParams.set("unreadOnly", "true");
+
+    const query = searchParams.toString();
+    return apiRequest(`/api/notifications${query ? `?${query}` : ""}`);
+  },
+
+  getUnreadNotificationCount: () => apiRequest("/api/notifications/unread-count"),
+
+  markNotificationRead: (notificationId: string, read = true) =>
+    apiRequest(`/api/notifications/${notificationId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ read }),
+    }).then((response) => {
+      invalidateCache("/api/notifications");
+      return response;
+    }),
+
+  markAllNotificationsRead: (ids?: string[]) =>
+    apiRequest("/api/notifications", {
+      method: "PATCH",
+      body: JSON.stringify(ids ? { ids } : {}),
+    }).then((response) => {
+      invalidateCache("/api/notifications");
+      return response;
+    }),
+
+  deleteNotification: (notificationId: string) =>
+    apiRequest(`/api/notifications/${notificationId}`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache("/api/notifications");
+      return response;
+    }),
+
+  // Calendar Feed
+  getCalendarFeed: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/calendar-feed`),
+
+  enableCalendarFeed: (tripId: string, rotate = false) =>
+    apiRequest(`/api/user/trips/${tripId}/calendar-feed`, {
+      method: "POST",
+      body: JSON.stringify({ rotate }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/calendar-feed`);
+      return response;
+    }),
+
+  revokeCalendarFeed: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/calendar-feed`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/calendar-feed`);
+      return response;
+    }),
+
+  // Expenses
+  getExpenses: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/expenses`),
+
+  createExpense: (tripId: string, expense: ExpenseRequest) =>
+    apiRequest(`/api/user/trips/${tripId}/expenses`, {
+      method: "POST",
+      body: JSON.stringify(expense),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/expenses`);
+      return response;
+    }),
+
+  updateExpense: (tripId: string, expenseId: string, expense: Partial<ExpenseRequest>) =>
+    apiRequest(`/api/user/trips/${tripId}/expenses/${expenseId}`, {
+      method: "PATCH",
+      body: JSON.stringify(expense),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/expenses`);
+      return response;
+    }),
+
+  deleteExpense: (tripId: string, expenseId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/expenses/${expenseId}`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/expenses`);
+      return response;
+    }),
+
+  getSettlement: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/expenses/settlement`),
+
+  // Bookings
+  getBookings: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/bookings`),
+
+  saveBooking: (tripId: string, activityId: string, booking: BookingInput) =>
+    apiRequest(`/api/user/trips/${tripId}/activities/${activityId}/booking`, {
+      method: "PUT",
+      body: JSON.stringify(booking),
+    }).then((response) => {
+      // Activities carry the booking status
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
+  deleteBooking: (tripId: string, activityId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/activities/${activityId}/booking`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}`);
+      return response;
+    }),
+
+  // Weather snapshots, refreshed in the background
+  getTripWeather: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/weather`),
+
+  getWeatherChanges: (tripId?: string) =>
+    apiRequest(`/api/user/weather/changes${tripId ? `?tripId=${tripId}` : ""}`),
+
+  // Packing lists
+  getPackingList: (tripId: string, travellerId?: string) =>
+    apiRequest(`/api/user/trips/${tripId}/packing${travellerId ? `?travellerId=${travellerId}` : ""}`),
+
+  generatePackingList: (tripId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/packing/generate`, {
+      method: "POST",
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/packing`);
+      return response;
+    }),
+
+  addPackingItem: (tripId: string, item: PackingItemInput) =>
+    apiRequest(`/api/user/trips/${tripId}/packing/items`, {
+      method: "POST",
+      body: JSON.stringify(item),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/packing`);
+      return response;
+    }),
+
+  updatePackingItem: (tripId: string, itemId: string, changes: PackingItemUpdate) =>
+    apiRequest(`/api/user/trips/${tripId}/packing/items/${itemId}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/packing`);
+      return response;
+    }),
+
+  deletePackingItem: (tripId: string, itemId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/packing/items/${itemId}`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/packing`);
+      return response;
+    }),
+
+  applyPackingTemplate: (tripId: string, templateId: string) =>
+    apiRequest(`/api/user/trips/${tripId}/packing/templates`, {
+      method: "POST",
+      body: JSON.stringify({ templateId }),
+    }).then((response) => {
+      invalidateCache(`/api/user/trips/${tripId}/packing`);
+      return response;
+    }),
+
+  getPackingTemplates: () =>
+    apiRequest("/api/user/packing-templates"),
+
+  savePackingTemplate: (template: PackingTemplateInput) =>
+    apiRequest("/api/user/packing-templates", {
+      method: "POST",
+      body: JSON.stringify(template),
+    }).then((response) => {
+      invalidateCache("/api/user/packing-templates");
+      return response;
+    }),
+
+  deletePackingTemplate: (templateId: string) =>
+    apiRequest(`/api/user/packing-templates/${templateId}`, {
+      method: "DELETE",
+    }).then((response) => {
+      invalidateCache("/api/user/packing-templates");
+      return response;
+    }),
+
   // Cache management
   clearCache: (pattern?: string) => {
     if (pattern) {
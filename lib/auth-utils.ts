@@ -207,7 +207,11 @@ export async function validateTripAccess(tripId: string, userId: string) {
       where: { id: tripId },
       select: {
         userId: true,
-        isPublic: true
+        isPublic: true,
+        collaborations: {
+          where: { userId, acceptedAt: { not: null } },
+          select: { role: true }
+        }
       }
     })
     
@@ -219,6 +223,11 @@ export async function validateTripAccess(tripId: string, userId: string) {
     if (trip.userId === userId) {
       return { hasAccess: true, role: "OWNER" }
     }
+
+    // Accepted collaborators get their assigned role
+    if (trip.collaborations.length > 0) {
+      return { hasAccess: true, role: trip.collaborations[0].role }
+    }
     
     // Allow read-only access to public trips
     if (trip.isPublic) {
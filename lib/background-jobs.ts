@@ -1,4 +1,8 @@
 import { TripStatusService } from './trip-status-service'
+import { emailService } from './email-service'
+import { CurrencyService } from './currency-service'
+import { BookingService } from './booking-service'
+import { WeatherSnapshotService } from './weather-snapshot-service'
 
 export interface BackgroundJobResult {
   jobName: string
@@ -8,21 +12,63 @@ export interface BackgroundJobResult {
   error?: string
 }
 
+export interface BackgroundJobDefinition {
+  run: () => Promise<unknown>
+  intervalMs: number
+}
+
 export class BackgroundJobService {
   private static jobs: Map<string, NodeJS.Timeout> = new Map()
   private static isShuttingDown = false
   private static maxJobExecutionTime = 5 * 60 * 1000 // 5 minutes timeout
 
+  /**
+   * Recurring jobs started by startAll, keyed by job name
+   */
+  static readonly definitions: Record<string, BackgroundJobDefinition> = {
+    'status-transitions': {
+      run: () => BackgroundJobService.runStatusTransitions(),
+      intervalMs: 30 * 60 * 1000 // 30 minutes
+    },
+    'email-outbox': {
+      run: () => emailService.processOutbox(),
+      intervalMs: 60 * 1000 // 1 minute
+    },
+    // Reminders and digests are deduplicated, so running these often is harmless
+    'trip-reminders': {
+      run: () => emailService.queueTripReminders(),
+      intervalMs: 60 * 60 * 1000 // 1 hour
+    },
+    'weekly-digest': {
+      run: () => emailService.queueWeeklyDigests(),
+      intervalMs: 6 * 60 * 60 * 1000 // 6 hours
+    },
+    // Each deadline is reminded once, so hourly runs only pick up new ones
+    'booking-deadlines': {
+      run: () => BookingService.queueDeadlineReminders(),
+      intervalMs: 60 * 60 * 1000 // 1 hour
+    },
+    // Matches the forecast cache lifetime, so each run sees fresh provider data
+    'weather-snapshots': {
+      run: () => WeatherSnapshotService.refreshUpcomingTrips(),
+      intervalMs: 3 * 60 * 60 * 1000 // 3 hours
+    },
+    // The ECB publishes once each afternoon; refreshing a few times a day picks it up
+    'fx-rates': {
+      run: () => CurrencyService.refreshDailySnapshot(),
+      intervalMs: 6 * 60 * 60 * 1000 // 6 hours
+    }
+  }
+
   /**
    * Start all background jobs
    */
   static startAll() {
     console.log('🚀 Starting background jobs...')
     
-    // Start status transition job (runs every 30 minutes)
-    this.startJob('status-transitions', this.runStatusTransitions, 30 * 60 * 1000)
-    
-    // Add other jobs here as needed
+    for (const [jobName, definition] of Object.entries(this.definitions)) {
+      this.startJob(jobName, definition.run, definition.intervalMs)
+    }
     
     // Graceful shutdown handling
     process.on('SIGTERM', () => this.shutdown())
@@ -196,7 +242,7 @@ export class BackgroundJobService {
     lastStatusCheck?: any
   }> {
     const runningJobs = this.jobs.size
-    const totalJobs = 1 // Currently only status-transitions job
+    const totalJobs = Object.keys(this.definitions).length
     
     // Test the status transition service
     let lastStatusCheck = null
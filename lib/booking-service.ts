@@ -0,0 +1,294 @@
+import { BookingStatus, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { emailService } from './email-service'
+import { NotificationService } from './notification-service'
+import { getTripPermissions } from './trip-permissions'
+import { currencyCodeSchema } from './currency-service'
+
+/**
+ * NOT_BOOKED means there is no booking record; removing a booking returns
+ * the activity to it. Cancelled bookings can be made again.
+ */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  NOT_BOOKED: ['PENDING', 'CONFIRMED'],
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['CANCELLED'],
+  CANCELLED: ['PENDING', 'CONFIRMED']
+}
+
+// Members hear about a cancellation deadline this long before it passes
+export const DEADLINE_REMINDER_MS = 48 * 60 * 60 * 1000
+
+const bookingDocumentSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  url: z.string().url()
+})
+
+export type BookingDocument = z.infer<typeof bookingDocumentSchema>
+
+export const bookingInputSchema = z.object({
+  status: z.enum(['PENDING', 'CONFIRMED', 'CANCELLED']).optional(),
+  provider: z.string().trim().max(120).nullable().optional(),
+  confirmationNumber: z.string().trim().max(120).nullable().optional(),
+  amountPaid: z.number().min(0).nullable().optional(),
+  currency: currencyCodeSchema.nullable().optional(),
+  cancellationDeadline: z.string().datetime().nullable().optional(),
+  documents: z.array(bookingDocumentSchema).max(10).optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  // Stored on the activity, where the itinerary already shows it
+  bookingUrl: z.string().url().nullable().optional()
+})
+
+export type BookingInput = z.infer<typeof bookingInputSchema>
+
+export class BookingError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'BookingError'
+    this.status = status
+  }
+}
+
+const activitySelect = {
+  id: true,
+  name: true,
+  startTime: true,
+  bookingRequired: true,
+  bookingStatus: true,
+  bookingUrl: true,
+  price: true,
+  currency: true,
+  day: { select: { dayNumber: true, date: true } },
+  booking: true
+} as const
+
+type LedgerActivity = Prisma.ActivityGetPayload<{ select: typeof activitySelect }>
+
+export class BookingService {
+  /**
+   * Every activity that needs or has a booking, in itinerary order, with
+   * what still has to be booked and what has been paid per currency
+   */
+  static async getLedger(tripId: string, userId: string) {
+    const { canManageBookings } = await this.authorize(tripId, userId)
+
+    const activities = await db.activity.findMany({
+      where: { tripId, OR: [{ bookingRequired: true }, { booking: { isNot: null } }] },
+      select: activitySelect,
+      orderBy: [{ day: { dayNumber: 'asc' } }, { order: 'asc' }]
+    })
+
+    const now = new Date()
+    const paid: Record<string, number> = {}
+    for (const { booking } of activities) {
+      if (booking?.amountPaid && booking.status !== 'CANCELLED') {
+        const currency = booking.currency || 'USD'
+        paid[currency] = Math.round(((paid[currency] ?? 0) + booking.amountPaid) * 100) / 100
+      }
+    }
+
+    return {
+      entries: activities.map(activity => this.toEntry(activity)),
+      // Required bookings nobody has made yet, or that fell through
+      needsBooking: activities
+        .filter(activity => activity.bookingRequired && (activity.bookingStatus === 'NOT_BOOKED' || activity.bookingStatus === 'CANCELLED'))
+        .map(activity => activity.id),
+      upcomingDeadlines: activities
+        .filter(({ booking }) => booking?.cancellationDeadline && booking.status !== 'CANCELLED' && booking.cancellationDeadline > now)
+        .sort((a, b) => a.booking!.cancellationDeadline!.getTime() - b.booking!.cancellationDeadline!.getTime())
+        .map(activity => ({ activityId: activity.id, name: activity.name, deadline: activity.booking!.cancellationDeadline! })),
+      paid,
+      canManage: canManageBookings
+    }
+  }
+
+  static async getBooking(tripId: string, activityId: string, userId: string) {
+    await this.authorize(tripId, userId)
+    return this.toEntry(await this.findActivity(tripId, activityId))
+  }
+
+  /**
+   * Record or update the booking for an activity. Status changes follow
+   * BOOKING_TRANSITIONS and are mirrored to the activity's bookingStatus.
+   */
+  static async saveBooking(tripId: string, activityId: string, userId: string, input: BookingInput) {
+    await this.authorize(tripId, userId, true)
+    const activity = await this.findActivity(tripId, activityId)
+
+    const { status, bookingUrl, cancellationDeadline, documents, ...fields } = input
+    const from = activity.booking?.status ?? 'NOT_BOOKED'
+    const to = status ?? (activity.booking ? from : 'PENDING')
+    if (to !== from && !BOOKING_TRANSITIONS[from].includes(to)) {
+      throw new BookingError(`A ${this.label(from)} booking cannot be marked ${this.label(to)}`, 400)
+    }
+
+    const data = {
+      ...fields,
+      status: to,
+      ...(cancellationDeadline !== undefined && { cancellationDeadline: cancellationDeadline ? new Date(cancellationDeadline) : null }),
+      ...(documents !== undefined && { documents: documents as Prisma.InputJsonValue })
+    }
+
+    const [, updated] = await db.$transaction([
+      db.booking.upsert({
+        where: { activityId },
+        create: { ...data, tripId, activityId, createdById: userId },
+        update: data
+      }),
+      db.activity.update({
+        where: { id: activityId },
+        data: {
+          bookingStatus: to,
+          ...(bookingUrl !== undefined && { bookingUrl })
+        },
+        select: activitySelect
+      })
+    ])
+
+    if (to !== from && (to === 'CONFIRMED' || to === 'CANCELLED')) {
+      const actorName = await NotificationService.displayName(userId)
+      await NotificationService.notifyTripMembers(tripId, userId, {
+        type: 'ACTIVITY_CHANGED',
+        title: to === 'CONFIRMED' ? 'Booking confirmed' : 'Booking cancelled',
+        message: `${actorName} ${to === 'CONFIRMED' ? 'confirmed' : 'cancelled'} the booking for ${activity.name}`,
+        data: { url: NotificationService.tripUrl(tripId), activityId }
+      })
+    }
+
+    return this.toEntry(updated)
+  }
+
+  /**
+   * Forget a booking, e.g. one recorded by mistake. The activity goes back to not booked.
+   */
+  static async removeBooking(tripId: string, activityId: string, userId: string) {
+    await this.authorize(tripId, userId, true)
+    const activity = await this.findActivity(tripId, activityId)
+    if (!activity.booking) {
+      throw new BookingError('This activity has no booking', 404)
+    }
+
+    await db.$transaction([
+      db.booking.delete({ where: { activityId } }),
+      db.activity.update({ where: { id: activityId }, data: { bookingStatus: 'NOT_BOOKED' } })
+    ])
+  }
+
+  /**
+   * Remind trip members of cancellation deadlines in the next 48 hours, in
+   * the app and by email. Each deadline is reminded once; moving it re-arms the reminder.
+   */
+  static async queueDeadlineReminders(now = new Date()): Promise<number> {
+    const bookings = await db.booking.findMany({
+      where: {
+        status: { in: ['PENDING', 'CONFIRMED'] },
+        cancellationDeadline: { gt: now, lte: new Date(now.getTime() + DEADLINE_REMINDER_MS) },
+        trip: { status: { in: ['PLANNED', 'ACTIVE'] } }
+      },
+      include: {
+        activity: { select: { name: true } },
+        trip: {
+          select: {
+            title: true,
+            user: { select: { id: true, name: true } },
+            collaborations: {
+              where: { acceptedAt: { not: null } },
+              select: { user: { select: { id: true, name: true } } }
+            }
+          }
+        }
+      }
+    })
+
+    let reminded = 0
+    for (const booking of bookings) {
+      const deadline = booking.cancellationDeadline!
+      if (booking.reminderSentFor?.getTime() === deadline.getTime()) continue
+
+      await NotificationService.notifyTripMembers(booking.tripId, null, {
+        type: 'TRIP_UPDATE',
+        title: 'Cancellation deadline approaching',
+        message: `Free cancellation for ${booking.activity.name} ends ${deadline.toISOString().slice(0, 16).replace('T', ' ')} UTC`,
+        data: { url: NotificationService.tripUrl(booking.tripId), activityId: booking.activityId }
+      })
+
+      const members = [booking.trip.user, ...booking.trip.collaborations.map(c => c.user)]
+      for (const member of members) {
+        await emailService.enqueue('booking-deadline', {
+          recipientName: member.name,
+          tripTitle: booking.trip.title,
+          activityName: booking.activity.name,
+          provider: booking.provider,
+          confirmationNumber: booking.confirmationNumber,
+          deadline,
+          tripUrl: emailService.absoluteUrl(NotificationService.tripUrl(booking.tripId))
+        }, {
+          category: 'tripReminders',
+          userId: member.id,
+          dedupeKey: `booking-deadline:${booking.id}:${member.id}:${deadline.toISOString()}`
+        })
+      }
+
+      await db.booking.update({ where: { id: booking.id }, data: { reminderSentFor: deadline } })
+      reminded++
+    }
+    return reminded
+  }
+
+  private static toEntry(activity: LedgerActivity) {
+    const { booking, ...rest } = activity
+    return {
+      activity: rest,
+      booking: booking && {
+        ...booking,
+        documents: (booking.documents ?? []) as BookingDocument[]
+      },
+      nextStatuses: BOOKING_TRANSITIONS[booking?.status ?? 'NOT_BOOKED']
+    }
+  }
+
+  private static label(status: BookingStatus): string {
+    return status.toLowerCase().replace('_', ' ')
+  }
+
+  private static async findActivity(tripId: string, activityId: string) {
+    const activity = await db.activity.findFirst({ where: { id: activityId, tripId }, select: activitySelect })
+    if (!activity) {
+      throw new BookingError('Activity not found', 404)
+    }
+    return activity
+  }
+
+  private static async authorize(tripId: string, userId: string, requireManage = false) {
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: { id: true, userId: true, status: true, startDate: true, endDate: true }
+    })
+    if (!trip) {
+      throw new BookingError('Trip not found', 404)
+    }
+
+    const role = await CollaborationService.getMemberRole(tripId, userId)
+    if (!role) {
+      throw new BookingError('Trip not found', 404)
+    }
+
+    const { canManageBookings } = getTripPermissions(trip, userId, role)
+    if (requireManage && !canManageBookings) {
+      throw new BookingError(
+        role === 'VIEWER'
+          ? 'Viewers cannot manage bookings'
+          : `Bookings cannot be changed while the trip is ${trip.status.toLowerCase()}`,
+        403
+      )
+    }
+
+    return { role, canManageBookings }
+  }
+}
+
+export default BookingService
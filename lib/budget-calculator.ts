@@ -18,6 +18,13 @@ export interface BudgetEstimate {
   perPersonTotal?: number
 }
 
+export interface MultiLegBudgetEstimate extends BudgetEstimate {
+  // One estimate per leg, in trip order
+  legs: BudgetEstimate[]
+  // Getting from each city to the next
+  transfers: number
+}
+
 // Regional cost multipliers based on destination
 export const regionalMultipliers: Record<string, number> = {
   // Europe - High cost
@@ -76,7 +83,14 @@ export const baseDailyCosts = {
   }
 }
 
-// Currency conversion rates (simplified - in production use real-time API)
+// Inter-city transfer cost per traveler by accommodation type (in USD)
+export const intercityTransferCosts = {
+  budget: 25,
+  'mid-range': 60,
+  luxury: 150
+}
+
+// Fallback USD rates, used until CurrencyService loads the day's snapshot
 export const currencyRates: Record<string, number> = {
   'USD': 1.0,
   'EUR': 0.85,
@@ -140,8 +154,17 @@ export const currencyRates: Record<string, number> = {
   'XPF': 107.0 // CFP franc
 }
 
+// Currencies trips can budget and display prices in
+export const SUPPORTED_CURRENCIES = Object.keys(currencyRates)
+
 export class BudgetCalculator {
-  
+  private rates: Record<string, number> = currencyRates
+
+  // Swap in current USD-based rates; CurrencyService calls this with each day's snapshot
+  setRates(rates: Record<string, number>) {
+    this.rates = { ...currencyRates, ...rates }
+  }
+
   // Calculate budget estimate based on form data
   calculateEstimate(formData: TripPlanningFormData): BudgetEstimate {
     const duration = this.getTripDuration(formData.dateRange.startDate, formData.dateRange.endDate)
@@ -191,6 +214,50 @@ export class BudgetCalculator {
     }
   }
 
+  // Calculate a multi-city estimate: each leg with its own regional costs, plus inter-city transfers
+  calculateMultiLegEstimate(
+    formData: TripPlanningFormData,
+    legs: Array<{ destination: string; startDate: Date; endDate: Date }>
+  ): MultiLegBudgetEstimate {
+    const currency = formData.budget.currency
+    const travelers = formData.travelers.adults + formData.travelers.children + formData.travelers.infants
+
+    const legEstimates = legs.map((leg, index) => {
+      // Nights are spent in a city until the morning the next leg starts
+      const departure = index < legs.length - 1 ? legs[index + 1].startDate : leg.endDate
+      return this.calculateEstimate({
+        ...formData,
+        destination: { ...formData.destination, destination: leg.destination },
+        dateRange: { startDate: leg.startDate, endDate: departure }
+      })
+    })
+
+    const accommodationType = formData.preferences.accommodationType
+    const transferCost = intercityTransferCosts[accommodationType as keyof typeof intercityTransferCosts] || intercityTransferCosts['mid-range']
+    const transfers = Math.round(this.convertCurrency(transferCost * travelers * Math.max(legs.length - 1, 0), 'USD', currency))
+
+    const breakdown = legEstimates.reduce<BudgetBreakdown>((sum, estimate) => ({
+      accommodation: sum.accommodation + estimate.breakdown.accommodation,
+      food: sum.food + estimate.breakdown.food,
+      activities: sum.activities + estimate.breakdown.activities,
+      transportation: sum.transportation + estimate.breakdown.transportation,
+      other: sum.other + estimate.breakdown.other
+    }), { accommodation: 0, food: 0, activities: 0, transportation: transfers, other: 0 })
+
+    const total = legEstimates.reduce((sum, estimate) => sum + estimate.total, 0) + transfers
+    const duration = this.getTripDuration(formData.dateRange.startDate, formData.dateRange.endDate)
+
+    return {
+      total,
+      currency,
+      breakdown,
+      dailyAverage: Math.round(total / duration),
+      perPersonTotal: travelers > 1 ? Math.round(total / travelers) : undefined,
+      legs: legEstimates,
+      transfers
+    }
+  }
+
   // Validate user budget against estimate
   validateBudget(formData: TripPlanningFormData): {
     isRealistic: boolean
@@ -386,9 +453,9 @@ export class BudgetCalculator {
     return baseCost * multiplier * travelers
   }
 
-  // Get trip duration in days
+  // Get trip duration in days (at least one, so single-day legs still get an estimate)
   private getTripDuration(startDate: Date, endDate: Date): number {
-    return Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
+    return Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)))
   }
 
   // Determine region from destination (simplified)
@@ -462,12 +529,12 @@ export class BudgetCalculator {
     return 'default'
   }
 
-  // Convert currency (simplified - use real API in production)
+  // Convert currency using the latest rates
   private convertCurrency(amount: number, fromCurrency: string, toCurrency: string): number {
     if (fromCurrency === toCurrency) return amount
     
-    const fromRate = currencyRates[fromCurrency] || 1
-    const toRate = currencyRates[toCurrency] || 1
+    const fromRate = this.rates[fromCurrency] || 1
+    const toRate = this.rates[toCurrency] || 1
     
     return (amount / fromRate) * toRate
   }
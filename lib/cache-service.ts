@@ -182,6 +182,8 @@ export function generateCacheKey(formData: any, userId?: string): string {
       budget: formData.budget?.amount,
       interests: formData.interests?.sort(),
       travelers: formData.travelers?.adults,
+      // A multi-city stop is planned differently from the same city on its own
+      arrivingFrom: formData.legContext?.arrivingFrom,
       userId: userId, // Include user context for security
       salt: Math.floor(Date.now() / 86400000) // Daily salt to prevent long-term cache pollution
     }
@@ -201,6 +203,7 @@ export function generateCacheKey(formData: any, userId?: string): string {
       budget: formData.budget?.amount,
       interests: formData.interests?.sort(),
       travelers: formData.travelers?.adults,
+      arrivingFrom: formData.legContext?.arrivingFrom,
       userId: userId,
       timestamp: Math.floor(Date.now() / 86400000)
     })
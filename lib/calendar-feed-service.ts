@@ -0,0 +1,220 @@
+import { createHash, randomBytes } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { calendarGenerator, Activity as CalendarActivity } from './calendar-generator'
+import { TimezoneUtils } from './timezone-utils'
+import { timezoneForDate } from './trip-legs'
+
+export interface CalendarFeedInfo {
+  token: string
+  feedUrl: string
+  webcalUrl: string
+  createdAt: Date
+  lastAccessedAt: Date | null
+}
+
+// How long deleted activities keep being published as CANCELLED so that
+// subscribed calendars get a chance to remove them
+const CANCELLED_RETENTION_DAYS = 30
+// Suggested refresh interval for calendar apps (seconds)
+const FEED_TTL_SECONDS = 60 * 60
+
+/**
+ * Tokenised, subscribable calendar feeds for trips.
+ * Each feed remembers a fingerprint and SEQUENCE number per activity so that
+ * edits bump SEQUENCE and deleted activities are sent as CANCELLED.
+ */
+export class CalendarFeedService {
+  /**
+   * Get the feed for a trip, if one exists
+   */
+  static async getFeed(tripId: string): Promise<CalendarFeedInfo | null> {
+    const feed = await db.calendarFeed.findUnique({ where: { tripId } })
+    return feed ? this.toFeedInfo(feed) : null
+  }
+
+  /**
+   * Create a feed for a trip, or return the existing one
+   */
+  static async enableFeed(tripId: string, userId: string): Promise<CalendarFeedInfo> {
+    const existing = await db.calendarFeed.findUnique({ where: { tripId } })
+    if (existing) {
+      return this.toFeedInfo(existing)
+    }
+
+    const feed = await db.calendarFeed.create({
+      data: {
+        tripId,
+        token: this.generateToken(),
+        createdById: userId
+      }
+    })
+    return this.toFeedInfo(feed)
+  }
+
+  /**
+   * Replace the feed token. Existing subscriptions stop updating, while the
+   * per-activity sequence state is kept for the new URL.
+   */
+  static async rotateToken(tripId: string, userId: string): Promise<CalendarFeedInfo> {
+    const feed = await db.calendarFeed.upsert({
+      where: { tripId },
+      update: { token: this.generateToken() },
+      create: {
+        tripId,
+        token: this.generateToken(),
+        createdById: userId
+      }
+    })
+    return this.toFeedInfo(feed)
+  }
+
+  /**
+   * Revoke the feed entirely
+   */
+  static async revokeFeed(tripId: string): Promise<boolean> {
+    const result = await db.calendarFeed.deleteMany({ where: { tripId } })
+    return result.count > 0
+  }
+
+  /**
+   * Render the current iCalendar for a feed token, syncing per-activity
+   * sequence numbers with the trip's current activities first.
+   * Returns null when the token is unknown.
+   */
+  static async renderFeed(token: string): Promise<string | null> {
+    const feed = await db.calendarFeed.findUnique({
+      where: { token },
+      include: {
+        events: true,
+        trip: {
+          include: {
+            activities: {
+              where: { dayId: { not: null } },
+              orderBy: [{ day: { dayNumber: 'asc' } }, { order: 'asc' }],
+              include: { day: { select: { date: true, dayNumber: true } } }
+            },
+            legs: { orderBy: { order: 'asc' } }
+          }
+        }
+      }
+    })
+
+    if (!feed) {
+      return null
+    }
+
+    const { trip } = feed
+    const now = new Date()
+    const retentionCutoff = new Date(now.getTime() - CANCELLED_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    const eventsByActivity = new Map(feed.events.map(event => [event.activityId, event]))
+    const writes: Prisma.PrismaPromise<unknown>[] = []
+
+    const eventOverrides: Record<string, { sequence: number }> = {}
+    const currentIds = new Set<string>()
+
+    for (const activity of trip.activities) {
+      currentIds.add(activity.id)
+      const snapshot = this.toSnapshot(activity)
+      const fingerprint = this.fingerprint(snapshot)
+      const event = eventsByActivity.get(activity.id)
+
+      if (!event) {
+        eventOverrides[activity.id] = { sequence: 0 }
+        writes.push(db.calendarFeedEvent.create({
+          data: { feedId: feed.id, activityId: activity.id, fingerprint, snapshot: snapshot as unknown as Prisma.InputJsonObject }
+        }))
+      } else if (event.fingerprint !== fingerprint || event.cancelledAt) {
+        eventOverrides[activity.id] = { sequence: event.sequence + 1 }
+        writes.push(db.calendarFeedEvent.update({
+          where: { id: event.id },
+          data: { sequence: event.sequence + 1, fingerprint, snapshot: snapshot as unknown as Prisma.InputJsonObject, cancelledAt: null }
+        }))
+      } else {
+        eventOverrides[activity.id] = { sequence: event.sequence }
+      }
+    }
+
+    const cancelledActivities: Array<CalendarActivity & { sequence: number }> = []
+    for (const event of feed.events) {
+      if (currentIds.has(event.activityId)) continue
+
+      if (event.cancelledAt && event.cancelledAt < retentionCutoff) {
+        writes.push(db.calendarFeedEvent.delete({ where: { id: event.id } }))
+        continue
+      }
+
+      const sequence = event.cancelledAt ? event.sequence : event.sequence + 1
+      if (!event.cancelledAt) {
+        writes.push(db.calendarFeedEvent.update({
+          where: { id: event.id },
+          data: { sequence, cancelledAt: now }
+        }))
+      }
+      cancelledActivities.push({ ...(event.snapshot as unknown as CalendarActivity), sequence })
+    }
+
+    writes.push(db.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: now }
+    }))
+    await db.$transaction(writes)
+
+    return calendarGenerator.generateiCal(trip, {
+      timezone: TimezoneUtils.getDestinationTimezone(trip.destination),
+      timezoneFor: (activity) => activity.day ? timezoneForDate(trip, trip.legs, activity.day.date) : undefined,
+      eventOverrides,
+      cancelledActivities,
+      ttl: FEED_TTL_SECONDS
+    })
+  }
+
+  /**
+   * Build the feed URLs for a token
+   */
+  static buildFeedUrls(token: string): { feedUrl: string; webcalUrl: string } {
+    const baseUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')
+    const feedUrl = `${baseUrl}/api/export/calendar/${token}.ics`
+    return {
+      feedUrl,
+      webcalUrl: feedUrl.replace(/^https?:\/\//, 'webcal://')
+    }
+  }
+
+  private static toFeedInfo(feed: { token: string; createdAt: Date; lastAccessedAt: Date | null }): CalendarFeedInfo {
+    return {
+      token: feed.token,
+      ...this.buildFeedUrls(feed.token),
+      createdAt: feed.createdAt,
+      lastAccessedAt: feed.lastAccessedAt
+    }
+  }
+
+  // Only the fields that end up in the VEVENT take part in change detection
+  private static toSnapshot(activity: CalendarActivity): CalendarActivity {
+    return {
+      id: activity.id,
+      name: activity.name,
+      description: activity.description ?? null,
+      location: activity.location ?? null,
+      address: activity.address ?? null,
+      coordinates: activity.coordinates ?? null,
+      startTime: activity.startTime ?? null,
+      endTime: activity.endTime ?? null,
+      duration: activity.duration ?? null,
+      notes: activity.notes ?? null,
+      bookingUrl: activity.bookingUrl ?? null,
+      day: activity.day ? { date: activity.day.date } : null
+    }
+  }
+
+  private static fingerprint(snapshot: CalendarActivity): string {
+    return createHash('sha256').update(JSON.stringify(snapshot)).digest('hex')
+  }
+
+  private static generateToken(): string {
+    return randomBytes(24).toString('base64url')
+  }
+}
+
+export default CalendarFeedService
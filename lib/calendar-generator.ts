@@ -1,42 +1,438 @@
-// Calendar generator disabled stub
-// Minimal stub that preserves the exported symbol `calendarGenerator`.
+// iCalendar (RFC 5545) export and "add to calendar" deep links.
+// Activity times are stored as local wall-clock "HH:mm" strings on a Day's
+// date, so events are emitted with a TZID for the destination timezone and a
+// VTIMEZONE block describing each zone's offsets over the trip dates.
+// Multi-city trips can put each day in its own leg's zone.
+
+import ical, { ICalCalendarMethod, ICalEventStatus } from "ical-generator";
+import { fromZonedTime } from "date-fns-tz";
+import { TimezoneUtils } from "./timezone-utils";
 
 export interface Activity {
-  id?: string;
-  name?: string;
-  startTime?: string | Date;
-  endTime?: string | Date;
-  description?: string;
-  location?: string;
-  [key: string]: any;
+  id: string;
+  name: string;
+  description?: string | null;
+  location?: string | null;
+  address?: string | null;
+  coordinates?: unknown;
+  startTime?: string | null;
+  endTime?: string | null;
+  duration?: string | null;
+  notes?: string | null;
+  bookingUrl?: string | null;
+  day?: { date: string; dayNumber?: number } | null;
 }
 
 export interface TripWithActivities {
-  id?: string;
-  title?: string;
-  startDate?: string | Date;
-  endDate?: string | Date;
-  activities?: Activity[];
+  id: string;
+  title: string;
+  destination: string;
+  description?: string | null;
+  startDate: string | Date;
+  endDate: string | Date;
+  activities: Activity[];
   user?: { name?: string | null; email?: string };
-  [key: string]: any;
 }
 
-class DisabledCalendarGenerator {
-  generateGoogleCalendarUrl(_activity: Activity, _timezone = "UTC") {
-    throw new Error("Calendar export disabled");
+export interface ICalOptions {
+  timezone?: string;
+  // Zone of an activity's day when it differs from `timezone`, e.g. per leg
+  timezoneFor?: (activity: Activity) => string | undefined;
+  calendarName?: string;
+  // Per-activity overrides, e.g. SEQUENCE numbers or cancelled events
+  eventOverrides?: Record<string, { sequence?: number; cancelled?: boolean }>;
+  // Activities that no longer exist but must still be sent as cancelled
+  cancelledActivities?: Array<Activity & { sequence?: number }>;
+  method?: "PUBLISH" | "REQUEST";
+  // Suggested refresh interval in seconds for subscribed calendars
+  ttl?: number;
+}
+
+export interface EventTimes {
+  // Local wall-clock times in the event timezone (YYYY-MM-DDTHH:mm:ss)
+  start: string;
+  end: string;
+  allDay: boolean;
+}
+
+const UID_DOMAIN = "terravoyage.app";
+const DEFAULT_DURATION_MINUTES = 60;
+
+class CalendarGenerator {
+  private offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * Build a full VCALENDAR for a trip with one VEVENT per scheduled activity.
+   * Activities without a day are skipped since they have no date.
+   */
+  generateiCal(trip: TripWithActivities, options: ICalOptions = {}): string {
+    const timezone =
+      options.timezone || TimezoneUtils.getDestinationTimezone(trip.destination);
+
+    const calendar = ical({
+      name: options.calendarName || trip.title,
+      description: trip.description || `Itinerary for ${trip.destination}`,
+      prodId: { company: "TerraVoyage", product: "Itinerary", language: "EN" },
+      method:
+        options.method === "REQUEST"
+          ? ICalCalendarMethod.REQUEST
+          : ICalCalendarMethod.PUBLISH,
+      ttl: options.ttl ?? null,
+      timezone: {
+        name: null,
+        generator: (tzid) => this.generateVTimezone(tzid, trip.startDate, trip.endDate),
+      },
+    });
+
+    const zoneOf = (activity: Activity) =>
+      options.timezoneFor?.(activity) || timezone;
+
+    for (const activity of trip.activities) {
+      const override = options.eventOverrides?.[activity.id];
+      this.addEvent(calendar, activity, zoneOf(activity), {
+        sequence: override?.sequence,
+        cancelled: override?.cancelled,
+      });
+    }
+
+    for (const activity of options.cancelledActivities || []) {
+      this.addEvent(calendar, activity, zoneOf(activity), {
+        sequence: activity.sequence,
+        cancelled: true,
+      });
+    }
+
+    return calendar.toString();
+  }
+
+  generateGoogleCalendarUrl(activity: Activity, timezone = "UTC"): string {
+    const times = this.getEventTimes(activity);
+    if (!times) {
+      throw new Error("Activity has no scheduled date");
+    }
+
+    const compact = (value: string) =>
+      times.allDay ? value.slice(0, 10).replace(/-/g, "") : value.replace(/[-:]/g, "");
+
+    const params = new URLSearchParams({
+      action: "TEMPLATE",
+      text: activity.name,
+      dates: `${compact(times.start)}/${compact(times.end)}`,
+      details: this.buildDescription(activity),
+      location: this.buildLocation(activity),
+    });
+    if (!times.allDay) {
+      params.set("ctz", timezone);
+    }
+
+    return `https://calendar.google.com/calendar/render?${params.toString()}`;
+  }
+
+  generateOutlookCalendarUrl(activity: Activity, timezone = "UTC"): string {
+    const times = this.getEventTimes(activity);
+    if (!times) {
+      throw new Error("Activity has no scheduled date");
+    }
+
+    // Outlook has no timezone parameter, so send UTC instants
+    const toUtc = (value: string) =>
+      fromZonedTime(value, timezone).toISOString().replace(/\.\d{3}Z$/, "Z");
+
+    const params = new URLSearchParams({
+      path: "/calendar/action/compose",
+      rru: "addevent",
+      subject: activity.name,
+      startdt: times.allDay ? times.start.slice(0, 10) : toUtc(times.start),
+      enddt: times.allDay ? times.end.slice(0, 10) : toUtc(times.end),
+      body: this.buildDescription(activity),
+      location: this.buildLocation(activity),
+    });
+    if (times.allDay) {
+      params.set("allday", "true");
+    }
+
+    return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+  }
+
+  generateAppleCalendarEvent(activity: Activity, timezone = "UTC"): string {
+    const date = activity.day?.date || new Date().toISOString();
+    return this.generateiCal(
+      {
+        id: activity.id,
+        title: activity.name,
+        destination: activity.location || "",
+        startDate: date,
+        endDate: date,
+        activities: [activity],
+      },
+      { timezone }
+    );
+  }
+
+  /**
+   * Resolve an activity's local start/end. Missing start times become all-day
+   * events; missing end times fall back to the duration or one hour, and end
+   * times before the start are treated as running past midnight.
+   */
+  getEventTimes(activity: Activity): EventTimes | null {
+    const date = activity.day?.date?.slice(0, 10);
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return null;
+    }
+
+    const start = this.parseTime(activity.startTime);
+    if (start === null) {
+      return {
+        start: `${date}T00:00:00`,
+        end: `${this.addDays(date, 1)}T00:00:00`,
+        allDay: true,
+      };
+    }
+
+    let end = this.parseTime(activity.endTime);
+    if (end === null) {
+      end = start + (this.parseDuration(activity.duration) ?? DEFAULT_DURATION_MINUTES);
+    } else if (end <= start) {
+      end += 24 * 60;
+    }
+
+    return {
+      start: this.formatLocal(date, start),
+      end: this.formatLocal(date, end),
+      allDay: false,
+    };
+  }
+
+  /**
+   * Build a VTIMEZONE for the given zone covering the trip dates. Offsets are
+   * probed through Intl, and each transition inside the window is emitted as
+   * its own STANDARD/DAYLIGHT observance.
+   */
+  generateVTimezone(
+    timezone: string,
+    rangeStart: string | Date,
+    rangeEnd: string | Date
+  ): string {
+    const from = new Date(rangeStart);
+    const to = new Date(rangeEnd);
+    from.setUTCDate(from.getUTCDate() - 1);
+    to.setUTCDate(to.getUTCDate() + 2);
+
+    const initialOffset = this.getOffsetMinutes(timezone, from);
+    const lines = ["BEGIN:VTIMEZONE", `TZID:${timezone}`];
+
+    // Seed observance for the offset in effect before the first transition
+    const year = from.getUTCFullYear();
+    const january = this.getOffsetMinutes(timezone, new Date(Date.UTC(year, 0, 1)));
+    const july = this.getOffsetMinutes(timezone, new Date(Date.UTC(year, 6, 1)));
+    const initialKind =
+      january !== july && initialOffset === Math.max(january, july)
+        ? "DAYLIGHT"
+        : "STANDARD";
+
+    lines.push(
+      ...this.observance(
+        initialKind,
+        "19700101T000000",
+        initialOffset,
+        initialOffset,
+        this.getZoneName(timezone, from)
+      )
+    );
+
+    for (const transition of this.findTransitions(timezone, from, to)) {
+      const kind = transition.to > transition.from ? "DAYLIGHT" : "STANDARD";
+      const localBefore = new Date(transition.at.getTime() + transition.from * 60000);
+      lines.push(
+        ...this.observance(
+          kind,
+          this.formatUtcCompact(localBefore),
+          transition.from,
+          transition.to,
+          this.getZoneName(timezone, transition.at)
+        )
+      );
+    }
+
+    lines.push("END:VTIMEZONE");
+    return lines.join("\r\n");
+  }
+
+  // Private helper methods
+
+  private addEvent(
+    calendar: ReturnType<typeof ical>,
+    activity: Activity,
+    timezone: string,
+    state: { sequence?: number; cancelled?: boolean }
+  ) {
+    const times = this.getEventTimes(activity);
+    if (!times) return;
+
+    const coordinates = this.getCoordinates(activity.coordinates);
+    const event = calendar.createEvent({
+      id: `${activity.id}@${UID_DOMAIN}`,
+      sequence: state.sequence ?? 0,
+      start: times.allDay ? times.start.slice(0, 10) : times.start,
+      end: times.allDay ? times.end.slice(0, 10) : times.end,
+      allDay: times.allDay,
+      timezone: times.allDay ? null : timezone,
+      summary: activity.name,
+      description: this.buildDescription(activity) || null,
+      url: activity.bookingUrl || null,
+      status: state.cancelled ? ICalEventStatus.CANCELLED : ICalEventStatus.CONFIRMED,
+    });
+
+    const title = activity.location || activity.address;
+    if (title) {
+      event.location({
+        title,
+        address: activity.address && activity.address !== title ? activity.address : undefined,
+        geo: coordinates ? { lat: coordinates.lat, lon: coordinates.lng } : undefined,
+      });
+    }
+  }
+
+  private buildDescription(activity: Activity): string {
+    return [activity.description, activity.notes && `Notes: ${activity.notes}`]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  private buildLocation(activity: Activity): string {
+    return [activity.location, activity.address]
+      .filter((part, index, parts) => part && parts.indexOf(part) === index)
+      .join(", ");
+  }
+
+  private getCoordinates(value: unknown): { lat: number; lng: number } | null {
+    if (!value || typeof value !== "object") return null;
+    const { lat, lng } = value as { lat?: unknown; lng?: unknown };
+    if (typeof lat !== "number" || typeof lng !== "number") return null;
+    if (lat === 0 && lng === 0) return null;
+    return { lat, lng };
+  }
+
+  private parseTime(value?: string | null): number | null {
+    const match = value?.match(/^(\d{1,2}):(\d{2})/);
+    if (!match) return null;
+    const hours = parseInt(match[1]);
+    const minutes = parseInt(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+  }
+
+  private parseDuration(value?: string | null): number | null {
+    if (!value) return null;
+    const hours = value.match(/(\d+(?:\.\d+)?)\s*h/i);
+    const minutes = value.match(/(\d+)\s*m/i);
+    if (!hours && !minutes) return null;
+    return Math.round(
+      (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0)
+    );
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().slice(0, 10);
+  }
+
+  private formatLocal(date: string, minutes: number): string {
+    const day = this.addDays(date, Math.floor(minutes / (24 * 60)));
+    const minuteOfDay = minutes % (24 * 60);
+    const hh = Math.floor(minuteOfDay / 60).toString().padStart(2, "0");
+    const mm = (minuteOfDay % 60).toString().padStart(2, "0");
+    return `${day}T${hh}:${mm}:00`;
+  }
+
+  private getOffsetMinutes(timezone: string, date: Date): number {
+    let formatter = this.offsetFormatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+      this.offsetFormatters.set(timezone, formatter);
+    }
+    const parts = formatter.formatToParts(date);
+    const get = (type: string) =>
+      parseInt(parts.find((part) => part.type === type)?.value || "0");
+    const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"));
+    return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+  }
+
+  private getZoneName(timezone: string, date: Date): string {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      timeZoneName: "short",
+    }).formatToParts(date);
+    return parts.find((part) => part.type === "timeZoneName")?.value || timezone;
+  }
+
+  private findTransitions(timezone: string, from: Date, to: Date) {
+    const transitions: Array<{ at: Date; from: number; to: number }> = [];
+    const hour = 60 * 60 * 1000;
+
+    let cursor = from.getTime();
+    let offset = this.getOffsetMinutes(timezone, from);
+    while (cursor < to.getTime()) {
+      const next = Math.min(cursor + hour, to.getTime());
+      const nextOffset = this.getOffsetMinutes(timezone, new Date(next));
+      if (nextOffset !== offset) {
+        // Narrow the change down to the minute
+        let low = cursor;
+        let high = next;
+        while (high - low > 60000) {
+          const mid = low + Math.floor((high - low) / 120000) * 60000;
+          if (this.getOffsetMinutes(timezone, new Date(mid)) === offset) {
+            low = mid;
+          } else {
+            high = mid;
+          }
+        }
+        transitions.push({ at: new Date(high), from: offset, to: nextOffset });
+        offset = nextOffset;
+      }
+      cursor = next;
+    }
+
+    return transitions;
   }
 
-  generateOutlookCalendarUrl(_activity: Activity, _timezone = "UTC") {
-    throw new Error("Calendar export disabled");
+  private observance(
+    kind: "STANDARD" | "DAYLIGHT",
+    dtstart: string,
+    offsetFrom: number,
+    offsetTo: number,
+    name: string
+  ): string[] {
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${dtstart}`,
+      `TZOFFSETFROM:${this.formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${this.formatOffset(offsetTo)}`,
+      `TZNAME:${name}`,
+      `END:${kind}`,
+    ];
   }
 
-  generateAppleCalendarEvent(_activity: Activity, _timezone = "UTC") {
-    throw new Error("Calendar export disabled");
+  private formatOffset(minutes: number): string {
+    const sign = minutes < 0 ? "-" : "+";
+    const abs = Math.abs(minutes);
+    const hh = Math.floor(abs / 60).toString().padStart(2, "0");
+    const mm = (abs % 60).toString().padStart(2, "0");
+    return `${sign}${hh}${mm}`;
   }
 
-  async generateiCal(_trip: TripWithActivities, _options?: any) {
-    throw new Error("Calendar export disabled");
+  private formatUtcCompact(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "");
   }
 }
 
-export const calendarGenerator = new DisabledCalendarGenerator();
+export const calendarGenerator = new CalendarGenerator();
@@ -0,0 +1,472 @@
+import type { ClimateNormals } from './climate-normals'
+
+/**
+ * Monthly climate normals (about 1991-2020) for common destinations. Values
+ * are averages of daily highs and lows in °C, monthly precipitation in mm and
+ * days with at least 1 mm of rain, January first.
+ */
+export const CLIMATE_STATIONS: ClimateNormals[] = [
+  {
+    name: 'London',
+    country: 'GB',
+    lat: 51.51,
+    lng: -0.13,
+    tMax: [8, 9, 12, 15, 18, 21, 24, 23, 20, 16, 11, 9],
+    tMin: [3, 3, 4, 6, 9, 12, 14, 14, 12, 9, 6, 3],
+    precipitation: [55, 41, 42, 44, 49, 45, 45, 50, 49, 69, 64, 55],
+    wetDays: [11, 9, 9, 9, 8, 8, 8, 8, 8, 11, 11, 11]
+  },
+  {
+    name: 'Paris',
+    country: 'FR',
+    lat: 48.86,
+    lng: 2.35,
+    tMax: [8, 9, 13, 16, 20, 23, 26, 25, 21, 16, 11, 8],
+    tMin: [3, 3, 5, 7, 11, 14, 16, 16, 13, 10, 6, 4],
+    precipitation: [50, 41, 45, 48, 63, 49, 62, 53, 48, 59, 54, 59],
+    wetDays: [10, 9, 9, 9, 9, 8, 7, 7, 7, 9, 10, 10]
+  },
+  {
+    name: 'Amsterdam',
+    country: 'NL',
+    lat: 52.37,
+    lng: 4.9,
+    tMax: [6, 7, 10, 14, 18, 20, 23, 22, 19, 15, 10, 7],
+    tMin: [1, 1, 3, 5, 8, 11, 13, 13, 11, 8, 4, 2],
+    precipitation: [69, 55, 54, 40, 52, 66, 78, 83, 79, 83, 85, 78],
+    wetDays: [12, 10, 11, 8, 9, 9, 9, 10, 10, 12, 13, 12]
+  },
+  {
+    name: 'Berlin',
+    country: 'DE',
+    lat: 52.52,
+    lng: 13.4,
+    tMax: [3, 5, 9, 15, 19, 22, 25, 24, 20, 14, 8, 4],
+    tMin: [-2, -1, 1, 5, 9, 12, 15, 14, 11, 6, 2, -1],
+    precipitation: [42, 33, 40, 32, 54, 60, 62, 58, 45, 38, 42, 50],
+    wetDays: [10, 8, 9, 7, 9, 9, 9, 8, 8, 8, 9, 10]
+  },
+  {
+    name: 'Prague',
+    country: 'CZ',
+    lat: 50.08,
+    lng: 14.44,
+    tMax: [1, 4, 8, 14, 19, 22, 24, 24, 19, 13, 7, 2],
+    tMin: [-4, -3, 0, 4, 8, 11, 13, 13, 9, 5, 1, -3],
+    precipitation: [24, 23, 29, 33, 63, 73, 72, 64, 40, 30, 30, 27],
+    wetDays: [8, 7, 8, 7, 9, 10, 10, 9, 7, 7, 8, 8]
+  },
+  {
+    name: 'Vienna',
+    country: 'AT',
+    lat: 48.21,
+    lng: 16.37,
+    tMax: [3, 5, 10, 16, 21, 24, 27, 26, 21, 15, 8, 4],
+    tMin: [-2, -1, 2, 6, 11, 14, 16, 16, 12, 7, 3, -1],
+    precipitation: [38, 39, 47, 46, 71, 70, 72, 68, 54, 40, 51, 45],
+    wetDays: [7, 7, 8, 7, 9, 9, 9, 8, 7, 6, 8, 8]
+  },
+  {
+    name: 'Rome',
+    country: 'IT',
+    lat: 41.9,
+    lng: 12.5,
+    tMax: [12, 14, 17, 20, 24, 29, 32, 32, 28, 23, 17, 13],
+    tMin: [3, 4, 6, 8, 12, 16, 18, 19, 16, 12, 7, 4],
+    precipitation: [67, 73, 58, 81, 53, 34, 19, 37, 73, 113, 115, 81],
+    wetDays: [7, 7, 7, 8, 5, 4, 2, 3, 5, 7, 9, 8]
+  },
+  {
+    name: 'Barcelona',
+    country: 'ES',
+    lat: 41.39,
+    lng: 2.17,
+    tMax: [14, 15, 17, 19, 22, 26, 28, 29, 26, 22, 17, 14],
+    tMin: [5, 6, 8, 10, 13, 17, 20, 20, 17, 14, 9, 6],
+    precipitation: [41, 29, 42, 49, 59, 42, 20, 61, 85, 91, 58, 40],
+    wetDays: [5, 4, 5, 6, 6, 4, 2, 4, 6, 6, 5, 5]
+  },
+  {
+    name: 'Madrid',
+    country: 'ES',
+    lat: 40.42,
+    lng: -3.7,
+    tMax: [10, 12, 16, 18, 22, 28, 32, 31, 26, 19, 13, 10],
+    tMin: [3, 3, 5, 8, 11, 16, 19, 19, 15, 11, 6, 3],
+    precipitation: [33, 35, 26, 47, 52, 21, 12, 10, 22, 60, 58, 48],
+    wetDays: [6, 5, 4, 7, 6, 3, 1, 1, 3, 6, 6, 6]
+  },
+  {
+    name: 'Lisbon',
+    country: 'PT',
+    lat: 38.72,
+    lng: -9.14,
+    tMax: [15, 16, 19, 20, 22, 26, 28, 29, 27, 23, 18, 15],
+    tMin: [8, 9, 11, 12, 14, 17, 18, 19, 18, 16, 12, 9],
+    precipitation: [100, 96, 58, 68, 57, 13, 4, 6, 33, 103, 128, 129],
+    wetDays: [10, 9, 8, 9, 6, 2, 1, 1, 4, 9, 10, 11]
+  },
+  {
+    name: 'Athens',
+    country: 'GR',
+    lat: 37.98,
+    lng: 23.73,
+    tMax: [13, 14, 17, 20, 25, 30, 33, 33, 29, 24, 19, 15],
+    tMin: [7, 7, 9, 12, 16, 21, 23, 23, 20, 16, 12, 9],
+    precipitation: [57, 47, 41, 29, 16, 6, 6, 5, 15, 47, 58, 71],
+    wetDays: [8, 7, 6, 5, 3, 1, 1, 1, 2, 5, 7, 9]
+  },
+  {
+    name: 'Istanbul',
+    country: 'TR',
+    lat: 41.01,
+    lng: 28.98,
+    tMax: [9, 9, 12, 16, 21, 26, 28, 29, 25, 20, 15, 11],
+    tMin: [3, 3, 5, 8, 13, 17, 20, 21, 17, 13, 8, 5],
+    precipitation: [105, 77, 70, 46, 36, 34, 33, 45, 59, 81, 103, 122],
+    wetDays: [12, 10, 9, 6, 5, 4, 2, 3, 5, 8, 10, 12]
+  },
+  {
+    name: 'Reykjavik',
+    country: 'IS',
+    lat: 64.15,
+    lng: -21.94,
+    tMax: [2, 3, 3, 6, 9, 12, 14, 13, 10, 7, 4, 3],
+    tMin: [-3, -3, -3, 0, 3, 7, 9, 8, 5, 2, -1, -2],
+    precipitation: [89, 83, 88, 59, 46, 50, 52, 64, 70, 88, 77, 87],
+    wetDays: [14, 13, 14, 12, 10, 10, 10, 11, 12, 14, 13, 14]
+  },
+  {
+    name: 'Marrakech',
+    country: 'MA',
+    lat: 31.63,
+    lng: -7.99,
+    tMax: [18, 20, 23, 25, 29, 33, 37, 37, 32, 28, 22, 19],
+    tMin: [6, 8, 10, 12, 15, 18, 21, 22, 19, 15, 10, 7],
+    precipitation: [32, 38, 38, 39, 24, 5, 2, 3, 6, 24, 41, 31],
+    wetDays: [4, 4, 5, 4, 3, 1, 0, 1, 2, 4, 5, 4]
+  },
+  {
+    name: 'Cairo',
+    country: 'EG',
+    lat: 30.04,
+    lng: 31.24,
+    tMax: [19, 21, 24, 28, 32, 34, 35, 35, 33, 30, 25, 21],
+    tMin: [9, 10, 12, 15, 18, 21, 22, 22, 21, 18, 14, 11],
+    precipitation: [5, 4, 3, 1, 0, 0, 0, 0, 0, 1, 3, 6],
+    wetDays: [1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 1, 1]
+  },
+  {
+    name: 'Nairobi',
+    country: 'KE',
+    lat: -1.29,
+    lng: 36.82,
+    tMax: [26, 27, 27, 25, 24, 23, 22, 23, 25, 26, 24, 25],
+    tMin: [12, 12, 14, 15, 14, 12, 11, 11, 11, 13, 14, 13],
+    precipitation: [55, 45, 80, 170, 140, 35, 15, 20, 25, 60, 150, 90],
+    wetDays: [5, 4, 8, 15, 12, 5, 3, 4, 4, 7, 14, 9]
+  },
+  {
+    name: 'Cape Town',
+    country: 'ZA',
+    lat: -33.92,
+    lng: 18.42,
+    tMax: [26, 27, 26, 23, 21, 19, 18, 18, 19, 21, 23, 25],
+    tMin: [16, 16, 14, 12, 10, 8, 7, 8, 9, 11, 13, 15],
+    precipitation: [15, 17, 20, 41, 69, 93, 82, 77, 40, 30, 14, 17],
+    wetDays: [3, 3, 4, 6, 9, 10, 10, 10, 7, 5, 3, 3]
+  },
+  {
+    name: 'Dubai',
+    country: 'AE',
+    lat: 25.2,
+    lng: 55.27,
+    tMax: [24, 26, 29, 34, 38, 40, 42, 42, 39, 35, 30, 26],
+    tMin: [14, 16, 18, 22, 25, 28, 30, 30, 27, 23, 19, 16],
+    precipitation: [19, 25, 22, 7, 1, 0, 1, 0, 0, 1, 3, 16],
+    wetDays: [2, 3, 3, 1, 0, 0, 0, 0, 0, 0, 1, 2]
+  },
+  {
+    name: 'Mumbai',
+    country: 'IN',
+    lat: 19.08,
+    lng: 72.88,
+    tMax: [31, 32, 33, 33, 34, 32, 30, 30, 31, 33, 34, 33],
+    tMin: [17, 18, 21, 24, 27, 26, 25, 25, 25, 24, 21, 19],
+    precipitation: [1, 0, 0, 1, 12, 520, 840, 580, 330, 90, 15, 4],
+    wetDays: [0, 0, 0, 0, 1, 14, 22, 20, 13, 3, 1, 0]
+  },
+  {
+    name: 'Delhi',
+    country: 'IN',
+    lat: 28.61,
+    lng: 77.21,
+    tMax: [20, 24, 30, 36, 40, 39, 35, 34, 34, 33, 28, 22],
+    tMin: [7, 10, 15, 21, 25, 28, 27, 27, 25, 19, 13, 8],
+    precipitation: [19, 20, 15, 10, 28, 74, 210, 230, 120, 15, 5, 8],
+    wetDays: [2, 2, 2, 1, 3, 5, 12, 13, 6, 1, 0, 1]
+  },
+  {
+    name: 'Bangkok',
+    country: 'TH',
+    lat: 13.76,
+    lng: 100.5,
+    tMax: [32, 33, 34, 35, 34, 33, 33, 32, 32, 32, 32, 31],
+    tMin: [22, 24, 26, 27, 26, 26, 25, 25, 25, 25, 24, 22],
+    precipitation: [13, 20, 42, 91, 248, 190, 206, 221, 334, 292, 56, 10],
+    wetDays: [1, 2, 3, 6, 16, 16, 17, 19, 21, 17, 5, 1]
+  },
+  {
+    name: 'Hanoi',
+    country: 'VN',
+    lat: 21.03,
+    lng: 105.85,
+    tMax: [20, 21, 23, 28, 32, 33, 33, 32, 31, 29, 26, 22],
+    tMin: [14, 16, 18, 22, 25, 27, 27, 27, 26, 23, 20, 16],
+    precipitation: [19, 26, 44, 90, 188, 240, 288, 318, 265, 130, 43, 23],
+    wetDays: [6, 9, 11, 11, 13, 14, 15, 16, 13, 9, 6, 5]
+  },
+  {
+    name: 'Singapore',
+    country: 'SG',
+    lat: 1.35,
+    lng: 103.82,
+    tMax: [30, 31, 32, 32, 32, 31, 31, 31, 31, 31, 31, 30],
+    tMin: [23, 24, 24, 25, 25, 25, 25, 25, 25, 25, 24, 24],
+    precipitation: [222, 105, 154, 166, 172, 131, 158, 176, 169, 195, 256, 288],
+    wetDays: [12, 8, 11, 14, 14, 13, 14, 14, 13, 15, 19, 18]
+  },
+  {
+    name: 'Denpasar',
+    country: 'ID',
+    lat: -8.65,
+    lng: 115.22,
+    tMax: [30, 30, 31, 31, 31, 30, 29, 30, 30, 31, 31, 31],
+    tMin: [24, 24, 24, 24, 24, 23, 23, 23, 23, 24, 24, 24],
+    precipitation: [345, 275, 235, 90, 90, 50, 55, 30, 45, 110, 175, 290],
+    wetDays: [17, 16, 13, 7, 6, 5, 5, 3, 4, 7, 10, 15]
+  },
+  {
+    name: 'Hong Kong',
+    country: 'HK',
+    lat: 22.32,
+    lng: 114.17,
+    tMax: [19, 19, 22, 26, 29, 31, 32, 32, 31, 28, 24, 20],
+    tMin: [15, 15, 17, 21, 24, 26, 27, 27, 26, 24, 20, 16],
+    precipitation: [33, 43, 70, 145, 304, 456, 376, 432, 327, 100, 38, 27],
+    wetDays: [5, 8, 10, 11, 15, 18, 17, 16, 13, 6, 4, 3]
+  },
+  {
+    name: 'Beijing',
+    country: 'CN',
+    lat: 39.9,
+    lng: 116.41,
+    tMax: [2, 6, 13, 21, 27, 31, 31, 30, 26, 19, 10, 3],
+    tMin: [-8, -5, 1, 8, 14, 19, 22, 21, 15, 8, 0, -6],
+    precipitation: [3, 6, 9, 24, 38, 77, 185, 160, 49, 21, 10, 3],
+    wetDays: [1, 2, 3, 4, 6, 9, 13, 11, 6, 4, 2, 1]
+  },
+  {
+    name: 'Seoul',
+    country: 'KR',
+    lat: 37.57,
+    lng: 126.98,
+    tMax: [2, 5, 11, 18, 23, 27, 29, 30, 26, 20, 12, 4],
+    tMin: [-6, -4, 2, 8, 13, 18, 22, 22, 17, 10, 3, -3],
+    precipitation: [16, 28, 37, 72, 103, 130, 415, 348, 141, 52, 50, 22],
+    wetDays: [4, 4, 6, 7, 8, 10, 16, 14, 8, 5, 7, 5]
+  },
+  {
+    name: 'Tokyo',
+    country: 'JP',
+    lat: 35.68,
+    lng: 139.69,
+    tMax: [10, 11, 14, 19, 24, 26, 30, 31, 27, 22, 17, 12],
+    tMin: [1, 2, 5, 10, 15, 19, 23, 24, 21, 15, 9, 4],
+    precipitation: [60, 56, 117, 125, 138, 168, 154, 168, 210, 198, 93, 51],
+    wetDays: [5, 6, 10, 10, 10, 12, 11, 8, 11, 10, 7, 5]
+  },
+  {
+    name: 'Kyoto',
+    country: 'JP',
+    lat: 35.01,
+    lng: 135.77,
+    tMax: [9, 10, 14, 20, 25, 28, 32, 34, 29, 23, 17, 12],
+    tMin: [1, 1, 4, 9, 14, 19, 23, 24, 20, 13, 7, 3],
+    precipitation: [53, 65, 106, 117, 151, 214, 220, 133, 199, 143, 74, 58],
+    wetDays: [7, 8, 10, 10, 10, 12, 11, 8, 10, 8, 7, 7]
+  },
+  {
+    name: 'Sydney',
+    country: 'AU',
+    lat: -33.87,
+    lng: 151.21,
+    tMax: [27, 27, 25, 23, 20, 18, 17, 19, 21, 23, 24, 26],
+    tMin: [19, 19, 18, 15, 12, 9, 8, 9, 11, 14, 16, 18],
+    precipitation: [92, 131, 117, 115, 98, 132, 80, 80, 68, 77, 84, 77],
+    wetDays: [8, 9, 10, 9, 8, 9, 7, 6, 6, 7, 8, 8]
+  },
+  {
+    name: 'Melbourne',
+    country: 'AU',
+    lat: -37.81,
+    lng: 144.96,
+    tMax: [27, 27, 24, 20, 17, 14, 14, 15, 17, 20, 22, 25],
+    tMin: [15, 16, 14, 11, 9, 7, 6, 7, 8, 10, 12, 14],
+    precipitation: [45, 45, 39, 55, 52, 49, 47, 50, 57, 64, 60, 59],
+    wetDays: [6, 5, 6, 8, 9, 9, 10, 11, 10, 9, 8, 7]
+  },
+  {
+    name: 'Auckland',
+    country: 'NZ',
+    lat: -36.85,
+    lng: 174.76,
+    tMax: [24, 25, 23, 21, 18, 16, 15, 15, 17, 18, 20, 22],
+    tMin: [16, 16, 15, 13, 11, 9, 8, 8, 9, 11, 12, 14],
+    precipitation: [73, 66, 87, 99, 113, 126, 145, 118, 105, 100, 86, 93],
+    wetDays: [8, 7, 8, 10, 12, 14, 15, 14, 12, 11, 10, 9]
+  },
+  {
+    name: 'Honolulu',
+    country: 'US',
+    lat: 21.31,
+    lng: -157.86,
+    tMax: [27, 27, 28, 28, 29, 30, 31, 31, 31, 30, 29, 27],
+    tMin: [19, 19, 20, 21, 22, 23, 24, 24, 24, 23, 22, 20],
+    precipitation: [58, 51, 50, 19, 17, 6, 13, 12, 18, 40, 59, 71],
+    wetDays: [8, 7, 8, 6, 5, 4, 5, 4, 5, 6, 8, 9]
+  },
+  {
+    name: 'Vancouver',
+    country: 'CA',
+    lat: 49.28,
+    lng: -123.12,
+    tMax: [7, 8, 10, 13, 17, 19, 22, 22, 19, 14, 9, 6],
+    tMin: [1, 1, 3, 5, 8, 11, 13, 13, 10, 7, 3, 1],
+    precipitation: [168, 105, 113, 88, 65, 53, 36, 37, 50, 120, 189, 160],
+    wetDays: [18, 15, 16, 13, 11, 10, 5, 5, 8, 15, 19, 18]
+  },
+  {
+    name: 'San Francisco',
+    country: 'US',
+    lat: 37.77,
+    lng: -122.42,
+    tMax: [14, 16, 17, 18, 19, 21, 21, 22, 23, 21, 18, 14],
+    tMin: [8, 9, 9, 10, 11, 12, 13, 14, 14, 13, 10, 8],
+    precipitation: [114, 112, 79, 37, 18, 4, 0, 1, 3, 27, 80, 111],
+    wetDays: [10, 10, 9, 5, 3, 1, 0, 0, 1, 3, 7, 10]
+  },
+  {
+    name: 'Los Angeles',
+    country: 'US',
+    lat: 34.05,
+    lng: -118.24,
+    tMax: [20, 20, 21, 23, 24, 26, 29, 30, 29, 26, 23, 20],
+    tMin: [9, 10, 11, 12, 14, 16, 18, 18, 18, 15, 11, 9],
+    precipitation: [79, 97, 54, 20, 8, 2, 0, 1, 5, 16, 24, 59],
+    wetDays: [5, 6, 5, 2, 1, 0, 0, 0, 0, 2, 3, 5]
+  },
+  {
+    name: 'Chicago',
+    country: 'US',
+    lat: 41.88,
+    lng: -87.63,
+    tMax: [0, 2, 8, 15, 21, 27, 29, 28, 24, 17, 9, 2],
+    tMin: [-8, -6, -1, 4, 10, 16, 19, 18, 14, 7, 1, -5],
+    precipitation: [50, 49, 63, 93, 105, 103, 94, 105, 85, 85, 74, 54],
+    wetDays: [10, 8, 10, 11, 11, 10, 9, 9, 8, 10, 10, 10]
+  },
+  {
+    name: 'Toronto',
+    country: 'CA',
+    lat: 43.65,
+    lng: -79.38,
+    tMax: [-1, 0, 5, 12, 19, 24, 27, 26, 22, 14, 7, 2],
+    tMin: [-7, -6, -2, 4, 9, 14, 18, 17, 13, 7, 1, -3],
+    precipitation: [62, 56, 53, 69, 80, 71, 67, 71, 79, 68, 74, 62],
+    wetDays: [10, 8, 9, 10, 10, 9, 8, 8, 8, 9, 10, 10]
+  },
+  {
+    name: 'New York',
+    country: 'US',
+    lat: 40.71,
+    lng: -74.01,
+    tMax: [4, 6, 10, 17, 22, 27, 30, 29, 25, 18, 12, 6],
+    tMin: [-3, -2, 2, 7, 13, 18, 21, 21, 17, 10, 5, 0],
+    precipitation: [92, 80, 109, 104, 102, 114, 117, 115, 105, 112, 91, 102],
+    wetDays: [8, 7, 8, 8, 8, 8, 7, 7, 7, 7, 7, 8]
+  },
+  {
+    name: 'Miami',
+    country: 'US',
+    lat: 25.76,
+    lng: -80.19,
+    tMax: [24, 25, 26, 28, 30, 31, 32, 32, 31, 29, 27, 25],
+    tMin: [16, 17, 18, 21, 23, 25, 26, 26, 25, 23, 20, 17],
+    precipitation: [47, 55, 68, 76, 150, 249, 171, 218, 236, 185, 84, 63],
+    wetDays: [6, 5, 6, 5, 9, 15, 15, 17, 16, 11, 7, 6]
+  },
+  {
+    name: 'Mexico City',
+    country: 'MX',
+    lat: 19.43,
+    lng: -99.13,
+    tMax: [22, 24, 26, 27, 27, 25, 24, 24, 23, 23, 23, 22],
+    tMin: [6, 7, 9, 11, 12, 13, 12, 12, 12, 10, 8, 7],
+    precipitation: [8, 5, 10, 25, 55, 130, 165, 160, 130, 60, 10, 5],
+    wetDays: [2, 2, 3, 6, 11, 17, 22, 21, 17, 9, 3, 2]
+  },
+  {
+    name: 'Cancun',
+    country: 'MX',
+    lat: 21.16,
+    lng: -86.85,
+    tMax: [28, 28, 29, 31, 32, 32, 33, 33, 32, 31, 29, 28],
+    tMin: [19, 19, 20, 22, 24, 24, 24, 24, 24, 23, 21, 20],
+    precipitation: [90, 50, 40, 40, 100, 150, 100, 120, 200, 260, 110, 90],
+    wetDays: [7, 5, 4, 3, 6, 11, 9, 10, 13, 13, 9, 8]
+  },
+  {
+    name: 'Lima',
+    country: 'PE',
+    lat: -12.05,
+    lng: -77.04,
+    tMax: [26, 27, 26, 25, 22, 20, 19, 19, 20, 21, 23, 25],
+    tMin: [20, 21, 20, 18, 17, 16, 15, 15, 15, 16, 17, 18],
+    precipitation: [1, 1, 1, 0, 1, 1, 1, 1, 1, 0, 0, 0],
+    wetDays: [0, 0, 0, 0, 0, 1, 1, 1, 0, 0, 0, 0]
+  },
+  {
+    name: 'Rio de Janeiro',
+    country: 'BR',
+    lat: -22.91,
+    lng: -43.17,
+    tMax: [30, 31, 30, 28, 27, 26, 25, 26, 26, 27, 28, 29],
+    tMin: [23, 23, 23, 22, 20, 19, 18, 19, 19, 20, 21, 22],
+    precipitation: [137, 130, 136, 94, 69, 42, 42, 44, 53, 86, 98, 134],
+    wetDays: [11, 8, 9, 8, 6, 5, 5, 4, 6, 8, 9, 10]
+  },
+  {
+    name: 'Buenos Aires',
+    country: 'AR',
+    lat: -34.6,
+    lng: -58.38,
+    tMax: [30, 29, 27, 23, 19, 16, 15, 17, 19, 22, 25, 28],
+    tMin: [20, 20, 18, 14, 11, 8, 7, 9, 10, 13, 16, 18],
+    precipitation: [138, 127, 140, 119, 92, 58, 66, 70, 73, 125, 114, 119],
+    wetDays: [9, 8, 9, 9, 7, 7, 7, 6, 7, 10, 9, 9]
+  }
+]
+
+/**
+ * Zonal means for places far from every station, by latitude in the northern
+ * hemisphere. The southern hemisphere uses the same bands six months apart.
+ */
+export const ZONAL_NORMALS: Omit<ClimateNormals, 'name' | 'country' | 'lng'>[] = [
+  { lat: 0, tMax: [30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30], tMin: [22, 22, 22, 22, 22, 22, 22, 22, 22, 22, 22, 22], precipitation: [180, 180, 180, 180, 180, 180, 180, 180, 180, 180, 180, 180], wetDays: [15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15] },
+  { lat: 15, tMax: [29, 30, 32, 34, 34, 32, 31, 30, 31, 31, 30, 29], tMin: [19, 20, 22, 24, 25, 25, 24, 24, 24, 23, 21, 19], precipitation: [10, 10, 15, 30, 90, 150, 180, 200, 170, 90, 30, 10], wetDays: [1, 1, 2, 3, 8, 13, 16, 17, 14, 8, 3, 1] },
+  { lat: 30, tMax: [17, 19, 22, 26, 30, 33, 34, 34, 31, 27, 22, 18], tMin: [6, 7, 10, 14, 18, 22, 24, 24, 21, 16, 11, 7], precipitation: [40, 40, 40, 30, 30, 40, 60, 60, 50, 40, 40, 40], wetDays: [5, 5, 5, 4, 4, 5, 7, 7, 6, 4, 4, 5] },
+  { lat: 45, tMax: [4, 6, 11, 16, 21, 25, 28, 27, 23, 17, 10, 5], tMin: [-4, -3, 1, 5, 10, 14, 16, 16, 12, 7, 2, -2], precipitation: [60, 55, 60, 65, 75, 75, 70, 70, 65, 70, 70, 65], wetDays: [10, 9, 10, 10, 11, 10, 9, 9, 8, 9, 10, 10] },
+  { lat: 60, tMax: [-5, -4, 1, 8, 15, 19, 22, 20, 14, 7, 1, -3], tMin: [-12, -12, -8, -2, 4, 9, 12, 11, 6, 1, -4, -9], precipitation: [45, 35, 35, 35, 45, 60, 75, 80, 65, 60, 55, 50], wetDays: [11, 9, 9, 8, 8, 10, 11, 12, 12, 12, 12, 12] },
+  { lat: 75, tMax: [-24, -25, -23, -15, -4, 3, 7, 5, -1, -10, -18, -22], tMin: [-32, -33, -31, -24, -10, -1, 2, 1, -5, -17, -26, -30], precipitation: [15, 15, 15, 12, 12, 15, 25, 30, 25, 20, 15, 15], wetDays: [6, 6, 6, 5, 5, 6, 8, 9, 9, 8, 7, 6] }
+]
@@ -0,0 +1,181 @@
+import { ProcessedWeather, getWeatherSeverity } from './weather-types'
+import { CLIMATE_STATIONS, ZONAL_NORMALS } from './climate-normals-data'
+
+export interface ClimateNormals {
+  name: string
+  country: string
+  lat: number
+  lng: number
+  // Twelve values each, January first
+  tMax: number[]
+  tMin: number[]
+  precipitation: number[]
+  wetDays: number[]
+}
+
+export interface ClimateBasis {
+  // A nearby station, or latitude-band averages when no station is close
+  basis: 'station' | 'zonal'
+  station?: string
+  distanceKm?: number
+}
+
+// Beyond this a station says little about the destination's climate
+export const MAX_STATION_DISTANCE_KM = 300
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`)
+}
+
+/**
+ * A monthly normal for one day, interpolated linearly between the middles
+ * of the surrounding months so values don't jump on the 1st
+ */
+export function interpolateMonthly(values: number[], date: string): number {
+  const day = parseDate(date)
+  const year = day.getUTCFullYear()
+  const month = day.getUTCMonth()
+  const length = daysInMonth(year, month)
+  const position = (day.getUTCDate() - 0.5) / length
+
+  const [from, to, weight] = position < 0.5
+    ? [(month + 11) % 12, month, position + 0.5]
+    : [month, (month + 1) % 12, position - 0.5]
+  return values[from] + (values[to] - values[from]) * weight
+}
+
+/**
+ * The normals that describe a place: the nearest station within
+ * MAX_STATION_DISTANCE_KM, otherwise latitude-band averages
+ */
+export function normalsFor(lat: number, lng: number): { normals: Omit<ClimateNormals, 'name' | 'country' | 'lng'>; basis: ClimateBasis } {
+  let nearest: { station: ClimateNormals; distance: number } | null = null
+  for (const station of CLIMATE_STATIONS) {
+    const distance = distanceKm(lat, lng, station.lat, station.lng)
+    if (!nearest || distance < nearest.distance) nearest = { station, distance }
+  }
+
+  if (nearest && nearest.distance <= MAX_STATION_DISTANCE_KM) {
+    return {
+      normals: nearest.station,
+      basis: { basis: 'station', station: nearest.station.name, distanceKm: Math.round(nearest.distance) }
+    }
+  }
+
+  return { normals: zonalNormals(lat), basis: { basis: 'zonal' } }
+}
+
+function zonalNormals(lat: number): Omit<ClimateNormals, 'name' | 'country' | 'lng'> {
+  const absLat = Math.min(Math.abs(lat), ZONAL_NORMALS[ZONAL_NORMALS.length - 1].lat)
+  const upper = ZONAL_NORMALS.findIndex(band => band.lat >= absLat)
+  const high = ZONAL_NORMALS[upper]
+  const low = ZONAL_NORMALS[Math.max(upper - 1, 0)]
+  const weight = high.lat === low.lat ? 0 : (absLat - low.lat) / (high.lat - low.lat)
+  // Southern seasons run six months apart
+  const shift = lat < 0 ? 6 : 0
+
+  const blend = (key: 'tMax' | 'tMin' | 'precipitation' | 'wetDays') =>
+    Array.from({ length: 12 }, (_, month) => {
+      const source = (month + shift) % 12
+      return low[key][source] + (high[key][source] - low[key][source]) * weight
+    })
+
+  return { lat, tMax: blend('tMax'), tMin: blend('tMin'), precipitation: blend('precipitation'), wetDays: blend('wetDays') }
+}
+
+/**
+ * Hours of daylight and sunrise and sunset in local solar time, which can be
+ * an hour or so off the clock where daylight saving or wide time zones apply
+ */
+export function daylight(lat: number, date: string): { hours: number; sunrise: string; sunset: string } {
+  const day = parseDate(date)
+  const dayOfYear = Math.floor((day.getTime() - Date.UTC(day.getUTCFullYear(), 0, 1)) / DAY_MS) + 1
+  const declination = -23.44 * Math.cos((2 * Math.PI * (dayOfYear + 10)) / 365)
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+
+  // -0.833° allows for refraction and the sun's radius
+  const cosHourAngle = (Math.sin(toRad(-0.833)) - Math.sin(toRad(lat)) * Math.sin(toRad(declination)))
+    / (Math.cos(toRad(lat)) * Math.cos(toRad(declination)))
+  const hours = cosHourAngle >= 1 ? 0 : cosHourAngle <= -1 ? 24 : (2 * Math.acos(cosHourAngle) * 180) / Math.PI / 15
+
+  const clock = (decimal: number) => {
+    const minutes = Math.min(Math.round(Math.max(decimal, 0) * 60), 24 * 60 - 1)
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+  }
+
+  return {
+    hours: Math.round(hours * 10) / 10,
+    sunrise: clock(12 - hours / 2),
+    sunset: clock(12 + hours / 2)
+  }
+}
+
+/**
+ * What the weather is usually like on a date. Normals carry no wind or
+ * humidity, so wind reads calm and humidity is estimated from how often it rains.
+ */
+export function climatologyForDate(lat: number, lng: number, date: string): ProcessedWeather {
+  const { normals } = normalsFor(lat, lng)
+  const day = parseDate(date)
+  const length = daysInMonth(day.getUTCFullYear(), day.getUTCMonth())
+
+  const max = Math.round(interpolateMonthly(normals.tMax, date))
+  const min = Math.round(interpolateMonthly(normals.tMin, date))
+  const mean = Math.round((max + min) / 2)
+  const rainChance = Math.round(Math.min(interpolateMonthly(normals.wetDays, date) / length, 1) * 100)
+  const amount = Math.round((interpolateMonthly(normals.precipitation, date) / length) * 10) / 10
+  const snowy = max <= 2
+
+  const [main, description, icon] = rainChance >= 50
+    ? [snowy ? 'Snow' : 'Rain', `${snowy ? 'snow' : 'rain'} on most days`, snowy ? '13d' : '10d']
+    : rainChance >= 25
+      ? ['Clouds', `${snowy ? 'snow' : 'showers'} on some days`, '03d']
+      : ['Clear', 'mostly dry', '01d']
+  const severity = getWeatherSeverity(description, mean, 0, amount)
+  const sun = daylight(lat, date)
+
+  return {
+    date,
+    temperature: { current: mean, min, max, feelsLike: mean },
+    condition: { main, description, icon, severity },
+    precipitation: {
+      probability: rainChance,
+      amount,
+      type: rainChance === 0 ? 'none' : snowy ? 'snow' : 'rain'
+    },
+    wind: { speed: 0, direction: '-' },
+    humidity: Math.min(50 + Math.round(rainChance / 2), 90),
+    visibility: 10,
+    sunrise: sun.sunrise,
+    sunset: sun.sunset,
+    daylightHours: sun.hours,
+    isExtreme: severity === 'severe',
+    source: 'climatology'
+  }
+}
+
+/**
+ * Expected weather for each day from start to end inclusive (YYYY-MM-DD)
+ */
+export function climatologyForRange(lat: number, lng: number, startDate: string, endDate: string): ProcessedWeather[] {
+  const days: ProcessedWeather[] = []
+  const end = parseDate(endDate).getTime()
+  for (let time = parseDate(startDate).getTime(); time <= end; time += DAY_MS) {
+    days.push(climatologyForDate(lat, lng, new Date(time).toISOString().slice(0, 10)))
+  }
+  return days
+}
@@ -0,0 +1,520 @@
+import { randomBytes } from 'crypto'
+import { CollaborationRole, InvitationStatus, Trip } from '@prisma/client'
+import { db } from './db'
+import { emailService } from './email-service'
+import { TripPermissions, getTripPermissions } from './trip-permissions'
+import { NotificationService } from './notification-service'
+import { ServiceError, ServiceErrorClass } from './service-error'
+
+// How long an invitation link stays valid
+const INVITATION_EXPIRY_DAYS = 7
+
+export class CollaborationError extends ServiceError {
+  name = 'CollaborationError'
+}
+
+export interface TripMember {
+  userId: string
+  name: string | null
+  email: string
+  image: string | null
+  role: CollaborationRole
+  joinedAt: Date
+}
+
+export interface TripAccess<Role = CollaborationRole> {
+  trip: Trip
+  role: Role
+  permissions: TripPermissions
+}
+
+export interface PendingInvitation {
+  id: string
+  email: string
+  role: CollaborationRole
+  expiresAt: Date
+  invitedBy: string | null
+  createdAt: Date
+}
+
+export interface InvitationDetails {
+  email: string
+  role: CollaborationRole
+  status: InvitationStatus
+  message: string | null
+  expiresAt: Date
+  trip: {
+    id: string
+    title: string
+    destination: string
+    startDate: Date
+    endDate: Date
+  }
+  invitedBy: {
+    name: string | null
+    email: string
+  }
+}
+
+export interface InviteMemberInput {
+  email: string
+  role: Exclude<CollaborationRole, 'OWNER'>
+  message?: string
+}
+
+/**
+ * Trip membership: invitations, accepted collaborators and their roles.
+ * The trip owner is always a member with the OWNER role and is not stored
+ * as a Collaboration row.
+ */
+export class CollaborationService {
+  /**
+   * Get a user's role on a trip, or null if they are not a member
+   */
+  static async getMemberRole(tripId: string, userId: string): Promise<CollaborationRole | null> {
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        userId: true,
+        collaborations: {
+          where: { userId, acceptedAt: { not: null } },
+          select: { role: true }
+        }
+      }
+    })
+
+    if (!trip) return null
+    if (trip.userId === userId) return 'OWNER'
+    return trip.collaborations[0]?.role ?? null
+  }
+
+  /**
+   * A trip with the user's role and permissions on it, for services that
+   * guard their own features. Non-members get the same 404 as for a missing
+   * trip, unless the trip is public and `allowPublic` is set: then they come
+   * back without a role and with an outsider's permissions. Errors use the
+   * caller's class so its routes keep answering in their own terms.
+   */
+  static async getTripAccess(tripId: string, userId: string, ErrorClass: ServiceErrorClass): Promise<TripAccess>
+  static async getTripAccess(
+    tripId: string,
+    userId: string,
+    ErrorClass: ServiceErrorClass,
+    options: { allowPublic: boolean }
+  ): Promise<TripAccess<CollaborationRole | null>>
+  static async getTripAccess(
+    tripId: string,
+    userId: string,
+    ErrorClass: ServiceErrorClass,
+    { allowPublic = false } = {}
+  ): Promise<TripAccess<CollaborationRole | null>> {
+    const trip = await db.trip.findUnique({ where: { id: tripId } })
+    if (!trip) {
+      throw new ErrorClass('Trip not found', 404)
+    }
+
+    const role = await this.getMemberRole(tripId, userId)
+    if (!role && !(allowPublic && trip.isPublic)) {
+      throw new ErrorClass('Trip not found', 404)
+    }
+
+    return { trip, role, permissions: getTripPermissions(trip, userId, role ?? undefined) }
+  }
+
+  /**
+   * Everyone travelling, owner first: the owner and accepted collaborators.
+   * Unlike getMembers this does no access check.
+   */
+  static async getTravellers(tripId: string): Promise<Array<{ id: string; name: string | null; email: string }>> {
+    const trip = await db.trip.findUniqueOrThrow({
+      where: { id: tripId },
+      select: {
+        user: { select: { id: true, name: true, email: true } },
+        collaborations: {
+          where: { acceptedAt: { not: null } },
+          orderBy: { acceptedAt: 'asc' },
+          select: { user: { select: { id: true, name: true, email: true } } }
+        }
+      }
+    })
+    return [trip.user, ...trip.collaborations.map(collaboration => collaboration.user)]
+  }
+
+  /**
+   * List the owner, accepted collaborators and, for members who can manage
+   * the trip, pending invitations
+   */
+  static async getMembers(tripId: string, userId: string): Promise<{
+    members: TripMember[]
+    invitations: PendingInvitation[]
+    role: CollaborationRole
+    canManageMembers: boolean
+  }> {
+    const { trip, role, canManageMembers } = await this.authorize(tripId, userId)
+
+    const [owner, collaborations, invitations] = await Promise.all([
+      db.user.findUniqueOrThrow({
+        where: { id: trip.userId },
+        select: { id: true, name: true, email: true, image: true }
+      }),
+      db.collaboration.findMany({
+        where: { tripId, acceptedAt: { not: null } },
+        include: { user: { select: { id: true, name: true, email: true, image: true } } },
+        orderBy: { acceptedAt: 'asc' }
+      }),
+      canManageMembers
+        ? db.invitation.findMany({
+            where: { tripId, status: 'PENDING', expiresAt: { gt: new Date() } },
+            include: { invitedBy: { select: { name: true, email: true } } },
+            orderBy: { createdAt: 'desc' }
+          })
+        : Promise.resolve([])
+    ])
+
+    const members: TripMember[] = [
+      {
+        userId: owner.id,
+        name: owner.name,
+        email: owner.email,
+        image: owner.image,
+        role: 'OWNER',
+        joinedAt: trip.createdAt
+      },
+      ...collaborations.map(collaboration => ({
+        userId: collaboration.user.id,
+        name: collaboration.user.name,
+        email: collaboration.user.email,
+        image: collaboration.user.image,
+        role: collaboration.role,
+        joinedAt: collaboration.acceptedAt!
+      }))
+    ]
+
+    return {
+      members,
+      invitations: invitations.map(invitation => ({
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        invitedBy: invitation.invitedBy.name || invitation.invitedBy.email,
+        createdAt: invitation.createdAt
+      })),
+      role,
+      canManageMembers
+    }
+  }
+
+  /**
+   * Invite someone by email. Re-inviting the same address refreshes the
+   * existing invitation with a new link and expiry.
+   */
+  static async inviteMember(
+    tripId: string,
+    inviterId: string,
+    input: InviteMemberInput
+  ): Promise<{ invitation: PendingInvitation; inviteUrl: string; emailSent: boolean }> {
+    const { trip, role } = await this.authorize(tripId, inviterId, true)
+    this.assertCanAssign(role, input.role)
+
+    const email = input.email.trim().toLowerCase()
+    const [inviter, existingUser] = await Promise.all([
+      db.user.findUniqueOrThrow({ where: { id: inviterId }, select: { name: true, email: true } }),
+      db.user.findUnique({ where: { email }, select: { id: true } })
+    ])
+
+    if (existingUser) {
+      const existingRole = await this.getMemberRole(tripId, existingUser.id)
+      if (existingRole) {
+        throw new CollaborationError('This person is already a member of the trip', 409)
+      }
+    }
+
+    const token = randomBytes(24).toString('base64url')
+    const expiresAt = new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+
+    const invitation = await db.invitation.upsert({
+      where: { tripId_email: { tripId, email } },
+      update: {
+        token,
+        role: input.role,
+        message: input.message ?? null,
+        status: 'PENDING',
+        invitedById: inviterId,
+        userId: existingUser?.id ?? null,
+        expiresAt,
+        acceptedAt: null,
+        declinedAt: null
+      },
+      create: {
+        tripId,
+        email,
+        token,
+        role: input.role,
+        message: input.message ?? null,
+        invitedById: inviterId,
+        userId: existingUser?.id ?? null,
+        expiresAt
+      }
+    })
+
+    const inviteUrl = this.buildInviteUrl(token)
+    const inviterName = inviter.name || inviter.email
+
+    // Email delivery is best effort; the link is also returned to the inviter
+    let emailSent = false
+    try {
+      emailSent = await emailService.send('invitation', {
+        inviterName,
+        tripTitle: trip.title,
+        destination: trip.destination,
+        role: input.role,
+        message: input.message,
+        inviteUrl,
+        expiresInDays: INVITATION_EXPIRY_DAYS
+      }, { category: 'transactional', to: email, userId: existingUser?.id })
+    } catch (error) {
+      console.error('Failed to send invitation email:', error)
+    }
+
+    if (existingUser) {
+      await NotificationService.notifyUsers([existingUser.id], {
+        type: 'TRIP_INVITATION',
+        tripId,
+        title: 'Trip invitation',
+        message: `${inviterName} invited you to join "${trip.title}"`,
+        data: { url: `/invite/${token}`, role: input.role }
+      }, inviterId)
+    }
+
+    return {
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        invitedBy: inviterName,
+        createdAt: invitation.createdAt
+      },
+      inviteUrl,
+      emailSent
+    }
+  }
+
+  /**
+   * Look up an invitation by its token for the invitation page.
+   * Pending invitations past their expiry are reported as EXPIRED.
+   */
+  static async getInvitation(token: string): Promise<InvitationDetails | null> {
+    const invitation = await db.invitation.findUnique({
+      where: { token },
+      include: {
+        trip: { select: { id: true, title: true, destination: true, startDate: true, endDate: true } },
+        invitedBy: { select: { name: true, email: true } }
+      }
+    })
+
+    if (!invitation) return null
+
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      status: this.effectiveStatus(invitation),
+      message: invitation.message,
+      expiresAt: invitation.expiresAt,
+      trip: invitation.trip,
+      invitedBy: invitation.invitedBy
+    }
+  }
+
+  /**
+   * Accept an invitation as the signed-in user, whose email must match
+   */
+  static async acceptInvitation(token: string, userId: string, userEmail: string) {
+    const invitation = await this.findRespondableInvitation(token, userEmail)
+
+    if (await this.getMemberRole(invitation.tripId, userId)) {
+      throw new CollaborationError('You are already a member of this trip', 409)
+    }
+
+    const now = new Date()
+    const [collaboration] = await db.$transaction([
+      db.collaboration.upsert({
+        where: { tripId_userId: { tripId: invitation.tripId, userId } },
+        update: { role: invitation.role, invitedBy: invitation.invitedById, acceptedAt: now },
+        create: {
+          tripId: invitation.tripId,
+          userId,
+          role: invitation.role,
+          invitedBy: invitation.invitedById,
+          invitedAt: invitation.createdAt,
+          acceptedAt: now
+        }
+      }),
+      db.invitation.update({
+        where: { id: invitation.id },
+        data: { status: 'ACCEPTED', acceptedAt: now, userId }
+      })
+    ])
+
+    const [memberName, trip] = await Promise.all([
+      NotificationService.displayName(userId),
+      db.trip.findUnique({ where: { id: invitation.tripId }, select: { title: true } })
+    ])
+    await NotificationService.notifyTripMembers(invitation.tripId, userId, {
+      type: 'MEMBER_JOINED',
+      title: 'New trip member',
+      message: `${memberName} joined "${trip?.title ?? 'your trip'}"`,
+      data: { url: NotificationService.tripUrl(invitation.tripId), memberId: userId }
+    })
+
+    return { tripId: invitation.tripId, role: collaboration.role }
+  }
+
+  static async declineInvitation(token: string, userId: string, userEmail: string) {
+    const invitation = await this.findRespondableInvitation(token, userEmail)
+
+    await db.invitation.update({
+      where: { id: invitation.id },
+      data: { status: 'DECLINED', declinedAt: new Date(), userId }
+    })
+  }
+
+  static async revokeInvitation(tripId: string, actorId: string, invitationId: string) {
+    await this.authorize(tripId, actorId, true)
+
+    const result = await db.invitation.deleteMany({
+      where: { id: invitationId, tripId, status: 'PENDING' }
+    })
+
+    if (result.count === 0) {
+      throw new CollaborationError('Invitation not found', 404)
+    }
+  }
+
+  static async updateMemberRole(
+    tripId: string,
+    actorId: string,
+    memberId: string,
+    newRole: Exclude<CollaborationRole, 'OWNER'>
+  ) {
+    const { role } = await this.authorize(tripId, actorId, true)
+    const memberRole = await this.getMemberRole(tripId, memberId)
+
+    if (!memberRole) {
+      throw new CollaborationError('Member not found', 404)
+    }
+    if (memberRole === 'OWNER') {
+      throw new CollaborationError("The trip owner's role cannot be changed", 400)
+    }
+    if (memberId === actorId) {
+      throw new CollaborationError('You cannot change your own role', 400)
+    }
+    this.assertCanAssign(role, memberRole)
+    this.assertCanAssign(role, newRole)
+
+    return db.collaboration.update({
+      where: { tripId_userId: { tripId, userId: memberId } },
+      data: { role: newRole }
+    })
+  }
+
+  /**
+   * Remove a collaborator. Members can always remove themselves (leave the trip).
+   */
+  static async removeMember(tripId: string, actorId: string, memberId: string) {
+    const memberRole = await this.getMemberRole(tripId, memberId)
+
+    if (!memberRole) {
+      throw new CollaborationError('Member not found', 404)
+    }
+    if (memberRole === 'OWNER') {
+      throw new CollaborationError('The trip owner cannot be removed', 400)
+    }
+
+    if (memberId !== actorId) {
+      const { role } = await this.authorize(tripId, actorId, true)
+      this.assertCanAssign(role, memberRole)
+    }
+
+    await db.collaboration.delete({
+      where: { tripId_userId: { tripId, userId: memberId } }
+    })
+
+    const [memberName, trip] = await Promise.all([
+      NotificationService.displayName(memberId),
+      db.trip.findUnique({ where: { id: tripId }, select: { title: true } })
+    ])
+    const tripTitle = trip?.title ?? 'the trip'
+
+    if (memberId === actorId) {
+      await NotificationService.notifyTripMembers(tripId, memberId, {
+        type: 'MEMBER_LEFT',
+        title: 'Member left',
+        message: `${memberName} left "${tripTitle}"`,
+        data: { url: NotificationService.tripUrl(tripId), memberId }
+      })
+    } else {
+      // No trip link: the removed member can no longer open it
+      await NotificationService.notifyUsers([memberId], {
+        type: 'MEMBER_LEFT',
+        title: 'Removed from trip',
+        message: `You were removed from "${tripTitle}"`
+      }, actorId)
+    }
+  }
+
+  static buildInviteUrl(token: string): string {
+    const baseUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')
+    return `${baseUrl}/invite/${token}`
+  }
+
+  private static async authorize(tripId: string, userId: string, requireManage = false) {
+    const { trip, role, permissions: { canManageMembers } } = await this.getTripAccess(tripId, userId, CollaborationError)
+    if (requireManage && !canManageMembers) {
+      throw new CollaborationError('You do not have permission to manage members of this trip', 403)
+    }
+
+    return { trip, role, canManageMembers }
+  }
+
+  // Admins manage editors and viewers; only the owner manages admins
+  private static assertCanAssign(actorRole: CollaborationRole, targetRole: CollaborationRole) {
+    if (targetRole === 'OWNER' || (targetRole === 'ADMIN' && actorRole !== 'OWNER')) {
+      throw new CollaborationError('Only the trip owner can manage admins', 403)
+    }
+  }
+
+  private static async findRespondableInvitation(token: string, userEmail: string) {
+    const invitation = await db.invitation.findUnique({ where: { token } })
+
+    if (!invitation) {
+      throw new CollaborationError('Invitation not found', 404)
+    }
+
+    const status = this.effectiveStatus(invitation)
+    if (status === 'EXPIRED') {
+      if (invitation.status === 'PENDING') {
+        await db.invitation.update({ where: { id: invitation.id }, data: { status: 'EXPIRED' } })
+      }
+      throw new CollaborationError('This invitation has expired', 410)
+    }
+    if (status !== 'PENDING') {
+      throw new CollaborationError(`This invitation has already been ${status.toLowerCase()}`, 409)
+    }
+
+    if (invitation.email.toLowerCase() !== userEmail.toLowerCase()) {
+      throw new CollaborationError(`This invitation was sent to ${invitation.email}`, 403)
+    }
+
+    return invitation
+  }
+
+  private static effectiveStatus(invitation: { status: InvitationStatus; expiresAt: Date }): InvitationStatus {
+    return invitation.status === 'PENDING' && invitation.expiresAt < new Date()
+      ? 'EXPIRED'
+      : invitation.status
+  }
+}
+
+export default CollaborationService
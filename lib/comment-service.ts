@@ -0,0 +1,301 @@
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { shareGenerator, ShareError } from './share-generator'
+import { NotificationService } from './notification-service'
+
+export class CommentError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'CommentError'
+    this.status = status
+  }
+}
+
+export interface CommentViewer {
+  userId: string | null
+  // Set when the viewer reached the trip through a public share link
+  shareToken?: string
+  // Signed pass from the link's access cookie, needed for password-protected links
+  shareAccess?: string
+}
+
+export interface CommentThread {
+  id: string
+  content: string
+  activityId: string | null
+  parentId: string | null
+  createdAt: Date
+  editedAt: Date | null
+  deleted: boolean
+  author: { id: string; name: string | null; image: string | null } | null
+  canEdit: boolean
+  canDelete: boolean
+  replies: CommentThread[]
+}
+
+export interface CreateCommentInput {
+  content: string
+  activityId?: string
+  parentId?: string
+}
+
+interface CommentAccess {
+  canComment: boolean
+  canModerate: boolean
+}
+
+/**
+ * Threaded comments on a trip or one of its activities.
+ * Trip members can always comment; people with a share link can when the
+ * link allows comments. The trip owner can delete any comment.
+ */
+export class CommentService {
+  /**
+   * Comments for the trip itself, or for one activity, as a reply tree
+   */
+  static async listComments(
+    tripId: string,
+    viewer: CommentViewer,
+    activityId?: string
+  ): Promise<{ comments: CommentThread[]; canComment: boolean }> {
+    const access = await this.resolveAccess(tripId, viewer)
+
+    const comments = await db.comment.findMany({
+      where: { tripId, activityId: activityId ?? null },
+      include: { user: { select: { id: true, name: true, image: true } } },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const threads = new Map<string, CommentThread>()
+    for (const comment of comments) {
+      const deleted = comment.deletedAt !== null
+      const isAuthor = viewer.userId !== null && comment.userId === viewer.userId
+
+      threads.set(comment.id, {
+        id: comment.id,
+        content: deleted ? '' : comment.content,
+        activityId: comment.activityId,
+        parentId: comment.parentId,
+        createdAt: comment.createdAt,
+        editedAt: comment.editedAt,
+        deleted,
+        author: deleted ? null : comment.user,
+        canEdit: !deleted && isAuthor,
+        canDelete: !deleted && (isAuthor || access.canModerate),
+        replies: []
+      })
+    }
+
+    const roots: CommentThread[] = []
+    for (const thread of threads.values()) {
+      const parent = thread.parentId ? threads.get(thread.parentId) : undefined
+      if (parent) {
+        parent.replies.push(thread)
+      } else {
+        roots.push(thread)
+      }
+    }
+
+    return { comments: roots, canComment: access.canComment }
+  }
+
+  /**
+   * Number of visible comments per activity, for badges in the itinerary
+   */
+  static async countByActivity(tripId: string, viewer: CommentViewer): Promise<Record<string, number>> {
+    await this.resolveAccess(tripId, viewer)
+
+    const groups = await db.comment.groupBy({
+      by: ['activityId'],
+      where: { tripId, activityId: { not: null }, deletedAt: null },
+      _count: { _all: true }
+    })
+
+    return Object.fromEntries(
+      groups.map(group => [group.activityId as string, group._count._all])
+    )
+  }
+
+  static async createComment(tripId: string, viewer: CommentViewer, input: CreateCommentInput) {
+    const access = await this.resolveAccess(tripId, viewer)
+    if (!viewer.userId) {
+      throw new CommentError('Sign in to comment', 401)
+    }
+    if (!access.canComment) {
+      throw new CommentError('Comments are not enabled for this trip', 403)
+    }
+
+    if (input.activityId) {
+      const activity = await db.activity.findFirst({
+        where: { id: input.activityId, tripId },
+        select: { id: true }
+      })
+      if (!activity) {
+        throw new CommentError('Activity not found', 404)
+      }
+    }
+
+    let parentAuthorId: string | null = null
+    if (input.parentId) {
+      const parent = await db.comment.findFirst({
+        where: { id: input.parentId, tripId },
+        select: { userId: true, activityId: true, deletedAt: true }
+      })
+      if (!parent || parent.deletedAt) {
+        throw new CommentError('The comment you are replying to no longer exists', 404)
+      }
+      if (parent.activityId !== (input.activityId ?? null)) {
+        throw new CommentError('Replies must be on the same activity as their parent', 400)
+      }
+      parentAuthorId = parent.userId
+    }
+
+    const comment = await db.comment.create({
+      data: {
+        tripId,
+        userId: viewer.userId,
+        content: input.content,
+        activityId: input.activityId ?? null,
+        parentId: input.parentId ?? null
+      },
+      include: { user: { select: { id: true, name: true, image: true } } }
+    })
+
+    const trip = await db.trip.findUnique({ where: { id: tripId }, select: { title: true } })
+
+    const notification = {
+      type: 'COMMENT_ADDED' as const,
+      title: `New comment on ${trip?.title ?? 'your trip'}`,
+      message: `${comment.user.name || 'Someone'}: ${this.excerpt(comment.content)}`,
+      data: {
+        url: NotificationService.tripUrl(tripId),
+        commentId: comment.id,
+        ...(comment.activityId ? { activityId: comment.activityId } : {})
+      }
+    }
+    await NotificationService.notifyTripMembers(tripId, viewer.userId, notification)
+    // Share-link commenters aren't members, so tell them about replies directly
+    if (parentAuthorId && !(await CollaborationService.getMemberRole(tripId, parentAuthorId))) {
+      await NotificationService.notifyUsers([parentAuthorId], { ...notification, tripId }, viewer.userId)
+    }
+
+    return comment
+  }
+
+  /**
+   * Edit the text of one of your own comments
+   */
+  static async updateComment(tripId: string, commentId: string, viewer: CommentViewer, content: string) {
+    const comment = await this.findComment(tripId, commentId)
+
+    if (!viewer.userId || comment.userId !== viewer.userId) {
+      throw new CommentError('You can only edit your own comments', 403)
+    }
+
+    const access = await this.resolveAccess(tripId, viewer)
+    if (!access.canComment) {
+      throw new CommentError('Comments are not enabled for this trip', 403)
+    }
+
+    return db.comment.update({
+      where: { id: comment.id },
+      data: { content, editedAt: new Date() }
+    })
+  }
+
+  /**
+   * Delete a comment as its author or as the trip owner. Comments with
+   * replies are blanked out instead so the rest of the thread stays readable.
+   */
+  static async deleteComment(tripId: string, commentId: string, viewer: CommentViewer) {
+    const comment = await this.findComment(tripId, commentId)
+    const isAuthor = viewer.userId !== null && comment.userId === viewer.userId
+
+    if (!isAuthor) {
+      const access = await this.resolveAccess(tripId, viewer)
+      if (!access.canModerate) {
+        throw new CommentError('You can only delete your own comments', 403)
+      }
+    }
+
+    const replyCount = await db.comment.count({ where: { parentId: comment.id } })
+    if (replyCount > 0) {
+      await db.comment.update({
+        where: { id: comment.id },
+        data: { content: '', deletedAt: new Date() }
+      })
+      return
+    }
+
+    await db.comment.delete({ where: { id: comment.id } })
+
+    // Clean up blanked-out ancestors that no longer have any replies
+    let parentId = comment.parentId
+    while (parentId) {
+      const parent = await db.comment.findUnique({
+        where: { id: parentId },
+        select: { id: true, parentId: true, deletedAt: true, _count: { select: { replies: true } } }
+      })
+      if (!parent || !parent.deletedAt || parent._count.replies > 0) break
+
+      await db.comment.delete({ where: { id: parent.id } })
+      parentId = parent.parentId
+    }
+  }
+
+  private static async resolveAccess(tripId: string, viewer: CommentViewer): Promise<CommentAccess> {
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: { id: true, isPublic: true }
+    })
+
+    if (!trip) {
+      throw new CommentError('Trip not found', 404)
+    }
+
+    if (viewer.userId) {
+      const role = await CollaborationService.getMemberRole(tripId, viewer.userId)
+      if (role) {
+        return { canComment: true, canModerate: role === 'OWNER' }
+      }
+    }
+
+    if (viewer.shareToken) {
+      try {
+        const share = await shareGenerator.verifyShareAccess(viewer.shareToken, viewer.shareAccess)
+        // A working link can always read the thread; posting is up to the owner
+        if (share?.tripId === tripId) {
+          return { canComment: share.allowComments, canModerate: false }
+        }
+      } catch (error) {
+        if (!(error instanceof ShareError)) throw error
+        throw new CommentError(error.message, 403)
+      }
+    }
+
+    if (trip.isPublic) {
+      return { canComment: false, canModerate: false }
+    }
+
+    throw new CommentError('Trip not found', 404)
+  }
+
+  private static excerpt(content: string, length = 120): string {
+    return content.length > length ? `${content.slice(0, length - 1)}…` : content
+  }
+
+  private static async findComment(tripId: string, commentId: string) {
+    const comment = await db.comment.findFirst({
+      where: { id: commentId, tripId }
+    })
+
+    if (!comment || comment.deletedAt) {
+      throw new CommentError('Comment not found', 404)
+    }
+    return comment
+  }
+}
+
+export default CommentService
@@ -0,0 +1,192 @@
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { db } from './db'
+import { budgetCalculator, SUPPORTED_CURRENCIES } from './budget-calculator'
+import { createRateSourceFromEnv, FixtureRateSource, FxRates, RateSource } from './fx-rate-sources'
+
+export const currencyCodeSchema = z
+  .string()
+  .transform(code => code.toUpperCase())
+  .refine(code => SUPPORTED_CURRENCIES.includes(code), { message: 'Unsupported currency' })
+
+export interface RateSnapshot extends FxRates {
+  // Rates published on `rateDate`, used for `date`
+  rateDate: string
+  source: string
+}
+
+export interface TripPricing {
+  currency: string
+  rateDate: string
+  source: string
+  // Converted activity prices keyed by activity id; activities with no known rate are left out
+  prices: Record<string, number>
+  budget: number | null
+}
+
+interface PricedTrip {
+  status: string
+  endDate: Date
+  budget: number | null
+  currency: string | null
+  displayCurrency: string | null
+  days: { activities: { id: string; price: number | null; currency: string | null }[] }[]
+}
+
+export class CurrencyError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'CurrencyError'
+    this.status = status
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function round(amount: number, currency: string): number {
+  const factor = 10 ** budgetCalculator.getCurrencyInfo(currency).decimals
+  return Math.round(amount * factor) / factor
+}
+
+function toSnapshot(stored: { date: string; rateDate: string; base: string; source: string; rates: Prisma.JsonValue }): RateSnapshot {
+  return {
+    date: stored.date,
+    rateDate: stored.rateDate,
+    base: stored.base,
+    source: stored.source,
+    rates: stored.rates as Record<string, number>
+  }
+}
+
+/**
+ * Convert between any two currencies in a snapshot by going through its base.
+ */
+export function convertAmount(amount: number, from: string, to: string, snapshot: RateSnapshot): number {
+  if (from === to) return amount
+
+  const fromRate = from === snapshot.base ? 1 : snapshot.rates[from]
+  const toRate = to === snapshot.base ? 1 : snapshot.rates[to]
+  if (!fromRate || !toRate) {
+    throw new CurrencyError(`No ${snapshot.source} rate for ${fromRate ? to : from} on ${snapshot.rateDate}`, 422)
+  }
+
+  return (amount / fromRate) * toRate
+}
+
+export class CurrencyService {
+  /**
+   * Rates for a day, stored once per day. Missing days are fetched from the
+   * configured source; if that fails the nearest earlier stored day is used,
+   * then the built-in table, and that fallback is stored for the day so the
+   * source isn't asked again. Today's row is replaced by the daily refresh.
+   */
+  static async getSnapshot(date: string = today(), source: RateSource = createRateSourceFromEnv()): Promise<RateSnapshot> {
+    const stored = await db.fxRateSnapshot.findUnique({ where: { date } })
+    if (stored) return this.track(toSnapshot(stored))
+
+    try {
+      return this.track(await this.store(date, source, false))
+    } catch (error) {
+      console.warn(`Fetching exchange rates for ${date} from ${source.name} failed:`, error)
+    }
+
+    const earlier = await db.fxRateSnapshot.findFirst({
+      where: { date: { lte: date } },
+      orderBy: { date: 'desc' }
+    })
+    const fallback: RateSnapshot = earlier
+      ? { ...toSnapshot(earlier), date }
+      : await new FixtureRateSource().fetchRates(date).then(rates => ({ ...rates, rateDate: rates.date, source: 'fixture' }))
+
+    return this.track(await this.save(fallback, false))
+  }
+
+  /**
+   * Fetch today's rates again, replacing what is stored. Run by the
+   * background jobs so the first request of the day doesn't wait on the source.
+   */
+  static async refreshDailySnapshot(source: RateSource = createRateSourceFromEnv()): Promise<RateSnapshot> {
+    return this.track(await this.store(today(), source, true))
+  }
+
+  /**
+   * The rate day for a trip: the last day of a completed trip, so its costs
+   * keep the rates it was travelled at, otherwise today.
+   */
+  static rateDateForTrip(trip: { status: string; endDate: Date }): string {
+    const current = today()
+    if (trip.status !== 'COMPLETED') return current
+
+    const end = trip.endDate.toISOString().slice(0, 10)
+    return end < current ? end : current
+  }
+
+  /**
+   * Activity prices and the budget in the trip's display currency.
+   */
+  static async priceTrip(trip: PricedTrip, source?: RateSource): Promise<TripPricing> {
+    const currency = trip.displayCurrency || trip.currency || 'USD'
+    const snapshot = await this.getSnapshot(this.rateDateForTrip(trip), source)
+    const prices: Record<string, number> = {}
+
+    for (const activity of trip.days.flatMap(day => day.activities)) {
+      if (activity.price == null) continue
+      try {
+        prices[activity.id] = round(convertAmount(activity.price, activity.currency || 'USD', currency, snapshot), currency)
+      } catch (error) {
+        if (!(error instanceof CurrencyError)) throw error
+      }
+    }
+
+    let budget: number | null = null
+    if (trip.budget != null) {
+      try {
+        budget = round(convertAmount(trip.budget, trip.currency || 'USD', currency, snapshot), currency)
+      } catch (error) {
+        if (!(error instanceof CurrencyError)) throw error
+      }
+    }
+
+    return { currency, rateDate: snapshot.rateDate, source: snapshot.source, prices, budget }
+  }
+
+  private static async store(date: string, source: RateSource, replace: boolean): Promise<RateSnapshot> {
+    const fetched = await source.fetchRates(date === today() ? undefined : date)
+    return this.save({ ...fetched, date, rateDate: fetched.date, source: source.name }, replace)
+  }
+
+  private static async save(snapshot: RateSnapshot, replace: boolean): Promise<RateSnapshot> {
+    const data = {
+      rateDate: snapshot.rateDate,
+      base: snapshot.base,
+      source: snapshot.source,
+      rates: snapshot.rates as Prisma.InputJsonValue
+    }
+
+    const saved = await db.fxRateSnapshot.upsert({
+      where: { date: snapshot.date },
+      create: { date: snapshot.date, ...data },
+      update: replace ? { ...data, fetchedAt: new Date() } : {}
+    })
+    return toSnapshot(saved)
+  }
+
+  // Keep budget estimates on today's rates
+  private static track(snapshot: RateSnapshot): RateSnapshot {
+    if (snapshot.date !== today()) return snapshot
+
+    const usd = snapshot.base === 'USD' ? 1 : snapshot.rates.USD
+    if (usd) {
+      budgetCalculator.setRates(Object.fromEntries(
+        Object.entries({ ...snapshot.rates, [snapshot.base]: 1 }).map(([code, rate]) => [code, rate / usd])
+      ))
+    }
+    return snapshot
+  }
+}
+
+export default CurrencyService
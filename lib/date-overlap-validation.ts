@@ -11,6 +11,8 @@ export interface TripDateRange extends DateRange {
   title: string
   destination: string
   userId: string
+  // Stops of a multi-city trip, in order
+  legs?: Array<DateRange & { destination: string }>
 }
 
 export interface DateOverlapResult {
@@ -114,6 +116,17 @@ export function calculateOverlapDays(range1: DateRange, range2: DateRange): numb
   return diffDays
 }
 
+/**
+ * Where the existing trip is during the overlap: the stops of a multi-city
+ * trip that fall in the overlapping days, or its only destination
+ */
+function overlappingDestination(trip: TripDateRange, overlap: DateRange): string {
+  const legs = (trip.legs || []).filter(leg =>
+    leg.startDate.getTime() <= overlap.endDate.getTime() && leg.endDate.getTime() >= overlap.startDate.getTime()
+  )
+  return legs.length > 0 ? legs.map(leg => leg.destination).join(' → ') : trip.destination
+}
+
 /**
  * Check for overlaps between a proposed trip and existing trips
  */
@@ -133,7 +146,7 @@ export function checkTripDateOverlap(
         overlapDetails.push({
           tripId: existingTrip.id,
           tripTitle: existingTrip.title,
-          destination: existingTrip.destination,
+          destination: overlappingDestination(existingTrip, overlap),
           overlapStart: overlap.startDate,
           overlapEnd: overlap.endDate,
           overlapDays: calculateOverlapDays(proposedTrip, existingTrip)
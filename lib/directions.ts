@@ -0,0 +1,78 @@
+import { MAPBOX_CONFIG, MapboxService } from './mapbox-config'
+import { Coordinates, CoordinateValidator } from './coordinate-validation'
+
+export type TravelMode = 'walking' | 'driving' | 'cycling'
+
+export interface Directions {
+  durationMinutes: number
+  distanceKm: number
+}
+
+/**
+ * Travel time between two points. Implementations: Mapbox Directions for
+ * real routes, and a straight-line estimate for tests and for running
+ * without a Mapbox token.
+ */
+export interface DirectionsProvider {
+  readonly name: string
+  getDirections(origin: Coordinates, destination: Coordinates, mode: TravelMode): Promise<Directions>
+}
+
+export class MapboxDirectionsProvider implements DirectionsProvider {
+  readonly name = 'mapbox'
+  private service = new MapboxService()
+
+  async getDirections(origin: Coordinates, destination: Coordinates, mode: TravelMode): Promise<Directions> {
+    const data = await this.service.getDirections([origin.lng, origin.lat], [destination.lng, destination.lat], mode)
+    const route = data.routes?.[0]
+    if (!route) {
+      throw new Error(`No ${mode} route found`)
+    }
+
+    return {
+      durationMinutes: Math.ceil(route.duration / 60),
+      distanceKm: Math.round(route.distance / 100) / 10
+    }
+  }
+}
+
+// Average door-to-door speeds in km/h
+const STUB_SPEEDS: Record<TravelMode, number> = {
+  walking: 4.5,
+  cycling: 14,
+  driving: 28
+}
+
+// Streets are rarely straight; scales straight-line distance to route distance
+const DETOUR_FACTOR = 1.3
+
+/**
+ * Deterministic estimate from straight-line distance. Drives the tests and
+ * stands in when no Mapbox token is configured.
+ */
+export class StubDirectionsProvider implements DirectionsProvider {
+  readonly name = 'stub'
+
+  async getDirections(origin: Coordinates, destination: Coordinates, mode: TravelMode): Promise<Directions> {
+    const distanceKm = CoordinateValidator.calculateDistance(origin, destination) * DETOUR_FACTOR
+    return {
+      durationMinutes: Math.ceil((distanceKm / STUB_SPEEDS[mode]) * 60),
+      distanceKm: Math.round(distanceKm * 10) / 10
+    }
+  }
+}
+
+/**
+ * Pick the provider from `DIRECTIONS_PROVIDER` (`mapbox` or `stub`).
+ * Defaults to Mapbox when a token is configured.
+ */
+export function createDirectionsProviderFromEnv(): DirectionsProvider {
+  const name = process.env.DIRECTIONS_PROVIDER?.toLowerCase()
+  if (name === 'stub' || (!name && !MAPBOX_CONFIG.ACCESS_TOKEN)) {
+    return new StubDirectionsProvider()
+  }
+  if (name && name !== 'mapbox') {
+    throw new Error(`Unknown DIRECTIONS_PROVIDER "${name}"`)
+  }
+  return new MapboxDirectionsProvider()
+}
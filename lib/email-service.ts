@@ -1,63 +1,383 @@
+import { EmailStatus, Prisma, TripStatus } from '@prisma/client'
+import { db } from './db'
+import { renderEmail, EmailTemplateData, EmailTemplateName } from './email-templates'
+import { createTransportFromEnv, EmailTransport } from './email-transport'
+import { retryManagers } from './retry-logic'
 
+/**
+ * Which preference switch governs an email. Transactional mail (invitations)
+ * ignores preferences; the rest honour the master email switch first.
+ */
+export type EmailCategory = 'transactional' | 'itinerary' | 'tripReminders' | 'activityUpdates' | 'digest'
+
+export interface EnqueueEmailOptions {
+  category: EmailCategory
+  // Recipient account; preferences are checked against it and its address is used when `to` is omitted
+  userId?: string
+  to?: string
+  // Skip the email when one with the same key has already been queued
+  dedupeKey?: string
+  sendAfter?: Date
+}
+
+export interface QueuedEmail {
+  id: string
+  status: EmailStatus
+}
+
+export interface OutboxRunSummary {
+  processed: number
+  sent: number
+  retrying: number
+  failed: number
+}
+
+interface EmailPreferences {
+  email?: boolean
+  tripReminders?: boolean
+  activityUpdates?: boolean
+  emailDigest?: boolean
+}
+
+const MAX_DELIVERY_ATTEMPTS = 5
+const OUTBOX_BATCH_SIZE = 25
+// Rows left in SENDING longer than this belong to a worker that died mid-send
+const STALE_SENDING_MS = 10 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Templated email through a persistent outbox. Callers enqueue; the
+ * email-outbox background job (or `send` for mail the user is waiting on)
+ * delivers through the configured transport with retries.
+ */
 export class EmailService {
-  private apiKey: string;
-
-  constructor() {
-    this.apiKey = process.env.EMAIL_API_KEY || "";
-  }
-
-  async sendNotificationEmail(params: {
-    to: string;
-    subject: string;
-    body: string;
-  }) {
-    if (useMocks) {
-      await simulateDelay("email");
-      mockEmailQueue.push({
-        to: params.to,
-        subject: params.subject,
-        body: params.body,
-        sentAt: new Date(),
-      });
-      console.log("Mock email sent:", {
-        type: "notification",
-        to: params.to,
-        subject: params.subject,
-      });
-      return true;
-    }
-
-    // Real API implementation here
-    const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
+  private transport: EmailTransport | null = null
+  private from = process.env.EMAIL_FROM || 'noreply@terravoyage.com'
+
+  /**
+   * Swap the transport, e.g. for an SMTP stand-in in tests
+   */
+  setTransport(transport: EmailTransport) {
+    this.transport = transport
+  }
+
+  getTransport(): EmailTransport {
+    if (!this.transport) {
+      this.transport = createTransportFromEnv()
+    }
+    return this.transport
+  }
+
+  /**
+   * Render a template into the outbox. Returns null when there is no address
+   * or the dedupe key was already used. Emails the recipient opted out of are
+   * recorded as SKIPPED so the outbox doubles as an audit log.
+   */
+  async enqueue<K extends EmailTemplateName>(
+    template: K,
+    data: EmailTemplateData[K],
+    options: EnqueueEmailOptions
+  ): Promise<QueuedEmail | null> {
+    const user = options.userId
+      ? await db.user.findUnique({
+          where: { id: options.userId },
+          select: { email: true, preferences: true }
+        })
+      : null
+
+    const to = options.to ?? user?.email
+    if (!to) return null
+
+    const skipReason = this.preferenceBlock(user?.preferences ?? null, options.category)
+    const rendered = renderEmail(template, data)
+
+    try {
+      return await db.emailOutbox.create({
+        data: {
+          userId: options.userId ?? null,
+          toEmail: to,
+          template,
+          subject: rendered.subject,
+          html: rendered.html,
+          text: rendered.text,
+          dedupeKey: options.dedupeKey ?? null,
+          status: skipReason ? 'SKIPPED' : 'PENDING',
+          lastError: skipReason,
+          sendAfter: options.sendAfter ?? new Date()
+        },
+        select: { id: true, status: true }
+      })
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Enqueue and deliver straight away. Returns whether the email went out;
+   * a failed attempt stays in the outbox for the background job to retry.
+   */
+  async send<K extends EmailTemplateName>(
+    template: K,
+    data: EmailTemplateData[K],
+    options: EnqueueEmailOptions
+  ): Promise<boolean> {
+    const queued = await this.enqueue(template, data, options)
+    if (!queued || queued.status !== 'PENDING') return false
+
+    return this.deliver(queued.id)
+  }
+
+  /**
+   * Deliver due emails. Safe to run concurrently: each row is claimed before sending.
+   */
+  async processOutbox(limit = OUTBOX_BATCH_SIZE): Promise<OutboxRunSummary> {
+    await db.emailOutbox.updateMany({
+      where: { status: 'SENDING', updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) } },
+      data: { status: 'PENDING' }
+    })
+
+    const due = await db.emailOutbox.findMany({
+      where: { status: 'PENDING', sendAfter: { lte: new Date() } },
+      orderBy: { sendAfter: 'asc' },
+      take: limit,
+      select: { id: true }
+    })
+
+    const summary: OutboxRunSummary = { processed: 0, sent: 0, retrying: 0, failed: 0 }
+    for (const { id } of due) {
+      const sent = await this.deliver(id)
+      summary.processed++
+      if (sent) {
+        summary.sent++
+        continue
+      }
+
+      const row = await db.emailOutbox.findUnique({ where: { id }, select: { status: true } })
+      if (row?.status === 'FAILED') summary.failed++
+      else if (row?.status === 'PENDING') summary.retrying++
+    }
+    return summary
+  }
+
+  /**
+   * Send one outbox row. The RetryManager covers transient errors within this
+   * attempt; after that the row is rescheduled with backoff until it runs out of attempts.
+   */
+  async deliver(id: string): Promise<boolean> {
+    const claimed = await db.emailOutbox.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'SENDING', attempts: { increment: 1 } }
+    })
+    if (claimed.count === 0) return false
+
+    const email = await db.emailOutbox.findUniqueOrThrow({ where: { id } })
+
+    try {
+      const transport = this.getTransport()
+      await retryManagers.email.execute(() => transport.send({
+        to: email.toEmail,
+        from: this.from,
+        subject: email.subject,
+        html: email.html,
+        text: email.text
+      }))
+
+      await db.emailOutbox.update({
+        where: { id },
+        data: { status: 'SENT', sentAt: new Date(), lastError: null }
+      })
+      return true
+    } catch (error) {
+      const lastError = this.describeError(error)
+      const exhausted = email.attempts >= MAX_DELIVERY_ATTEMPTS
+      console.error(`Failed to send email ${id} (attempt ${email.attempts}):`, lastError)
+
+      await db.emailOutbox.update({
+        where: { id },
+        data: {
+          status: exhausted ? 'FAILED' : 'PENDING',
+          lastError,
+          // 2, 4, 8, 16 minutes between attempts
+          sendAfter: new Date(Date.now() + Math.pow(2, email.attempts) * 60 * 1000)
+        }
+      })
+      return false
+    }
+  }
+
+  /**
+   * Queue "starts tomorrow" reminders for every member of trips starting on the next UTC day
+   */
+  async queueTripReminders(now = new Date()): Promise<number> {
+    const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    const dayAfter = new Date(tomorrow.getTime() + DAY_MS)
+
+    const trips = await db.trip.findMany({
+      where: {
+        startDate: { gte: tomorrow, lt: dayAfter },
+        status: { in: ['DRAFT', 'PLANNED'] }
       },
-      body: JSON.stringify({
-        personalizations: [
-          {
-            to: [{ email: params.to }],
-          },
-        ],
-        from: { email: "noreply@terravoyage.com" },
-        subject: params.subject,
-        content: [
-          {
-            type: "text/html",
-            value: params.body,
-          },
-        ],
-      }),
-    });
-
-    return response.ok;
-  }
-
-  // Helper method to get the mock email queue (for testing/development)
-  getMockEmailQueue() {
-    return useMocks ? mockEmailQueue : [];
+      select: {
+        id: true,
+        title: true,
+        destination: true,
+        startDate: true,
+        user: { select: { id: true, name: true } },
+        collaborations: {
+          where: { acceptedAt: { not: null } },
+          select: { user: { select: { id: true, name: true } } }
+        },
+        _count: { select: { activities: true } }
+      }
+    })
+
+    let queued = 0
+    for (const trip of trips) {
+      const members = [trip.user, ...trip.collaborations.map(c => c.user)]
+      for (const member of members) {
+        const result = await this.enqueue('trip-reminder', {
+          recipientName: member.name,
+          tripTitle: trip.title,
+          destination: trip.destination,
+          startDate: trip.startDate,
+          activityCount: trip._count.activities,
+          tripUrl: this.absoluteUrl(`/trip/${trip.id}`)
+        }, {
+          category: 'tripReminders',
+          userId: member.id,
+          dedupeKey: `trip-reminder:${trip.id}:${member.id}:${trip.startDate.toISOString().slice(0, 10)}`
+        })
+        if (result?.status === 'PENDING') queued++
+      }
+    }
+    return queued
+  }
+
+  /**
+   * Queue last week's unread notifications as one email for users in digest mode.
+   * Weeks start on Monday (UTC); each user gets at most one digest per week.
+   */
+  async queueWeeklyDigests(now = new Date()): Promise<number> {
+    const daysSinceMonday = (now.getUTCDay() + 6) % 7
+    const periodEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday))
+    const periodStart = new Date(periodEnd.getTime() - 7 * DAY_MS)
+
+    const users = await db.user.findMany({
+      where: { preferences: { path: ['notifications', 'emailDigest'], equals: true } },
+      select: {
+        id: true,
+        name: true,
+        notifications: {
+          where: { read: false, createdAt: { gte: periodStart, lt: periodEnd } },
+          orderBy: { createdAt: 'desc' },
+          select: { title: true, message: true, data: true, tripId: true, createdAt: true }
+        }
+      }
+    })
+
+    let queued = 0
+    for (const user of users) {
+      if (user.notifications.length === 0) continue
+
+      const result = await this.enqueue('weekly-digest', {
+        recipientName: user.name,
+        periodStart,
+        // Shown as an inclusive range
+        periodEnd: new Date(periodEnd.getTime() - DAY_MS),
+        items: user.notifications.map(notification => {
+          const data = notification.data as { url?: string } | null
+          const path = data?.url ?? (notification.tripId ? `/trip/${notification.tripId}` : null)
+          return {
+            title: notification.title,
+            message: notification.message,
+            url: path ? this.absoluteUrl(path) : null,
+            createdAt: notification.createdAt
+          }
+        }),
+        inboxUrl: this.absoluteUrl('/trips')
+      }, {
+        category: 'digest',
+        userId: user.id,
+        dedupeKey: `weekly-digest:${user.id}:${periodEnd.toISOString().slice(0, 10)}`
+      })
+      if (result?.status === 'PENDING') queued++
+    }
+    return queued
+  }
+
+  /**
+   * Tell trip members about a status change. Best effort, never throws.
+   */
+  async queueStatusChange(tripId: string, oldStatus: TripStatus, newStatus: TripStatus, actorId?: string | null): Promise<void> {
+    try {
+      const trip = await db.trip.findUnique({
+        where: { id: tripId },
+        select: {
+          title: true,
+          user: { select: { id: true, name: true } },
+          collaborations: {
+            where: { acceptedAt: { not: null } },
+            select: { user: { select: { id: true, name: true } } }
+          }
+        }
+      })
+      if (!trip) return
+
+      const members = [trip.user, ...trip.collaborations.map(c => c.user)]
+      const actor = actorId ? members.find(member => member.id === actorId) : null
+
+      for (const member of members) {
+        if (member.id === actorId) continue
+        await this.enqueue('status-changed', {
+          recipientName: member.name,
+          tripTitle: trip.title,
+          oldStatus,
+          newStatus,
+          changedBy: actor?.name ?? null,
+          tripUrl: this.absoluteUrl(`/trip/${tripId}`)
+        }, { category: 'activityUpdates', userId: member.id })
+      }
+    } catch (error) {
+      console.error(`Failed to queue status change emails for trip ${tripId}:`, error)
+    }
+  }
+
+  absoluteUrl(path: string): string {
+    const baseUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')
+    return `${baseUrl}${path}`
+  }
+
+  /**
+   * Why the user's settings rule this email out, or null to send it
+   */
+  private preferenceBlock(preferences: Prisma.JsonValue, category: EmailCategory): string | null {
+    if (category === 'transactional') return null
+
+    const root = preferences && typeof preferences === 'object' && !Array.isArray(preferences) ? preferences : {}
+    const settings = ((root as Record<string, unknown>).notifications ?? {}) as EmailPreferences
+
+    if (settings.email === false) return 'Email notifications are turned off'
+
+    switch (category) {
+      case 'tripReminders':
+        return settings.tripReminders === false ? 'Trip reminders are turned off' : null
+      case 'activityUpdates':
+        if (settings.activityUpdates === false) return 'Activity updates are turned off'
+        return settings.emailDigest ? 'Included in the weekly digest' : null
+      case 'digest':
+        return settings.emailDigest ? null : 'Weekly digest is turned off'
+      default:
+        return null
+    }
+  }
+
+  private describeError(error: unknown): string {
+    const cause = (error as { lastError?: unknown })?.lastError ?? error
+    return cause instanceof Error ? cause.message : String(cause)
   }
 }
 
-export const emailService = new EmailService();
+export const emailService = new EmailService()
@@ -0,0 +1,218 @@
+import { TripStatus } from '@prisma/client'
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailTemplateData {
+  invitation: {
+    inviterName: string
+    tripTitle: string
+    destination: string
+    role: string
+    message?: string | null
+    inviteUrl: string
+    expiresInDays: number
+  }
+  'trip-reminder': {
+    recipientName?: string | null
+    tripTitle: string
+    destination: string
+    startDate: Date
+    activityCount: number
+    tripUrl: string
+  }
+  'booking-deadline': {
+    recipientName?: string | null
+    tripTitle: string
+    activityName: string
+    provider?: string | null
+    confirmationNumber?: string | null
+    deadline: Date
+    tripUrl: string
+  }
+  'itinerary-ready': {
+    recipientName?: string | null
+    tripTitle: string
+    destination: string
+    dayCount: number
+    activityCount: number
+    tripUrl: string
+  }
+  'status-changed': {
+    recipientName?: string | null
+    tripTitle: string
+    oldStatus: TripStatus
+    newStatus: TripStatus
+    changedBy?: string | null
+    tripUrl: string
+  }
+  'weekly-digest': {
+    recipientName?: string | null
+    periodStart: Date
+    periodEnd: Date
+    items: { title: string; message: string; url?: string | null; createdAt: Date }[]
+    inboxUrl: string
+  }
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+const STATUS_LABELS: Record<TripStatus, string> = {
+  DRAFT: 'draft',
+  PLANNED: 'planned',
+  ACTIVE: 'in progress',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled'
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+}
+
+function formatDateTime(date: Date): string {
+  return `${date.toLocaleString('en-US', { weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })} UTC`
+}
+
+function greeting(name?: string | null): string {
+  return name ? `Hi ${name},` : 'Hi there,'
+}
+
+function plural(count: number, word: string, pluralWord = `${word}s`): string {
+  return `${count} ${count === 1 ? word : pluralWord}`
+}
+
+/**
+ * Shared wrapper so every email has the same header and footer.
+ * Body paragraphs are plain text and escaped here; the call to action is optional.
+ */
+function layout(options: { paragraphs: string[]; action?: { label: string; url: string }; extraHtml?: string; extraText?: string }) {
+  const body = options.paragraphs.map(p => `<p style="margin:0 0 16px">${escapeHtml(p)}</p>`).join('')
+  const action = options.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(options.action.url)}" style="background:#2563eb;color:#fff;padding:10px 18px;border-radius:6px;text-decoration:none">${escapeHtml(options.action.label)}</a></p>`
+    : ''
+
+  const html = '<div style="font-family:Arial,sans-serif;font-size:15px;line-height:1.5;color:#111827;max-width:560px;margin:0 auto">'
+    + '<p style="font-weight:bold;color:#2563eb;margin:0 0 24px">TerraVoyage</p>'
+    + body
+    + (options.extraHtml ?? '')
+    + action
+    + '<p style="margin-top:32px;font-size:12px;color:#6b7280">You can change which emails you receive in your TerraVoyage settings.</p>'
+    + '</div>'
+
+  const text = [
+    ...options.paragraphs,
+    ...(options.extraText ? [options.extraText] : []),
+    ...(options.action ? [`${options.action.label}: ${options.action.url}`] : []),
+    '--',
+    'You can change which emails you receive in your TerraVoyage settings.'
+  ].join('\n\n')
+
+  return { html, text }
+}
+
+const templates: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+  invitation: (data) => ({
+    subject: `${data.inviterName} invited you to "${data.tripTitle}"`,
+    ...layout({
+      paragraphs: [
+        `${data.inviterName} invited you to join the trip ${data.tripTitle} to ${data.destination} as ${data.role.toLowerCase()}.`,
+        ...(data.message ? [data.message] : []),
+        `This invitation expires in ${plural(data.expiresInDays, 'day')}.`
+      ],
+      action: { label: 'View invitation', url: data.inviteUrl }
+    })
+  }),
+
+  'trip-reminder': (data) => ({
+    subject: `${data.tripTitle} starts tomorrow`,
+    ...layout({
+      paragraphs: [
+        greeting(data.recipientName),
+        `Your trip ${data.tripTitle} to ${data.destination} starts tomorrow, ${formatDate(data.startDate)}.`,
+        data.activityCount > 0
+          ? `You have ${plural(data.activityCount, 'activity', 'activities')} planned. Take a last look before you go.`
+          : 'There is nothing on the itinerary yet. There is still time to plan a few things.'
+      ],
+      action: { label: 'Open trip', url: data.tripUrl }
+    })
+  }),
+
+  'booking-deadline': (data) => ({
+    subject: `Free cancellation for ${data.activityName} ends soon`,
+    ...layout({
+      paragraphs: [
+        greeting(data.recipientName),
+        `The booking for ${data.activityName}${data.provider ? ` with ${data.provider}` : ''} on ${data.tripTitle} can be cancelled until ${formatDateTime(data.deadline)}.`,
+        ...(data.confirmationNumber ? [`Confirmation number: ${data.confirmationNumber}`] : []),
+        'If your plans have changed, cancel it before then.'
+      ],
+      action: { label: 'Review bookings', url: data.tripUrl }
+    })
+  }),
+
+  'itinerary-ready': (data) => ({
+    subject: `Your itinerary for ${data.tripTitle} is ready`,
+    ...layout({
+      paragraphs: [
+        greeting(data.recipientName),
+        `We put together ${plural(data.dayCount, 'day')} in ${data.destination} with ${plural(data.activityCount, 'activity', 'activities')}.`,
+        'Review it, move things around and invite your travel companions.'
+      ],
+      action: { label: 'View itinerary', url: data.tripUrl }
+    })
+  }),
+
+  'status-changed': (data) => ({
+    subject: `${data.tripTitle} is now ${STATUS_LABELS[data.newStatus]}`,
+    ...layout({
+      paragraphs: [
+        greeting(data.recipientName),
+        `${data.changedBy ? `${data.changedBy} moved` : 'We moved'} ${data.tripTitle} from ${STATUS_LABELS[data.oldStatus]} to ${STATUS_LABELS[data.newStatus]}.`
+      ],
+      action: { label: 'Open trip', url: data.tripUrl }
+    })
+  }),
+
+  'weekly-digest': (data) => {
+    const listHtml = '<ul style="padding-left:20px;margin:0 0 16px">'
+      + data.items.map(item => {
+        const title = item.url
+          ? `<a href="${escapeHtml(item.url)}" style="color:#2563eb">${escapeHtml(item.title)}</a>`
+          : `<strong>${escapeHtml(item.title)}</strong>`
+        return `<li style="margin-bottom:8px">${title}<br><span style="color:#4b5563">${escapeHtml(item.message)}</span></li>`
+      }).join('')
+      + '</ul>'
+    const listText = data.items
+      .map(item => `- ${item.title}: ${item.message}${item.url ? ` (${item.url})` : ''}`)
+      .join('\n')
+
+    return {
+      subject: `Your TerraVoyage week: ${plural(data.items.length, 'update')}`,
+      ...layout({
+        paragraphs: [
+          greeting(data.recipientName),
+          `Here is what happened on your trips from ${formatDate(data.periodStart)} to ${formatDate(data.periodEnd)}.`
+        ],
+        extraHtml: listHtml,
+        extraText: listText,
+        action: { label: 'Open your trips', url: data.inboxUrl }
+      })
+    }
+  }
+}
+
+export function renderEmail<K extends EmailTemplateName>(name: K, data: EmailTemplateData[K]): RenderedEmail {
+  return templates[name](data)
+}
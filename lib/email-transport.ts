@@ -0,0 +1,128 @@
+import nodemailer from 'nodemailer'
+
+export interface EmailMessage {
+  to: string
+  from: string
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * Delivers a single message. Implementations throw on failure; errors carrying
+ * `response.status` or a network `code` are retried by the outbox.
+ */
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+export class EmailTransportError extends Error {
+  response?: { status: number }
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'EmailTransportError'
+    if (status) {
+      this.response = { status }
+    }
+  }
+}
+
+export class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid'
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: message.from },
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html }
+        ]
+      })
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new EmailTransportError(`SendGrid rejected message (${response.status}) ${detail}`.trim(), response.status)
+    }
+  }
+}
+
+/**
+ * Plain SMTP, e.g. a local maildev (SMTP_HOST=localhost SMTP_PORT=1025) in development and tests
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp'
+  private transporter: nodemailer.Transporter
+
+  constructor(options: { host: string; port: number; secure?: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? options.port === 465,
+      ...(options.user ? { auth: { user: options.user, pass: options.pass } } : {})
+    })
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail(message)
+  }
+}
+
+/**
+ * Keeps messages in memory instead of sending them. Used when mocks are on
+ * and no other transport is configured.
+ */
+export class MemoryTransport implements EmailTransport {
+  readonly name = 'memory'
+  readonly sent: (EmailMessage & { sentAt: Date })[] = []
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push({ ...message, sentAt: new Date() })
+    console.log('Email captured by memory transport:', { to: message.to, subject: message.subject })
+  }
+}
+
+/**
+ * Pick a transport from the environment. EMAIL_TRANSPORT forces one;
+ * otherwise SendGrid when an API key is set, then SMTP, then memory.
+ */
+export function createTransportFromEnv(): EmailTransport {
+  const forced = process.env.EMAIL_TRANSPORT?.toLowerCase()
+  const apiKey = process.env.EMAIL_API_KEY
+  const smtpHost = process.env.SMTP_HOST
+
+  if (process.env.USE_MOCKS === 'true' && !forced) {
+    return new MemoryTransport()
+  }
+
+  if (forced === 'sendgrid' || (!forced && apiKey)) {
+    if (!apiKey) {
+      throw new Error('EMAIL_TRANSPORT=sendgrid requires EMAIL_API_KEY')
+    }
+    return new SendGridTransport(apiKey)
+  }
+
+  if (forced === 'smtp' || (!forced && smtpHost)) {
+    return new SmtpTransport({
+      host: smtpHost || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '1025', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASSWORD
+    })
+  }
+
+  return new MemoryTransport()
+}
@@ -15,6 +15,11 @@ const envSchema = z.object({
   NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN: z.string().optional(),
   NEXT_PUBLIC_WEATHER_API_KEY: z.string().optional(),
   GEMINI_API_KEY: z.string().optional(),
+  AI_PROVIDER: z.enum(["gemini", "openai", "fixture"]).optional(),
+  AI_MODEL: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_BASE_URL: z.string().optional(),
+  AI_FIXTURES_DIR: z.string().optional(),
   WEATHER_API_KEY: z.string().optional(),
   // Amadeus integration removed: AMADEUS_API_KEY and AMADEUS_API_SECRET omitted
   USE_MOCKS: z.string().optional(),
@@ -0,0 +1,452 @@
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { NotificationService } from './notification-service'
+import { ServiceError } from './service-error'
+import { convertAmount, CurrencyError, CurrencyService, currencyCodeSchema } from './currency-service'
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_CATEGORY_LABELS,
+  ExpenseCategory,
+  ExpenseSummary,
+  SpendEntry,
+  SpendPlan,
+  summariseSpend
+} from './expense-summary'
+import { computeBalances, settleUp, splitAmount, SplitEntry, SplitRule } from './expense-splitting'
+
+// Who shares an expense; stored resolved to a SplitRule
+export const splitInputSchema = z.discriminatedUnion('type', [
+  // Everyone on the trip except the excluded members
+  z.object({ type: z.literal('equal'), excludedUserIds: z.array(z.string().min(1)).default([]) }),
+  z.object({ type: z.literal('shares'), shares: z.record(z.string(), z.number().positive()) }),
+  // In the expense's currency; must add up to its amount
+  z.object({ type: z.literal('exact'), amounts: z.record(z.string(), z.number().min(0)) })
+])
+
+export type SplitInput = z.infer<typeof splitInputSchema>
+
+export const expenseInputSchema = z.object({
+  amount: z.number().positive(),
+  currency: currencyCodeSchema,
+  category: z.enum(EXPENSE_CATEGORIES),
+  description: z.string().trim().min(1, 'Describe the expense').max(200),
+  // Defaults to the member logging the expense
+  paidById: z.string().min(1).optional(),
+  activityId: z.string().min(1).nullable().optional(),
+  receiptNote: z.string().max(1000).nullable().optional(),
+  spentAt: z.string().datetime().optional(),
+  // Null or left out splits equally between everyone on the trip now; on
+  // updates, left out keeps the current split
+  split: splitInputSchema.nullable().optional()
+})
+
+export const expenseUpdateSchema = expenseInputSchema.partial()
+
+export type ExpenseInput = z.infer<typeof expenseInputSchema>
+export type ExpenseUpdate = z.infer<typeof expenseUpdateSchema>
+
+export class ExpenseError extends ServiceError {
+  name = 'ExpenseError'
+}
+
+const expenseInclude = {
+  paidBy: { select: { id: true, name: true, email: true } },
+  activity: { select: { id: true, name: true } }
+} as const
+
+export class ExpenseService {
+  /**
+   * Every expense on the trip, newest first, with spending against plan
+   */
+  static async getForTrip(tripId: string, userId: string) {
+    const { canLogExpenses, role } = await this.authorize(tripId, userId)
+
+    const [expenses, summary] = await Promise.all([
+      db.expense.findMany({
+        where: { tripId },
+        include: expenseInclude,
+        orderBy: { spentAt: 'desc' }
+      }),
+      this.getSummary(tripId)
+    ])
+
+    return {
+      expenses: expenses.map(expense => ({
+        ...expense,
+        canEdit: canLogExpenses && (expense.createdById === userId || role === 'OWNER' || role === 'ADMIN')
+      })),
+      summary,
+      canLog: canLogExpenses
+    }
+  }
+
+  /**
+   * Log an expense. Members are told when it pushes a category over its plan.
+   */
+  static async createExpense(tripId: string, userId: string, input: ExpenseInput) {
+    await this.authorize(tripId, userId, true)
+    await this.assertReferences(tripId, input)
+    const split = await this.resolveSplit(tripId, input.split ?? null, input.amount)
+
+    const before = await this.getSummary(tripId)
+    const expense = await db.expense.create({
+      data: {
+        tripId,
+        createdById: userId,
+        paidById: input.paidById ?? userId,
+        activityId: input.activityId ?? null,
+        amount: input.amount,
+        currency: input.currency,
+        category: input.category,
+        description: input.description,
+        receiptNote: input.receiptNote ?? null,
+        split: split as Prisma.InputJsonValue,
+        spentAt: input.spentAt ? new Date(input.spentAt) : new Date()
+      },
+      include: expenseInclude
+    })
+
+    await this.notifyOverrun(tripId, userId, input.category, before)
+    return expense
+  }
+
+  /**
+   * Change an expense. Its logger, the owner and admins can edit it.
+   */
+  static async updateExpense(tripId: string, expenseId: string, userId: string, input: ExpenseUpdate) {
+    const existing = await this.findEditable(tripId, expenseId, userId)
+    await this.assertReferences(tripId, input)
+
+    const { split: splitInput, spentAt, ...fields } = input
+    const split = await this.resolveSplit(tripId, splitInput, input.amount ?? existing.amount)
+    if (split === undefined && input.amount !== undefined && (existing.split as SplitRule | null)?.type === 'exact') {
+      throw new ExpenseError('Update the split amounts to match the new total', 400)
+    }
+
+    const before = input.amount !== undefined || input.currency !== undefined || input.category !== undefined
+      ? await this.getSummary(tripId)
+      : null
+
+    const expense = await db.expense.update({
+      where: { id: expenseId },
+      data: {
+        ...fields,
+        ...(spentAt && { spentAt: new Date(spentAt) }),
+        ...(split !== undefined && { split: split as Prisma.InputJsonValue })
+      },
+      include: expenseInclude
+    })
+
+    if (before) {
+      await this.notifyOverrun(tripId, userId, expense.category as ExpenseCategory, before)
+    }
+    return expense
+  }
+
+  static async deleteExpense(tripId: string, expenseId: string, userId: string) {
+    await this.findEditable(tripId, expenseId, userId)
+    await db.expense.delete({ where: { id: expenseId } })
+  }
+
+  /**
+   * Planned against actual spending in the trip's display currency. Plans
+   * come from the trip budget, the itinerary's budget breakdown and each
+   * day's budget; completed trips convert at the rates of their last day.
+   */
+  static async getSummary(tripId: string): Promise<ExpenseSummary & { rateDate: string; excluded: number }> {
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        status: true,
+        endDate: true,
+        budget: true,
+        currency: true,
+        displayCurrency: true,
+        itineraryData: { select: { budgetBreakdown: true } },
+        days: { orderBy: { dayNumber: 'asc' }, select: { id: true, dayNumber: true, date: true, dailyBudget: true } },
+        expenses: { select: { amount: true, currency: true, category: true, spentAt: true, activity: { select: { dayId: true } } } }
+      }
+    })
+    if (!trip) {
+      throw new ExpenseError('Trip not found', 404)
+    }
+
+    const budgetCurrency = trip.currency || 'USD'
+    const { currency, rateDate, convert } = await this.converterFor(trip)
+
+    const breakdown = (trip.itineraryData?.budgetBreakdown ?? {}) as Partial<Record<ExpenseCategory, unknown>>
+    const categories: SpendPlan['categories'] = {}
+    for (const category of EXPENSE_CATEGORIES) {
+      const planned = breakdown[category]
+      const converted = typeof planned === 'number' ? convert(planned, budgetCurrency) : null
+      if (converted !== null) categories[category] = converted
+    }
+
+    const plan: SpendPlan = {
+      total: trip.budget != null ? convert(trip.budget, budgetCurrency) : null,
+      categories,
+      days: trip.days.map(day => {
+        const dailyBudget = day.dailyBudget as { amount?: number; currency?: string } | null
+        return {
+          dayNumber: day.dayNumber,
+          date: day.date,
+          planned: typeof dailyBudget?.amount === 'number'
+            ? convert(dailyBudget.amount, dailyBudget.currency || budgetCurrency)
+            : null
+        }
+      })
+    }
+
+    // Expenses belong to their activity's day, otherwise to the day they were spent on
+    const dayById = new Map(trip.days.map(day => [day.id, day.dayNumber]))
+    const dayByDate = new Map(trip.days.map(day => [day.date.slice(0, 10), day.dayNumber]))
+    const entries: SpendEntry[] = []
+    let excluded = 0
+    for (const expense of trip.expenses) {
+      const amount = convert(expense.amount, expense.currency)
+      if (amount === null) {
+        excluded++
+        continue
+      }
+      entries.push({
+        amount,
+        category: expense.category as ExpenseCategory,
+        dayNumber: (expense.activity?.dayId && dayById.get(expense.activity.dayId)) ||
+          dayByDate.get(expense.spentAt.toISOString().slice(0, 10)) ||
+          null
+      })
+    }
+
+    return { ...summariseSpend(plan, entries, currency), rateDate, excluded }
+  }
+
+  /**
+   * Each member's running balance and the fewest payments that settle them,
+   * in the trip's display currency
+   */
+  static async getSettlement(tripId: string, userId: string) {
+    await this.authorize(tripId, userId)
+
+    const trip = await db.trip.findUniqueOrThrow({
+      where: { id: tripId },
+      select: {
+        title: true,
+        status: true,
+        endDate: true,
+        currency: true,
+        displayCurrency: true,
+        expenses: {
+          orderBy: { spentAt: 'asc' },
+          include: { paidBy: { select: { id: true, name: true, email: true } } }
+        }
+      }
+    })
+    const { currency, rateDate, convert } = await this.converterFor(trip)
+    const members = await CollaborationService.getTravellers(tripId)
+    const memberIds = members.map(member => member.id)
+
+    const expenses: Array<{
+      id: string
+      spentAt: Date
+      description: string
+      category: string
+      paidById: string
+      amount: number
+      currency: string
+      converted: number
+      parts: Record<string, number>
+    }> = []
+    const entries: SplitEntry[] = []
+    let excluded = 0
+
+    for (const expense of trip.expenses) {
+      const converted = convert(expense.amount, expense.currency)
+      if (converted === null) {
+        excluded++
+        continue
+      }
+
+      // Expenses logged before splits were always stored fall back to everyone
+      const split = (expense.split as SplitRule | null) ?? { type: 'equal', userIds: memberIds }
+      entries.push({ paidById: expense.paidById, amount: converted, split })
+      expenses.push({
+        id: expense.id,
+        spentAt: expense.spentAt,
+        description: expense.description,
+        category: expense.category,
+        paidById: expense.paidById,
+        amount: expense.amount,
+        currency: expense.currency,
+        converted: Math.round(converted * 100) / 100,
+        parts: splitAmount(converted, split)
+      })
+    }
+
+    // Former members can still be part of old expenses
+    const balances = computeBalances(entries, memberIds)
+    const missing = balances.map(balance => balance.userId).filter(id => !memberIds.includes(id))
+    const others = missing.length > 0
+      ? await db.user.findMany({ where: { id: { in: missing } }, select: { id: true, name: true, email: true } })
+      : []
+    const names = new Map([...members, ...others].map(user => [user.id, user.name || user.email]))
+    const nameOf = (id: string) => names.get(id) ?? 'Former member'
+
+    return {
+      tripTitle: trip.title,
+      currency,
+      rateDate,
+      excluded,
+      balances: balances.map(balance => ({ ...balance, name: nameOf(balance.userId) })),
+      transfers: settleUp(balances).map(transfer => ({
+        ...transfer,
+        fromName: nameOf(transfer.fromUserId),
+        toName: nameOf(transfer.toUserId)
+      })),
+      expenses: expenses.map(expense => ({ ...expense, paidByName: nameOf(expense.paidById) }))
+    }
+  }
+
+  /**
+   * The settlement as a spreadsheet: every expense with each member's part,
+   * then balances, then who pays whom
+   */
+  static settlementCsv(settlement: Awaited<ReturnType<typeof ExpenseService.getSettlement>>): string {
+    const people = settlement.balances
+    const rows: (string | number)[][] = [
+      ['Date', 'Description', 'Category', 'Paid by', 'Amount', 'Currency', `Amount (${settlement.currency})`, ...people.map(person => person.name)],
+      ...settlement.expenses.map(expense => [
+        expense.spentAt.toISOString().slice(0, 10),
+        expense.description,
+        EXPENSE_CATEGORY_LABELS[expense.category as ExpenseCategory] ?? expense.category,
+        expense.paidByName,
+        expense.amount,
+        expense.currency,
+        expense.converted,
+        ...people.map(person => expense.parts[person.userId] ?? 0)
+      ]),
+      [],
+      ['Member', `Paid (${settlement.currency})`, `Share (${settlement.currency})`, `Balance (${settlement.currency})`],
+      ...people.map(person => [person.name, person.paid, person.owed, person.balance]),
+      [],
+      ['From', 'To', `Amount (${settlement.currency})`],
+      ...settlement.transfers.map(transfer => [transfer.fromName, transfer.toName, transfer.amount])
+    ]
+
+    return rows
+      .map(row => row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(','))
+      .join('\n')
+  }
+
+  // Converts into the trip's display currency at the trip's rate date
+  private static async converterFor(trip: { status: string; endDate: Date; currency: string | null; displayCurrency: string | null }) {
+    const currency = trip.displayCurrency || trip.currency || 'USD'
+    const snapshot = await CurrencyService.getSnapshot(CurrencyService.rateDateForTrip(trip))
+    const convert = (amount: number, from: string) => {
+      try {
+        return convertAmount(amount, from, currency, snapshot)
+      } catch (error) {
+        if (error instanceof CurrencyError) return null
+        throw error
+      }
+    }
+    return { currency, rateDate: snapshot.rateDate, convert }
+  }
+
+  /**
+   * Null means an equal split between today's members, stored as such so
+   * people who join later don't owe for it. Undefined leaves the split alone.
+   */
+  private static async resolveSplit(tripId: string, input: SplitInput | null | undefined, amount: number): Promise<SplitRule | undefined> {
+    if (input === undefined) return undefined
+    const split: SplitInput = input ?? { type: 'equal', excludedUserIds: [] }
+
+    const memberIds = (await CollaborationService.getTravellers(tripId)).map(member => member.id)
+    const named = split.type === 'equal'
+      ? split.excludedUserIds
+      : Object.keys(split.type === 'shares' ? split.shares : split.amounts)
+    if (named.some(id => !memberIds.includes(id))) {
+      throw new ExpenseError('Expenses can only be split between members of the trip', 400)
+    }
+
+    switch (split.type) {
+      case 'equal': {
+        const userIds = memberIds.filter(id => !split.excludedUserIds.includes(id))
+        if (userIds.length === 0) {
+          throw new ExpenseError('An expense has to be split with at least one member', 400)
+        }
+        return { type: 'equal', userIds }
+      }
+      case 'shares':
+        if (named.length === 0) {
+          throw new ExpenseError('An expense has to be split with at least one member', 400)
+        }
+        return { type: 'shares', shares: split.shares }
+      case 'exact': {
+        const total = Object.values(split.amounts).reduce((sum, part) => sum + part, 0)
+        if (Math.abs(total - amount) > 0.01) {
+          throw new ExpenseError(`The split amounts add up to ${Math.round(total * 100) / 100}, not ${amount}`, 400)
+        }
+        return { type: 'exact', amounts: split.amounts }
+      }
+    }
+  }
+
+  private static async authorize(tripId: string, userId: string, requireLog = false) {
+    const { trip, role, permissions: { canLogExpenses } } = await CollaborationService.getTripAccess(tripId, userId, ExpenseError)
+    if (requireLog && !canLogExpenses) {
+      throw new ExpenseError(
+        role === 'VIEWER'
+          ? 'Viewers cannot log expenses'
+          : `Expenses can only be logged once the trip is active, not while it is ${trip.status.toLowerCase()}`,
+        403
+      )
+    }
+
+    return { role, canLogExpenses }
+  }
+
+  private static async findEditable(tripId: string, expenseId: string, userId: string) {
+    const { role } = await this.authorize(tripId, userId, true)
+
+    const expense = await db.expense.findFirst({ where: { id: expenseId, tripId } })
+    if (!expense) {
+      throw new ExpenseError('Expense not found', 404)
+    }
+    if (expense.createdById !== userId && role !== 'OWNER' && role !== 'ADMIN') {
+      throw new ExpenseError('Only the person who logged an expense can change it', 403)
+    }
+    return expense
+  }
+
+  // The payer has to be on the trip, and a linked activity part of it
+  private static async assertReferences(tripId: string, input: ExpenseUpdate) {
+    if (input.paidById && !await CollaborationService.getMemberRole(tripId, input.paidById)) {
+      throw new ExpenseError('The payer is not a member of this trip', 400)
+    }
+
+    if (input.activityId) {
+      const activity = await db.activity.findFirst({ where: { id: input.activityId, tripId }, select: { id: true } })
+      if (!activity) {
+        throw new ExpenseError('Activity not found on this trip', 400)
+      }
+    }
+  }
+
+  private static async notifyOverrun(tripId: string, userId: string, category: ExpenseCategory, before: ExpenseSummary) {
+    const after = await this.getSummary(tripId)
+    const wasOver = before.categories.find(line => line.category === category)?.status === 'over'
+    const warning = after.warnings.find(line => line.category === category && line.status === 'over')
+    if (wasOver || !warning) return
+
+    await NotificationService.notifyTripMembers(tripId, userId, {
+      type: 'TRIP_UPDATE',
+      title: `${EXPENSE_CATEGORY_LABELS[category]} budget exceeded`,
+      message: warning.message,
+      data: { url: NotificationService.tripUrl(tripId), category }
+    })
+  }
+}
+
+export default ExpenseService
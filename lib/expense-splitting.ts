@@ -0,0 +1,130 @@
+// How an expense is divided between members, as stored with it. Equal splits
+// keep the members they were split between so later joiners don't owe for them.
+export type SplitRule =
+  | { type: 'equal'; userIds: string[] }
+  | { type: 'shares'; shares: Record<string, number> }
+  | { type: 'exact'; amounts: Record<string, number> }
+
+export interface SplitEntry {
+  paidById: string
+  // In the settlement currency
+  amount: number
+  split: SplitRule
+}
+
+export interface MemberBalance {
+  userId: string
+  paid: number
+  owed: number
+  // Positive when the member is owed money, negative when they owe it
+  balance: number
+}
+
+export interface Transfer {
+  fromUserId: string
+  toUserId: string
+  amount: number
+}
+
+const toCents = (amount: number) => Math.round(amount * 100)
+const fromCents = (cents: number) => cents / 100
+
+function weightsFor(split: SplitRule): [string, number][] {
+  switch (split.type) {
+    case 'equal':
+      return split.userIds.map(userId => [userId, 1])
+    case 'shares':
+      return Object.entries(split.shares)
+    case 'exact':
+      // Exact amounts were entered in the expense's own currency; as weights they survive conversion
+      return Object.entries(split.amounts)
+  }
+}
+
+/**
+ * Divide an amount by weight to the cent. Leftover cents go to the largest
+ * remainders, so the parts always add up to the amount.
+ */
+function distribute(cents: number, weights: [string, number][]): Map<string, number> {
+  const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0)
+  const parts = new Map<string, number>()
+  if (totalWeight <= 0) return parts
+
+  const exact = weights.map(([userId, weight]) => ({ userId, value: (cents * weight) / totalWeight }))
+  let remaining = cents
+  for (const part of exact) {
+    const floored = Math.floor(part.value)
+    parts.set(part.userId, (parts.get(part.userId) ?? 0) + floored)
+    remaining -= floored
+  }
+
+  const byRemainder = [...exact].sort((a, b) => (b.value - Math.floor(b.value)) - (a.value - Math.floor(a.value)))
+  for (let index = 0; remaining > 0; index = (index + 1) % byRemainder.length, remaining--) {
+    const userId = byRemainder[index].userId
+    parts.set(userId, parts.get(userId)! + 1)
+  }
+
+  return parts
+}
+
+/**
+ * Each member's part of an expense
+ */
+export function splitAmount(amount: number, split: SplitRule): Record<string, number> {
+  return Object.fromEntries(
+    [...distribute(toCents(amount), weightsFor(split))].map(([userId, cents]) => [userId, fromCents(cents)])
+  )
+}
+
+/**
+ * What each member paid, what their parts of every expense add up to, and
+ * the difference. Members with nothing paid or owed are still listed.
+ */
+export function computeBalances(entries: SplitEntry[], memberIds: string[] = []): MemberBalance[] {
+  const paid = new Map<string, number>(memberIds.map(userId => [userId, 0]))
+  const owed = new Map<string, number>(memberIds.map(userId => [userId, 0]))
+
+  for (const entry of entries) {
+    const cents = toCents(entry.amount)
+    paid.set(entry.paidById, (paid.get(entry.paidById) ?? 0) + cents)
+    owed.set(entry.paidById, owed.get(entry.paidById) ?? 0)
+    for (const [userId, part] of distribute(cents, weightsFor(entry.split))) {
+      owed.set(userId, (owed.get(userId) ?? 0) + part)
+      paid.set(userId, paid.get(userId) ?? 0)
+    }
+  }
+
+  return [...paid.keys()].map(userId => ({
+    userId,
+    paid: fromCents(paid.get(userId)!),
+    owed: fromCents(owed.get(userId) ?? 0),
+    balance: fromCents(paid.get(userId)! - (owed.get(userId) ?? 0))
+  }))
+}
+
+/**
+ * Payments that settle every balance. Repeatedly pays the largest creditor
+ * from the largest debtor, which needs at most one transfer fewer than there
+ * are members with a balance.
+ */
+export function settleUp(balances: MemberBalance[]): Transfer[] {
+  const creditors = balances.filter(member => member.balance > 0).map(member => ({ userId: member.userId, cents: toCents(member.balance) }))
+  const debtors = balances.filter(member => member.balance < 0).map(member => ({ userId: member.userId, cents: -toCents(member.balance) }))
+  const transfers: Transfer[] = []
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.cents - a.cents)
+    debtors.sort((a, b) => b.cents - a.cents)
+    const creditor = creditors[0]
+    const debtor = debtors[0]
+    const cents = Math.min(creditor.cents, debtor.cents)
+
+    transfers.push({ fromUserId: debtor.userId, toUserId: creditor.userId, amount: fromCents(cents) })
+    creditor.cents -= cents
+    debtor.cents -= cents
+    if (creditor.cents === 0) creditors.shift()
+    if (debtor.cents === 0) debtors.shift()
+  }
+
+  return transfers
+}
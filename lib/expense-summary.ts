@@ -0,0 +1,127 @@
+import type { BudgetBreakdown } from './budget-calculator'
+import { formatCurrency } from './utils'
+
+export type ExpenseCategory = keyof BudgetBreakdown
+
+export const EXPENSE_CATEGORIES = ['accommodation', 'food', 'activities', 'transportation', 'other'] as const
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  accommodation: 'Accommodation',
+  food: 'Food',
+  activities: 'Activities',
+  transportation: 'Transportation',
+  other: 'Other'
+}
+
+// Share of a plan at which spending is flagged before it overruns
+const WARNING_RATIO = 0.9
+
+export type SpendStatus = 'ok' | 'warning' | 'over'
+
+export interface SpendLine {
+  // Null when nothing was planned for it
+  planned: number | null
+  actual: number
+  status: SpendStatus
+}
+
+export interface CategorySpend extends SpendLine {
+  category: ExpenseCategory
+}
+
+export interface DaySpend extends SpendLine {
+  dayNumber: number
+  date: string
+}
+
+export interface BudgetWarning {
+  category: ExpenseCategory | 'total'
+  status: Exclude<SpendStatus, 'ok'>
+  message: string
+}
+
+export interface SpendPlan {
+  total: number | null
+  categories: Partial<Record<ExpenseCategory, number>>
+  days: { dayNumber: number; date: string; planned: number | null }[]
+}
+
+// An expense already converted to the summary currency
+export interface SpendEntry {
+  amount: number
+  category: ExpenseCategory
+  dayNumber: number | null
+}
+
+export interface ExpenseSummary {
+  currency: string
+  total: SpendLine
+  categories: CategorySpend[]
+  days: DaySpend[]
+  // Spent outside the itinerary's days, e.g. flights booked beforehand
+  unassigned: number
+  warnings: BudgetWarning[]
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function spendLine(planned: number | null, actual: number): SpendLine {
+  let status: SpendStatus = 'ok'
+  if (planned !== null && actual > planned) {
+    status = 'over'
+  } else if (planned !== null && planned > 0 && actual >= planned * WARNING_RATIO) {
+    status = 'warning'
+  }
+
+  return { planned: planned === null ? null : round(planned), actual: round(actual), status }
+}
+
+function warningFor(label: string, line: SpendLine, currency: string): string {
+  if (line.status === 'over') {
+    return `${label} spending is ${formatCurrency(line.actual - line.planned!, currency)} over plan`
+  }
+  return `${label} spending has reached ${Math.round((line.actual / line.planned!) * 100)}% of plan`
+}
+
+/**
+ * Planned against actual spending for the whole trip, each budget category
+ * and each day, with a warning for everything close to or over its plan.
+ */
+export function summariseSpend(plan: SpendPlan, entries: SpendEntry[], currency: string): ExpenseSummary {
+  const sum = (matching: SpendEntry[]) => matching.reduce((total, entry) => total + entry.amount, 0)
+
+  const total = spendLine(plan.total, sum(entries))
+  const categories = EXPENSE_CATEGORIES.map(category => ({
+    category,
+    ...spendLine(plan.categories[category] ?? null, sum(entries.filter(entry => entry.category === category)))
+  }))
+  const days = plan.days.map(day => ({
+    dayNumber: day.dayNumber,
+    date: day.date,
+    ...spendLine(day.planned, sum(entries.filter(entry => entry.dayNumber === day.dayNumber)))
+  }))
+
+  const warnings: BudgetWarning[] = []
+  for (const line of categories) {
+    if (line.status === 'ok') continue
+    warnings.push({
+      category: line.category,
+      status: line.status,
+      message: warningFor(EXPENSE_CATEGORY_LABELS[line.category], line, currency)
+    })
+  }
+  if (total.status !== 'ok') {
+    warnings.push({ category: 'total', status: total.status, message: warningFor('Total', total, currency) })
+  }
+
+  return {
+    currency,
+    total,
+    categories,
+    days,
+    unassigned: round(sum(entries.filter(entry => entry.dayNumber === null))),
+    warnings
+  }
+}
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs'
+import { z } from 'zod'
+import { currencyRates } from './budget-calculator'
+
+export interface FxRates {
+  // Day the rates were published (YYYY-MM-DD)
+  date: string
+  base: string
+  // Units of each currency per one unit of base
+  rates: Record<string, number>
+}
+
+/**
+ * Where exchange rates come from. Implementations: the European Central
+ * Bank reference rates, any Frankfurter-style JSON endpoint, and a local
+ * fixture for tests and offline development.
+ */
+export interface RateSource {
+  readonly name: string
+  // Rates for the given day, or the latest ones; may return an earlier publication day
+  fetchRates(date?: string): Promise<FxRates>
+}
+
+const ECB_DAILY_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml'
+const ECB_HISTORY_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist-90d.xml'
+// Every publication since 1999; only fetched for days the 90-day file no longer covers
+const ECB_FULL_HISTORY_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist.xml'
+// A few days of slack so weekends and holidays at the edge stay in the short file
+const ECB_HISTORY_DAYS = 85
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Trip pages wait on rates the first time a day is needed, so never hang on a slow source
+const RATE_FETCH_TIMEOUT_MS = 10_000
+
+/**
+ * Parse an ECB eurofxref document into one entry per publication day,
+ * newest first.
+ */
+export function parseEcbXml(xml: string): FxRates[] {
+  const days: FxRates[] = []
+  const dayPattern = /<Cube\s+time=['"](\d{4}-\d{2}-\d{2})['"]\s*>([\s\S]*?)<\/Cube>/g
+  const ratePattern = /<Cube\s+currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]\s*\/>/g
+
+  for (const [, date, body] of xml.matchAll(dayPattern)) {
+    const rates: Record<string, number> = { EUR: 1 }
+    for (const [, currency, rate] of body.matchAll(ratePattern)) {
+      rates[currency] = Number(rate)
+    }
+    days.push({ date, base: 'EUR', rates })
+  }
+
+  return days.sort((a, b) => b.date.localeCompare(a.date))
+}
+
+export class EcbRateSource implements RateSource {
+  readonly name = 'ecb'
+
+  async fetchRates(date?: string): Promise<FxRates> {
+    const daily = await this.fetchDays(ECB_DAILY_URL)
+    if (!date || daily[0]?.date <= date) {
+      if (!daily[0]) throw new Error('ECB daily rates are empty')
+      return daily[0]
+    }
+
+    // The ECB publishes no rates on weekends and holidays, so use the last day before
+    const recentFrom = new Date(Date.now() - ECB_HISTORY_DAYS * DAY_MS).toISOString().slice(0, 10)
+    const history = await this.fetchDays(date >= recentFrom ? ECB_HISTORY_URL : ECB_FULL_HISTORY_URL)
+    const match = history.find(day => day.date <= date)
+    if (!match) {
+      throw new Error(`No ECB rates on or before ${date}`)
+    }
+    return match
+  }
+
+  private async fetchDays(url: string): Promise<FxRates[]> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(RATE_FETCH_TIMEOUT_MS) })
+    if (!response.ok) {
+      throw new Error(`ECB rates request failed: ${response.status} ${response.statusText}`)
+    }
+    return parseEcbXml(await response.text())
+  }
+}
+
+const jsonRatesSchema = z.object({
+  base: z.string().length(3),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  rates: z.record(z.string(), z.number().positive())
+})
+
+/**
+ * Any endpoint answering `{ base, date, rates }`, such as Frankfurter.
+ * A `{date}` placeholder in the URL is replaced with the requested day,
+ * or `latest`.
+ */
+export class JsonRateSource implements RateSource {
+  readonly name = 'json'
+
+  constructor(private url: string) {}
+
+  async fetchRates(date?: string): Promise<FxRates> {
+    const response = await fetch(this.url.replace('{date}', date ?? 'latest'), {
+      signal: AbortSignal.timeout(RATE_FETCH_TIMEOUT_MS)
+    })
+    if (!response.ok) {
+      throw new Error(`Exchange rate request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const data = jsonRatesSchema.parse(await response.json())
+    return { ...data, rates: { ...data.rates, [data.base]: 1 } }
+  }
+}
+
+/**
+ * Fixed rates from a JSON file in the `{ base, date, rates }` shape, or the
+ * budget calculator's built-in USD table when no file is given.
+ */
+export class FixtureRateSource implements RateSource {
+  readonly name = 'fixture'
+
+  constructor(private file?: string) {}
+
+  async fetchRates(date?: string): Promise<FxRates> {
+    const today = new Date().toISOString().slice(0, 10)
+
+    if (!this.file) {
+      return { date: date ?? today, base: 'USD', rates: { ...currencyRates } }
+    }
+
+    const data = jsonRatesSchema.partial({ date: true }).parse(JSON.parse(await fs.readFile(this.file, 'utf8')))
+    return { date: date ?? data.date ?? today, base: data.base, rates: { ...data.rates, [data.base]: 1 } }
+  }
+}
+
+/**
+ * Pick the source from `FX_RATE_SOURCE` (`ecb`, `json` or `fixture`).
+ * `json` reads its endpoint from `FX_RATES_URL`; `fixture` reads an
+ * optional file from `FX_RATES_FIXTURE`. Defaults to the ECB.
+ */
+export function createRateSourceFromEnv(): RateSource {
+  const name = process.env.FX_RATE_SOURCE?.toLowerCase() || 'ecb'
+
+  switch (name) {
+    case 'ecb':
+      return new EcbRateSource()
+    case 'json':
+      if (!process.env.FX_RATES_URL) {
+        throw new Error('FX_RATE_SOURCE=json requires FX_RATES_URL')
+      }
+      return new JsonRateSource(process.env.FX_RATES_URL)
+    case 'fixture':
+      return new FixtureRateSource(process.env.FX_RATES_FIXTURE)
+    default:
+      throw new Error(`Unknown FX_RATE_SOURCE "${name}"`)
+  }
+}
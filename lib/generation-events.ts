@@ -0,0 +1,80 @@
+import type { RetryProgress } from './retry-logic'
+import type { GenerationFailure } from './itinerary-generation'
+import type { ItineraryResult } from './itinerary-service'
+
+export interface GenerationResult {
+  success: true
+  itinerary: ItineraryResult
+}
+
+/**
+ * Server-sent events emitted by the streaming generate-itinerary endpoint.
+ * `result` and `error` are terminal; `error` with category 'cancelled' follows a client abort.
+ */
+export type GenerationEvent =
+  | { type: 'progress'; progress: RetryProgress }
+  | { type: 'day'; index: number; day: unknown }
+  | { type: 'warning'; message: string }
+  | { type: 'result'; result: GenerationResult }
+  | { type: 'error'; failure: GenerationFailure }
+
+/**
+ * Encode one event as an SSE frame
+ */
+export function encodeGenerationEvent(event: GenerationEvent): string {
+  const { type, ...data } = event
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Read SSE frames from a fetch response body until the stream ends.
+ * Throws an AbortError if the request's signal is aborted mid-stream.
+ */
+export async function readGenerationEvents(
+  response: Response,
+  onEvent: (event: GenerationEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary >= 0) {
+      const frame = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      const event = parseFrame(frame)
+      if (event) onEvent(event)
+    }
+  }
+}
+
+function parseFrame(frame: string): GenerationEvent | null {
+  let type = 'message'
+  const dataLines: string[] = []
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) type = line.slice(6).trim()
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+  }
+
+  // Comment frames (keep-alives) carry no data
+  if (dataLines.length === 0) return null
+
+  try {
+    return { type, ...JSON.parse(dataLines.join('\n')) } as GenerationEvent
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,492 @@
+import { Activity, ActivityType, Prisma, Trip } from '@prisma/client'
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { getTripPermissions } from './trip-permissions'
+import { itineraryService, GenerationOptions, ItineraryResult } from './itinerary-service'
+import { TripStatusService } from './trip-status-service'
+import { emailService } from './email-service'
+import { RetryCancelledException, RetryExhaustedException } from './retry-logic'
+import { TripPreferencesService } from './trip-preferences'
+import { geocodingService } from './geocoding-service'
+import { Coordinates } from './coordinate-validation'
+import { EnhancedFormData } from './prompt-templates'
+import { TripLegService } from './trip-legs'
+import { MultiCityItineraryService, toItineraryLeg } from './multi-city-itinerary'
+
+export interface GenerationFailure {
+  status: number
+  error: string
+  details: string
+  retryable: boolean
+  category: 'cancelled' | 'retry_exhausted' | 'unknown'
+}
+
+export class ItineraryGenerationError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ItineraryGenerationError'
+    this.status = status
+  }
+}
+
+// Map AI activity types to the database enum
+export function mapActivityType(aiType: string): string {
+  const typeMapping: Record<string, string> = {
+    'attraction': 'ATTRACTION',
+    'restaurant': 'RESTAURANT',
+    'experience': 'EXPERIENCE',
+    'transportation': 'TRANSPORTATION',
+    'accommodation': 'ACCOMMODATION',
+    'museum': 'ATTRACTION', // Museums are attractions
+    'shopping': 'SHOPPING',
+    'dining': 'RESTAURANT',
+    'sightseeing': 'ATTRACTION',
+    'leisure': 'EXPERIENCE',
+    'other': 'OTHER'
+  }
+
+  return typeMapping[aiType.toLowerCase()] || 'OTHER'
+}
+
+/**
+ * Activities regeneration must leave alone: the user locked them, edited or
+ * added them by hand, or has started booking them. The where-clause and the
+ * predicate below are the same rule; change them together.
+ */
+export const PRESERVED_ACTIVITY: Prisma.ActivityWhereInput = {
+  OR: [
+    { locked: true },
+    { editedAt: { not: null } },
+    { bookingStatus: { not: 'NOT_BOOKED' } },
+    { booking: { isNot: null } }
+  ]
+}
+
+export function isPreserved(
+  activity: Pick<Activity, 'locked' | 'editedAt' | 'bookingStatus'> & { booking: { id: string } | null }
+): boolean {
+  return activity.locked || activity.editedAt !== null || activity.bookingStatus !== 'NOT_BOOKED' || activity.booking !== null
+}
+
+const TIME_SLOT_RANK: Record<string, number> = { morning: 0, afternoon: 1, evening: 2 }
+
+/**
+ * Turn a generation error into a user-facing message and HTTP status (FR-003.5)
+ */
+export function describeGenerationError(error: unknown): GenerationFailure {
+  let statusCode = 500
+  let errorMessage = 'Failed to generate itinerary'
+  let errorDetails = error instanceof Error ? error.message : 'Unknown error'
+
+  if (error instanceof ItineraryGenerationError) {
+    statusCode = error.status
+    errorMessage = error.message
+    errorDetails = error.message
+  } else if (error instanceof RetryCancelledException) {
+    statusCode = 499 // Client Closed Request
+    errorMessage = 'Generation cancelled'
+    errorDetails = 'The itinerary generation was cancelled by the user'
+  } else if (error instanceof RetryExhaustedException) {
+    statusCode = 503 // Service Unavailable
+    errorMessage = 'Generation failed after retries'
+    errorDetails = `Failed after ${error.attempts.length} attempts. Please try again later.`
+
+    // Extract last error for better user feedback
+    if (error.lastError?.message) {
+      if (error.lastError.message.includes('AI_QUOTA_EXCEEDED')) {
+        errorDetails = 'AI service quota exceeded. Please try again later.'
+      } else if (error.lastError.message.includes('AI_SERVICE_TIMEOUT')) {
+        errorDetails = 'AI service is taking too long. Please try again later.'
+      } else if (error.lastError.message.includes('RATE_LIMIT_ERROR')) {
+        errorDetails = 'Too many requests. Please wait a moment and try again.'
+      } else if (error.lastError.message.includes('AUTHENTICATION_ERROR')) {
+        statusCode = 401
+        errorDetails = 'Authentication failed. Please check your account settings.'
+      }
+    }
+  } else if (error instanceof Error) {
+    // Handle other specific error types
+    if (error.message.includes('timeout')) {
+      statusCode = 408
+      errorMessage = 'Request timeout'
+      errorDetails = 'The request took too long. Please try again.'
+    } else if (error.message.includes('not found')) {
+      statusCode = 404
+      errorMessage = 'Trip not found'
+      errorDetails = 'The specified trip could not be found.'
+    }
+  }
+
+  return {
+    status: statusCode,
+    error: errorMessage,
+    details: errorDetails,
+    retryable: !(error instanceof ItineraryGenerationError) && statusCode >= 500 && statusCode < 600, // Server errors are retryable
+    category: error instanceof RetryCancelledException ? 'cancelled' :
+      error instanceof RetryExhaustedException ? 'retry_exhausted' : 'unknown'
+  }
+}
+
+/**
+ * (Re)generate a saved trip's itinerary: call the AI, replace the stored
+ * days and activities (keeping locked, edited and booked ones), then move
+ * the trip to PLANNED and email the owner.
+ * Shared by the JSON and streaming generate-itinerary endpoints.
+ */
+export class ItineraryGenerationService {
+  static async generateForTrip(tripId: string, userId: string, options: GenerationOptions = {}): Promise<ItineraryResult> {
+    const trip = await this.authorize(tripId, userId)
+    const [formData, legs] = await Promise.all([
+      this.buildFormData(trip),
+      TripLegService.getLegs(trip.id)
+    ])
+    console.log('Calling AI service with form data:', JSON.stringify(formData, null, 2))
+
+    // Multi-city trips are planned leg by leg
+    const itineraryResult = legs.length > 1
+      ? await MultiCityItineraryService.generate(formData, legs.map(toItineraryLeg), options)
+      : await itineraryService.generateItinerary(formData, {
+        prioritizeSpeed: false,
+        useCache: true,
+        ...options
+      })
+
+    console.log('AI service response received:', {
+      hasItinerary: !!itineraryResult.itinerary,
+      itineraryKeys: itineraryResult.itinerary ? Object.keys(itineraryResult.itinerary) : [],
+      metadata: itineraryResult.metadata,
+      performance: itineraryResult.performance,
+      warnings: itineraryResult.warnings
+    })
+
+    // A cancel that lands after the AI finished shouldn't overwrite the saved itinerary
+    if (options.cancellationToken?.isCancelled) {
+      throw new RetryCancelledException('Generation cancelled before saving')
+    }
+
+    await this.save(trip.id, itineraryResult)
+    console.log('✅ Itinerary generated and saved successfully!')
+
+    await this.complete(trip, itineraryResult)
+    return itineraryResult
+  }
+
+  /**
+   * The trip, if the user may (re)generate its itinerary. Generation
+   * replaces the itinerary, so it needs canGenerateItinerary, not just membership.
+   */
+  static async authorize(tripId: string, userId: string): Promise<Trip> {
+    const trip = await db.trip.findUnique({ where: { id: tripId } })
+    const role = trip ? await CollaborationService.getMemberRole(tripId, userId) : null
+    if (!trip || !role) {
+      throw new ItineraryGenerationError('Trip not found', 404)
+    }
+
+    if (!getTripPermissions(trip, userId, role).canGenerateItinerary) {
+      throw new ItineraryGenerationError('You do not have permission to generate an itinerary for this trip', 403)
+    }
+    return trip
+  }
+
+  /**
+   * Form data for the AI, built from the preferences saved with the trip
+   * and the owner's profile defaults
+   */
+  static async buildFormData(trip: Trip): Promise<EnhancedFormData> {
+    const [saved, coordinates] = await Promise.all([
+      TripPreferencesService.resolve(trip),
+      this.destinationCoordinates(trip)
+    ])
+
+    return {
+      destination: {
+        destination: trip.destination,
+        ...(coordinates && { coordinates })
+      },
+      dateRange: {
+        startDate: new Date(trip.startDate),
+        endDate: new Date(trip.endDate)
+      },
+      budget: {
+        amount: trip.budget || 2000,
+        currency: trip.currency || 'USD',
+        range: 'total' as const
+      },
+      interests: saved.interests,
+      preferences: saved.preferences,
+      travelers: saved.travelers,
+      userContext: saved.travelStyle ? { travelStyle: saved.travelStyle } : undefined
+    }
+  }
+
+  /**
+   * Stored destination coordinates, geocoding (and saving) them for trips
+   * created without any. Generation works without coordinates, so a failed
+   * lookup is only logged.
+   */
+  private static async destinationCoordinates(trip: Trip): Promise<Coordinates | undefined> {
+    if (trip.destinationCoords) {
+      return trip.destinationCoords as unknown as Coordinates
+    }
+
+    try {
+      const { coordinates } = await geocodingService.geocode(trip.destination)
+      await db.trip.update({
+        where: { id: trip.id },
+        data: { destinationCoords: { lat: coordinates.lat, lng: coordinates.lng } }
+      })
+      return coordinates
+    } catch (error) {
+      console.warn(`Could not geocode "${trip.destination}", generating without coordinates:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * Older trips kept their itinerary only as raw JSON, with no Day rows for
+   * activities to be edited against. Write those rows out from the stored
+   * itinerary; returns false when there was nothing to restore.
+   */
+  static async restoreDays(tripId: string): Promise<boolean> {
+    const stored = await db.itineraryData.findFirst({
+      where: { tripId, trip: { days: { none: {} } } },
+      select: { rawData: true, metadata: true }
+    })
+    if (!stored) return false
+
+    const itinerary = stored.rawData as unknown as ItineraryResult['itinerary']
+    if (!itinerary?.itinerary?.days?.length) return false
+
+    await this.save(tripId, {
+      itinerary,
+      metadata: stored.metadata as unknown as ItineraryResult['metadata']
+    })
+    return true
+  }
+
+  /**
+   * Replace the trip's stored itinerary, days and activities in one
+   * transaction. Like targeted regeneration, it keeps locked, edited and
+   * booked activities, and with them their bookings, votes and comments;
+   * the new activities are fitted in around them.
+   */
+  static async save(tripId: string, itineraryResult: Pick<ItineraryResult, 'itinerary' | 'metadata'>): Promise<void> {
+    await db.$transaction(async (tx) => {
+      console.log('Starting database transaction...')
+
+      // Delete existing itinerary data if any
+      await tx.itineraryData.deleteMany({
+        where: { tripId }
+      })
+
+      const preserved = await tx.activity.findMany({
+        where: { tripId, ...PRESERVED_ACTIVITY },
+        select: { id: true, name: true, dayId: true }
+      })
+      const preservedNames = new Set(preserved.map(activity => activity.name.toLowerCase()))
+
+      await tx.activity.deleteMany({
+        where: { tripId, id: { notIn: preserved.map(activity => activity.id) } }
+      })
+
+      // Days holding preserved activities stay, so those activities keep their day
+      await tx.day.deleteMany({
+        where: { tripId, activities: { none: {} } }
+      })
+
+      // Save complete itinerary data
+      await tx.itineraryData.create({
+        data: {
+          tripId,
+          rawData: itineraryResult.itinerary,
+          metadata: itineraryResult.metadata || {},
+          generalTips: itineraryResult.itinerary?.itinerary?.generalTips || [],
+          emergencyInfo: itineraryResult.itinerary?.itinerary?.emergencyInfo || {},
+          budgetBreakdown: itineraryResult.itinerary?.itinerary?.totalBudgetEstimate?.breakdown || {}
+        }
+      })
+
+      console.log('Itinerary data saved')
+
+      // Save days and activities if they exist
+      if (itineraryResult.itinerary?.itinerary?.days) {
+        console.log(`Processing ${itineraryResult.itinerary.itinerary.days.length} days...`)
+
+        // Prepare all days data upfront
+        const daysData = itineraryResult.itinerary.itinerary.days.map((dayData, idx) => ({
+          tripId,
+          dayNumber: dayData.day || idx + 1,
+          date: dayData.date || new Date().toISOString().split('T')[0],
+          theme: dayData.theme || 'Day activities',
+          dailyBudget: dayData.dailyBudget || null,
+          transportation: dayData.transportation || null
+        }))
+
+        // Batch create the new days in a single query, then refresh the kept ones
+        const keptDayNumbers = new Set(
+          (await tx.day.findMany({ where: { tripId }, select: { dayNumber: true } })).map(day => day.dayNumber)
+        )
+        const newDays = daysData.filter(day => !keptDayNumbers.has(day.dayNumber))
+        await tx.day.createMany({
+          data: newDays,
+          skipDuplicates: true
+        })
+        for (const day of daysData.filter(day => keptDayNumbers.has(day.dayNumber))) {
+          await tx.day.update({
+            where: { tripId_dayNumber: { tripId, dayNumber: day.dayNumber } },
+            data: {
+              date: day.date,
+              theme: day.theme,
+              dailyBudget: day.dailyBudget ?? Prisma.DbNull,
+              transportation: day.transportation ?? Prisma.DbNull
+            }
+          })
+        }
+
+        console.log(`✅ Created ${newDays.length} days in batch`)
+
+        // Fetch created days to get IDs for activity mapping
+        const createdDays = await tx.day.findMany({
+          where: { tripId },
+          orderBy: { dayNumber: 'asc' },
+          select: { id: true, dayNumber: true }
+        })
+
+        // Create day ID lookup map
+        const dayIdMap = new Map(
+          createdDays.map(day => [day.dayNumber, day.id])
+        )
+
+        // Prepare ALL activities data upfront
+        const allActivitiesData: Prisma.ActivityCreateManyInput[] = []
+        for (let dayIndex = 0; dayIndex < itineraryResult.itinerary.itinerary.days.length; dayIndex++) {
+          const dayData = itineraryResult.itinerary.itinerary.days[dayIndex]
+          const dayId = dayIdMap.get(dayData.day || dayIndex + 1)
+
+          if (!dayId) {
+            console.warn(`Day ID not found for day ${dayData.day || dayIndex + 1}`)
+            continue
+          }
+
+          if (dayData.activities && Array.isArray(dayData.activities)) {
+            // Counted over what is written, so skipped copies leave no gap in the day's order
+            let order = 0
+            dayData.activities.forEach(activityData => {
+              // The kept version of an activity wins over a fresh copy of it
+              if (preservedNames.has((activityData.name || '').toLowerCase())) return
+
+              allActivitiesData.push({
+                tripId,
+                dayId,
+                name: activityData.name || 'Unnamed Activity',
+                description: activityData.description || '',
+                location: activityData.location?.name || '',
+                address: activityData.location?.address || '',
+                coordinates: activityData.location?.coordinates || null,
+                startTime: activityData.startTime || '',
+                endTime: activityData.endTime || '',
+                timeSlot: activityData.timeSlot || 'morning',
+                type: mapActivityType(activityData.type || 'other') as ActivityType,
+                price: activityData.pricing?.amount || null,
+                currency: activityData.pricing?.currency || 'USD',
+                priceType: activityData.pricing?.priceType || 'per_person',
+                duration: activityData.duration || '',
+                tips: Array.isArray(activityData.tips) ? activityData.tips : [],
+                bookingRequired: Boolean(activityData.bookingRequired),
+                accessibility: activityData.accessibility || {},
+                ...(activityData.openingHours && { openingHours: activityData.openingHours }),
+                order: order++
+              })
+            })
+          }
+        }
+
+        // Batch create ALL activities (in batches of 100 to avoid payload limits)
+        if (allActivitiesData.length > 0) {
+          const batchSize = 100
+          let totalCreated = 0
+
+          for (let i = 0; i < allActivitiesData.length; i += batchSize) {
+            const batch = allActivitiesData.slice(i, i + batchSize)
+            await tx.activity.createMany({
+              data: batch,
+              skipDuplicates: true
+            })
+            totalCreated += batch.length
+          }
+
+          console.log(`✅ Created ${totalCreated} activities in ${Math.ceil(allActivitiesData.length / batchSize)} batch(es)`)
+        }
+
+        // Fit the kept activities in among the new ones by time slot and start time
+        const keptDayIds = new Set(preserved.flatMap(activity => activity.dayId ? [activity.dayId] : []))
+        for (const dayId of keptDayIds) {
+          const activities = await tx.activity.findMany({
+            where: { dayId },
+            select: { id: true, timeSlot: true, startTime: true, order: true }
+          })
+          const ordered = activities.sort((a, b) =>
+            (TIME_SLOT_RANK[a.timeSlot ?? ''] ?? 0) - (TIME_SLOT_RANK[b.timeSlot ?? ''] ?? 0) ||
+            (a.startTime || '99:99').localeCompare(b.startTime || '99:99') ||
+            a.order - b.order
+          )
+          for (const [order, activity] of ordered.entries()) {
+            if (activity.order !== order) {
+              await tx.activity.update({ where: { id: activity.id }, data: { order } })
+            }
+          }
+        }
+      }
+
+      console.log('Transaction completed successfully')
+    }, {
+      timeout: 30000, // 30 second timeout
+      maxWait: 3000   // 3 second max wait for transaction to start
+    })
+  }
+
+  /**
+   * Post-save side effects. Neither failure fails the generation.
+   */
+  private static async complete(trip: Trip, itineraryResult: ItineraryResult): Promise<void> {
+    const days = itineraryResult.itinerary?.itinerary?.days || []
+    const activityCount = days.reduce((total, day) => total + (day.activities?.length || 0), 0)
+
+    // Automatically transition status from DRAFT to PLANNED after successful itinerary generation
+    try {
+      const statusTransition = await TripStatusService.autoTransitionStatus(
+        trip.id,
+        'itinerary_generated',
+        {
+          daysGenerated: days.length,
+          activitiesGenerated: activityCount,
+          generationMethod: itineraryResult.metadata?.generationMethod,
+          regeneratedAt: new Date().toISOString(),
+          manual: true // This was manually triggered
+        }
+      )
+
+      if (statusTransition.success && statusTransition.oldStatus !== statusTransition.newStatus) {
+        console.log(`Status successfully transitioned from ${statusTransition.oldStatus} to ${statusTransition.newStatus} for trip ${trip.id}`)
+      }
+    } catch (statusError) {
+      console.error('Error transitioning trip status:', statusError)
+    }
+
+    try {
+      await emailService.send('itinerary-ready', {
+        tripTitle: trip.title,
+        destination: trip.destination,
+        dayCount: days.length,
+        activityCount,
+        tripUrl: emailService.absoluteUrl(`/trip/${trip.id}`)
+      }, { category: 'itinerary', userId: trip.userId })
+    } catch (emailError) {
+      console.error('Error sending itinerary email:', emailError)
+    }
+  }
+}
+
+export default ItineraryGenerationService
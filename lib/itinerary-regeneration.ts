@@ -0,0 +1,344 @@
+import { Activity, Prisma } from '@prisma/client'
+import { db } from './db'
+import { itineraryService } from './itinerary-service'
+import { ActivityError, ActivityService } from './activity-service'
+import { ItineraryGenerationService, isPreserved, mapActivityType } from './itinerary-generation'
+import { ActivitySuggestion } from './itinerary-validation'
+import { RegenerateItineraryInput } from './activity-validation'
+import { CancellationToken, RetryCancelledException } from './retry-logic'
+import { TripLegService, legForDay } from './trip-legs'
+
+type TimeSlot = 'morning' | 'afternoon' | 'evening'
+
+const TIME_SLOTS: TimeSlot[] = ['morning', 'afternoon', 'evening']
+
+const SLOT_START: Record<TimeSlot, string> = {
+  morning: '09:00',
+  afternoon: '14:00',
+  evening: '19:00'
+}
+
+// What to ask for when the user hasn't said what they want
+const SLOT_ACTIVITY_TYPES: Record<TimeSlot, string> = {
+  morning: 'sightseeing or cultural',
+  afternoon: 'attraction, experience or shopping',
+  evening: 'dining or evening entertainment'
+}
+
+const DEFAULT_DURATION_MINUTES = 120
+
+export interface RegenerationResult {
+  dayNumber: number
+  added: Activity[]
+  removedIds: string[]
+  // Locked, edited or booked activities on the day that were left as they were
+  keptIds: string[]
+}
+
+interface SlotRequest {
+  timeSlot: TimeSlot
+  count: number
+  activityType: string
+  replacing?: string
+}
+
+interface RegenerationPlan {
+  dayId: string
+  dayNumber: number
+  date: string
+  remove: Array<Pick<Activity, 'id' | 'name'>>
+  keep: Array<Pick<Activity, 'id'>>
+  slots: SlotRequest[]
+  // Replacing a single activity puts the new one in its place
+  replaceAt?: number
+}
+
+type DayActivity = Pick<Activity, 'id' | 'name' | 'timeSlot' | 'type' | 'order' | 'locked' | 'editedAt' | 'bookingStatus'> & {
+  booking: { id: string } | null
+}
+
+function slotOf(activity: Pick<Activity, 'timeSlot'>): TimeSlot {
+  return TIME_SLOTS.includes(activity.timeSlot as TimeSlot) ? activity.timeSlot as TimeSlot : 'morning'
+}
+
+function parseDuration(value: string): number {
+  const hours = value.match(/(\d+(?:\.\d+)?)\s*h/i)
+  const minutes = value.match(/(\d+)\s*m/i)
+  if (!hours && !minutes) return DEFAULT_DURATION_MINUTES
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0))
+}
+
+function addMinutes(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number)
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59)
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+/**
+ * Regenerates part of a saved itinerary — one day, one activity or one empty
+ * time slot — and merges the result into the existing Day rows. Unlike full
+ * generation, preserved activities (see isPreserved) are never touched.
+ */
+export class ItineraryRegenerationService {
+  static async regenerate(
+    tripId: string,
+    userId: string,
+    input: RegenerateItineraryInput,
+    options: { cancellationToken?: CancellationToken } = {}
+  ): Promise<RegenerationResult> {
+    await ActivityService.assertCanEdit(
+      tripId,
+      userId,
+      input.scope === 'slot' ? ['canAddActivities'] : ['canAddActivities', 'canDeleteActivities']
+    )
+
+    const trip = await db.trip.findUniqueOrThrow({ where: { id: tripId } })
+    const days = await db.day.findMany({
+      where: { tripId },
+      orderBy: { dayNumber: 'asc' },
+      include: {
+        activities: {
+          orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+          select: {
+            id: true, name: true, timeSlot: true, type: true, order: true,
+            locked: true, editedAt: true, bookingStatus: true,
+            booking: { select: { id: true } }
+          }
+        }
+      }
+    })
+
+    const plan = this.plan(input, days)
+    const formData = await ItineraryGenerationService.buildFormData(trip)
+    const dailyBudget = formData.budget.amount / Math.max(days.length, 1)
+    const plannedNames = days.flatMap(day => day.activities.map(activity => activity.name))
+    // On multi-city trips, suggest things to do in the city the day is spent in
+    const leg = legForDay(trip.startDate, await TripLegService.getLegs(tripId), plan.dayNumber)
+    const destination = leg?.destination ?? formData.destination.destination
+
+    const suggestions: Array<{ timeSlot: TimeSlot; suggestion: ActivitySuggestion }> = []
+    for (const slot of plan.slots) {
+      // Ask for a couple of spares so repeats of planned activities can be dropped
+      const results = await itineraryService.suggestActivities({
+        destination,
+        activityType: slot.activityType,
+        timeSlot: slot.timeSlot,
+        interests: formData.interests,
+        budget: dailyBudget,
+        currency: trip.currency || 'USD',
+        context: {
+          count: Math.min(slot.count + 2, 5),
+          date: plan.date,
+          instructions: input.instructions,
+          replacing: slot.replacing,
+          exclude: plannedNames
+        }
+      }, { cancellationToken: options.cancellationToken })
+
+      const taken = new Set(plannedNames.map(name => name.toLowerCase()))
+      results
+        .filter(suggestion => !taken.has(suggestion.name.toLowerCase()))
+        .slice(0, slot.count)
+        .forEach(suggestion => {
+          taken.add(suggestion.name.toLowerCase())
+          suggestions.push({ timeSlot: slot.timeSlot, suggestion })
+        })
+    }
+
+    if (suggestions.length === 0) {
+      throw new ActivityError('The AI did not suggest anything new. Please try again.', 502)
+    }
+
+    if (options.cancellationToken?.isCancelled) {
+      throw new RetryCancelledException('Regeneration cancelled before saving')
+    }
+
+    const result = await db.$transaction(async (tx) => {
+      // Re-check under the transaction: anything locked or edited meanwhile stays
+      const removable = plan.remove.map(activity => activity.id)
+      const { count } = await tx.activity.deleteMany({
+        where: input.scope === 'activity'
+          ? { id: { in: removable }, locked: false }
+          : { id: { in: removable }, locked: false, editedAt: null, bookingStatus: 'NOT_BOOKED' }
+      })
+      if (count !== removable.length) {
+        throw new ActivityError('The itinerary changed while regenerating. Please try again.', 409)
+      }
+
+      const added = await this.createActivities(tx, tripId, plan.dayId, trip.currency || 'USD', suggestions)
+      await this.mergeOrder(tx, plan.dayId, added, plan.replaceAt)
+
+      return {
+        dayNumber: plan.dayNumber,
+        added: await tx.activity.findMany({
+          where: { id: { in: added.map(activity => activity.id) } },
+          orderBy: { order: 'asc' }
+        }),
+        removedIds: removable,
+        keptIds: plan.keep.map(activity => activity.id)
+      }
+    }, {
+      timeout: 30000,
+      maxWait: 3000
+    })
+
+    const change = input.scope === 'activity'
+      ? `replaced "${plan.remove[0].name}" with "${result.added[0].name}"`
+      : input.scope === 'slot'
+        ? `filled the ${input.timeSlot} of day ${plan.dayNumber}`
+        : `regenerated day ${plan.dayNumber}`
+    await ActivityService.notifyChange(tripId, userId, change, input.scope === 'activity' ? result.added[0].id : undefined)
+
+    return result
+  }
+
+  // Work out what to remove, what to keep and what to ask the AI for
+  private static plan(
+    input: RegenerateItineraryInput,
+    days: Array<{ id: string; dayNumber: number; date: string; activities: DayActivity[] }>
+  ): RegenerationPlan {
+    if (input.scope === 'activity') {
+      const day = days.find(candidate => candidate.activities.some(activity => activity.id === input.activityId))
+      const activity = day?.activities.find(candidate => candidate.id === input.activityId)
+      if (!day || !activity) {
+        throw new ActivityError(`Activity ${input.activityId} not found`, 404)
+      }
+      if (activity.locked) {
+        throw new ActivityError('Unlock this activity before replacing it', 409)
+      }
+
+      return {
+        dayId: day.id,
+        dayNumber: day.dayNumber,
+        date: day.date,
+        remove: [activity],
+        keep: day.activities.filter(candidate => candidate.id !== activity.id),
+        slots: [{
+          timeSlot: slotOf(activity),
+          count: 1,
+          // Let the instructions decide the kind of activity ("something outdoors")
+          activityType: input.instructions ? 'any kind of' : activity.type.toLowerCase(),
+          replacing: activity.name
+        }],
+        replaceAt: day.activities.indexOf(activity)
+      }
+    }
+
+    const day = days.find(candidate => candidate.dayNumber === input.dayNumber)
+    if (!day) {
+      throw new ActivityError(`Day ${input.dayNumber} not found`, 404)
+    }
+
+    if (input.scope === 'slot') {
+      return {
+        dayId: day.id,
+        dayNumber: day.dayNumber,
+        date: day.date,
+        remove: [],
+        keep: day.activities,
+        slots: [{ timeSlot: input.timeSlot, count: 1, activityType: SLOT_ACTIVITY_TYPES[input.timeSlot] }]
+      }
+    }
+
+    const remove = day.activities.filter(activity => !isPreserved(activity))
+    const keep = day.activities.filter(activity => isPreserved(activity))
+
+    // Replace like for like per slot, and give empty slots one activity
+    const slots = TIME_SLOTS.map(timeSlot => {
+      const removed = remove.filter(activity => slotOf(activity) === timeSlot).length
+      const kept = keep.filter(activity => slotOf(activity) === timeSlot).length
+      return {
+        timeSlot,
+        count: removed > 0 ? removed : kept === 0 ? 1 : 0,
+        activityType: SLOT_ACTIVITY_TYPES[timeSlot]
+      }
+    }).filter(slot => slot.count > 0)
+
+    if (slots.length === 0) {
+      throw new ActivityError(`Every activity on day ${day.dayNumber} is locked, edited or booked`, 409)
+    }
+
+    return { dayId: day.id, dayNumber: day.dayNumber, date: day.date, remove, keep, slots }
+  }
+
+  private static async createActivities(
+    tx: Prisma.TransactionClient,
+    tripId: string,
+    dayId: string,
+    currency: string,
+    suggestions: Array<{ timeSlot: TimeSlot; suggestion: ActivitySuggestion }>
+  ): Promise<Array<{ id: string; timeSlot: TimeSlot }>> {
+    const created: Array<{ id: string; timeSlot: TimeSlot }> = []
+    // Suggestions without a start time follow on from the previous one in the slot
+    const nextStart: Partial<Record<TimeSlot, string>> = {}
+
+    for (const { timeSlot, suggestion } of suggestions) {
+      const startTime = suggestion.startTime || nextStart[timeSlot] || SLOT_START[timeSlot]
+      const endTime = addMinutes(startTime, parseDuration(suggestion.duration))
+      nextStart[timeSlot] = addMinutes(endTime, 30)
+
+      const activity = await tx.activity.create({
+        data: {
+          tripId,
+          dayId,
+          name: suggestion.name,
+          description: suggestion.description,
+          location: suggestion.location,
+          address: suggestion.location,
+          startTime,
+          endTime,
+          timeSlot,
+          type: mapActivityType(suggestion.type || 'other') as Activity['type'],
+          price: suggestion.price,
+          currency,
+          priceType: suggestion.price === 0 ? 'free' : 'per_person',
+          duration: suggestion.duration,
+          tips: suggestion.tips,
+          order: 0
+        }
+      })
+      created.push({ id: activity.id, timeSlot })
+    }
+
+    return created
+  }
+
+  // Slot new activities in after the day's last activity in the same or an earlier slot,
+  // so the kept activities stay in the order the user left them
+  private static async mergeOrder(
+    tx: Prisma.TransactionClient,
+    dayId: string,
+    added: Array<{ id: string; timeSlot: TimeSlot }>,
+    replaceAt?: number
+  ) {
+    const addedIds = new Set(added.map(activity => activity.id))
+    const existing = await tx.activity.findMany({
+      where: { dayId },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true, order: true, timeSlot: true }
+    })
+
+    const ordered = existing.filter(activity => !addedIds.has(activity.id))
+    if (replaceAt !== undefined) {
+      ordered.splice(Math.min(replaceAt, ordered.length), 0, ...added.map(activity => ({ ...activity, order: -1 })))
+    } else {
+      for (const activity of added) {
+        const rank = TIME_SLOTS.indexOf(activity.timeSlot)
+        let index = ordered.length
+        while (index > 0 && TIME_SLOTS.indexOf(slotOf(ordered[index - 1])) > rank) {
+          index--
+        }
+        ordered.splice(index, 0, { ...activity, order: -1 })
+      }
+    }
+
+    const current = new Map(existing.map(activity => [activity.id, activity.order]))
+    for (const [order, activity] of ordered.entries()) {
+      if (current.get(activity.id) !== order) {
+        await tx.activity.update({ where: { id: activity.id }, data: { order } })
+      }
+    }
+  }
+}
+
+export default ItineraryRegenerationService
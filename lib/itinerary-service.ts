@@ -3,7 +3,9 @@ import {
   ItineraryResponse, 
   validateAndParseItinerary,
   QuickItinerary,
-  validateQuickItinerary 
+  validateQuickItinerary,
+  ActivitySuggestion,
+  validateActivitySuggestions
 } from './itinerary-validation'
 import { aiService } from './ai-service'
 import { cacheService, generateCacheKey } from './cache-service'
@@ -12,10 +14,13 @@ import { budgetCalculator } from './budget-calculator'
 import { 
   createItineraryPrompt, 
   createQuickItineraryPrompt,
+  createActivitySuggestionPrompt,
   optimizePromptForModel,
+  type ActivitySuggestionContext,
   type EnhancedFormData 
 } from './prompt-templates'
 import { RetryProgress, CancellationToken } from './retry-logic'
+import { PartialDayParser } from './itinerary-stream-parser'
 
 // Performance monitoring interface
 export interface PerformanceMetrics {
@@ -32,9 +37,13 @@ export interface GenerationOptions {
   useCache?: boolean
   maxTimeout?: number
   prioritizeSpeed?: boolean
+  // Defaults to the configured provider's model (AI_MODEL)
   model?: string
   onProgress?: (progress: RetryProgress) => void
   cancellationToken?: CancellationToken
+  // Streaming hooks: days as soon as the model finishes writing them, and validation warnings
+  onPartialDay?: (day: unknown, index: number) => void
+  onWarning?: (message: string) => void
 }
 
 // Result interface
@@ -64,9 +73,11 @@ export class ItineraryService {
       useCache = true,
       maxTimeout = this.DEFAULT_TIMEOUT,
       prioritizeSpeed = false,
-      model = 'gpt-4o-mini',
+      model,
       onProgress,
-      cancellationToken
+      cancellationToken,
+      onPartialDay,
+      onWarning
     } = options
 
     const optimizationsApplied: string[] = []
@@ -78,6 +89,7 @@ export class ItineraryService {
         const cached = await cacheService.getItinerary(cacheKey)
         if (cached) {
           optimizationsApplied.push('cache-hit')
+          cached.itinerary?.days?.forEach((day: unknown, index: number) => onPartialDay?.(day, index))
           return {
             itinerary: cached,
             performance: {
@@ -114,7 +126,12 @@ export class ItineraryService {
         try {
           console.log('📝 ItineraryService: Starting full AI generation')
           const aiStartTime = Date.now()
-          itinerary = await this.generateFullItinerary(formData, maxTimeout, model, onProgress, cancellationToken)
+          itinerary = await this.generateFullItinerary(formData, maxTimeout, model, {
+            onProgress,
+            cancellationToken,
+            onPartialDay,
+            onWarning
+          })
           aiGenerationTime = Date.now() - aiStartTime
           optimizationsApplied.push('full-ai-generation')
           console.log('✅ ItineraryService: AI generation completed successfully')
@@ -219,12 +236,29 @@ export class ItineraryService {
   private async generateFullItinerary(
     formData: TripPlanningFormData | EnhancedFormData,
     timeout: number,
-    model: string,
-    onProgress?: (progress: RetryProgress) => void,
-    cancellationToken?: CancellationToken
+    model: string | undefined,
+    hooks: Pick<GenerationOptions, 'onProgress' | 'cancellationToken' | 'onPartialDay' | 'onWarning'> = {}
   ): Promise<ItineraryResponse> {
+    const { onProgress, cancellationToken, onPartialDay, onWarning } = hooks
     const promptTemplate = createItineraryPrompt(formData)
-    const optimizedPrompt = optimizePromptForModel(promptTemplate, model)
+    const optimizedPrompt = optimizePromptForModel(promptTemplate, aiService.getModelProfile(model))
+
+    // Each retry streams from scratch, so every attempt gets its own parser
+    let parser = new PartialDayParser()
+    let parserAttempt = 1
+    let dayCount = 0
+    const onText = onPartialDay
+      ? (text: string, attempt: number) => {
+          if (attempt !== parserAttempt) {
+            parser = new PartialDayParser()
+            parserAttempt = attempt
+            dayCount = 0
+          }
+          for (const day of parser.push(text)) {
+            onPartialDay(day, dayCount++)
+          }
+        }
+      : undefined
 
     const response = await aiService.generateCompletion(
       `${optimizedPrompt.systemPrompt}\n\n${optimizedPrompt.userPrompt}`,
@@ -234,7 +268,8 @@ export class ItineraryService {
         temperature: optimizedPrompt.temperature,
         timeout,
         onProgress, // Pass retry progress callback
-        cancellationToken // Pass cancellation token
+        cancellationToken, // Pass cancellation token
+        onText
       }
     )
 
@@ -245,6 +280,7 @@ export class ItineraryService {
     const isTruncated = this.detectTruncation(cleanResponse)
     if (isTruncated) {
       console.warn('⚠️ AI response appears truncated - may need to increase token limit or simplify prompt')
+      onWarning?.('The AI response looks truncated; repairing it before validation')
     }
 
     // Fix common AI format errors before validation
@@ -271,6 +307,8 @@ export class ItineraryService {
       throw validationError
     }
 
+    parseResult.warnings?.forEach(warning => onWarning?.(warning))
+
     console.log('✅ ItineraryService: Successfully parsed and validated itinerary')
     return parseResult.data!
   }
@@ -279,7 +317,7 @@ export class ItineraryService {
   private async generateQuickItinerary(
     formData: TripPlanningFormData,
     timeout: number,
-    model: string
+    model: string | undefined
   ): Promise<QuickItinerary> {
     console.log('🚀 ItineraryService: generateQuickItinerary called for', formData.destination.destination)
     
@@ -513,7 +551,7 @@ export class ItineraryService {
   }
 
   // Preload AI model (if supported)
-  async preloadModel(model: string = 'gpt-4o-mini'): Promise<void> {
+  async preloadModel(model?: string): Promise<void> {
     try {
       await aiService.generateCompletion('Warmup request', {
         model,
@@ -525,6 +563,49 @@ export class ItineraryService {
     }
   }
 
+  // Suggest activities for one time slot of an existing itinerary (targeted regeneration)
+  async suggestActivities(
+    request: {
+      destination: string
+      activityType: string
+      timeSlot: string
+      interests: string[]
+      budget: number
+      currency: string
+      context?: ActivitySuggestionContext
+    },
+    options: Pick<GenerationOptions, 'model' | 'cancellationToken'> = {}
+  ): Promise<ActivitySuggestion[]> {
+    const promptTemplate = createActivitySuggestionPrompt(
+      request.destination,
+      request.activityType,
+      request.timeSlot,
+      request.interests,
+      request.budget,
+      request.currency,
+      request.context
+    )
+    const optimizedPrompt = optimizePromptForModel(promptTemplate, aiService.getModelProfile(options.model))
+
+    const response = await aiService.generateCompletion(
+      `${optimizedPrompt.systemPrompt}\n\n${optimizedPrompt.userPrompt}`,
+      {
+        model: options.model,
+        maxTokens: optimizedPrompt.maxTokens,
+        temperature: optimizedPrompt.temperature,
+        timeout: this.QUICK_TIMEOUT,
+        cancellationToken: options.cancellationToken
+      }
+    )
+
+    const parseResult = validateActivitySuggestions(JSON.parse(this.extractJsonFromResponse(response)))
+    if (!parseResult.success) {
+      throw new Error(`Activity suggestion validation failed: ${parseResult.errors?.join(', ')}`)
+    }
+
+    return parseResult.data!.suggestions
+  }
+
   // Extract clean JSON from AI response (removes markdown formatting only)
   private extractJsonFromResponse(response: string): string {
     try {
@@ -818,7 +899,6 @@ export async function generateQuickPreview(
   const response = await aiService.generateCompletion(
     `${promptTemplate.systemPrompt}\n\n${promptTemplate.userPrompt}`,
     {
-      model: 'gpt-4o-mini',
       maxTokens: 1500,
       temperature: 0.8,
       timeout: 10000
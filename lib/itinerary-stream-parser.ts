@@ -0,0 +1,73 @@
+/**
+ * Incremental parser for streamed itinerary JSON.
+ * Pulls complete day objects out of the `"days": [...]` array while the
+ * model is still writing the rest of the response.
+ */
+
+export class PartialDayParser {
+  private daysStart = -1
+  // Scan position inside the days array and the nesting state carried between pushes
+  private cursor = 0
+  private depth = 0
+  private objectStart = -1
+  private inString = false
+  private escaped = false
+  private finished = false
+
+  /**
+   * Feed the full text received so far. Returns days completed since the last call.
+   * Days that fail to parse are skipped; the final validation reports them.
+   */
+  push(text: string): unknown[] {
+    if (this.finished) return []
+
+    if (this.daysStart < 0) {
+      const match = /"days"\s*:\s*\[/.exec(text)
+      if (!match) return []
+      this.daysStart = match.index + match[0].length
+      this.cursor = this.daysStart
+    }
+
+    const days: unknown[] = []
+
+    for (; this.cursor < text.length; this.cursor++) {
+      const char = text[this.cursor]
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (char === '\\') this.escaped = true
+        else if (char === '"') this.inString = false
+        continue
+      }
+
+      if (char === '"') {
+        this.inString = true
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0 && char === '{') this.objectStart = this.cursor
+        this.depth++
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0) {
+          // End of the days array
+          this.finished = true
+          break
+        }
+        this.depth--
+        if (this.depth === 0 && char === '}' && this.objectStart >= 0) {
+          const day = this.parse(text.slice(this.objectStart, this.cursor + 1))
+          if (day) days.push(day)
+          this.objectStart = -1
+        }
+      }
+    }
+
+    return days
+  }
+
+  private parse(json: string): unknown | null {
+    try {
+      return JSON.parse(json)
+    } catch {
+      return null
+    }
+  }
+}
@@ -1,4 +1,10 @@
 import { Activity as BaseActivity, Day as BaseDay } from './itinerary-validation'
+import type { TravelLeg } from './schedule-validation'
+
+export interface OpeningHours {
+  open: string
+  close: string
+}
 
 // Extended Activity type for UI components
 export interface Activity extends BaseActivity {
@@ -10,12 +16,21 @@ export interface Activity extends BaseActivity {
   isEditable?: boolean
   isFavorite?: boolean
   order?: number
+  // Kept as-is when a day is regenerated
+  locked?: boolean
+  isBooked?: boolean
+  // Local times the venue is open, when known; route optimisation keeps visits inside them
+  openingHours?: OpeningHours
+  // `pricing` in the trip's display currency, when that differs
+  convertedPrice?: { amount: number; currency: string }
 }
 
 // Extended Day type for UI components
 export interface Day extends Omit<BaseDay, 'activities'> {
   activities: Activity[]
   isExpanded?: boolean
+  // Computed by the schedule check; only shown while both activities are still adjacent
+  travelLegs?: TravelLeg[]
 }
 
 // Activity action types for undo/redo
@@ -25,6 +40,7 @@ export type ActivityAction =
   | { type: 'REMOVE_ACTIVITY'; payload: { dayNumber: number; activityId: string; index: number; activity: Activity } }
   | { type: 'UPDATE_ACTIVITY'; payload: { dayNumber: number; activityId: string; oldActivity: Activity; newActivity: Activity } }
   | { type: 'SWAP_ACTIVITIES'; payload: { day1: number; day2: number; activity1Id: string; activity2Id: string } }
+  | { type: 'REORDER_DAY'; payload: { dayNumber: number; activities: Activity[]; previousActivities: Activity[] } }
 
 // History state for undo/redo
 export interface HistoryState {
@@ -81,12 +97,23 @@ export interface ActivitySuggestion {
   }
 }
 
+// Group votes on one activity
+export interface ActivityVoteTally {
+  score: number
+  up: number
+  down: number
+  // The current user's vote: 1, -1 or 0 when they haven't voted
+  userVote: number
+  // Split votes the trip owner hasn't resolved yet
+  contested: boolean
+}
+
 // Timeline view configuration
 export interface TimelineConfig {
   showAllDays: boolean
   expandedDays: Set<number>
   viewMode: 'timeline' | 'cards'
-  sortBy: 'time' | 'type' | 'price'
+  sortBy: 'time' | 'type' | 'price' | 'votes'
   filterBy: {
     type?: Activity['type']
     priceRange?: [number, number]
@@ -62,6 +62,12 @@ const accessibilitySchema = z.object({
   notes: z.string(),
 })
 
+// Opening hours schema; null when the venue has none (parks, walks)
+const openingHoursSchema = z.object({
+  open: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/),
+  close: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/),
+}).nullable().optional()
+
 // Enhanced activity name validation to reject generic names
 const validateActivityName = (name: string): boolean => {
   const strictlyGenericNames = [
@@ -126,6 +132,7 @@ const activitySchema = z.object({
   tips: z.array(z.string()).max(5),
   bookingRequired: z.boolean(),
   accessibility: accessibilitySchema,
+  openingHours: openingHoursSchema,
 }).refine((activity) => {
   // Validate duration is realistic (15 minutes to 8 hours)
   const durationMatch = activity.duration.match(/(\d+)\s*(minutes?|hours?|mins?|hrs?)/i)
@@ -240,6 +247,8 @@ export const activitySuggestionSchema = z.object({
   location: z.string().min(1),
   price: z.number().min(0),
   duration: z.string().min(1),
+  startTime: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).optional().catch(undefined),
+  type: z.enum(["attraction", "restaurant", "experience", "shopping"]).optional().catch(undefined),
   tips: z.array(z.string()).max(3),
 })
 
@@ -363,13 +363,14 @@ export class MapOfflineStorage {
   }
 
   /**
-   * Generates a unique key for a tile URL
+   * Generates a unique key for a tile URL. The service worker (public/sw.js)
+   * stores the tiles the map loads under the same keys.
    */
   private generateTileKey(tileUrl: string): string {
-    // Extract tile coordinates from URL or use hash
-    const match = tileUrl.match(/\/(\d+)\/(\d+)\/(\d+)/)
+    // Tileset, coordinates and format, so satellite and street tiles don't collide
+    const match = tileUrl.split('?')[0].match(/\/v4\/([^/]+)\/(\d+)\/(\d+)\/(\d+)([^/]*)$/)
     if (match) {
-      return `tile_${match[1]}_${match[2]}_${match[3]}`
+      return `tile_${match[1]}_${match[2]}_${match[3]}_${match[4]}${match[5]}`
     }
     
     // Fallback to hash
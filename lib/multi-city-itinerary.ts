@@ -0,0 +1,192 @@
+import { TripLeg } from '@prisma/client'
+import { itineraryService, GenerationOptions, ItineraryResult } from './itinerary-service'
+import { budgetCalculator } from './budget-calculator'
+import { EnhancedFormData } from './prompt-templates'
+import { Activity, Day } from './itinerary-validation'
+import { Coordinates } from './coordinate-validation'
+import { RetryCancelledException } from './retry-logic'
+import { formatRoute, legDayRange } from './trip-legs'
+
+export interface ItineraryLeg {
+  destination: string
+  startDate: Date
+  endDate: Date
+  coordinates?: Coordinates | null
+}
+
+export function toItineraryLeg(leg: Pick<TripLeg, 'destination' | 'startDate' | 'endDate' | 'coordinates'>): ItineraryLeg {
+  return {
+    destination: leg.destination,
+    startDate: leg.startDate,
+    endDate: leg.endDate,
+    coordinates: leg.coordinates as Coordinates | null
+  }
+}
+
+const QUALITY_RANK = { low: 0, medium: 1, high: 2 } as const
+
+function offsetDay(day: unknown, offset: number): unknown {
+  if (!day || typeof day !== 'object' || typeof (day as { day?: unknown }).day !== 'number') {
+    return day
+  }
+  return { ...day, day: (day as { day: number }).day + offset }
+}
+
+function transferActivity(from: ItineraryLeg, to: ItineraryLeg, currency: string): Activity {
+  return {
+    id: `transfer-${from.destination}-${to.destination}`.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+    timeSlot: 'morning',
+    startTime: '09:00',
+    endTime: '12:00',
+    name: `Travel from ${from.destination} to ${to.destination}`.slice(0, 100),
+    type: 'transportation',
+    description: `Transfer day: travel from ${from.destination} to ${to.destination} and check in.`,
+    location: {
+      name: to.destination.slice(0, 100),
+      address: `${to.destination}, arrival`.slice(0, 200),
+      coordinates: to.coordinates ?? from.coordinates ?? { lat: 0, lng: 0 }
+    },
+    pricing: { amount: 0, currency, priceType: 'free' },
+    duration: '3 hours',
+    tips: ['Book inter-city tickets in advance for better prices'],
+    bookingRequired: true,
+    accessibility: { wheelchairAccessible: true, hasElevator: false, notes: '' }
+  }
+}
+
+/**
+ * Plans a multi-city trip one leg at a time and stitches the legs into a
+ * single itinerary. Each leg gets a share of the budget in proportion to
+ * its estimated cost, and every leg after the first opens with a transfer day.
+ */
+export class MultiCityItineraryService {
+  static async generate(
+    base: EnhancedFormData,
+    legs: ItineraryLeg[],
+    options: GenerationOptions = {}
+  ): Promise<ItineraryResult> {
+    const estimate = budgetCalculator.calculateMultiLegEstimate(base, legs)
+    const legsTotal = estimate.total - estimate.transfers
+    const spendable = Math.max(base.budget.amount - estimate.transfers, 0)
+    const route = legs.map(leg => leg.destination)
+
+    const results: ItineraryResult[] = []
+    for (const [index, leg] of legs.entries()) {
+      if (options.cancellationToken?.isCancelled) {
+        throw new RetryCancelledException('Generation cancelled between legs')
+      }
+
+      const share = legsTotal > 0 ? estimate.legs[index].total / legsTotal : 1 / legs.length
+      const dayOffset = legDayRange(base.dateRange.startDate, leg).firstDay - 1
+
+      const formData: EnhancedFormData = {
+        ...base,
+        destination: {
+          destination: leg.destination,
+          ...(leg.coordinates && { coordinates: leg.coordinates })
+        },
+        dateRange: { startDate: leg.startDate, endDate: leg.endDate },
+        budget: { ...base.budget, amount: Math.max(Math.round(spendable * share), 1) },
+        legContext: {
+          stop: index + 1,
+          totalStops: legs.length,
+          route,
+          arrivingFrom: index > 0 ? legs[index - 1].destination : undefined
+        }
+      }
+
+      console.log(`Generating leg ${index + 1}/${legs.length}: ${leg.destination}`)
+      results.push(await itineraryService.generateItinerary(formData, {
+        prioritizeSpeed: false,
+        useCache: true,
+        ...options,
+        onPartialDay: options.onPartialDay &&
+          ((day, dayIndex) => options.onPartialDay!(offsetDay(day, dayOffset), dayOffset + dayIndex)),
+        onWarning: options.onWarning && (message => options.onWarning!(`${leg.destination}: ${message}`))
+      }))
+    }
+
+    return this.combine(base, legs, results, estimate.transfers)
+  }
+
+  /**
+   * Merge per-leg results into one itinerary with continuous day numbers
+   */
+  static combine(
+    base: EnhancedFormData,
+    legs: ItineraryLeg[],
+    results: ItineraryResult[],
+    transferBudget: number
+  ): ItineraryResult {
+    const currency = base.budget.currency
+    const days: Day[] = []
+
+    results.forEach((result, index) => {
+      const leg = legs[index]
+      const dayOffset = legDayRange(base.dateRange.startDate, leg).firstDay - 1
+
+      result.itinerary.itinerary.days.forEach((day, dayIndex) => {
+        const isTransferDay = index > 0 && dayIndex === 0
+        const hasTransfer = day.activities.some(activity => activity.type === 'transportation')
+
+        days.push({
+          ...day,
+          day: dayOffset + (day.day || dayIndex + 1),
+          theme: isTransferDay ? `Travel to ${leg.destination} · ${day.theme}` : day.theme,
+          activities: isTransferDay && !hasTransfer
+            ? [transferActivity(legs[index - 1], leg, currency), ...day.activities]
+            : day.activities
+        })
+      })
+    })
+
+    const itineraries = results.map(result => result.itinerary.itinerary)
+    const breakdown = itineraries.reduce((sum, itinerary) => {
+      const legBreakdown = itinerary.totalBudgetEstimate.breakdown
+      return {
+        accommodation: sum.accommodation + legBreakdown.accommodation,
+        food: sum.food + legBreakdown.food,
+        activities: sum.activities + legBreakdown.activities,
+        transportation: sum.transportation + legBreakdown.transportation,
+        other: sum.other + legBreakdown.other
+      }
+    }, { accommodation: 0, food: 0, activities: 0, transportation: transferBudget, other: 0 })
+
+    const qualities = results.map(result => result.metadata.quality)
+    const methods = new Set(results.map(result => result.metadata.generationMethod))
+
+    return {
+      itinerary: {
+        itinerary: {
+          destination: formatRoute(legs),
+          duration: days.length,
+          totalBudgetEstimate: {
+            amount: itineraries.reduce((sum, itinerary) => sum + itinerary.totalBudgetEstimate.amount, 0) + transferBudget,
+            currency,
+            breakdown
+          },
+          days,
+          generalTips: Array.from(new Set(itineraries.flatMap(itinerary => itinerary.generalTips))).slice(0, 10),
+          emergencyInfo: itineraries[0].emergencyInfo
+        }
+      },
+      performance: {
+        totalTime: results.reduce((sum, result) => sum + result.performance.totalTime, 0),
+        cacheHit: results.every(result => result.performance.cacheHit),
+        fallbackUsed: results.some(result => result.performance.fallbackUsed),
+        optimizationsApplied: Array.from(new Set(results.flatMap(result => result.performance.optimizationsApplied)))
+      },
+      warnings: results.flatMap((result, index) =>
+        (result.warnings || []).map(warning => `${legs[index].destination}: ${warning}`)
+      ),
+      metadata: {
+        generatedAt: new Date(),
+        generationMethod: methods.size === 1 ? results[0].metadata.generationMethod : 'ai',
+        quality: qualities.reduce((lowest, quality) => QUALITY_RANK[quality] < QUALITY_RANK[lowest] ? quality : lowest),
+        estimatedAccuracy: results.reduce((sum, result) => sum + result.metadata.estimatedAccuracy, 0) / results.length
+      }
+    }
+  }
+}
+
+export default MultiCityItineraryService
@@ -0,0 +1,186 @@
+import { NotificationType, Prisma } from '@prisma/client'
+import { db } from './db'
+
+export class NotificationError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'NotificationError'
+    this.status = status
+  }
+}
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  message: string
+  tripId?: string
+  // Extra context for the client, e.g. activityId or a link to open
+  data?: Prisma.InputJsonObject
+}
+
+export interface ListNotificationsOptions {
+  cursor?: string
+  limit?: number
+  unreadOnly?: boolean
+}
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 50
+
+/**
+ * In-app notifications. Writes are best effort: a failure to notify is
+ * logged and never fails the action that triggered it.
+ */
+export class NotificationService {
+  /**
+   * Notify specific users. Duplicate ids and the actor are skipped.
+   */
+  static async notifyUsers(userIds: string[], input: NotificationInput, actorId?: string): Promise<void> {
+    const recipients = [...new Set(userIds)].filter(id => id && id !== actorId)
+    if (recipients.length === 0) return
+
+    try {
+      await db.notification.createMany({
+        data: recipients.map(userId => ({
+          userId,
+          tripId: input.tripId ?? null,
+          type: input.type,
+          title: input.title,
+          message: input.message,
+          data: input.data ?? Prisma.JsonNull
+        }))
+      })
+    } catch (error) {
+      console.error(`Failed to create ${input.type} notification:`, error)
+    }
+  }
+
+  /**
+   * Notify the owner and accepted collaborators of a trip, except the actor
+   */
+  static async notifyTripMembers(tripId: string, actorId: string | null, input: Omit<NotificationInput, 'tripId'>): Promise<void> {
+    try {
+      const trip = await db.trip.findUnique({
+        where: { id: tripId },
+        select: {
+          userId: true,
+          collaborations: {
+            where: { acceptedAt: { not: null } },
+            select: { userId: true }
+          }
+        }
+      })
+      if (!trip) return
+
+      const memberIds = [trip.userId, ...trip.collaborations.map(c => c.userId)]
+      await this.notifyUsers(memberIds, { ...input, tripId }, actorId ?? undefined)
+    } catch (error) {
+      console.error(`Failed to notify members of trip ${tripId}:`, error)
+    }
+  }
+
+  /**
+   * Newest first. Pass the returned nextCursor to get the following page.
+   */
+  static async list(userId: string, options: ListNotificationsOptions = {}) {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...(options.unreadOnly ? { read: false } : {})
+    }
+
+    if (options.cursor) {
+      const cursor = await db.notification.findFirst({
+        where: { id: options.cursor, userId },
+        select: { id: true }
+      })
+      if (!cursor) {
+        throw new NotificationError('Invalid cursor', 400)
+      }
+    }
+
+    const [rows, unreadCount] = await Promise.all([
+      db.notification.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(options.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {}),
+        include: { trip: { select: { id: true, title: true } } }
+      }),
+      this.getUnreadCount(userId)
+    ])
+
+    const hasMore = rows.length > limit
+    const notifications = hasMore ? rows.slice(0, limit) : rows
+
+    return {
+      notifications,
+      nextCursor: hasMore ? notifications[notifications.length - 1].id : null,
+      unreadCount
+    }
+  }
+
+  /**
+   * Name to show for the person who triggered a notification
+   */
+  static async displayName(userId: string): Promise<string> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { name: true, email: true }
+    })
+    return user?.name || user?.email || 'Someone'
+  }
+
+  static tripUrl(tripId: string): string {
+    return `/trip/${tripId}`
+  }
+
+  static async getUnreadCount(userId: string): Promise<number> {
+    return db.notification.count({ where: { userId, read: false } })
+  }
+
+  static async setRead(userId: string, notificationId: string, read = true) {
+    await this.findOwned(userId, notificationId)
+
+    return db.notification.update({
+      where: { id: notificationId },
+      data: { read, readAt: read ? new Date() : null }
+    })
+  }
+
+  /**
+   * Mark several notifications, or all of them when ids is omitted, as read
+   */
+  static async markAllRead(userId: string, ids?: string[]): Promise<number> {
+    const result = await db.notification.updateMany({
+      where: {
+        userId,
+        read: false,
+        ...(ids ? { id: { in: ids } } : {})
+      },
+      data: { read: true, readAt: new Date() }
+    })
+    return result.count
+  }
+
+  static async delete(userId: string, notificationId: string): Promise<void> {
+    await this.findOwned(userId, notificationId)
+    await db.notification.delete({ where: { id: notificationId } })
+  }
+
+  private static async findOwned(userId: string, notificationId: string) {
+    const notification = await db.notification.findFirst({
+      where: { id: notificationId, userId },
+      select: { id: true }
+    })
+
+    if (!notification) {
+      throw new NotificationError('Notification not found', 404)
+    }
+    return notification
+  }
+}
+
+export default NotificationService
@@ -25,13 +25,46 @@ export interface OfflineQueueItem {
   retryCount: number
 }
 
+// Background sync tag the service worker drains the queue on
+export const OFFLINE_SYNC_TAG = 'offline-queue'
+
+// Changes that keep failing are dropped after this many attempts
+const MAX_SYNC_RETRIES = 3
+
+/**
+ * The API request that replays a queued change; activity changes carry
+ * their tripId. public/sw.js has a copy for background sync; keep the two
+ * in step.
+ */
+export function offlineQueueRequest(item: OfflineQueueItem): { url: string; init: RequestInit } {
+  const { id, tripId, ...fields } = item.data
+  const json = { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(fields) }
+
+  if (item.resource === 'trip') {
+    if (item.type === 'create') return { url: '/api/user/trips', init: { method: 'POST', ...json } }
+    const url = `/api/user/trips/${id}`
+    return item.type === 'update'
+      ? { url, init: { method: 'PUT', ...json } }
+      : { url, init: { method: 'DELETE' } }
+  }
+
+  if (item.type === 'create') return { url: `/api/user/trips/${tripId}/activities`, init: { method: 'POST', ...json } }
+  const url = `/api/user/trips/${tripId}/activities/${id}`
+  return item.type === 'update'
+    ? { url, init: { method: 'PATCH', ...json } }
+    : { url, init: { method: 'DELETE' } }
+}
+
 class OfflineCacheManager {
   private dbName = 'terraVoyageOffline'
   private dbVersion = 1
   private db: IDBDatabase | null = null
 
   constructor() {
-    this.initDB()
+    // Nothing to open during server rendering
+    if (typeof indexedDB !== 'undefined') {
+      this.initDB()
+    }
   }
 
   private async initDB(): Promise<void> {
@@ -141,6 +174,24 @@ class OfflineCacheManager {
     })
   }
 
+  /**
+   * Get every cached trip, most recently changed first. Cached data is
+   * cleared on sign-out, so these are the signed-in user's.
+   */
+  async getAllCachedTrips(): Promise<CachedTrip[]> {
+    const db = await this.getDB()
+    const transaction = db.transaction(['trips'], 'readonly')
+    const store = transaction.objectStore('trips')
+
+    return new Promise((resolve, reject) => {
+      const request = store.getAll()
+      request.onsuccess = () => resolve(
+        (request.result as CachedTrip[] || []).sort((a, b) => b.lastModified - a.lastModified)
+      )
+      request.onerror = () => reject(request.error)
+    })
+  }
+
   /**
    * Update cached trip
    */
@@ -198,6 +249,44 @@ class OfflineCacheManager {
       request.onsuccess = () => resolve()
       request.onerror = () => reject(request.error)
     })
+
+    await this.requestBackgroundSync()
+  }
+
+  /**
+   * Ask the service worker to send queued changes once back online. Returns
+   * false where background sync isn't supported; OfflineSyncService then
+   * has to be run from the page.
+   */
+  async requestBackgroundSync(): Promise<boolean> {
+    if (!('serviceWorker' in navigator)) return false
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration()
+      if (!registration || !('sync' in registration)) return false
+      await (registration as ServiceWorkerRegistration & {
+        sync: { register(tag: string): Promise<void> }
+      }).sync.register(OFFLINE_SYNC_TAG)
+      return true
+    } catch (error) {
+      console.error('Failed to register background sync:', error)
+      return false
+    }
+  }
+
+  /**
+   * Update an item in the offline queue, e.g. to count a failed attempt
+   */
+  async updateOfflineQueueItem(item: OfflineQueueItem): Promise<void> {
+    const db = await this.getDB()
+    const transaction = db.transaction(['offlineQueue'], 'readwrite')
+    const store = transaction.objectStore('offlineQueue')
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put(item)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
   }
 
   /**
@@ -438,8 +527,10 @@ export class OfflineSyncService {
         } catch (error) {
           console.error('Failed to sync item:', item, error)
           // Increment retry count or remove if too many retries
-          if (item.retryCount >= 3) {
+          if (item.retryCount >= MAX_SYNC_RETRIES) {
             await offlineCacheManager.removeFromOfflineQueue(item.id)
+          } else {
+            await offlineCacheManager.updateOfflineQueueItem({ ...item, retryCount: item.retryCount + 1 })
           }
         }
       }
@@ -455,20 +546,8 @@ export class OfflineSyncService {
   }
 
   private async syncItem(item: OfflineQueueItem): Promise<void> {
-    const endpoint = `/api/${item.resource}s`
-    const method = item.type === 'create' ? 'POST' : 
-                   item.type === 'update' ? 'PUT' : 'DELETE'
-
-    const response = await fetch(
-      item.type === 'delete' ? `${endpoint}/${item.data.id}` : endpoint,
-      {
-        method,
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: item.type === 'delete' ? undefined : JSON.stringify(item.data)
-      }
-    )
+    const { url, init } = offlineQueueRequest(item)
+    const response = await fetch(url, init)
 
     if (!response.ok) {
       throw new Error(`Sync failed: ${response.statusText}`)
@@ -4,7 +4,12 @@ import {
   ProcessedWeather, 
   WeatherForecast 
 } from '@/lib/weather-types'
-import { Activity, Day } from '@/lib/itinerary-types'
+import { Activity } from '@/lib/itinerary-types'
+
+// Only activity names and types matter for packing
+type PackingItinerary = Array<{ activities: Array<Pick<Activity, 'name' | 'type'>> }>
+
+const DAY_MS = 24 * 60 * 60 * 1000
 
 export class PackingListGenerator {
   
@@ -14,13 +19,19 @@ export class PackingListGenerator {
     startDate: string,
     endDate: string,
     weatherForecast: WeatherForecast,
-    itinerary?: Day[]
+    itinerary?: PackingItinerary
   ): PackingList {
     const items: PackingItem[] = []
     const generalTips: string[] = []
     
+    // Quantities follow the trip's length, which can outlast the forecast
+    const tripDays = Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS) + 1
+    
     // Analyze weather patterns
-    const weatherAnalysis = this.analyzeWeatherPatterns(weatherForecast.forecast)
+    const weatherAnalysis = this.analyzeWeatherPatterns(
+      weatherForecast.forecast,
+      Number.isFinite(tripDays) && tripDays > 0 ? tripDays : weatherForecast.forecast.length
+    )
     
     // Generate clothing items
     items.push(...this.generateClothingItems(weatherAnalysis))
@@ -59,7 +70,7 @@ export class PackingListGenerator {
   }
   
   // Analyze weather patterns across the forecast
-  private analyzeWeatherPatterns(forecast: ProcessedWeather[]) {
+  private analyzeWeatherPatterns(forecast: ProcessedWeather[], tripDuration: number) {
     const temps = forecast.map(day => day.temperature)
     const minTemp = Math.min(...temps.map(t => t.min))
     const maxTemp = Math.max(...temps.map(t => t.max))
@@ -89,7 +100,7 @@ export class PackingListGenerator {
       totalPrecipitation,
       maxWindSpeed,
       avgHumidity,
-      tripDuration: forecast.length
+      tripDuration
     }
   }
   
@@ -443,7 +454,7 @@ export class PackingListGenerator {
   }
   
   // Generate activity-specific items
-  private generateActivitySpecificItems(itinerary: Day[], analysis: any): PackingItem[] {
+  private generateActivitySpecificItems(itinerary: PackingItinerary, analysis: any): PackingItem[] {
     const items: PackingItem[] = []
     
     // Analyze activities across all days
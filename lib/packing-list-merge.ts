@@ -0,0 +1,51 @@
+import { PackingItem } from './weather-types'
+
+export type PackingItemSource = 'generated' | 'custom' | 'template'
+
+export interface SavedPackingItem {
+  id: string
+  name: string
+  checked: boolean
+  source: string
+  edited: boolean
+}
+
+export interface PackingMerge {
+  create: PackingItem[]
+  update: { id: string; item: PackingItem }[]
+  remove: string[]
+}
+
+export function packingItemKey(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+/**
+ * Fold a freshly generated list into a saved one without losing ticks.
+ * Generated items take the new quantity and reason unless the traveller
+ * edited them; those the weather no longer calls for are dropped unless
+ * ticked or edited. Custom and template items are left alone, and a
+ * suggestion matching one of them isn't added twice.
+ */
+export function mergeGeneratedItems(saved: SavedPackingItem[], generated: PackingItem[]): PackingMerge {
+  const byKey = new Map(saved.map(item => [packingItemKey(item.name), item]))
+  const suggested = new Set(generated.map(item => packingItemKey(item.item)))
+  const merge: PackingMerge = { create: [], update: [], remove: [] }
+
+  for (const item of generated) {
+    const existing = byKey.get(packingItemKey(item.item))
+    if (!existing) {
+      merge.create.push(item)
+    } else if (existing.source === 'generated' && !existing.edited) {
+      merge.update.push({ id: existing.id, item })
+    }
+  }
+
+  for (const item of saved) {
+    if (item.source === 'generated' && !item.checked && !item.edited && !suggested.has(packingItemKey(item.name))) {
+      merge.remove.push(item.id)
+    }
+  }
+
+  return merge
+}
@@ -0,0 +1,299 @@
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { ServiceError } from './service-error'
+import { packingListGenerator } from './packing-list-generator'
+import { mergeGeneratedItems, packingItemKey } from './packing-list-merge'
+import { TRIP_LOCATION_LEGS, WeatherSnapshotService, joinForecasts } from './weather-snapshot-service'
+import { Activity } from './itinerary-types'
+import { PACKING_CATEGORY_LABELS, packingItemSchema } from './weather-types'
+
+const categorySchema = packingItemSchema.shape.category
+
+const templateItemSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  category: categorySchema,
+  quantity: z.number().int().min(1).max(99).default(1)
+})
+
+export type PackingTemplateItem = z.infer<typeof templateItemSchema>
+
+export const packingItemInputSchema = templateItemSchema
+
+export const packingItemUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  category: categorySchema.optional(),
+  quantity: z.number().int().min(1).max(99).optional(),
+  checked: z.boolean().optional()
+})
+
+export const packingTemplateInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  items: z.array(templateItemSchema).min(1).max(100)
+})
+
+export type PackingItemInput = z.infer<typeof packingItemInputSchema>
+export type PackingItemUpdate = z.infer<typeof packingItemUpdateSchema>
+export type PackingTemplateInput = z.infer<typeof packingTemplateInputSchema>
+
+export class PackingError extends ServiceError {
+  name = 'PackingError'
+}
+
+const CATEGORY_ORDER = Object.keys(PACKING_CATEGORY_LABELS)
+
+export class PackingService {
+  /**
+   * A traveller's packing list with everyone's progress. Members can look at
+   * each other's lists but only tick and edit their own.
+   */
+  static async getList(tripId: string, userId: string, travellerId = userId) {
+    await this.authorize(tripId, userId)
+    const members = (await CollaborationService.getTravellers(tripId))
+      .map(member => ({ id: member.id, name: member.name || member.email }))
+    const traveller = members.find(member => member.id === travellerId)
+    if (!traveller) {
+      throw new PackingError('Traveller not found on this trip', 404)
+    }
+
+    const [list, progress] = await Promise.all([
+      db.packingList.findUnique({
+        where: { tripId_userId: { tripId, userId: travellerId } },
+        include: { items: { orderBy: { order: 'asc' } } }
+      }),
+      db.packingList.findMany({
+        where: { tripId },
+        select: {
+          userId: true,
+          _count: { select: { items: true } },
+          items: { where: { checked: true }, select: { id: true } }
+        }
+      })
+    ])
+
+    return {
+      traveller,
+      canEdit: travellerId === userId,
+      list: list && {
+        id: list.id,
+        weatherSummary: list.weatherSummary,
+        generalTips: (list.generalTips ?? []) as string[],
+        generatedAt: list.generatedAt,
+        items: list.items
+      },
+      travellers: members.map(member => {
+        const counts = progress.find(entry => entry.userId === member.id)
+        return { ...member, packed: counts?.items.length ?? 0, total: counts?._count.items ?? 0 }
+      })
+    }
+  }
+
+  /**
+   * Suggest items from the trip's weather and itinerary and merge them into
+   * the user's list, creating it on first use. Ticks and the user's own
+   * items survive; see mergeGeneratedItems.
+   */
+  static async generate(tripId: string, userId: string) {
+    await this.authorize(tripId, userId)
+    const trip = await db.trip.findUniqueOrThrow({
+      where: { id: tripId },
+      select: {
+        destination: true,
+        destinationCoords: true,
+        startDate: true,
+        endDate: true,
+        legs: TRIP_LOCATION_LEGS,
+        days: { select: { activities: { select: { name: true, type: true } } } }
+      }
+    })
+    const startDate = trip.startDate.toISOString().slice(0, 10)
+    const endDate = trip.endDate.toISOString().slice(0, 10)
+    // Stored snapshots spare the providers; new trips haven't got any yet
+    const forecast = await WeatherSnapshotService.getTripWeather(tripId, userId)
+      ?? joinForecasts(await WeatherSnapshotService.fetchStretches(trip))
+    if (!forecast) {
+      throw new PackingError('The trip needs a destination location before a packing list can be suggested', 400)
+    }
+    const suggestion = packingListGenerator.generatePackingList(
+      trip.destination,
+      startDate,
+      endDate,
+      forecast,
+      trip.days.map(day => ({
+        activities: day.activities.map(activity => ({ name: activity.name, type: activity.type.toLowerCase() as Activity['type'] }))
+      }))
+    )
+
+    const list = await this.ensureList(tripId, userId)
+    const saved = await db.packingListItem.findMany({ where: { listId: list.id } })
+    const merge = mergeGeneratedItems(saved, suggestion.items)
+    const nextOrder = saved.reduce((max, item) => Math.max(max, item.order + 1), 0)
+    const fields = (item: (typeof suggestion.items)[number]) => ({
+      name: item.item,
+      category: item.category,
+      priority: item.priority,
+      reason: item.reason,
+      quantity: Math.max(item.quantity ?? 1, 1)
+    })
+
+    await db.$transaction([
+      db.packingListItem.deleteMany({ where: { id: { in: merge.remove } } }),
+      ...merge.update.map(({ id, item }) => db.packingListItem.update({ where: { id }, data: fields(item) })),
+      db.packingListItem.createMany({
+        data: merge.create.map((item, index) => ({ ...fields(item), listId: list.id, source: 'generated', order: nextOrder + index }))
+      }),
+      db.packingList.update({
+        where: { id: list.id },
+        data: {
+          weatherSummary: suggestion.weatherSummary,
+          generalTips: suggestion.generalTips as Prisma.InputJsonArray,
+          generatedAt: new Date()
+        }
+      })
+    ])
+
+    return this.getList(tripId, userId)
+  }
+
+  static async addItem(tripId: string, userId: string, input: PackingItemInput) {
+    await this.authorize(tripId, userId)
+    const list = await this.ensureList(tripId, userId)
+    await this.appendItems(list.id, [input], 'custom')
+    return this.getList(tripId, userId)
+  }
+
+  /**
+   * Tick, rename or requantify an item on the user's own list. Changing a
+   * generated item marks it edited, so regeneration keeps the user's version.
+   */
+  static async updateItem(tripId: string, userId: string, itemId: string, input: PackingItemUpdate) {
+    await this.authorize(tripId, userId)
+    const item = await this.findOwnItem(tripId, userId, itemId)
+    const edited = input.name !== undefined || input.category !== undefined || input.quantity !== undefined
+
+    await db.packingListItem.update({
+      where: { id: item.id },
+      data: { ...input, ...(edited && { edited: true }) }
+    })
+    return this.getList(tripId, userId)
+  }
+
+  static async removeItem(tripId: string, userId: string, itemId: string) {
+    await this.authorize(tripId, userId)
+    const item = await this.findOwnItem(tripId, userId, itemId)
+    await db.packingListItem.delete({ where: { id: item.id } })
+    return this.getList(tripId, userId)
+  }
+
+  static async listTemplates(userId: string) {
+    const templates = await db.packingTemplate.findMany({ where: { userId }, orderBy: { name: 'asc' } })
+    return templates.map(template => ({ ...template, items: template.items as PackingTemplateItem[] }))
+  }
+
+  static async saveTemplate(userId: string, input: PackingTemplateInput) {
+    const template = await db.packingTemplate.upsert({
+      where: { userId_name: { userId, name: input.name } },
+      create: { userId, name: input.name, items: input.items },
+      update: { items: input.items }
+    })
+    return { ...template, items: template.items as PackingTemplateItem[] }
+  }
+
+  static async deleteTemplate(userId: string, templateId: string) {
+    const { count } = await db.packingTemplate.deleteMany({ where: { id: templateId, userId } })
+    if (count === 0) {
+      throw new PackingError('Template not found', 404)
+    }
+  }
+
+  /**
+   * Add a template's items to the user's list; items already on it are skipped
+   */
+  static async applyTemplate(tripId: string, userId: string, templateId: string) {
+    await this.authorize(tripId, userId)
+    const template = await db.packingTemplate.findFirst({ where: { id: templateId, userId } })
+    if (!template) {
+      throw new PackingError('Template not found', 404)
+    }
+
+    const list = await this.ensureList(tripId, userId)
+    await this.appendItems(list.id, template.items as PackingTemplateItem[], 'template')
+    return this.getList(tripId, userId)
+  }
+
+  /**
+   * The list as a spreadsheet, or as a plain checklist for printing
+   */
+  static exportList(view: Awaited<ReturnType<typeof PackingService.getList>>, format: 'csv' | 'text'): string {
+    const items = [...(view.list?.items ?? [])].sort((a, b) =>
+      CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || a.order - b.order
+    )
+    const label = (category: string) => PACKING_CATEGORY_LABELS[category as keyof typeof PACKING_CATEGORY_LABELS] ?? category
+
+    if (format === 'csv') {
+      const rows: (string | number)[][] = [
+        ['Item', 'Category', 'Quantity', 'Packed', 'Priority', 'Reason'],
+        ...items.map(item => [item.name, label(item.category), item.quantity, item.checked ? 'yes' : 'no', item.priority, item.reason ?? ''])
+      ]
+      return rows
+        .map(row => row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(','))
+        .join('\n')
+    }
+
+    const lines = [`Packing list for ${view.traveller.name}`]
+    if (view.list?.weatherSummary) lines.push(view.list.weatherSummary)
+    for (const category of CATEGORY_ORDER) {
+      const group = items.filter(item => item.category === category)
+      if (group.length === 0) continue
+      lines.push('', label(category).toUpperCase())
+      lines.push(...group.map(item => `[${item.checked ? 'x' : ' '}] ${item.name}${item.quantity > 1 ? ` x${item.quantity}` : ''}`))
+    }
+    return lines.join('\n')
+  }
+
+  private static async appendItems(listId: string, items: PackingTemplateItem[], source: 'custom' | 'template') {
+    const saved = await db.packingListItem.findMany({ where: { listId }, select: { name: true, order: true } })
+    const known = new Set(saved.map(item => packingItemKey(item.name)))
+    const fresh = items.filter(item => {
+      const key = packingItemKey(item.name)
+      if (known.has(key)) return false
+      known.add(key)
+      return true
+    })
+    if (source === 'custom' && fresh.length === 0) {
+      throw new PackingError(`${items[0].name} is already on the list`, 409)
+    }
+
+    const nextOrder = saved.reduce((max, item) => Math.max(max, item.order + 1), 0)
+    await db.packingListItem.createMany({
+      data: fresh.map((item, index) => ({ ...item, listId, source, order: nextOrder + index }))
+    })
+  }
+
+  private static async ensureList(tripId: string, userId: string) {
+    return db.packingList.upsert({
+      where: { tripId_userId: { tripId, userId } },
+      create: { tripId, userId },
+      update: {}
+    })
+  }
+
+  private static async findOwnItem(tripId: string, userId: string, itemId: string) {
+    const item = await db.packingListItem.findFirst({ where: { id: itemId, list: { tripId } }, include: { list: true } })
+    if (!item) {
+      throw new PackingError('Item not found', 404)
+    }
+    if (item.list.userId !== userId) {
+      throw new PackingError('Only the traveller can change their packing list', 403)
+    }
+    return item
+  }
+
+  private static async authorize(tripId: string, userId: string) {
+    const { role } = await CollaborationService.getTripAccess(tripId, userId, PackingError)
+    return role
+  }
+}
+
+export default PackingService
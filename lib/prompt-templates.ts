@@ -1,4 +1,5 @@
 import { TripPlanningFormData } from './trip-validation'
+import { ModelProfile, estimateTokens } from './ai-providers'
 
 // Enhanced form data with user context for better personalization
 export interface EnhancedFormData extends TripPlanningFormData {
@@ -9,6 +10,13 @@ export interface EnhancedFormData extends TripPlanningFormData {
     currency?: string
   }
   userId?: string
+  // Set when this is one stop of a multi-city trip
+  legContext?: {
+    stop: number
+    totalStops: number
+    route: string[]
+    arrivingFrom?: string
+  }
 }
 
 // Security utility functions
@@ -192,6 +200,17 @@ export function createItineraryPrompt(formData: TripPlanningFormData | EnhancedF
     }
   }
 
+  // Multi-city trips are planned one stop at a time
+  let multiCityContext = ''
+  const legContext = enhancedData.legContext
+  if (legContext) {
+    const route = legContext.route.map(stop => sanitizeInput(stop)).join(' → ')
+    multiCityContext = `This is stop ${legContext.stop} of ${legContext.totalStops} on a multi-city trip (${route}). Only plan ${sanitizedDestination}.\n`
+    if (legContext.arrivingFrom) {
+      multiCityContext += `Day 1 is a travel day from ${sanitizeInput(legContext.arrivingFrom)}: start it with the transfer as a "transportation" activity (include the mode, e.g. train or flight, in the description) and keep the rest of the day light.\n`
+    }
+  }
+
   const systemPrompt = `You are an expert travel planner. Create detailed, personalized itineraries that are practical and culturally enriching.
 
 CRITICAL: Generate COMPLETE JSON with ALL ${duration} days. Each day must have 3-5 activities with full details.
@@ -240,6 +259,8 @@ Interests: ${interests}
 
 ${personalizationContext ? `Personalization:
 ${personalizationContext}` : ''}
+${multiCityContext ? `Multi-city:
+${multiCityContext}` : ''}
 
 JSON structure:
 {
@@ -270,7 +291,8 @@ JSON structure:
             "duration": "90 minutes",
             "tips": ["tip1", "tip2"],
             "bookingRequired": bool,
-            "accessibility": { wheelchairAccessible: bool, hasElevator: bool, notes: "" }
+            "accessibility": { wheelchairAccessible: bool, hasElevator: bool, notes: "" },
+            "openingHours": { open: "HH:MM", close: "HH:MM" } // or null if always open
           }
         ],
         "dailyBudget": { amount: number, currency: "${sanitizedCurrency}" },
@@ -364,13 +386,26 @@ Return JSON with structure:
 }
 
 // Activity suggestion prompt (for customization)
+// Optional context for targeted regeneration of part of an existing itinerary
+export interface ActivitySuggestionContext {
+  count?: number
+  date?: string
+  // Free-text steer from the user, e.g. "something outdoors"
+  instructions?: string
+  // Activity being replaced
+  replacing?: string
+  // Activities already on the itinerary, so suggestions don't repeat them
+  exclude?: string[]
+}
+
 export function createActivitySuggestionPrompt(
   destination: string,
   activityType: string,
   timeSlot: string,
   interests: string[],
   budget: number,
-  currency: string
+  currency: string,
+  context: ActivitySuggestionContext = {}
 ): PromptTemplate {
   // Sanitize inputs
   const sanitizedDestination = sanitizeInput(destination)
@@ -379,14 +414,28 @@ export function createActivitySuggestionPrompt(
   const sanitizedInterests = sanitizeArray(interests)
   const sanitizedBudget = sanitizeNumber(budget)
   const sanitizedCurrency = sanitizeInput(currency)
-  
+  const sanitizedInstructions = sanitizeInput(context.instructions || '')
+  const sanitizedReplacing = sanitizeInput(context.replacing || '')
+  const sanitizedExclude = (context.exclude || [])
+    .map(name => sanitizeInput(name))
+    .filter(name => name.length > 0)
+    .slice(0, 40)
+  const count = context.count ? `${Math.min(Math.max(Math.round(context.count), 1), 5)}` : '3-5'
+
   const systemPrompt = `You are a local travel expert specializing in ${sanitizedDestination}. Suggest authentic, high-quality activities.`
 
-  const userPrompt = `Suggest 3-5 ${sanitizedActivityType} activities in ${sanitizedDestination} for ${sanitizedTimeSlot}.
+  const contextLines = [
+    context.date ? `Date: ${sanitizeInput(context.date)}` : '',
+    sanitizedReplacing ? `These replace "${sanitizedReplacing}" on the itinerary; suggest something different.` : '',
+    sanitizedInstructions ? `Traveler request: ${sanitizedInstructions}` : '',
+    sanitizedExclude.length > 0 ? `Already planned (do not suggest these): ${sanitizedExclude.join('; ')}` : ''
+  ].filter(Boolean)
+
+  const userPrompt = `Suggest ${count} ${sanitizedActivityType} activities in ${sanitizedDestination} for ${sanitizedTimeSlot}.
 
 Interests: ${sanitizedInterests.join(', ')}
 Budget per activity: ~${sanitizedBudget/3} ${sanitizedCurrency}
-
+${contextLines.length > 0 ? `${contextLines.join('\n')}\n` : ''}
 Return JSON:
 {
   "suggestions": [
@@ -396,6 +445,8 @@ Return JSON:
       "location": "address",
       "price": number,
       "duration": "MUST be string format like '120 minutes' or '2 hours' - NEVER numbers or other formats",
+      "startTime": "HH:MM (24-hour) suggested start time within the ${sanitizedTimeSlot}",
+      "type": "attraction|restaurant|experience|shopping",
       "tips": ["tip1", "tip2"]
     }
   ]
@@ -458,24 +509,13 @@ Return JSON:
 }
 
 // Prompt validation and optimization
-export function optimizePromptForModel(template: PromptTemplate, model: string): PromptTemplate {
-  // Adjust parameters based on model capabilities
+export function optimizePromptForModel(template: PromptTemplate, profile: ModelProfile): PromptTemplate {
+  // Adjust parameters to the model's output limit and leave room for the prompt in its context window
   const optimized = { ...template }
+  const promptTokens = estimateTokens(`${template.systemPrompt}\n\n${template.userPrompt}`)
+  const available = Math.max(profile.contextTokens - promptTokens, 1)
 
-  switch (model) {
-    case 'gpt-4':
-    case 'gpt-4-turbo':
-      optimized.maxTokens = Math.min(optimized.maxTokens, 4000)
-      optimized.temperature = Math.max(0.3, optimized.temperature - 0.1)
-      break
-    case 'gpt-3.5-turbo':
-      optimized.maxTokens = Math.min(optimized.maxTokens, 3000)
-      optimized.temperature = Math.min(0.9, optimized.temperature + 0.1)
-      break
-    default:
-      // Keep defaults
-      break
-  }
+  optimized.maxTokens = Math.min(optimized.maxTokens, profile.maxOutputTokens, available)
 
   return optimized
 }
@@ -529,6 +569,10 @@ export interface ItineraryResponse {
           hasElevator: boolean
           notes: string
         }
+        openingHours?: {
+          open: string
+          close: string
+        } | null
       }>
       dailyBudget: {
         amount: number
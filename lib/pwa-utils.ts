@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { offlineCacheManager, offlineSyncService } from './offline-cache'
 
 export interface PWAInstallPrompt {
   prompt(): Promise<void>
@@ -18,10 +19,15 @@ declare global {
   }
 }
 
+// How often an open app checks for a new service worker
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000
+
 class PWAManager {
   private installPrompt: BeforeInstallPromptEvent | null = null
   private isInstalled = false
   private registration: ServiceWorkerRegistration | null = null
+  private updateAvailable = false
+  private isUpdating = false
 
   constructor() {
     if (typeof window !== 'undefined') {
@@ -41,6 +47,9 @@ class PWAManager {
     
     // Set up app update listener
     this.setupUpdateListener()
+
+    // Send changes queued offline where the service worker can't
+    this.setupSyncFallback()
   }
 
   private checkInstallStatus() {
@@ -51,6 +60,9 @@ class PWAManager {
   }
 
   private async registerServiceWorker() {
+    // A caching worker gets in the way of the dev server's rebuilds
+    if (process.env.NODE_ENV !== 'production') return
+
     if ('serviceWorker' in navigator) {
       try {
         this.registration = await navigator.serviceWorker.register('/sw.js', {
@@ -96,6 +108,11 @@ class PWAManager {
   private setupUpdateListener() {
     if (!this.registration) return
 
+    // A new version installed on an earlier visit is still waiting
+    if (this.registration.waiting && navigator.serviceWorker.controller) {
+      this.notifyUpdateAvailable()
+    }
+
     this.registration.addEventListener('updatefound', () => {
       const newWorker = this.registration!.installing
       
@@ -103,19 +120,41 @@ class PWAManager {
         newWorker.addEventListener('statechange', () => {
           if (newWorker.state === 'installed' && navigator.serviceWorker.controller) {
             // New content is available
-            window.dispatchEvent(new CustomEvent('pwa-update-available'))
+            this.notifyUpdateAvailable()
           }
         })
       }
     })
 
+    // Long-lived tabs would otherwise only see updates on navigation
+    setInterval(() => {
+      this.registration?.update().catch(error => console.error('Service worker update check failed:', error))
+    }, UPDATE_CHECK_INTERVAL)
+
     // Listen for controlling service worker change
     navigator.serviceWorker.addEventListener('controllerchange', () => {
-      // Reload to get the new content
-      window.location.reload()
+      // Reload to get the new content, unless this is the first worker taking control
+      if (this.isUpdating) {
+        window.location.reload()
+      }
     })
   }
 
+  private notifyUpdateAvailable() {
+    this.updateAvailable = true
+    window.dispatchEvent(new CustomEvent('pwa-update-available'))
+  }
+
+  private setupSyncFallback() {
+    if (this.registration && 'sync' in this.registration) return
+
+    const sync = () => {
+      offlineSyncService.syncPendingChanges().catch(error => console.error('Offline sync failed:', error))
+    }
+    window.addEventListener('online', sync)
+    sync()
+  }
+
   // Public methods
   async showInstallPrompt(): Promise<boolean> {
     if (!this.installPrompt) {
@@ -147,12 +186,18 @@ class PWAManager {
     return this.isInstalled
   }
 
+  isUpdateAvailable(): boolean {
+    return this.updateAvailable
+  }
+
   async updateApp(): Promise<void> {
     if (!this.registration || !this.registration.waiting) {
       return
     }
 
-    // Tell the waiting service worker to skip waiting
+    // Tell the waiting service worker to skip waiting; the page reloads once it takes control
+    this.isUpdating = true
+    this.updateAvailable = false
     this.registration.waiting.postMessage({ type: 'SKIP_WAITING' })
   }
 
@@ -169,6 +214,17 @@ class PWAManager {
     }
   }
 
+  // Forget cached trips and unsent changes, e.g. when signing out on a shared device
+  async clearUserData(): Promise<void> {
+    this.registration?.active?.postMessage({ type: 'CLEAR_USER_DATA' })
+
+    try {
+      await offlineCacheManager.clearCache()
+    } catch (error) {
+      console.error('Error clearing offline data:', error)
+    }
+  }
+
   // Request persistent storage
   async requestPersistentStorage(): Promise<boolean> {
     if ('storage' in navigator && 'persist' in navigator.storage) {
@@ -280,6 +336,9 @@ export function usePWAUpdate() {
   const [updateAvailable, setUpdateAvailable] = useState(false)
 
   useEffect(() => {
+    // The update may have been found before this component mounted
+    setUpdateAvailable(pwaManager.isUpdateAvailable())
+
     const handleUpdateAvailable = () => setUpdateAvailable(true)
 
     window.addEventListener('pwa-update-available', handleUpdateAvailable)
@@ -63,7 +63,7 @@ export function rateLimit(options: RateLimitOptions) {
   }
 }
 
-function getClientIP(request: NextRequest): string {
+export function getClientIP(request: NextRequest): string {
   // Try various headers for IP address
   const forwarded = request.headers.get("x-forwarded-for")
   const real = request.headers.get("x-real-ip")
@@ -90,4 +90,11 @@ export const apiRateLimit = rateLimit({
 export const strictRateLimit = rateLimit({
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 10, // 10 requests per minute for sensitive endpoints
+})
+
+// Password attempts on one share link from one client; the path carries the share token
+export const shareUnlockRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 5, // Same budget as sign-in attempts
+  keyGenerator: (request) => `share-unlock:${request.nextUrl.pathname}:${getClientIP(request)}`,
 })
\ No newline at end of file
@@ -167,6 +167,11 @@ export class RetryManager {
 
         return result;
       } catch (error) {
+        // Cancellation from inside the operation ends the run as-is
+        if (error instanceof RetryCancelledException) {
+          throw error;
+        }
+
         lastError = error;
         const shouldRetry = this.config.retryCondition?.(error) ?? defaultRetryCondition(error);
         
@@ -317,11 +322,14 @@ export async function withRetry<T>(
 }
 
 // Helper function to create cancellation token
-export function createCancellationToken(): CancellationToken {
+// `onCancel` runs once on the first cancel, e.g. to abort an in-flight fetch
+export function createCancellationToken(onCancel?: () => void): CancellationToken {
   const token = {
     isCancelled: false,
     cancel: () => {
+      if (token.isCancelled) return;
       token.isCancelled = true;
+      onCancel?.();
     }
   };
   return token;
@@ -370,6 +378,11 @@ export const retryManagers = {
     maxAttempts: 3,
   }),
   
+  email: new RetryManager('Email', {
+    ...retryConfigs.network,
+    maxAttempts: 3,
+  }),
+  
   database: new RetryManager('Database', {
     ...retryConfigs.serverError,
     maxAttempts: 2,
@@ -0,0 +1,195 @@
+import { Activity, Day } from './itinerary-types'
+import { mapClustering } from './map-clustering'
+import { CoordinateValidator } from './coordinate-validation'
+
+// Exhaustive search up to this many movable activities in one time slot, nearest neighbour above
+const MAX_EXHAUSTIVE = 7
+// Below this the new order isn't worth proposing
+const MIN_SAVING_KM = 0.1
+
+export interface RouteChange {
+  activityId: string
+  name: string
+  fromIndex: number
+  toIndex: number
+  fromTime: string
+  toTime: string
+}
+
+export interface RouteOptimization {
+  dayNumber: number
+  // The day's activities in the new order, with their new times
+  activities: Activity[]
+  changes: RouteChange[]
+  distanceBeforeKm: number
+  distanceAfterKm: number
+}
+
+function toMinutes(time: string | undefined): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})$/)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+function toTime(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`
+}
+
+function distance(from: Activity | undefined, to: Activity): number {
+  return from ? CoordinateValidator.calculateDistance(from.location.coordinates, to.location.coordinates) : 0
+}
+
+function routeLength(activities: Activity[], located: Set<string>): number {
+  const stops = activities.filter(activity => located.has(activity.id))
+  return stops.reduce((sum, activity, index) => sum + distance(stops[index - 1], activity), 0)
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items]
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  )
+}
+
+/**
+ * Whether a time slot's activities are pinned in place: locked by the user,
+ * booked, or without a location to route through
+ */
+function isFixed(activity: Activity, located: Set<string>): boolean {
+  return !!activity.locked || !!activity.isBooked || !located.has(activity.id)
+}
+
+/**
+ * Place movable activities into the slot's movable positions. Each takes the
+ * start time of the position it lands in and keeps its own length; the
+ * result is rejected if a moved activity runs into its neighbours or falls
+ * outside its opening hours.
+ */
+function schedule(segment: Activity[], positions: number[], order: Activity[]): Activity[] | null {
+  const placed = [...segment]
+  positions.forEach((position, index) => { placed[position] = order[index] })
+
+  const timed = placed.map((activity, index) => {
+    if (!positions.includes(index)) return activity
+
+    const start = toMinutes(segment[index].startTime)
+    const length = (toMinutes(activity.endTime) ?? 0) - (toMinutes(activity.startTime) ?? 0)
+    if (start === null || length <= 0) return activity
+    return { ...activity, startTime: toTime(start), endTime: toTime(Math.min(start + length, 23 * 60 + 59)) }
+  })
+
+  for (const index of positions) {
+    const activity = timed[index]
+    const start = toMinutes(activity.startTime)
+    const end = toMinutes(activity.endTime)
+    if (start === null || end === null) continue
+
+    const previousEnd = toMinutes(timed[index - 1]?.endTime)
+    const nextStart = toMinutes(timed[index + 1]?.startTime)
+    if ((previousEnd !== null && previousEnd > start) || (nextStart !== null && end > nextStart)) return null
+
+    const open = toMinutes(activity.openingHours?.open)
+    const close = toMinutes(activity.openingHours?.close)
+    if ((open !== null && start < open) || (close !== null && end > close)) return null
+  }
+
+  return timed
+}
+
+/**
+ * Reorder the movable activities of one time slot run. Returns the
+ * shortest valid arrangement, or the run unchanged if none beats it.
+ */
+function optimiseSegment(segment: Activity[], previous: Activity | undefined, located: Set<string>): Activity[] {
+  const positions = segment.flatMap((activity, index) => isFixed(activity, located) ? [] : [index])
+  if (positions.length < 2) return segment
+
+  const movable = positions.map(index => segment[index])
+  const length = (activities: Activity[]) => routeLength(previous ? [previous, ...activities] : activities, located)
+
+  let candidates: Activity[][]
+  if (movable.length <= MAX_EXHAUSTIVE) {
+    candidates = permutations(movable)
+  } else {
+    // Greedy: always head to the closest remaining activity
+    const remaining = [...movable]
+    const order: Activity[] = []
+    let current = previous ?? remaining.shift()!
+    if (!previous) order.push(current)
+    while (remaining.length > 0) {
+      remaining.sort((a, b) => distance(current, a) - distance(current, b))
+      current = remaining.shift()!
+      order.push(current)
+    }
+    candidates = [order]
+  }
+
+  let best = segment
+  let bestLength = length(segment)
+  for (const order of candidates) {
+    const arranged = schedule(segment, positions, order)
+    if (!arranged) continue
+    const arrangedLength = length(arranged)
+    if (arrangedLength < bestLength - 1e-9) {
+      best = arranged
+      bestLength = arrangedLength
+    }
+  }
+  return best
+}
+
+/**
+ * Find a shorter walking order for a day. Activities only move within their
+ * own time slot (morning, afternoon, evening); locked and booked activities
+ * keep their place and times. Returns null when the current order is already
+ * the shortest that fits.
+ */
+export function optimiseDayRoute(day: Day): RouteOptimization | null {
+  const located = new Set(mapClustering.createPoints([day]).map(point => point.properties.activity.id))
+
+  // Positions take their times from the activity that held them, so work in time order
+  const timed = day.activities.every(activity => toMinutes(activity.startTime) !== null)
+  const chronological = timed
+    ? [...day.activities].sort((a, b) => toMinutes(a.startTime)! - toMinutes(b.startTime)!)
+    : day.activities
+
+  // Runs of consecutive activities sharing a time slot
+  const segments: Activity[][] = []
+  chronological.forEach((activity, index) => {
+    if (index > 0 && chronological[index - 1].timeSlot === activity.timeSlot) {
+      segments[segments.length - 1].push(activity)
+    } else {
+      segments.push([activity])
+    }
+  })
+
+  const activities: Activity[] = []
+  for (const segment of segments) {
+    activities.push(...optimiseSegment(segment, activities[activities.length - 1], located))
+  }
+
+  const distanceBeforeKm = routeLength(chronological, located)
+  const distanceAfterKm = routeLength(activities, located)
+  if (distanceBeforeKm - distanceAfterKm < MIN_SAVING_KM) return null
+
+  const changes = activities.flatMap((activity, toIndex) => {
+    const fromIndex = day.activities.findIndex(original => original.id === activity.id)
+    const original = day.activities[fromIndex]
+    if (fromIndex === toIndex && original.startTime === activity.startTime) return []
+    return [{
+      activityId: activity.id,
+      name: activity.name,
+      fromIndex,
+      toIndex,
+      fromTime: original.startTime,
+      toTime: activity.startTime
+    }]
+  })
+
+  return {
+    dayNumber: day.day,
+    activities,
+    changes,
+    distanceBeforeKm: Math.round(distanceBeforeKm * 10) / 10,
+    distanceAfterKm: Math.round(distanceAfterKm * 10) / 10
+  }
+}
@@ -0,0 +1,304 @@
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { ActivityError, ActivityService } from './activity-service'
+import { TripPreferencesService } from './trip-preferences'
+import { TravelPreferences } from './trip-validation'
+import { Coordinates, CoordinateValidator } from './coordinate-validation'
+import {
+  createDirectionsProviderFromEnv,
+  Directions,
+  DirectionsProvider,
+  StubDirectionsProvider,
+  TravelMode
+} from './directions'
+
+type Transportation = TravelPreferences['transportation']
+
+// Mapbox has no public transport profile, so transit is estimated from driving
+export type LegMode = TravelMode | 'transit'
+
+export interface TravelLeg {
+  fromActivityId: string
+  toActivityId: string
+  mode: LegMode
+  durationMinutes: number
+  distanceKm: number
+  // Free time between the two activities; null when either has no times
+  gapMinutes: number | null
+  feasible: boolean
+  // True when the provider failed and the straight-line estimate was used
+  estimated?: boolean
+}
+
+export interface ScheduleIssue {
+  type: 'overlap' | 'insufficient-travel-time'
+  fromActivityId: string
+  toActivityId: string
+  shortfallMinutes: number
+  message: string
+}
+
+export interface ReorderSuggestion {
+  activityIds: string[]
+  currentTravelMinutes: number
+  suggestedTravelMinutes: number
+  savedMinutes: number
+}
+
+export interface DaySchedule {
+  dayNumber: number
+  legs: TravelLeg[]
+  issues: ScheduleIssue[]
+  totalTravelMinutes: number
+  suggestion?: ReorderSuggestion
+}
+
+export interface ScheduledActivity {
+  id: string
+  name: string
+  startTime?: string | null
+  endTime?: string | null
+  timeSlot?: string | null
+  coordinates?: Coordinates | null
+  // Fixed activities keep their place when suggesting a new order
+  fixed?: boolean
+}
+
+// Short hops are walked even when the traveler prefers transit
+const WALKABLE_KM = 1.2
+const TRANSIT_FACTOR = 1.4
+const TRANSIT_WAIT_MINUTES = 8
+// Reordering is only suggested when it saves at least this much travel
+const MIN_SAVING_MINUTES = 10
+
+function toMinutes(time: string | null | undefined): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+// AI output without a location falls back to 0,0, which validation rejects
+function usableCoordinates(coordinates: Coordinates | null | undefined): coordinates is Coordinates {
+  return !!coordinates && CoordinateValidator.validate(coordinates).valid
+}
+
+function modeFor(transportation: Transportation, straightLineKm: number): LegMode {
+  if (transportation === 'walking' || straightLineKm <= WALKABLE_KM) return 'walking'
+  if (transportation === 'rental-car') return 'driving'
+  return 'transit'
+}
+
+/**
+ * Checks whether a day's schedule leaves enough time to get from one
+ * activity to the next, using the trip's preferred way of getting around.
+ */
+export class ScheduleValidator {
+  private directions = new Map<string, Promise<Directions & { estimated?: boolean }>>()
+  private fallback = new StubDirectionsProvider()
+
+  constructor(
+    private provider: DirectionsProvider,
+    private transportation: Transportation = 'mixed'
+  ) {}
+
+  /**
+   * Travel legs between consecutive activities, in the order given, plus
+   * any gaps too short for the journey and a shorter visiting order if one exists.
+   */
+  async validateDay(dayNumber: number, activities: ScheduledActivity[]): Promise<DaySchedule> {
+    const legs = await this.legsFor(activities)
+    const byId = new Map(activities.map(activity => [activity.id, activity]))
+    const issues: ScheduleIssue[] = []
+
+    for (const leg of legs) {
+      if (leg.gapMinutes === null || leg.feasible) continue
+      const from = byId.get(leg.fromActivityId)!
+      const to = byId.get(leg.toActivityId)!
+
+      issues.push(leg.gapMinutes < 0
+        ? {
+          type: 'overlap',
+          fromActivityId: from.id,
+          toActivityId: to.id,
+          shortfallMinutes: leg.durationMinutes - leg.gapMinutes,
+          message: `"${to.name}" starts before "${from.name}" ends`
+        }
+        : {
+          type: 'insufficient-travel-time',
+          fromActivityId: from.id,
+          toActivityId: to.id,
+          shortfallMinutes: leg.durationMinutes - leg.gapMinutes,
+          message: `Getting from "${from.name}" to "${to.name}" takes about ${leg.durationMinutes} min ` +
+            `but only ${leg.gapMinutes} min are planned`
+        })
+    }
+
+    const totalTravelMinutes = legs.reduce((sum, leg) => sum + leg.durationMinutes, 0)
+    const suggestion = await this.suggestOrder(activities, totalTravelMinutes)
+
+    return { dayNumber, legs, issues, totalTravelMinutes, ...(suggestion && { suggestion }) }
+  }
+
+  private async legsFor(activities: ScheduledActivity[]): Promise<TravelLeg[]> {
+    const legs: TravelLeg[] = []
+
+    for (let index = 1; index < activities.length; index++) {
+      const from = activities[index - 1]
+      const to = activities[index]
+      if (!usableCoordinates(from.coordinates) || !usableCoordinates(to.coordinates)) continue
+
+      const travel = await this.travel(from.coordinates, to.coordinates)
+      const end = toMinutes(from.endTime)
+      const start = toMinutes(to.startTime)
+      const gapMinutes = end !== null && start !== null ? start - end : null
+
+      legs.push({
+        fromActivityId: from.id,
+        toActivityId: to.id,
+        ...travel,
+        gapMinutes,
+        feasible: gapMinutes === null || gapMinutes >= travel.durationMinutes
+      })
+    }
+
+    return legs
+  }
+
+  private async travel(origin: Coordinates, destination: Coordinates) {
+    const mode = modeFor(this.transportation, CoordinateValidator.calculateDistance(origin, destination))
+    const directions = await this.directionsFor(origin, destination, mode === 'transit' ? 'driving' : mode)
+
+    return {
+      mode,
+      durationMinutes: mode === 'transit'
+        ? Math.ceil(directions.durationMinutes * TRANSIT_FACTOR) + TRANSIT_WAIT_MINUTES
+        : directions.durationMinutes,
+      distanceKm: directions.distanceKm,
+      ...(directions.estimated && { estimated: true })
+    }
+  }
+
+  // Cached so suggesting an order doesn't ask for the same route twice
+  private directionsFor(origin: Coordinates, destination: Coordinates, mode: TravelMode) {
+    const key = [origin.lat, origin.lng, destination.lat, destination.lng, mode].join(',')
+    let directions = this.directions.get(key)
+    if (!directions) {
+      directions = this.provider.getDirections(origin, destination, mode).catch(async (error) => {
+        console.warn(`Directions from ${this.provider.name} failed, estimating instead:`, error)
+        return { ...await this.fallback.getDirections(origin, destination, mode), estimated: true }
+      })
+      this.directions.set(key, directions)
+    }
+    return directions
+  }
+
+  /**
+   * Nearest-neighbour order within each run of activities sharing a time
+   * slot. Fixed activities and activities without a location stay put.
+   */
+  private async suggestOrder(activities: ScheduledActivity[], currentTravelMinutes: number) {
+    const ordered: ScheduledActivity[] = []
+    let run: ScheduledActivity[] = []
+
+    const flush = () => {
+      let previous = ordered[ordered.length - 1]
+      const remaining = [...run]
+      while (remaining.length > 0) {
+        const origin = previous?.coordinates
+        let next = 0
+        if (usableCoordinates(origin)) {
+          remaining.forEach((activity, index) => {
+            if (CoordinateValidator.calculateDistance(origin, activity.coordinates!) <
+              CoordinateValidator.calculateDistance(origin, remaining[next].coordinates!)) {
+              next = index
+            }
+          })
+        }
+        previous = remaining.splice(next, 1)[0]
+        ordered.push(previous)
+      }
+      run = []
+    }
+
+    for (const activity of activities) {
+      const movable = !activity.fixed && usableCoordinates(activity.coordinates)
+      if (!movable || (run.length > 0 && run[0].timeSlot !== activity.timeSlot)) {
+        flush()
+      }
+      if (movable) {
+        run.push(activity)
+      } else {
+        ordered.push(activity)
+      }
+    }
+    flush()
+
+    if (ordered.every((activity, index) => activity.id === activities[index].id)) return undefined
+
+    const legs = await this.legsFor(ordered)
+    const suggestedTravelMinutes = legs.reduce((sum, leg) => sum + leg.durationMinutes, 0)
+    const savedMinutes = currentTravelMinutes - suggestedTravelMinutes
+    if (savedMinutes < MIN_SAVING_MINUTES) return undefined
+
+    return {
+      activityIds: ordered.map(activity => activity.id),
+      currentTravelMinutes,
+      suggestedTravelMinutes,
+      savedMinutes
+    }
+  }
+}
+
+export class ScheduleService {
+  /**
+   * Validate one day, or every day, of a saved trip and store the computed
+   * travel legs on each day so the timeline can show them.
+   */
+  static async checkTrip(
+    tripId: string,
+    userId: string,
+    dayNumber?: number,
+    provider: DirectionsProvider = createDirectionsProviderFromEnv()
+  ): Promise<DaySchedule[]> {
+    await ActivityService.assertCanEdit(tripId, userId, ['canEditActivities'])
+
+    const trip = await db.trip.findUniqueOrThrow({
+      where: { id: tripId },
+      select: { userId: true, travelers: true, preferences: true }
+    })
+    const { preferences } = await TripPreferencesService.resolve(trip)
+
+    const days = await db.day.findMany({
+      where: { tripId, ...(dayNumber !== undefined && { dayNumber }) },
+      orderBy: { dayNumber: 'asc' },
+      include: { activities: { orderBy: { order: 'asc' } } }
+    })
+    if (dayNumber !== undefined && days.length === 0) {
+      throw new ActivityError(`Day ${dayNumber} not found`, 404)
+    }
+
+    const validator = new ScheduleValidator(provider, preferences.transportation)
+    const schedules: DaySchedule[] = []
+
+    for (const day of days) {
+      const schedule = await validator.validateDay(day.dayNumber, day.activities.map(activity => ({
+        id: activity.id,
+        name: activity.name,
+        startTime: activity.startTime,
+        endTime: activity.endTime,
+        timeSlot: activity.timeSlot,
+        coordinates: activity.coordinates as Coordinates | null,
+        fixed: activity.locked
+      })))
+
+      await db.day.update({
+        where: { id: day.id },
+        data: { travelLegs: schedule.legs as unknown as Prisma.InputJsonValue }
+      })
+      schedules.push(schedule)
+    }
+
+    return schedules
+  }
+}
+
+export default ScheduleService
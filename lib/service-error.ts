@@ -0,0 +1,15 @@
+/**
+ * Base for errors a service raises for its routes to answer with: the
+ * message is safe to show and `status` is the HTTP status to reply with.
+ */
+export class ServiceError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ServiceError'
+    this.status = status
+  }
+}
+
+export type ServiceErrorClass = new (message: string, status: number) => ServiceError
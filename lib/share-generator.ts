@@ -1,34 +1,394 @@
-// Sharing disabled stub
-// Keeps the same exported instance name so imports remain valid but throws
-// clear errors or returns empty values.
+// Public trip sharing backed by the SharedTrip model.
+// Each trip has at most one share link; creating a link again updates its
+// options but keeps the token so links already sent to people keep working.
 
-import type { TripWithActivities, ShareOptions } from "./share-types";
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { db } from "./db";
+import type {
+  TripWithActivities,
+  ShareOptions,
+  ShareStats,
+} from "./share-types";
+
+export type ShareErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "EXPIRED"
+  | "PASSWORD_REQUIRED"
+  | "INVALID_PASSWORD";
+
+export class ShareError extends Error {
+  public code: ShareErrorCode;
+
+  constructor(message: string, code: ShareErrorCode) {
+    super(message);
+    this.name = "ShareError";
+    this.code = code;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SHARE_DAYS = 30;
+// How long a correct password unlocks a protected link in one browser
+export const SHARE_ACCESS_TTL_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Cookie holding the access pass for one share link, so the password itself
+ * never travels in a URL and a pass for one link is useless for another
+ */
+export function shareAccessCookieName(shareToken: string): string {
+  return `share-access-${shareToken}`;
+}
+
+export function shareAccessFromCookies(
+  cookies: { get(name: string): { value: string } | undefined },
+  shareToken?: string
+): string | undefined {
+  return shareToken ? cookies.get(shareAccessCookieName(shareToken))?.value : undefined;
+}
 
 export class ShareGenerator {
   async createShareableLink(
-    _tripId: string,
-    _userId: string,
-    _options: ShareOptions = {}
-  ): Promise<{ shareToken: string; shareUrl: string }> {
-    throw new Error("Sharing has been disabled in this build");
+    tripId: string,
+    userId: string,
+    options: ShareOptions = {}
+  ): Promise<{ shareToken: string; shareUrl: string; expiresAt: Date | null }> {
+    await this.assertOwner(tripId, userId);
+
+    const existing = await db.sharedTrip.findUnique({
+      where: { tripId },
+      select: { shareToken: true, expiresAt: true },
+    });
+
+    // Leaving the expiry out keeps an existing link's, and gives a new link the default
+    let expiresAt: Date | null;
+    if (options.expiresInDays === undefined) {
+      expiresAt = existing
+        ? existing.expiresAt
+        : new Date(Date.now() + DEFAULT_SHARE_DAYS * DAY_MS);
+    } else {
+      expiresAt = options.expiresInDays
+        ? new Date(Date.now() + options.expiresInDays * DAY_MS)
+        : null;
+    }
+    const settings = {
+      expiresAt,
+      allowComments: options.allowComments ?? false,
+      showContactInfo: options.showContactInfo ?? false,
+      showBudget: options.showBudget ?? false,
+      passwordHash: options.password ? this.hashPassword(options.password) : null,
+      isPublic: true,
+    };
+
+    const sharedTrip = existing
+      ? await db.sharedTrip.update({
+          where: { tripId },
+          data: settings,
+        })
+      : await db.sharedTrip.create({
+          data: {
+            tripId,
+            shareToken: this.generateShareToken(),
+            ...settings,
+          },
+        });
+
+    return {
+      shareToken: sharedTrip.shareToken,
+      shareUrl: this.buildShareUrl(sharedTrip.shareToken),
+      expiresAt: sharedTrip.expiresAt,
+    };
   }
 
+  /**
+   * Check the password of a protected link and issue a signed access pass
+   * for it. Changing or removing the password invalidates earlier passes.
+   */
+  async unlockSharedTrip(
+    shareToken: string,
+    password: string
+  ): Promise<{ accessPass: string; expiresAt: Date }> {
+    const sharedTrip = await db.sharedTrip.findUnique({
+      where: { shareToken },
+      select: { isPublic: true, expiresAt: true, passwordHash: true },
+    });
+
+    if (!sharedTrip || !sharedTrip.isPublic) {
+      throw new ShareError("Shared trip not found", "NOT_FOUND");
+    }
+    if (sharedTrip.expiresAt && sharedTrip.expiresAt < new Date()) {
+      throw new ShareError("This share link has expired", "EXPIRED");
+    }
+    if (
+      sharedTrip.passwordHash &&
+      !this.verifyPassword(password, sharedTrip.passwordHash)
+    ) {
+      throw new ShareError("Incorrect password", "INVALID_PASSWORD");
+    }
+
+    const expiresAt = new Date(Date.now() + SHARE_ACCESS_TTL_MS);
+    return {
+      accessPass: this.signAccessPass(shareToken, sharedTrip.passwordHash, expiresAt.getTime()),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Resolve a share token to a read-only view of the trip.
+   * Returns null for unknown or disabled links and throws a ShareError when
+   * the link has expired or is protected and the access pass is missing or stale.
+   */
   async getSharedTrip(
-    _shareToken: string,
-    _password?: string
+    shareToken: string,
+    accessPass?: string
   ): Promise<TripWithActivities | null> {
-    return null;
+    const sharedTrip = await db.sharedTrip.findUnique({
+      where: { shareToken },
+      include: {
+        trip: {
+          include: {
+            user: { select: { name: true, email: true } },
+            days: {
+              orderBy: { dayNumber: "asc" },
+              include: { activities: { orderBy: { order: "asc" } } },
+            },
+            itineraryData: {
+              select: { generalTips: true, budgetBreakdown: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!sharedTrip || !sharedTrip.isPublic) {
+      return null;
+    }
+
+    this.assertAccessible(shareToken, sharedTrip, accessPass);
+
+    await db.sharedTrip.update({
+      where: { id: sharedTrip.id },
+      data: { viewCount: { increment: 1 } },
+    });
+
+    const { trip } = sharedTrip;
+    const { showBudget, showContactInfo } = sharedTrip;
+
+    const days = trip.days.map((day) => ({
+      id: day.id,
+      dayNumber: day.dayNumber,
+      date: day.date,
+      theme: day.theme,
+      dailyBudget: showBudget ? day.dailyBudget : undefined,
+      activities: day.activities.map((activity) => ({
+        id: activity.id,
+        name: activity.name,
+        description: activity.description,
+        location: activity.location,
+        address: activity.address,
+        coordinates: activity.coordinates,
+        startTime: activity.startTime,
+        endTime: activity.endTime,
+        timeSlot: activity.timeSlot,
+        type: activity.type,
+        duration: activity.duration,
+        price: showBudget ? activity.price : undefined,
+        currency: showBudget ? activity.currency : undefined,
+        tips: activity.tips,
+        bookingUrl: activity.bookingUrl,
+        order: activity.order,
+      })),
+    }));
+
+    return {
+      id: trip.id,
+      title: trip.title,
+      destination: trip.destination,
+      description: trip.description,
+      startDate: trip.startDate.toISOString(),
+      endDate: trip.endDate.toISOString(),
+      travelers: trip.travelers,
+      budget: showBudget ? trip.budget : undefined,
+      currency: showBudget ? trip.currency : undefined,
+      coverImage: trip.coverImage,
+      days,
+      activities: days.flatMap((day) => day.activities),
+      generalTips: trip.itineraryData?.generalTips,
+      budgetBreakdown: showBudget
+        ? trip.itineraryData?.budgetBreakdown
+        : undefined,
+      user: showContactInfo
+        ? { name: trip.user.name, email: trip.user.email }
+        : { name: trip.user.name },
+      share: {
+        allowComments: sharedTrip.allowComments,
+        showBudget,
+        showContactInfo,
+        expiresAt: sharedTrip.expiresAt?.toISOString() ?? null,
+        viewCount: sharedTrip.viewCount + 1,
+      },
+    };
+  }
+
+  /**
+   * Check that a share link can be used, without counting a view.
+   * Same null / ShareError semantics as getSharedTrip.
+   */
+  async verifyShareAccess(
+    shareToken: string,
+    accessPass?: string
+  ): Promise<{ tripId: string; allowComments: boolean } | null> {
+    const sharedTrip = await db.sharedTrip.findUnique({
+      where: { shareToken },
+      select: {
+        tripId: true,
+        isPublic: true,
+        expiresAt: true,
+        passwordHash: true,
+        allowComments: true,
+      },
+    });
+
+    if (!sharedTrip || !sharedTrip.isPublic) {
+      return null;
+    }
+
+    this.assertAccessible(shareToken, sharedTrip, accessPass);
+
+    return {
+      tripId: sharedTrip.tripId,
+      allowComments: sharedTrip.allowComments,
+    };
+  }
+
+  async revokeShareableLink(tripId: string, userId: string): Promise<boolean> {
+    await this.assertOwner(tripId, userId);
+
+    const result = await db.sharedTrip.deleteMany({ where: { tripId } });
+    return result.count > 0;
+  }
+
+  async getShareStats(
+    tripId: string,
+    userId: string
+  ): Promise<ShareStats | null> {
+    await this.assertOwner(tripId, userId);
+
+    const sharedTrip = await db.sharedTrip.findUnique({ where: { tripId } });
+    if (!sharedTrip) {
+      return null;
+    }
+
+    return {
+      shareToken: sharedTrip.shareToken,
+      shareUrl: this.buildShareUrl(sharedTrip.shareToken),
+      viewCount: sharedTrip.viewCount,
+      createdAt: sharedTrip.createdAt,
+      expiresAt: sharedTrip.expiresAt,
+      isExpired: !!sharedTrip.expiresAt && sharedTrip.expiresAt < new Date(),
+      hasPassword: !!sharedTrip.passwordHash,
+      options: {
+        allowComments: sharedTrip.allowComments,
+        showContactInfo: sharedTrip.showContactInfo,
+        showBudget: sharedTrip.showBudget,
+      },
+    };
   }
 
-  async revokeShareableLink(
-    _tripId: string,
-    _userId: string
-  ): Promise<boolean> {
-    throw new Error("Sharing has been disabled in this build");
+  // Private helper methods
+
+  private async assertOwner(tripId: string, userId: string): Promise<void> {
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: { userId: true },
+    });
+
+    if (!trip) {
+      throw new ShareError("Trip not found", "NOT_FOUND");
+    }
+    if (trip.userId !== userId) {
+      throw new ShareError(
+        "Only the trip owner can manage sharing",
+        "FORBIDDEN"
+      );
+    }
+  }
+
+  private assertAccessible(
+    shareToken: string,
+    sharedTrip: { expiresAt: Date | null; passwordHash: string | null },
+    accessPass?: string
+  ): void {
+    if (sharedTrip.expiresAt && sharedTrip.expiresAt < new Date()) {
+      throw new ShareError("This share link has expired", "EXPIRED");
+    }
+
+    if (
+      sharedTrip.passwordHash &&
+      !this.verifyAccessPass(shareToken, sharedTrip.passwordHash, accessPass)
+    ) {
+      throw new ShareError(
+        "A password is required to view this trip",
+        "PASSWORD_REQUIRED"
+      );
+    }
   }
 
-  async getShareStats(_tripId: string, _userId: string) {
-    return null;
+  // <expiry ms>.<hmac>, bound to the link and its current password hash
+  private signAccessPass(
+    shareToken: string,
+    passwordHash: string | null,
+    expiresAtMs: number
+  ): string {
+    const secret = process.env.NEXTAUTH_SECRET;
+    if (!secret) {
+      throw new Error("NEXTAUTH_SECRET is required to sign share access passes");
+    }
+
+    const signature = createHmac("sha256", secret)
+      .update(`${shareToken}:${expiresAtMs}:${passwordHash ?? ""}`)
+      .digest("base64url");
+    return `${expiresAtMs}.${signature}`;
+  }
+
+  private verifyAccessPass(
+    shareToken: string,
+    passwordHash: string,
+    accessPass?: string
+  ): boolean {
+    const [expiry, signature] = accessPass?.split(".") ?? [];
+    const expiresAtMs = Number(expiry);
+    if (!signature || !Number.isFinite(expiresAtMs) || expiresAtMs < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signAccessPass(shareToken, passwordHash, expiresAtMs));
+    const actual = Buffer.from(accessPass as string);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private generateShareToken(): string {
+    return randomBytes(24).toString("base64url");
+  }
+
+  private buildShareUrl(shareToken: string): string {
+    const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000";
+    return `${baseUrl.replace(/\/$/, "")}/share/${shareToken}`;
+  }
+
+  private hashPassword(password: string): string {
+    const salt = randomBytes(16).toString("hex");
+    const hash = scryptSync(password, salt, 64).toString("hex");
+    return `${salt}:${hash}`;
+  }
+
+  private verifyPassword(password: string, stored: string): boolean {
+    const [salt, hash] = stored.split(":");
+    if (!salt || !hash) return false;
+
+    const expected = Buffer.from(hash, "hex");
+    const actual = scryptSync(password, salt, expected.length);
+    return timingSafeEqual(expected, actual);
   }
 }
 
@@ -1,19 +1,74 @@
-// Minimal types for the share-generator stub
+// Types shared between the share generator, /api/share and the public share page
+
+export interface SharedActivity {
+  id: string;
+  name: string;
+  description?: string | null;
+  location?: string | null;
+  address?: string | null;
+  coordinates?: unknown;
+  startTime?: string | null;
+  endTime?: string | null;
+  timeSlot?: string | null;
+  type: string;
+  duration?: string | null;
+  price?: number | null;
+  currency?: string | null;
+  tips?: unknown;
+  bookingUrl?: string | null;
+  order: number;
+}
+
+export interface SharedDay {
+  id: string;
+  dayNumber: number;
+  date: string;
+  theme?: string | null;
+  dailyBudget?: unknown;
+  activities: SharedActivity[];
+}
 
 export interface TripWithActivities {
   id: string;
   title?: string | null;
+  destination?: string | null;
+  description?: string | null;
   startDate?: string | null;
   endDate?: string | null;
+  travelers?: number;
   budget?: number | null;
-  activities?: any[];
+  currency?: string | null;
+  coverImage?: string | null;
+  days: SharedDay[];
+  activities?: SharedActivity[];
+  generalTips?: unknown;
+  budgetBreakdown?: unknown;
   user?: { name?: string | null; email?: string };
+  share: {
+    allowComments: boolean;
+    showBudget: boolean;
+    showContactInfo: boolean;
+    expiresAt?: string | null;
+    viewCount: number;
+  };
 }
 
 export interface ShareOptions {
-  expiresInDays?: number;
+  // null for a link that never expires; omit to keep an existing link's expiry
+  expiresInDays?: number | null;
   allowComments?: boolean;
   showContactInfo?: boolean;
   showBudget?: boolean;
   password?: string;
 }
+
+export interface ShareStats {
+  shareToken: string;
+  shareUrl: string;
+  viewCount: number;
+  createdAt: Date;
+  expiresAt: Date | null;
+  isExpired: boolean;
+  hasPassword: boolean;
+  options: Required<Omit<ShareOptions, "password" | "expiresInDays">>;
+}
@@ -0,0 +1,291 @@
+import { Prisma, Trip, TripLeg } from '@prisma/client'
+import { z } from 'zod'
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { NotificationService } from './notification-service'
+import { ServiceError } from './service-error'
+import { geocodingService } from './geocoding-service'
+import { TimezoneUtils } from './timezone-utils'
+import { Coordinates } from './coordinate-validation'
+
+const MAX_LEGS = 10
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const tripLegInputSchema = z.object({
+  destination: z.string().min(1).max(300),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  // Defaults to the destination's timezone when known
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Unknown timezone').optional()
+})
+
+export const tripLegsSchema = z.object({
+  legs: z.array(tripLegInputSchema).max(MAX_LEGS, `A trip can have at most ${MAX_LEGS} destinations`)
+})
+
+export type TripLegInput = z.infer<typeof tripLegInputSchema>
+
+export interface PreparedLeg {
+  order: number
+  destination: string
+  startDate: Date
+  endDate: Date
+  coordinates?: Coordinates
+  timezone: string | null
+}
+
+export class TripLegError extends ServiceError {
+  name = 'TripLegError'
+}
+
+// Whole days between two dates; rounding absorbs DST shifts in local-midnight timestamps
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS)
+}
+
+/**
+ * First and last itinerary day numbers a leg covers. Both ends are
+ * inclusive, matching how trip durations are counted.
+ */
+export function legDayRange(tripStart: Date, leg: Pick<TripLeg, 'startDate' | 'endDate'>) {
+  return {
+    firstDay: daysBetween(tripStart, leg.startDate) + 1,
+    lastDay: daysBetween(tripStart, leg.endDate) + 1
+  }
+}
+
+export function legDayCount(leg: Pick<TripLeg, 'startDate' | 'endDate'>): number {
+  return daysBetween(leg.startDate, leg.endDate) + 1
+}
+
+/**
+ * The leg a given itinerary day belongs to, or undefined for single-destination trips
+ */
+export function legForDay<T extends Pick<TripLeg, 'startDate' | 'endDate'>>(
+  tripStart: Date,
+  legs: T[],
+  dayNumber: number
+): T | undefined {
+  return legs.find(leg => {
+    const { firstDay, lastDay } = legDayRange(tripStart, leg)
+    return dayNumber >= firstDay && dayNumber <= lastDay
+  })
+}
+
+/**
+ * Timezone of an itinerary date (YYYY-MM-DD): that of the leg covering it,
+ * or the destination's for single-destination trips
+ */
+export function timezoneForDate(
+  trip: Pick<Trip, 'destination' | 'startDate'>,
+  legs: Array<Pick<TripLeg, 'destination' | 'startDate' | 'endDate' | 'timezone'>>,
+  date: string
+): string {
+  const dayNumber = daysBetween(trip.startDate, new Date(date.slice(0, 10))) + 1
+  const leg = legForDay(trip.startDate, legs, dayNumber)
+  return leg?.timezone || TimezoneUtils.getDestinationTimezone(leg?.destination ?? trip.destination)
+}
+
+export function formatRoute(legs: Array<Pick<TripLeg, 'destination'>>): string {
+  return legs.map(leg => leg.destination).join(' → ')
+}
+
+/**
+ * Legs must cover the trip back to back: the first starts on the trip's
+ * first day, each next one starts the day after the previous ends (that
+ * day is the transfer day), and the last ends on the trip's last day.
+ */
+export function validateLegs(trip: Pick<Trip, 'startDate' | 'endDate'>, legs: Array<Pick<TripLeg, 'destination' | 'startDate' | 'endDate'>>): string[] {
+  const errors: string[] = []
+  if (legs.length === 0) return errors
+
+  const tripDays = daysBetween(trip.startDate, trip.endDate) + 1
+
+  legs.forEach((leg, index) => {
+    const { firstDay, lastDay } = legDayRange(trip.startDate, leg)
+    if (lastDay < firstDay) {
+      errors.push(`${leg.destination}: end date must not be before the start date`)
+    }
+
+    if (index === 0 && firstDay !== 1) {
+      errors.push(`${leg.destination} must start on the trip's first day`)
+    }
+
+    if (index > 0) {
+      const previous = legDayRange(trip.startDate, legs[index - 1])
+      if (firstDay !== previous.lastDay + 1) {
+        errors.push(`${leg.destination} must start the day after ${legs[index - 1].destination} ends`)
+      }
+    }
+
+    if (index === legs.length - 1 && lastDay !== tripDays) {
+      errors.push(`${leg.destination} must end on the trip's last day`)
+    }
+  })
+
+  return errors
+}
+
+export class TripLegService {
+  static async getLegs(tripId: string): Promise<TripLeg[]> {
+    return db.tripLeg.findMany({
+      where: { tripId },
+      orderBy: { order: 'asc' }
+    })
+  }
+
+  /**
+   * Legs for anyone who can see the trip, plus whether they may change them
+   */
+  static async getForTrip(tripId: string, userId: string) {
+    const { trip, permissions: { canEdit } } = await CollaborationService.getTripAccess(tripId, userId, TripLegError, { allowPublic: true })
+
+    return {
+      legs: await this.getLegs(tripId),
+      // Legs are laid out against these
+      trip: { destination: trip.destination, startDate: trip.startDate, endDate: trip.endDate },
+      canEdit
+    }
+  }
+
+  /**
+   * Validate legs against the trip's dates and fill in coordinates and
+   * timezones. Coordinates already known for a destination are reused.
+   */
+  static async prepare(
+    trip: Pick<Trip, 'startDate' | 'endDate'>,
+    input: TripLegInput[],
+    known: Array<Pick<TripLeg, 'destination' | 'coordinates'>> = []
+  ): Promise<PreparedLeg[]> {
+    const legs = input.map(leg => ({
+      destination: leg.destination.trim(),
+      startDate: new Date(leg.startDate),
+      endDate: new Date(leg.endDate),
+      timezone: leg.timezone
+    }))
+
+    const errors = validateLegs(trip, legs)
+    if (errors.length > 0) {
+      throw new TripLegError(errors[0], 400)
+    }
+
+    return Promise.all(legs.map(async (leg, order) => {
+      const knownCoordinates = known.find(existing => existing.destination === leg.destination)?.coordinates
+      const coordinates = (knownCoordinates as Coordinates | null | undefined) ?? await this.geocode(leg.destination)
+      const timezone = leg.timezone || TimezoneUtils.getDestinationTimezone(leg.destination)
+
+      return {
+        order,
+        destination: leg.destination,
+        startDate: leg.startDate,
+        endDate: leg.endDate,
+        coordinates,
+        timezone: timezone === 'UTC' ? null : timezone
+      }
+    }))
+  }
+
+  /**
+   * Replace a trip's legs. The first leg becomes the trip's destination so
+   * single-destination features (weather, exports) keep working; an empty
+   * list turns the trip back into a single-destination trip.
+   */
+  static async replaceLegs(tripId: string, userId: string, input: TripLegInput[]): Promise<TripLeg[]> {
+    const { trip, permissions } = await CollaborationService.getTripAccess(tripId, userId, TripLegError)
+    if (!permissions.canEdit) {
+      throw new TripLegError('You do not have permission to change this trip\'s destinations', 403)
+    }
+
+    const existing = await this.getLegs(tripId)
+    const legs = await this.prepare(trip, input, existing)
+
+    await db.$transaction(async (tx) => {
+      await tx.tripLeg.deleteMany({ where: { tripId } })
+      if (legs.length === 0) return
+
+      await tx.tripLeg.createMany({ data: legs.map(leg => this.toCreateData(tripId, leg)) })
+      await tx.trip.update({
+        where: { id: tripId },
+        data: {
+          destination: legs[0].destination,
+          ...(legs[0].coordinates && { destinationCoords: { ...legs[0].coordinates } })
+        }
+      })
+    })
+
+    const saved = await this.getLegs(tripId)
+    const actorName = await NotificationService.displayName(userId)
+    await NotificationService.notifyTripMembers(tripId, userId, {
+      type: 'TRIP_UPDATE',
+      title: 'Trip route updated',
+      message: saved.length > 1
+        ? `${actorName} changed the route of "${trip.title}" to ${formatRoute(saved)}`
+        : `${actorName} made "${trip.title}" a single-destination trip`,
+      data: { url: NotificationService.tripUrl(tripId), fields: ['legs'] }
+    })
+
+    return saved
+  }
+
+  /**
+   * Fit a trip's legs to new trip dates: moving the whole trip shifts every
+   * leg, otherwise the first leg takes the new start and the last leg the
+   * new end. Returns the legs to save, or throws if they no longer fit.
+   */
+  static async fitToDates(tripId: string, current: Pick<Trip, 'startDate' | 'endDate'>, dates: Pick<Trip, 'startDate' | 'endDate'>) {
+    const legs = await this.getLegs(tripId)
+    if (legs.length === 0) return []
+
+    const sameLength = daysBetween(current.startDate, current.endDate) === daysBetween(dates.startDate, dates.endDate)
+    const shift = dates.startDate.getTime() - current.startDate.getTime()
+    const fitted = legs.map((leg, index) => sameLength
+      ? { ...leg, startDate: new Date(leg.startDate.getTime() + shift), endDate: new Date(leg.endDate.getTime() + shift) }
+      : {
+        ...leg,
+        startDate: index === 0 ? dates.startDate : leg.startDate,
+        endDate: index === legs.length - 1 ? dates.endDate : leg.endDate
+      })
+
+    const errors = validateLegs(dates, fitted)
+    if (errors.length > 0) {
+      throw new TripLegError(`The new dates don't fit this trip's destinations (${errors[0]}). Change the destinations first.`, 409)
+    }
+    return fitted
+  }
+
+  static async saveDates(legs: Array<Pick<TripLeg, 'id' | 'startDate' | 'endDate'>>): Promise<void> {
+    await db.$transaction(legs.map(leg => db.tripLeg.update({
+      where: { id: leg.id },
+      data: { startDate: leg.startDate, endDate: leg.endDate }
+    })))
+  }
+
+  static toCreateData(tripId: string, leg: PreparedLeg): Prisma.TripLegCreateManyInput {
+    return {
+      ...leg,
+      tripId,
+      coordinates: leg.coordinates ? { ...leg.coordinates } : Prisma.JsonNull
+    }
+  }
+
+  private static async geocode(destination: string): Promise<Coordinates | undefined> {
+    try {
+      const { coordinates } = await geocodingService.geocode(destination)
+      return { lat: coordinates.lat, lng: coordinates.lng }
+    } catch (error) {
+      console.warn(`Could not geocode leg destination "${destination}":`, error)
+      return undefined
+    }
+  }
+}
+
+export default TripLegService
@@ -1,5 +1,6 @@
 import { db } from './db'
 import { TripDateRange, validateTripCreation } from './date-overlap-validation'
+import { formatRoute } from './trip-legs'
 
 /**
  * Service for handling trip date overlap validation with database integration
@@ -58,17 +59,22 @@ export class TripOverlapService {
         startDate: true,
         endDate: true,
         userId: true,
-        status: true
+        status: true,
+        legs: {
+          orderBy: { order: 'asc' },
+          select: { destination: true, startDate: true, endDate: true }
+        }
       }
     })
     
     return trips.map(trip => ({
       id: trip.id,
       title: trip.title,
-      destination: trip.destination,
+      destination: trip.legs.length > 1 ? formatRoute(trip.legs) : trip.destination,
       startDate: trip.startDate,
       endDate: trip.endDate,
-      userId: trip.userId
+      userId: trip.userId,
+      legs: trip.legs
     }))
   }
   
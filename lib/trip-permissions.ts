@@ -1,4 +1,4 @@
-import { TripStatus } from '@prisma/client'
+import { CollaborationRole, TripStatus } from '@prisma/client'
 
 export interface TripPermissions {
   canEdit: boolean
@@ -11,6 +11,11 @@ export interface TripPermissions {
   canExport: boolean
   canShare: boolean
   canView: boolean
+  canManageMembers: boolean
+  // Recording what was actually spent, while travelling and after
+  canLogExpenses: boolean
+  // Reservations, confirmations and cancellations for activities
+  canManageBookings: boolean
   reasons?: string[]
 }
 
@@ -22,15 +27,29 @@ export interface Trip {
   userId?: string
 }
 
+const COLLABORATION_ROLES: string[] = ['OWNER', 'ADMIN', 'EDITOR', 'VIEWER']
+
+const ROLE_LABELS: Record<CollaborationRole, string> = {
+  OWNER: 'an owner',
+  ADMIN: 'an admin',
+  EDITOR: 'an editor',
+  VIEWER: 'a viewer'
+}
+
 /**
- * Get permissions for a trip based on its status and context
+ * Get permissions for a trip based on its status and context.
+ * `userRole` is either an app-level role ('admin') or the user's
+ * CollaborationRole on this trip.
  */
 export function getTripPermissions(
   trip: Trip,
   userId?: string,
   userRole?: string
 ): TripPermissions {
-  const isOwner = userId && trip.userId === userId
+  const memberRole = userRole && COLLABORATION_ROLES.includes(userRole)
+    ? userRole as CollaborationRole
+    : null
+  const isOwner = (userId && trip.userId === userId) || memberRole === 'OWNER'
   const isAdmin = userRole === 'admin' || userRole === 'owner'
   const now = new Date()
   const hasStarted = now >= trip.startDate
@@ -50,6 +69,9 @@ export function getTripPermissions(
     canChangeStatus: false,
     canExport: true, // Everyone can export
     canShare: true,  // Everyone can share
+    canManageMembers: false,
+    canLogExpenses: false,
+    canManageBookings: false,
     reasons
   }
 
@@ -63,6 +85,7 @@ export function getTripPermissions(
       permissions.canEditActivities = true
       permissions.canDeleteActivities = true
       permissions.canChangeStatus = true
+      permissions.canManageBookings = true
       break
 
     case 'PLANNED':
@@ -73,6 +96,7 @@ export function getTripPermissions(
       permissions.canEditActivities = true
       permissions.canDeleteActivities = true
       permissions.canChangeStatus = true
+      permissions.canManageBookings = true
       break
 
     case 'ACTIVE':
@@ -83,6 +107,8 @@ export function getTripPermissions(
       permissions.canEditActivities = true // Can modify activities
       permissions.canDeleteActivities = true // Can remove activities
       permissions.canChangeStatus = true // Can mark as completed
+      permissions.canLogExpenses = true
+      permissions.canManageBookings = true
       reasons.push('Trip is currently active')
       break
 
@@ -94,6 +120,7 @@ export function getTripPermissions(
       permissions.canEditActivities = false
       permissions.canDeleteActivities = false
       permissions.canChangeStatus = true // Can reactivate if needed
+      permissions.canLogExpenses = true // Late receipts
       reasons.push('Trip has been completed')
       break
 
@@ -105,17 +132,50 @@ export function getTripPermissions(
       permissions.canEditActivities = false
       permissions.canDeleteActivities = false
       permissions.canChangeStatus = true // Can restore or replan
+      permissions.canManageBookings = true // Cancel what was booked
       reasons.push('Trip has been cancelled')
       break
   }
 
   // Override permissions based on user role and ownership
-  if (!isOwner && !isAdmin) {
+  if (isOwner) {
+    permissions.canManageMembers = true
+  } else if (memberRole && !isAdmin) {
+    // Collaborators keep the status-based activity rights of their role,
+    // but only the owner can delete the trip
+    permissions.canDelete = false
+
+    switch (memberRole) {
+      case 'ADMIN':
+        permissions.canManageMembers = true
+        break
+
+      case 'EDITOR':
+        permissions.canGenerateItinerary = false // Regenerating replaces everyone's work
+        permissions.canChangeStatus = false
+        break
+
+      case 'VIEWER':
+        permissions.canEdit = false
+        permissions.canGenerateItinerary = false
+        permissions.canAddActivities = false
+        permissions.canEditActivities = false
+        permissions.canDeleteActivities = false
+        permissions.canChangeStatus = false
+        permissions.canLogExpenses = false
+        permissions.canManageBookings = false
+        break
+    }
+
+    reasons.push(`You are ${ROLE_LABELS[memberRole]} on this trip`)
+  } else if (!isAdmin) {
     // Non-owners have limited permissions
     permissions.canEdit = false
     permissions.canDelete = false
     permissions.canGenerateItinerary = false
     permissions.canChangeStatus = false
+    permissions.canLogExpenses = false
+    permissions.canManageBookings = false
     
     // But can still interact with activities in some cases
     if (trip.status === 'ACTIVE' || trip.status === 'PLANNED') {
@@ -141,6 +201,7 @@ export function getTripPermissions(
     permissions.canEdit = true
     permissions.canDelete = true
     permissions.canChangeStatus = true
+    permissions.canManageMembers = true
     
     if (reasons.includes('You are not the trip owner')) {
       const index = reasons.indexOf('You are not the trip owner')
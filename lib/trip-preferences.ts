@@ -0,0 +1,168 @@
+import { Prisma, Trip } from '@prisma/client'
+import { z } from 'zod'
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { NotificationService } from './notification-service'
+import { ServiceError } from './service-error'
+import {
+  interestCategoriesSchema,
+  travelerDataSchema,
+  travelPreferencesSchema,
+  TravelerData,
+  TravelPreferences
+} from './trip-validation'
+import { UserPreferencesService, UserProfilePreferences } from './user-preferences-service'
+
+// Used when neither the trip nor the owner's profile names any interests
+const FALLBACK_INTERESTS = ['culture', 'food', 'sightseeing']
+
+/**
+ * The planning-form answers stored on a trip. Every field is optional so
+ * trips created before preferences were saved (or via the API with only
+ * some of them) fall back to the owner's profile defaults.
+ */
+export const tripPreferencesSchema = z.object({
+  interests: interestCategoriesSchema.optional(),
+  travelers: travelerDataSchema.optional(),
+  // Without the default, a partial update can't blank out saved special requests
+  preferences: travelPreferencesSchema
+    .extend({ specialRequests: travelPreferencesSchema.shape.specialRequests.unwrap() })
+    .partial()
+    .optional(),
+  travelStyle: z.string().max(50).optional()
+})
+
+export type StoredTripPreferences = z.infer<typeof tripPreferencesSchema>
+
+export interface ResolvedTripPreferences {
+  interests: string[]
+  travelers: TravelerData
+  preferences: TravelPreferences
+  travelStyle?: string
+}
+
+export class TripPreferencesError extends ServiceError {
+  name = 'TripPreferencesError'
+}
+
+function parseStored(value: Prisma.JsonValue | StoredTripPreferences | null): StoredTripPreferences {
+  const parsed = tripPreferencesSchema.safeParse(value ?? {})
+  return parsed.success ? parsed.data : {}
+}
+
+function travelerTotal(travelers: TravelerData): number {
+  return travelers.adults + travelers.children + travelers.infants
+}
+
+/**
+ * Keep the stored breakdown in line with the trip's traveler count, which
+ * can also be changed from the trip details form. Children and infants are
+ * kept; the difference goes to the adults.
+ */
+function reconcileTravelers(stored: TravelerData | undefined, total: number): TravelerData {
+  if (!stored) {
+    return { adults: Math.max(total, 1), children: 0, infants: 0 }
+  }
+  if (travelerTotal(stored) === total) {
+    return stored
+  }
+  return { ...stored, adults: Math.max(total - stored.children - stored.infants, 1) }
+}
+
+export class TripPreferencesService {
+  /**
+   * The preferences itinerary generation should use for a trip: what was
+   * saved with the trip, filled in from the owner's profile defaults.
+   */
+  static async resolve(
+    trip: Pick<Trip, 'userId' | 'travelers'> & { preferences: Trip['preferences'] | StoredTripPreferences }
+  ): Promise<ResolvedTripPreferences> {
+    const owner = await db.user.findUnique({
+      where: { id: trip.userId },
+      select: {
+        id: true,
+        name: true,
+        onboardingCompleted: true,
+        travelStyle: true,
+        interests: true,
+        travelPreferences: true,
+        preferences: true
+      }
+    })
+
+    const defaults = UserPreferencesService.transformToTripDefaults(owner && {
+      id: owner.id,
+      name: owner.name ?? undefined,
+      onboardingCompleted: owner.onboardingCompleted,
+      travelStyle: owner.travelStyle ?? undefined,
+      interests: owner.interests ?? undefined,
+      travelPreferences: owner.travelPreferences ?? undefined,
+      preferences: (owner.preferences ?? undefined) as UserProfilePreferences | undefined
+    })
+    const stored = parseStored(trip.preferences)
+    const defaultInterests = defaults.interests as string[]
+
+    return {
+      interests: stored.interests ?? (defaultInterests.length > 0 ? defaultInterests : FALLBACK_INTERESTS),
+      travelers: reconcileTravelers(stored.travelers, trip.travelers),
+      preferences: {
+        pace: defaults.pace,
+        accommodationType: defaults.accommodationType,
+        transportation: defaults.transportation,
+        accessibility: defaults.accessibility,
+        dietaryRestrictions: defaults.dietaryRestrictions,
+        specialRequests: defaults.specialRequests,
+        ...stored.preferences
+      },
+      travelStyle: stored.travelStyle ?? ('travelStyle' in defaults ? defaults.travelStyle : undefined)
+    }
+  }
+
+  /**
+   * Resolved preferences for anyone who can see the trip, plus whether they may change them
+   */
+  static async getForTrip(tripId: string, userId: string) {
+    const { trip, permissions: { canEdit } } = await CollaborationService.getTripAccess(tripId, userId, TripPreferencesError, { allowPublic: true })
+
+    return { preferences: await this.resolve(trip), canEdit }
+  }
+
+  /**
+   * Save changed preferences on the trip. Nested travel preferences are
+   * merged with what was stored; a new traveler breakdown also updates the
+   * trip's traveler count.
+   */
+  static async update(tripId: string, userId: string, input: StoredTripPreferences): Promise<ResolvedTripPreferences> {
+    const { trip, permissions } = await CollaborationService.getTripAccess(tripId, userId, TripPreferencesError)
+    if (!permissions.canEdit) {
+      throw new TripPreferencesError('You do not have permission to change this trip\'s preferences', 403)
+    }
+
+    const stored = parseStored(trip.preferences)
+    const next: StoredTripPreferences = {
+      ...stored,
+      ...input,
+      preferences: { ...stored.preferences, ...input.preferences }
+    }
+
+    const updated = await db.trip.update({
+      where: { id: tripId },
+      data: {
+        preferences: next as Prisma.InputJsonValue,
+        ...(input.travelers && { travelers: travelerTotal(input.travelers) })
+      }
+    })
+
+    const actorName = await NotificationService.displayName(userId)
+    await NotificationService.notifyTripMembers(tripId, userId, {
+      type: 'TRIP_UPDATE',
+      title: 'Trip preferences updated',
+      message: `${actorName} updated the planning preferences for "${updated.title}"`,
+      data: { url: NotificationService.tripUrl(tripId), fields: Object.keys(input) }
+    })
+
+    return this.resolve(updated)
+  }
+}
+
+export default TripPreferencesService
@@ -1,5 +1,9 @@
 import { db } from './db'
 import { TripStatus } from '@prisma/client'
+import { emailService } from './email-service'
+import { NotificationService } from './notification-service'
+import { ExpenseService } from './expense-service'
+import { VoteService } from './vote-service'
 
 export interface StatusTransitionResult {
   success: boolean
@@ -8,6 +12,8 @@ export interface StatusTransitionResult {
   reason: string
   metadata?: Record<string, any>
   error?: string
+  code?: 'CONTESTED_ACTIVITIES'
+  contestedCount?: number
 }
 
 export interface StatusValidationResult {
@@ -159,6 +165,11 @@ export class TripStatusService {
         }
       }
 
+      const contested = await this.checkContested(tripId, currentStatus, newStatus, reason, metadata)
+      if (contested) {
+        return contested
+      }
+
       // Perform the status transition
       return await this.transitionStatus(tripId, newStatus, 'system', reason, metadata)
 
@@ -214,6 +225,11 @@ export class TripStatusService {
         }
       }
 
+      const contested = await this.checkContested(tripId, trip.status, newStatus, reason || 'manual', metadata)
+      if (contested) {
+        return contested
+      }
+
       return await this.transitionStatus(tripId, newStatus, userId, reason || 'manual', metadata)
 
     } catch (error) {
@@ -228,6 +244,38 @@ export class TripStatusService {
     }
   }
 
+  /**
+   * Split group votes have to be settled before the plan is locked in,
+   * whether the trip is marked planned by hand or after generation
+   */
+  private static async checkContested(
+    tripId: string,
+    oldStatus: TripStatus,
+    newStatus: TripStatus,
+    reason: string,
+    metadata?: StatusTransitionResult['metadata']
+  ): Promise<StatusTransitionResult | null> {
+    if (oldStatus !== 'DRAFT' || newStatus !== 'PLANNED') {
+      return null
+    }
+
+    const contestedCount = await VoteService.countContested(tripId)
+    if (contestedCount === 0) {
+      return null
+    }
+
+    return {
+      success: false,
+      oldStatus,
+      newStatus,
+      reason,
+      error: `Resolve ${contestedCount} contested ${contestedCount === 1 ? 'activity' : 'activities'} before marking the trip as planned`,
+      code: 'CONTESTED_ACTIVITIES',
+      contestedCount,
+      metadata
+    }
+  }
+
   /**
    * Internal method to perform the actual status transition
    */
@@ -238,7 +286,21 @@ export class TripStatusService {
     reason?: string,
     metadata?: Record<string, any>
   ): Promise<StatusTransitionResult> {
-    return await db.$transaction(async (tx) => {
+    // Keep what was spent against plan with the completion record
+    if (newStatus === 'COMPLETED') {
+      const spend = await ExpenseService.getSummary(tripId).catch((error) => {
+        console.warn(`Could not summarise spending for trip ${tripId}:`, error)
+        return null
+      })
+      if (spend && spend.total.actual > 0) {
+        metadata = {
+          ...metadata,
+          spend: { currency: spend.currency, planned: spend.total.planned, actual: spend.total.actual }
+        }
+      }
+    }
+
+    const result = await db.$transaction(async (tx) => {
       // Get current trip status
       const trip = await tx.trip.findUnique({
         where: { id: tripId },
@@ -281,6 +343,48 @@ export class TripStatusService {
         metadata
       }
     })
+
+    // The itinerary-ready email already covers the automatic DRAFT -> PLANNED move
+    if (result.oldStatus !== result.newStatus && reason !== 'itinerary_generated') {
+      const actorId = userId === 'system' ? null : userId ?? null
+      await emailService.queueStatusChange(tripId, result.oldStatus, result.newStatus, actorId)
+      // Digest readers skip the email above and hear about it through this notification
+      await this.notifyStatusChange(tripId, result.oldStatus, result.newStatus, actorId)
+    }
+
+    return result
+  }
+
+  /**
+   * In-app notification for trip members. Best effort, never throws.
+   */
+  private static async notifyStatusChange(
+    tripId: string,
+    oldStatus: TripStatus,
+    newStatus: TripStatus,
+    actorId: string | null
+  ): Promise<void> {
+    try {
+      const trip = await db.trip.findUnique({
+        where: { id: tripId },
+        select: { title: true }
+      })
+      if (!trip) return
+
+      const from = this.getStatusDescription(oldStatus).label
+      const to = this.getStatusDescription(newStatus).label
+      const actorName = actorId ? await NotificationService.displayName(actorId) : null
+      await NotificationService.notifyTripMembers(tripId, actorId, {
+        type: 'TRIP_UPDATE',
+        title: `Trip marked as ${to.toLowerCase()}`,
+        message: actorName
+          ? `${actorName} moved "${trip.title}" from ${from} to ${to}`
+          : `"${trip.title}" moved from ${from} to ${to}`,
+        data: { url: NotificationService.tripUrl(tripId), oldStatus, newStatus }
+      })
+    } catch (error) {
+      console.error(`Failed to notify members of status change for trip ${tripId}:`, error)
+    }
   }
 
   /**
@@ -0,0 +1,251 @@
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { ActivityService } from './activity-service'
+import { NotificationService } from './notification-service'
+import type { ActivityVoteTally } from './itinerary-types'
+
+export class VoteError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'VoteError'
+    this.status = status
+  }
+}
+
+export type VoteValue = -1 | 0 | 1
+
+export interface ContestedActivity {
+  activityId: string
+  name: string
+  dayNumber: number | null
+  up: number
+  down: number
+  voters: { userId: string; name: string | null; value: number }[]
+}
+
+interface VoteRow {
+  userId: string
+  activityId: string | null
+  value: number
+  updatedAt: Date
+}
+
+/**
+ * Up/down votes on activities by trip members.
+ * An activity is contested while it has both up and down votes that the
+ * trip owner hasn't resolved; contested activities block DRAFT -> PLANNED.
+ */
+export class VoteService {
+  /**
+   * Vote tallies for every voted activity on the trip, keyed by activity id
+   */
+  static async getTallies(tripId: string, userId: string): Promise<Record<string, ActivityVoteTally>> {
+    await this.assertMember(tripId, userId)
+
+    const [votes, activities] = await Promise.all([
+      db.vote.findMany({
+        where: { activity: { tripId } },
+        select: { userId: true, activityId: true, value: true, updatedAt: true }
+      }),
+      db.activity.findMany({
+        where: { tripId, votes: { some: {} } },
+        select: { id: true, votesResolvedAt: true }
+      })
+    ])
+
+    const resolvedAt = new Map(activities.map(activity => [activity.id, activity.votesResolvedAt]))
+    const grouped = new Map<string, VoteRow[]>()
+    for (const vote of votes) {
+      if (!vote.activityId) continue
+      const list = grouped.get(vote.activityId) ?? []
+      list.push(vote)
+      grouped.set(vote.activityId, list)
+    }
+
+    const tallies: Record<string, ActivityVoteTally> = {}
+    for (const [activityId, list] of grouped) {
+      tallies[activityId] = this.tally(list, userId, resolvedAt.get(activityId) ?? null)
+    }
+    return tallies
+  }
+
+  /**
+   * Cast, change or (with 0) withdraw the user's vote on an activity
+   */
+  static async castVote(
+    tripId: string,
+    activityId: string,
+    userId: string,
+    value: VoteValue
+  ): Promise<ActivityVoteTally> {
+    await this.assertMember(tripId, userId)
+
+    const activity = await db.activity.findFirst({
+      where: { id: activityId, tripId },
+      select: { id: true, name: true, votesResolvedAt: true, trip: { select: { userId: true, title: true } } }
+    })
+    if (!activity) {
+      throw new VoteError('Activity not found', 404)
+    }
+
+    const previous = await db.vote.findUnique({
+      where: { userId_activityId: { userId, activityId } },
+      select: { value: true }
+    })
+
+    if (value === 0) {
+      await db.vote.deleteMany({ where: { userId, activityId } })
+    } else {
+      await db.vote.upsert({
+        where: { userId_activityId: { userId, activityId } },
+        create: { userId, activityId, value },
+        update: { value }
+      })
+    }
+
+    // Only the owner hears about votes, and only for new ones, to keep noise down
+    if (value !== 0 && !previous) {
+      const voterName = await NotificationService.displayName(userId)
+      await NotificationService.notifyUsers([activity.trip.userId], {
+        type: 'VOTE_ADDED',
+        tripId,
+        title: `New vote on ${activity.trip.title}`,
+        message: `${voterName} voted ${value > 0 ? 'for' : 'against'} "${activity.name}"`,
+        data: { url: NotificationService.tripUrl(tripId), activityId }
+      }, userId)
+    }
+
+    const votes = await db.vote.findMany({
+      where: { activityId },
+      select: { userId: true, activityId: true, value: true, updatedAt: true }
+    })
+    return this.tally(votes, userId, activity.votesResolvedAt)
+  }
+
+  /**
+   * Activities with split votes that still need a decision from the owner
+   */
+  static async getContested(tripId: string, userId: string): Promise<{
+    contested: ContestedActivity[]
+    canResolve: boolean
+  }> {
+    const role = await this.assertMember(tripId, userId)
+    const contested = await this.findContested(tripId)
+
+    return { contested, canResolve: role === 'OWNER' }
+  }
+
+  /**
+   * Number of unresolved contested activities, used to gate status changes
+   */
+  static async countContested(tripId: string): Promise<number> {
+    const contested = await this.findContested(tripId)
+    return contested.length
+  }
+
+  /**
+   * Settle a contested activity: keep it as planned or remove it from the trip.
+   * Votes cast after a "keep" decision can make it contested again.
+   */
+  static async resolve(tripId: string, activityId: string, userId: string, decision: 'keep' | 'remove') {
+    const role = await this.assertMember(tripId, userId)
+    if (role !== 'OWNER') {
+      throw new VoteError('Only the trip owner can resolve contested activities', 403)
+    }
+
+    const activity = await db.activity.findFirst({
+      where: { id: activityId, tripId },
+      select: { id: true }
+    })
+    if (!activity) {
+      throw new VoteError('Activity not found', 404)
+    }
+
+    if (decision === 'remove') {
+      await ActivityService.deleteActivity(tripId, userId, activityId)
+      return
+    }
+
+    await db.activity.update({
+      where: { id: activityId },
+      data: { votesResolvedAt: new Date() }
+    })
+  }
+
+  private static async findContested(tripId: string): Promise<ContestedActivity[]> {
+    const activities = await db.activity.findMany({
+      where: {
+        tripId,
+        AND: [
+          { votes: { some: { value: { gt: 0 } } } },
+          { votes: { some: { value: { lt: 0 } } } }
+        ]
+      },
+      select: {
+        id: true,
+        name: true,
+        order: true,
+        votesResolvedAt: true,
+        day: { select: { dayNumber: true } },
+        votes: {
+          select: {
+            userId: true,
+            activityId: true,
+            value: true,
+            updatedAt: true,
+            user: { select: { name: true } }
+          }
+        }
+      },
+      orderBy: [{ day: { dayNumber: 'asc' } }, { order: 'asc' }]
+    })
+
+    return activities
+      .filter(activity => this.isContested(activity.votes, activity.votesResolvedAt))
+      .map(activity => ({
+        activityId: activity.id,
+        name: activity.name,
+        dayNumber: activity.day?.dayNumber ?? null,
+        up: activity.votes.filter(vote => vote.value > 0).length,
+        down: activity.votes.filter(vote => vote.value < 0).length,
+        voters: activity.votes.map(vote => ({
+          userId: vote.userId,
+          name: vote.user.name,
+          value: vote.value
+        }))
+      }))
+  }
+
+  private static tally(votes: VoteRow[], userId: string, resolvedAt: Date | null): ActivityVoteTally {
+    const up = votes.filter(vote => vote.value > 0).length
+    const down = votes.filter(vote => vote.value < 0).length
+
+    return {
+      score: up - down,
+      up,
+      down,
+      userVote: votes.find(vote => vote.userId === userId)?.value ?? 0,
+      contested: this.isContested(votes, resolvedAt)
+    }
+  }
+
+  private static isContested(votes: VoteRow[], resolvedAt: Date | null): boolean {
+    const split = votes.some(vote => vote.value > 0) && votes.some(vote => vote.value < 0)
+    if (!split) return false
+
+    // A resolution stands until someone votes again
+    return !resolvedAt || votes.some(vote => vote.updatedAt > resolvedAt)
+  }
+
+  private static async assertMember(tripId: string, userId: string) {
+    const role = await CollaborationService.getMemberRole(tripId, userId)
+    if (!role) {
+      throw new VoteError('Trip not found', 404)
+    }
+    return role
+  }
+}
+
+export default VoteService
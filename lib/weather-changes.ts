@@ -0,0 +1,63 @@
+import { generateWeatherAlerts } from './weather-alerts'
+import { ProcessedWeather } from './weather-types'
+
+// A day counts as rainy from this chance of rain
+export const RAIN_THRESHOLD = 50
+
+export type WeatherChangeKind = 'rain' | 'severe'
+
+export interface DetectedWeatherChange {
+  date: string
+  kind: WeatherChangeKind
+  title: string
+  message: string
+  activities: string[]
+}
+
+function severeAlertTitles(day: ProcessedWeather): string[] {
+  return generateWeatherAlerts([day])
+    .filter(alert => alert.severity === 'severe')
+    .map(alert => alert.title)
+}
+
+/**
+ * What members should hear about when a day's weather moves from the
+ * previous snapshot to the current one: rain appearing on a day with
+ * outdoor activities, and severe alerts that weren't there before. Only
+ * forecasts count; normals are the same every run and a first snapshot
+ * has nothing to compare with.
+ */
+export function detectWeatherChanges(
+  previous: ProcessedWeather | null,
+  current: ProcessedWeather,
+  outdoorActivities: string[]
+): DetectedWeatherChange[] {
+  if (!previous || current.source !== 'forecast') return []
+
+  const changes: DetectedWeatherChange[] = []
+  const chance = current.precipitation.probability
+
+  if (outdoorActivities.length > 0 && previous.precipitation.probability < RAIN_THRESHOLD && chance >= RAIN_THRESHOLD) {
+    changes.push({
+      date: current.date,
+      kind: 'rain',
+      title: `${current.precipitation.type === 'snow' ? 'Snow' : 'Rain'} now forecast for ${current.date}`,
+      message: `${chance}% chance of ${current.precipitation.type === 'snow' ? 'snow' : 'rain'} on a day with ${outdoorActivities.join(', ')} planned outdoors`,
+      activities: outdoorActivities
+    })
+  }
+
+  const before = severeAlertTitles(previous)
+  for (const alert of generateWeatherAlerts([current])) {
+    if (alert.severity !== 'severe' || before.includes(alert.title)) continue
+    changes.push({
+      date: current.date,
+      kind: 'severe',
+      title: `${alert.title} for ${current.date}`,
+      message: alert.description,
+      activities: outdoorActivities
+    })
+  }
+
+  return changes
+}
@@ -0,0 +1,147 @@
+import { Activity, Day } from '@/lib/itinerary-types'
+import { ProcessedWeather } from '@/lib/weather-types'
+import { WeatherActivityFilter, weatherActivityFilter } from '@/lib/weather-activity-filter'
+
+// Combined score gain a swap must bring before it is worth proposing
+export const MIN_SWAP_IMPROVEMENT = 20
+
+// Below this an activity is a poor fit for the day's weather
+const POOR_FIT_SCORE = 40
+
+export interface ProposalSide {
+  id: string
+  name: string
+  fromDay: number
+  toDay: number
+  fromDate: string
+  toDate: string
+  scoreBefore: number
+  scoreAfter: number
+}
+
+export interface RescheduleProposal {
+  id: string
+  // The activity the weather is bad for, and the one that takes its place
+  activity: ProposalSide
+  swapWith: ProposalSide
+  timeSlot: Activity['timeSlot']
+  improvement: number
+  reason: string
+  // Applied as-is through the itinerary batch edit API
+  action: {
+    type: 'SWAP_ACTIVITIES'
+    payload: { day1: number; day2: number; activity1Id: string; activity2Id: string }
+  }
+}
+
+/**
+ * Proposes swapping activities between days so each lands on weather that
+ * suits it. Swaps keep the time slot; the activities trade days and
+ * positions but keep their own times. Bookings are tied to their date, so
+ * anything booked or needing a booking stays put, as do locked activities.
+ * Only forecast days are considered; climate normals aren't a reason to move plans.
+ */
+export class WeatherRescheduler {
+  constructor(private filter: WeatherActivityFilter = weatherActivityFilter) {}
+
+  public proposeSwaps(days: Day[], forecast: ProcessedWeather[]): RescheduleProposal[] {
+    const weatherByDate = new Map(
+      forecast.filter(weather => weather.source !== 'climatology').map(weather => [weather.date, weather])
+    )
+    const planned = days
+      .filter(day => weatherByDate.has(day.date))
+      .sort((a, b) => a.date.localeCompare(b.date))
+
+    const candidates: RescheduleProposal[] = []
+    for (const [index, first] of planned.entries()) {
+      for (const second of planned.slice(index + 1)) {
+        for (const a of first.activities.filter(activity => this.isMovable(activity))) {
+          for (const b of second.activities.filter(activity => this.isMovable(activity) && activity.timeSlot === a.timeSlot)) {
+            const proposal = this.evaluate(first, a, second, b, weatherByDate)
+            if (proposal) candidates.push(proposal)
+          }
+        }
+      }
+    }
+
+    // Best swaps first; each activity moves at most once
+    const used = new Set<string>()
+    return candidates
+      .sort((x, y) => y.improvement - x.improvement)
+      .filter(proposal => {
+        if (used.has(proposal.activity.id) || used.has(proposal.swapWith.id)) return false
+        used.add(proposal.activity.id)
+        used.add(proposal.swapWith.id)
+        return true
+      })
+  }
+
+  private isMovable(activity: Activity): boolean {
+    return !activity.locked &&
+      !activity.bookingRequired &&
+      !activity.isBooked &&
+      activity.type !== 'accommodation' &&
+      activity.type !== 'transportation'
+  }
+
+  private evaluate(
+    firstDay: Day,
+    first: Activity,
+    secondDay: Day,
+    second: Activity,
+    weatherByDate: Map<string, ProcessedWeather>
+  ): RescheduleProposal | null {
+    const firstWeather = weatherByDate.get(firstDay.date)!
+    const secondWeather = weatherByDate.get(secondDay.date)!
+    const score = (activity: Activity, weather: ProcessedWeather) =>
+      this.filter.assessActivitySuitability(activity, weather).suitabilityScore
+
+    const firstBefore = score(first, firstWeather)
+    const firstAfter = score(first, secondWeather)
+    const secondBefore = score(second, secondWeather)
+    const secondAfter = score(second, firstWeather)
+    const improvement = firstAfter + secondAfter - firstBefore - secondBefore
+
+    if (improvement < MIN_SWAP_IMPROVEMENT) return null
+    // Don't fix one activity by spoiling the other
+    if (firstAfter < POOR_FIT_SCORE && firstBefore >= POOR_FIT_SCORE) return null
+    if (secondAfter < POOR_FIT_SCORE && secondBefore >= POOR_FIT_SCORE) return null
+
+    // Lead with whichever activity the current weather suits worse
+    const firstLeads = firstAfter - firstBefore >= secondAfter - secondBefore
+    const sides = [
+      { activity: first, from: firstDay, to: secondDay, before: firstBefore, after: firstAfter, weather: firstWeather },
+      { activity: second, from: secondDay, to: firstDay, before: secondBefore, after: secondAfter, weather: secondWeather }
+    ]
+    const [lead, other] = firstLeads ? sides : [sides[1], sides[0]]
+    const side = (entry: typeof lead): ProposalSide => ({
+      id: entry.activity.id,
+      name: entry.activity.name,
+      fromDay: entry.from.day,
+      toDay: entry.to.day,
+      fromDate: entry.from.date,
+      toDate: entry.to.date,
+      scoreBefore: entry.before,
+      scoreAfter: entry.after
+    })
+
+    const why = this.filter.assessActivitySuitability(lead.activity, lead.weather).reasons[0]
+    return {
+      id: `${lead.activity.id}:${other.activity.id}`,
+      activity: side(lead),
+      swapWith: side(other),
+      timeSlot: first.timeSlot,
+      improvement,
+      reason: why
+        ? `${why} on day ${lead.from.day}; day ${lead.to.day} suits it better`
+        : `Day ${lead.to.day} suits ${lead.activity.name} better`,
+      action: {
+        type: 'SWAP_ACTIVITIES',
+        payload: { day1: firstDay.day, day2: secondDay.day, activity1Id: first.id, activity2Id: second.id }
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const weatherRescheduler = new WeatherRescheduler()
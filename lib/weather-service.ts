@@ -1,5 +1,12 @@
 import { WeatherForecast, ProcessedWeather } from './weather-types';
 import { WeatherAPI as OpenWeatherAPI, processCurrentWeather, processForecastData } from './weather-api';
+import { climatologyForDate, climatologyForRange, normalsFor } from './climate-normals';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days ahead the forecast providers cover (OpenWeatherMap's free forecast is
+// five days); trip days further out use climate normals
+export const FORECAST_HORIZON_DAYS = 5;
 
 // Weather service priorities and configuration
 export interface WeatherServiceConfig {
@@ -231,155 +238,34 @@ class WeatherAPIService implements WeatherProvider {
   }
 }
 
-// Historical weather fallback service
-class HistoricalWeatherService implements WeatherProvider {
-  name = 'Historical';
+// Climate normals as the last resort: what the weather is usually like, never a prediction
+class ClimatologyProvider implements WeatherProvider {
+  name = 'Climatology';
   priority = 3;
   
   config: WeatherServiceConfig = {
     timeout: 5000,
-    cacheHours: 24, // Cache historical data longer
+    cacheHours: 24, // Normals don't change
     retryAttempts: 1,
     enabled: true
   };
 
   async getCurrentWeather(lat: number, lng: number) {
-    // Return current date historical average
-    const month = new Date().getMonth() + 1;
-    return this.getHistoricalData(lat, lng, month);
+    return climatologyForDate(lat, lng, new Date().toISOString().split('T')[0]);
   }
 
   async getForecast(lat: number, lng: number) {
-    // Return historical averages for next 7 days
-    const currentDate = new Date();
-    const forecasts = [];
-    
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(currentDate);
-      date.setDate(date.getDate() + i);
-      const month = date.getMonth() + 1;
-      const historical = this.getHistoricalData(lat, lng, month);
-      forecasts.push({
-        ...historical,
-        date: date.toISOString().split('T')[0]
-      });
-    }
-    
-    return { forecasts };
-  }
-
-  processCurrentWeather(data: any): ProcessedWeather {
-    return this.createProcessedWeather(data, new Date().toISOString().split('T')[0]);
-  }
-
-  processForecast(data: any): ProcessedWeather[] {
-    return data.forecasts.map((forecast: any) => this.createProcessedWeather(forecast, forecast.date));
-  }
-
-  private getHistoricalData(lat: number, lng: number, month: number) {
-    // Simplified historical climate data based on latitude and month
-    const climate = this.getClimateData(lat, month);
-    
-    return {
-      temperature: climate.temperature,
-      condition: climate.condition,
-      precipitation: climate.precipitation,
-      humidity: climate.humidity,
-      wind: climate.wind
-    };
-  }
-
-  private getClimateData(lat: number, month: number) {
-    // Simplified climate model based on latitude and month
-    const isNorthernHemisphere = lat > 0;
-    const season = this.getSeason(month, isNorthernHemisphere);
-    
-    // Temperature based on latitude and season
-    let baseTemp = 20; // Default comfortable temperature
-    
-    if (Math.abs(lat) > 60) { // Polar regions
-      baseTemp = season === 'winter' ? -15 : season === 'summer' ? 5 : -5;
-    } else if (Math.abs(lat) > 30) { // Temperate regions
-      baseTemp = season === 'winter' ? 5 : season === 'summer' ? 25 : 15;
-    } else { // Tropical regions
-      baseTemp = season === 'winter' ? 22 : season === 'summer' ? 28 : 25;
-    }
-    
-    // Add random variation
-    const variation = (Math.random() - 0.5) * 10;
-    const temp = Math.round(baseTemp + variation);
-    
-    return {
-      temperature: {
-        min: temp - 5,
-        max: temp + 5,
-        current: temp,
-        feelsLike: temp
-      },
-      condition: {
-        main: this.getSeasonalCondition(season),
-        description: `typical ${season} weather`,
-        icon: this.getSeasonalIcon(season),
-        severity: 'mild' as const
-      },
-      precipitation: {
-        probability: season === 'winter' ? 40 : season === 'summer' ? 20 : 30,
-        amount: season === 'winter' ? 2 : season === 'summer' ? 1 : 1.5,
-        type: 'rain' as const
-      },
-      humidity: season === 'winter' ? 70 : season === 'summer' ? 60 : 65,
-      wind: {
-        speed: 15,
-        direction: 'SW',
-        gust: undefined
-      }
-    };
-  }
-
-  private getSeason(month: number, isNorthernHemisphere: boolean): string {
-    const seasons = ['winter', 'spring', 'summer', 'autumn'];
-    let seasonIndex = Math.floor((month - 1) / 3);
-    
-    if (!isNorthernHemisphere) {
-      seasonIndex = (seasonIndex + 2) % 4; // Shift seasons for southern hemisphere
-    }
-    
-    return seasons[seasonIndex];
-  }
-
-  private getSeasonalCondition(season: string): string {
-    const conditions = {
-      winter: 'Clouds',
-      spring: 'Clear',
-      summer: 'Clear',
-      autumn: 'Clouds'
-    };
-    return conditions[season as keyof typeof conditions] || 'Clear';
+    const start = new Date();
+    const end = new Date(start.getTime() + 6 * DAY_MS);
+    return climatologyForRange(lat, lng, start.toISOString().split('T')[0], end.toISOString().split('T')[0]);
   }
 
-  private getSeasonalIcon(season: string): string {
-    const icons = {
-      winter: '03d',
-      spring: '01d',
-      summer: '01d',
-      autumn: '03d'
-    };
-    return icons[season as keyof typeof icons] || '01d';
+  processCurrentWeather(data: ProcessedWeather): ProcessedWeather {
+    return data;
   }
 
-  private createProcessedWeather(data: any, date: string): ProcessedWeather {
-    return {
-      date,
-      temperature: data.temperature,
-      condition: data.condition,
-      precipitation: data.precipitation,
-      wind: data.wind,
-      humidity: data.humidity,
-      visibility: 10,
-      sunrise: '06:00',
-      sunset: '18:00',
-      isExtreme: false
-    };
+  processForecast(data: ProcessedWeather[]): ProcessedWeather[] {
+    return data;
   }
 }
 
@@ -399,7 +285,7 @@ export class WeatherFallbackService {
     this.providers = [
       new OpenWeatherAPIProvider(),
       new WeatherAPIService(),
-      new HistoricalWeatherService()
+      new ClimatologyProvider()
     ].sort((a, b) => a.priority - b.priority);
 
     console.log('🌤️ Weather fallback service initialized with providers:', 
@@ -480,6 +366,53 @@ export class WeatherFallbackService {
     throw new Error('All weather providers failed. Please try again later.');
   }
 
+  /**
+   * Weather for each day of a trip. Days within the forecast horizon use the
+   * forecast; the rest are climate normals for their dates, marked with
+   * source 'climatology'. `current` is live weather when a forecast was
+   * fetched, otherwise the first trip day's normals.
+   */
+  async getTripWeather(
+    lat: number,
+    lng: number,
+    startDate: string,
+    endDate: string,
+    locationName?: string
+  ): Promise<WeatherForecast> {
+    const today = new Date().toISOString().split('T')[0];
+    const horizonEnd = new Date(Date.parse(`${today}T00:00:00Z`) + (FORECAST_HORIZON_DAYS - 1) * DAY_MS)
+      .toISOString().split('T')[0];
+
+    let live: WeatherForecast | null = null;
+    if (startDate <= horizonEnd && endDate >= today) {
+      try {
+        live = await this.getWeatherForecast(lat, lng, locationName);
+      } catch (error) {
+        console.error('❌ Forecast unavailable, using climate normals:', error);
+      }
+    }
+
+    const forecastDays = live && live.source !== 'climatology' ? live.forecast : [];
+    const days = climatologyForRange(lat, lng, startDate, endDate).map(normal => {
+      const forecast = forecastDays.find(day => day.date === normal.date);
+      return forecast ? { ...forecast, source: 'forecast' as const } : normal;
+    });
+    const hasForecast = live !== null && days.some(day => day.source === 'forecast');
+
+    return {
+      location: live?.location ?? {
+        name: locationName || 'Unknown Location',
+        country: 'Unknown',
+        coordinates: { lat, lng }
+      },
+      current: hasForecast ? live!.current : days[0] ?? climatologyForDate(lat, lng, startDate),
+      forecast: days,
+      lastUpdated: new Date().toISOString(),
+      source: hasForecast ? live!.source : 'climatology',
+      ...(days.some(day => day.source === 'climatology') && { climatology: normalsFor(lat, lng).basis })
+    };
+  }
+
   private async retryWithTimeout<T>(
     fn: () => Promise<T>,
     retries: number,
@@ -0,0 +1,277 @@
+import { Prisma, TripLeg } from '@prisma/client'
+import { db } from './db'
+import { CollaborationService } from './collaboration-service'
+import { NotificationService } from './notification-service'
+import { weatherService } from './weather-service'
+import { climatologyForRange, normalsFor } from './climate-normals'
+import { DetectedWeatherChange, detectWeatherChanges } from './weather-changes'
+import { ProcessedWeather, WeatherForecast, classifyActivityLocation } from './weather-types'
+
+export class WeatherSnapshotError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'WeatherSnapshotError'
+    this.status = status
+  }
+}
+
+interface Coordinates {
+  lat: number
+  lng: number
+}
+
+export interface TripLocation {
+  destination: string
+  destinationCoords: Prisma.JsonValue
+  startDate: Date
+  endDate: Date
+  legs: Array<Pick<TripLeg, 'destination' | 'coordinates' | 'startDate' | 'endDate'>>
+}
+
+/**
+ * A run of trip days (YYYY-MM-DD, inclusive) spent in one place
+ */
+export interface WeatherStretch {
+  destination: string
+  coordinates: Coordinates
+  startDate: string
+  endDate: string
+}
+
+const RECENT_CHANGES_LIMIT = 20
+
+// What weatherStretches needs to know about a trip's legs
+export const TRIP_LOCATION_LEGS = {
+  orderBy: { order: 'asc' },
+  select: { destination: true, coordinates: true, startDate: true, endDate: true }
+} satisfies Prisma.Trip$legsArgs
+
+/**
+ * Where a trip's weather comes from: each leg of a multi-city trip at its
+ * own location, or the whole trip at its destination. Legs that couldn't be
+ * located are left out rather than given another leg's weather.
+ */
+export function weatherStretches(trip: TripLocation): WeatherStretch[] {
+  const day = (date: Date) => date.toISOString().slice(0, 10)
+  const parts = trip.legs.length > 0
+    ? trip.legs
+    : [{ destination: trip.destination, coordinates: trip.destinationCoords, startDate: trip.startDate, endDate: trip.endDate }]
+
+  return parts.flatMap(part => {
+    const coordinates = part.coordinates as unknown as Coordinates | null
+    return coordinates
+      ? [{ destination: part.destination, coordinates, startDate: day(part.startDate), endDate: day(part.endDate) }]
+      : []
+  })
+}
+
+/**
+ * One forecast for the whole trip out of per-stretch ones, in date order.
+ * Location and current conditions come from the first stretch.
+ */
+export function joinForecasts(forecasts: WeatherForecast[]): WeatherForecast | null {
+  if (forecasts.length === 0) return null
+
+  const forecasted = forecasts.find(forecast => forecast.source !== 'climatology')
+  const climatology = forecasts.find(forecast => forecast.climatology)?.climatology
+  return {
+    ...forecasts[0],
+    forecast: forecasts.flatMap(forecast => forecast.forecast),
+    source: forecasted?.source ?? 'climatology',
+    ...(climatology && { climatology })
+  }
+}
+
+export class WeatherSnapshotService {
+  /**
+   * Fetch weather for the remaining days of every planned or active trip,
+   * store it per trip day and record and notify meaningful changes
+   */
+  static async refreshUpcomingTrips(now = new Date()) {
+    const today = now.toISOString().slice(0, 10)
+    const trips = await db.trip.findMany({
+      where: {
+        status: { in: ['PLANNED', 'ACTIVE'] },
+        endDate: { gte: new Date(`${today}T00:00:00Z`) },
+        destinationCoords: { not: Prisma.DbNull }
+      },
+      select: {
+        id: true,
+        destination: true,
+        destinationCoords: true,
+        startDate: true,
+        endDate: true,
+        legs: TRIP_LOCATION_LEGS,
+        days: {
+          select: {
+            date: true,
+            activities: { select: { name: true, type: true, description: true } }
+          }
+        }
+      }
+    })
+
+    const summary = { trips: 0, days: 0, changes: 0, failed: 0 }
+    for (const trip of trips) {
+      try {
+        const changes = await this.refreshTrip(trip, today)
+        summary.trips++
+        summary.days += changes.days
+        summary.changes += changes.detected
+      } catch (error) {
+        console.error(`❌ Weather refresh failed for trip ${trip.id}:`, error)
+        summary.failed++
+      }
+    }
+    return summary
+  }
+
+  /**
+   * The stored weather for a trip, shaped like a live WeatherForecast so the
+   * trip page can render it without calling providers. Null before the first refresh.
+   */
+  static async getTripWeather(tripId: string, userId: string): Promise<WeatherForecast | null> {
+    const trip = await this.authorize(tripId, userId)
+    const snapshots = await db.weatherSnapshot.findMany({ where: { tripId }, orderBy: { date: 'asc' } })
+    const stretches = weatherStretches(trip)
+    if (snapshots.length === 0 || stretches.length === 0) return null
+    const { coordinates } = stretches[0]
+
+    // Days before the first refresh, e.g. the start of an active trip, read as normals
+    const stored = new Map(snapshots.map(snapshot => [snapshot.date, snapshot.weather as unknown as ProcessedWeather]))
+    const days = stretches
+      .flatMap(stretch => climatologyForRange(stretch.coordinates.lat, stretch.coordinates.lng, stretch.startDate, stretch.endDate))
+      .map(normal => stored.get(normal.date) ?? normal)
+    const today = new Date().toISOString().slice(0, 10)
+    const forecasted = snapshots.find(snapshot => (snapshot.weather as unknown as ProcessedWeather).source === 'forecast')
+
+    return {
+      location: { name: trip.destination, country: 'Unknown', coordinates },
+      current: days.find(day => day.date >= today) ?? days[0],
+      forecast: days,
+      lastUpdated: new Date(Math.max(...snapshots.map(snapshot => snapshot.fetchedAt.getTime()))).toISOString(),
+      source: (forecasted?.provider ?? 'climatology') as WeatherForecast['source'],
+      ...(days.some(day => day.source === 'climatology') && { climatology: normalsFor(coordinates.lat, coordinates.lng).basis })
+    }
+  }
+
+  /**
+   * Recent changes on one trip, or on every trip the user belongs to
+   */
+  static async getRecentChanges(userId: string, tripId?: string) {
+    if (tripId) {
+      await this.authorize(tripId, userId)
+    }
+
+    return db.weatherChange.findMany({
+      where: tripId
+        ? { tripId }
+        : {
+            trip: {
+              OR: [
+                { userId },
+                { collaborations: { some: { userId, acceptedAt: { not: null } } } }
+              ]
+            }
+          },
+      include: { trip: { select: { id: true, title: true } } },
+      orderBy: { detectedAt: 'desc' },
+      take: RECENT_CHANGES_LIMIT
+    })
+  }
+
+  /**
+   * Live weather for each stretch of a trip, from `from` (YYYY-MM-DD) on
+   */
+  static async fetchStretches(trip: TripLocation, from = ''): Promise<WeatherForecast[]> {
+    return Promise.all(weatherStretches(trip)
+      .filter(stretch => stretch.endDate >= from)
+      .map(stretch => weatherService.getTripWeather(
+        stretch.coordinates.lat,
+        stretch.coordinates.lng,
+        stretch.startDate > from ? stretch.startDate : from,
+        stretch.endDate,
+        stretch.destination
+      )))
+  }
+
+  private static async refreshTrip(
+    trip: TripLocation & {
+      id: string
+      days: { date: string; activities: { name: string; type: string; description: string | null }[] }[]
+    },
+    today: string
+  ) {
+    const tripStart = trip.startDate.toISOString().slice(0, 10)
+    const tripEnd = trip.endDate.toISOString().slice(0, 10)
+
+    const stretches = await this.fetchStretches(trip, today)
+    const previous = new Map(
+      (await db.weatherSnapshot.findMany({ where: { tripId: trip.id } }))
+        .map(snapshot => [snapshot.date, snapshot.weather as unknown as ProcessedWeather])
+    )
+    const outdoorByDate = new Map(trip.days.map(day => [
+      day.date.slice(0, 10),
+      day.activities
+        .filter(activity => classifyActivityLocation(activity.name, activity.type.toLowerCase(), activity.description ?? '') === 'outdoor')
+        .map(activity => activity.name)
+    ]))
+
+    const detected: DetectedWeatherChange[] = []
+    const writes: Prisma.PrismaPromise<unknown>[] = []
+    for (const weather of stretches) {
+      for (const day of weather.forecast) {
+        const before = previous.get(day.date) ?? null
+        // A provider outage falls back to normals; a stale forecast still says more
+        if (day.source === 'climatology' && before?.source === 'forecast') continue
+
+        detected.push(...detectWeatherChanges(before, day, outdoorByDate.get(day.date) ?? []))
+        const data = { provider: weather.source, weather: day as unknown as Prisma.InputJsonObject, fetchedAt: new Date() }
+        writes.push(db.weatherSnapshot.upsert({
+          where: { tripId_date: { tripId: trip.id, date: day.date } },
+          create: { tripId: trip.id, date: day.date, ...data },
+          update: data
+        }))
+      }
+    }
+
+    await db.$transaction([
+      // Days that are no longer part of the trip after its dates moved
+      db.weatherSnapshot.deleteMany({ where: { tripId: trip.id, OR: [{ date: { lt: tripStart } }, { date: { gt: tripEnd } }] } }),
+      ...writes,
+      ...detected.map(change => db.weatherChange.create({ data: { tripId: trip.id, ...change } }))
+    ])
+
+    for (const change of detected) {
+      await NotificationService.notifyTripMembers(trip.id, null, {
+        type: 'TRIP_UPDATE',
+        title: change.title,
+        message: change.message,
+        data: { url: NotificationService.tripUrl(trip.id), date: change.date }
+      })
+    }
+
+    return { days: writes.length, detected: detected.length }
+  }
+
+  private static async authorize(tripId: string, userId: string) {
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: { id: true, destination: true, destinationCoords: true, startDate: true, endDate: true, legs: TRIP_LOCATION_LEGS }
+    })
+    if (!trip) {
+      throw new WeatherSnapshotError('Trip not found', 404)
+    }
+
+    const role = await CollaborationService.getMemberRole(tripId, userId)
+    if (!role) {
+      throw new WeatherSnapshotError('Trip not found', 404)
+    }
+
+    return trip
+  }
+}
+
+export default WeatherSnapshotService
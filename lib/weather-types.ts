@@ -132,8 +132,11 @@ export const processedWeatherSchema = z.object({
   uvIndex: z.number().optional(), // 0-11+
   sunrise: z.string(), // HH:MM
   sunset: z.string(), // HH:MM
+  daylightHours: z.number().optional(),
   isExtreme: z.boolean(), // For weather alerts
-  advisory: z.string().optional() // Weather advisory text
+  advisory: z.string().optional(), // Weather advisory text
+  // Climatology days are long-term averages for the date, not a prediction
+  source: z.enum(['forecast', 'climatology']).optional()
 })
 
 export const weatherForecastSchema = z.object({
@@ -148,7 +151,14 @@ export const weatherForecastSchema = z.object({
   current: processedWeatherSchema,
   forecast: z.array(processedWeatherSchema),
   lastUpdated: z.string(), // ISO timestamp
-  source: z.enum(['openweathermap', 'weatherapi', 'historical', 'mock'])
+  // The forecast provider, or climatology when no day is a forecast
+  source: z.enum(['openweathermap', 'weatherapi', 'climatology', 'mock']),
+  // Where climatology days came from, when there are any
+  climatology: z.object({
+    basis: z.enum(['station', 'zonal']),
+    station: z.string().optional(),
+    distanceKm: z.number().optional()
+  }).optional()
 })
 
 // Activity suitability types
@@ -190,6 +200,14 @@ export const packingListSchema = z.object({
   lastUpdated: z.string()
 })
 
+export const PACKING_CATEGORY_LABELS: Record<z.infer<typeof packingItemSchema>['category'], string> = {
+  clothing: 'Clothing',
+  accessories: 'Accessories',
+  equipment: 'Equipment',
+  personal: 'Personal care',
+  documents: 'Documents'
+}
+
 // Weather alert types
 export const weatherAlertSchema = z.object({
   id: z.string(),
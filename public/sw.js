@@ -0,0 +1,396 @@
+/**
+ * Terra Voyage service worker
+ *
+ * Served as-is from /sw.js, so it is plain JavaScript with nothing imported.
+ * The IndexedDB layouts and the sync requests below mirror
+ * lib/offline-cache.ts and lib/map-offline-storage.ts; change them together.
+ *
+ * Bump VERSION to ship a new worker. Pages are told an update is waiting
+ * (see usePWAUpdate) and the new worker takes over when the user accepts;
+ * caches from older versions are dropped on activation.
+ */
+
+const VERSION = 'v1'
+
+const SHELL_CACHE = `terra-voyage-shell-${VERSION}`
+const STATIC_CACHE = `terra-voyage-static-${VERSION}`
+const PAGE_CACHE = `terra-voyage-pages-${VERSION}`
+const TRIP_CACHE = `terra-voyage-trips-${VERSION}`
+const MAP_CACHE = `terra-voyage-map-${VERSION}`
+const CURRENT_CACHES = [SHELL_CACHE, STATIC_CACHE, PAGE_CACHE, TRIP_CACHE, MAP_CACHE]
+
+const OFFLINE_URL = '/offline'
+const SHELL_URLS = [
+  '/',
+  '/trips',
+  '/manifest.json',
+  '/icons/icon-192x192.png',
+  '/icons/icon-512x512.png'
+]
+
+// Same tag OfflineCacheManager registers when it queues a change
+const SYNC_TAG = 'offline-queue'
+// OfflineSyncService gives up on a change after this many failed attempts
+const MAX_SYNC_RETRIES = 3
+
+const OFFLINE_DB = { name: 'terraVoyageOffline', version: 1 }
+const MAP_DB = { name: 'terra-voyage-maps', version: 1, store: 'map-tiles' }
+// MapOfflineStorage's default maxTileAge
+const MAX_TILE_AGE = 7 * 24 * 60 * 60 * 1000
+
+// /api/user/trips/<tripId>, not its sub-resources
+const TRIP_DETAIL_PATH = /^\/api\/user\/trips\/([^/]+)$/
+// Mapbox raster and vector tiles: /v4/<tileset>/<z>/<x>/<y><suffix>
+const TILE_PATH = /^\/v4\/([^/]+)\/(\d+)\/(\d+)\/(\d+)([^/]*)$/
+
+// Install: precache the app shell; the offline page is the one thing it can't do without
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE)
+    await cache.add(OFFLINE_URL)
+    await Promise.allSettled(SHELL_URLS.map(url => cache.add(url)))
+  })())
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(
+      names
+        .filter(name => name.startsWith('terra-voyage-') && !CURRENT_CACHES.includes(name))
+        .map(name => caches.delete(name))
+    )
+    await self.clients.claim()
+  })())
+})
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {}
+
+  switch (message.type) {
+    case 'SKIP_WAITING':
+      self.skipWaiting()
+      break
+    case 'CACHE_TRIP':
+      event.waitUntil(cacheTripResponse(message.tripId, message.tripData))
+      break
+    case 'CLEAR_USER_DATA':
+      event.waitUntil(Promise.all([caches.delete(TRIP_CACHE), caches.delete(PAGE_CACHE)]))
+      break
+  }
+})
+
+// Fetch routing
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+
+  if (url.origin !== self.location.origin) {
+    if (url.hostname.endsWith('mapbox.com')) {
+      if (TILE_PATH.test(url.pathname)) {
+        event.respondWith(mapTile(request, url))
+      } else if (url.pathname.startsWith('/styles/') || url.pathname.startsWith('/fonts/')) {
+        // Styles, sprites and glyphs the map needs to draw cached tiles
+        event.respondWith(staleWhileRevalidate(request, MAP_CACHE))
+      }
+    }
+    return
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    // Build output is content-hashed, so a cached copy never goes stale
+    event.respondWith(cacheFirst(request, STATIC_CACHE))
+  } else if (url.pathname === '/api/user/trips' || url.pathname.startsWith('/api/user/trips/')) {
+    event.respondWith(tripData(request, url))
+  } else if (request.mode === 'navigate') {
+    event.respondWith(page(request))
+  } else if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  }
+})
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+async function staleWhileRevalidate(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  const network = fetch(request)
+    .then(async (response) => {
+      if (response.ok) await cache.put(request, response.clone())
+      return response
+    })
+
+  if (cached) {
+    network.catch(() => {})
+    return cached
+  }
+  return network
+}
+
+// Pages: the network while there is one, else the last copy seen, else the offline page
+async function page(request) {
+  try {
+    const response = await fetch(request)
+    if (response.ok && response.type === 'basic') {
+      const cache = await caches.open(PAGE_CACHE)
+      await cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true })
+    return cached || caches.match(OFFLINE_URL)
+  }
+}
+
+/**
+ * Trip API reads are network-first. Offline, the last response is served,
+ * then the trip as OfflineCacheManager holds it, which includes edits
+ * waiting to sync.
+ */
+async function tripData(request, url) {
+  const detail = url.pathname.match(TRIP_DETAIL_PATH)
+  const cache = await caches.open(TRIP_CACHE)
+
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      await cache.put(request, response.clone())
+      if (detail) {
+        await storeCachedTrip(response.clone()).catch(error => console.warn('Failed to store trip offline:', error))
+      }
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(request)
+    if (cached) return offlineResponse(cached)
+
+    const trip = detail && await readCachedTrip(decodeURIComponent(detail[1])).catch(() => null)
+    if (trip) {
+      return jsonResponse({ trip: trip.data, role: null, permissions: null, permissionMessages: null, pricing: null })
+    }
+    return jsonResponse({ error: 'You are offline and this trip has not been saved for offline use' }, 503)
+  }
+}
+
+async function cacheTripResponse(tripId, tripData) {
+  if (!tripId || !tripData) return
+
+  const cache = await caches.open(TRIP_CACHE)
+  await cache.put(`/api/user/trips/${encodeURIComponent(tripId)}`, jsonResponse(tripData))
+}
+
+function offlineResponse(response) {
+  const headers = new Headers(response.headers)
+  headers.set('X-Served-From', 'offline-cache')
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers })
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'X-Served-From': 'offline-cache' }
+  })
+}
+
+// Map tiles live in MapOfflineStorage's database, so tiles the map loads
+// and tiles it preloads serve each other
+
+async function mapTile(request, url) {
+  const key = tileKey(url)
+  const db = await openMapDB().catch(() => null)
+  const cached = db && await readTile(db, key).catch(() => null)
+
+  if (cached && Date.now() - cached.timestamp < MAX_TILE_AGE) {
+    return tileResponse(cached)
+  }
+
+  try {
+    const response = await fetch(request)
+    if (response.ok && db) {
+      const blob = await response.clone().blob()
+      await writeTile(db, { key, url: request.url, data: blob }).catch(error => console.warn('Failed to store tile:', error))
+    }
+    return response
+  } catch (error) {
+    if (cached) return tileResponse(cached)
+    throw error
+  }
+}
+
+// Same key MapOfflineStorage.generateTileKey gives the tile
+function tileKey(url) {
+  const [, tileset, z, x, y, suffix] = url.pathname.match(TILE_PATH)
+  return `tile_${tileset}_${z}_${x}_${y}${suffix}`
+}
+
+function tileResponse(tile) {
+  return new Response(tile.data, {
+    headers: { 'Content-Type': tile.data.type || 'application/octet-stream', 'X-Served-From': 'offline-cache' }
+  })
+}
+
+function openMapDB() {
+  return openDatabase(MAP_DB.name, MAP_DB.version, (db) => {
+    if (!db.objectStoreNames.contains(MAP_DB.store)) {
+      const store = db.createObjectStore(MAP_DB.store, { keyPath: 'key' })
+      store.createIndex('timestamp', 'timestamp', { unique: false })
+      store.createIndex('lastAccess', 'lastAccess', { unique: false })
+      store.createIndex('accessCount', 'accessCount', { unique: false })
+    }
+  })
+}
+
+async function readTile(db, key) {
+  const store = db.transaction([MAP_DB.store], 'readwrite').objectStore(MAP_DB.store)
+  const tile = await promisify(store.get(key))
+  if (tile) {
+    tile.lastAccess = Date.now()
+    tile.accessCount++
+    store.put(tile)
+  }
+  return tile || null
+}
+
+function writeTile(db, { key, url, data }) {
+  const now = Date.now()
+  const store = db.transaction([MAP_DB.store], 'readwrite').objectStore(MAP_DB.store)
+  return promisify(store.put({ key, url, data, timestamp: now, accessCount: 1, lastAccess: now }))
+}
+
+// Trips and the change queue live in OfflineCacheManager's database
+
+function openOfflineDB() {
+  return openDatabase(OFFLINE_DB.name, OFFLINE_DB.version, (db) => {
+    if (!db.objectStoreNames.contains('trips')) {
+      const tripsStore = db.createObjectStore('trips', { keyPath: 'id' })
+      tripsStore.createIndex('userId', 'data.userId')
+      tripsStore.createIndex('lastModified', 'lastModified')
+      tripsStore.createIndex('syncStatus', 'syncStatus')
+    }
+    if (!db.objectStoreNames.contains('offlineQueue')) {
+      const queueStore = db.createObjectStore('offlineQueue', { keyPath: 'id' })
+      queueStore.createIndex('timestamp', 'timestamp')
+      queueStore.createIndex('type', 'type')
+      queueStore.createIndex('resource', 'resource')
+    }
+    if (!db.objectStoreNames.contains('preferences')) {
+      db.createObjectStore('preferences', { keyPath: 'key' })
+    }
+    if (!db.objectStoreNames.contains('staticData')) {
+      const staticStore = db.createObjectStore('staticData', { keyPath: 'key' })
+      staticStore.createIndex('category', 'category')
+    }
+  })
+}
+
+async function storeCachedTrip(response) {
+  const { trip } = await response.json()
+  if (!trip || !trip.id) return
+
+  const db = await openOfflineDB()
+  const store = db.transaction(['trips'], 'readwrite').objectStore('trips')
+  const existing = await promisify(store.get(trip.id))
+  // Local edits win until they have synced
+  if (existing && existing.syncStatus !== 'synced') return
+
+  await promisify(store.put({
+    id: trip.id,
+    data: trip,
+    cachedAt: Date.now(),
+    lastModified: new Date(trip.updatedAt).getTime(),
+    syncStatus: 'synced'
+  }))
+}
+
+async function readCachedTrip(tripId) {
+  const db = await openOfflineDB()
+  const store = db.transaction(['trips'], 'readonly').objectStore('trips')
+  return (await promisify(store.get(tripId))) || null
+}
+
+// Background sync: send the changes OfflineSyncService queued while offline
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(drainOfflineQueue())
+  }
+})
+
+async function drainOfflineQueue() {
+  const db = await openOfflineDB()
+  const queue = await promisify(db.transaction(['offlineQueue'], 'readonly').objectStore('offlineQueue').index('timestamp').getAll())
+
+  for (const item of queue) {
+    const { url, init } = offlineQueueRequest(item)
+    // A network error means still offline; letting it reject has the browser retry the sync later
+    const response = await fetch(url, init)
+
+    const store = db.transaction(['offlineQueue'], 'readwrite').objectStore('offlineQueue')
+    if (response.ok || item.retryCount >= MAX_SYNC_RETRIES) {
+      if (!response.ok) console.error('Dropping offline change after repeated failures:', item)
+      await promisify(store.delete(item.id))
+    } else {
+      await promisify(store.put({ ...item, retryCount: item.retryCount + 1 }))
+    }
+  }
+
+  const preferences = db.transaction(['preferences'], 'readwrite').objectStore('preferences')
+  const saved = await promisify(preferences.get('userPreferences'))
+  await promisify(preferences.put({
+    key: 'userPreferences',
+    data: { ...(saved && saved.data), lastSync: Date.now() },
+    updatedAt: Date.now()
+  }))
+}
+
+// Mirrors offlineQueueRequest in lib/offline-cache.ts
+function offlineQueueRequest(item) {
+  const { id, tripId, ...fields } = item.data
+  const json = { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(fields) }
+
+  if (item.resource === 'trip') {
+    if (item.type === 'create') return { url: '/api/user/trips', init: { method: 'POST', ...json } }
+    const url = `/api/user/trips/${id}`
+    return item.type === 'update'
+      ? { url, init: { method: 'PUT', ...json } }
+      : { url, init: { method: 'DELETE' } }
+  }
+
+  if (item.type === 'create') return { url: `/api/user/trips/${tripId}/activities`, init: { method: 'POST', ...json } }
+  const url = `/api/user/trips/${tripId}/activities/${id}`
+  return item.type === 'update'
+    ? { url, init: { method: 'PATCH', ...json } }
+    : { url, init: { method: 'DELETE' } }
+}
+
+// IndexedDB helpers
+
+function openDatabase(name, version, upgrade) {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version)
+    request.onupgradeneeded = () => upgrade(request.result)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function promisify(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CalendarFeedService } from "@/lib/calendar-feed-service";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+// GET /api/export/calendar/[token].ics - Subscribable live calendar feed
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+    const feedToken = token.replace(/\.ics$/i, "");
+
+    if (!/^[A-Za-z0-9_-]{16,64}$/.test(feedToken)) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    const ics = await CalendarFeedService.renderFeed(feedToken);
+    if (!ics) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="trip.ics"',
+        "Cache-Control": "private, no-cache, max-age=0",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      { error: "Failed to render calendar feed" },
+      { status: 500 }
+    );
+  }
+}
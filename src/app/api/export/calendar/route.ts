@@ -1,11 +1,119 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { calendarGenerator } from "@/lib/calendar-generator";
+import { TimezoneUtils } from "@/lib/timezone-utils";
+import { timezoneForDate } from "@/lib/trip-legs";
+
+const exportCalendarSchema = z.object({
+  tripId: z.string().min(1),
+  activityId: z.string().min(1).optional(),
+  format: z.enum(["ical", "google", "outlook"]).default("ical"),
+});
+
+function toFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "trip"}.ics`;
+}
 
 export async function POST(request: NextRequest) {
-  // Calendar export is disabled — return 410 Gone.
-  return NextResponse.json(
-    { error: "Calendar export is disabled" },
-    { status: 410 }
-  );
+  try {
+    const body = await request.json();
+    const { tripId, activityId, format } = exportCalendarSchema.parse(body);
+
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+
+    const trip = await db.trip.findFirst({
+      where: {
+        id: tripId,
+        OR: [...(userId ? [{ userId }] : []), { isPublic: true }],
+      },
+      include: {
+        activities: {
+          where: activityId ? { id: activityId } : { dayId: { not: null } },
+          orderBy: [{ day: { dayNumber: "asc" } }, { order: "asc" }],
+          include: { day: { select: { date: true, dayNumber: true } } },
+        },
+        legs: { orderBy: { order: "asc" } },
+      },
+    });
+
+    if (!trip) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    if (activityId && trip.activities.length === 0) {
+      return NextResponse.json(
+        { error: "Activity not found" },
+        { status: 404 }
+      );
+    }
+
+    const timezone = TimezoneUtils.getDestinationTimezone(trip.destination);
+
+    if (format === "ical") {
+      const ics = calendarGenerator.generateiCal(trip, {
+        timezone,
+        // Each leg of a multi-city trip keeps its own local times
+        timezoneFor: (activity) =>
+          activity.day
+            ? timezoneForDate(trip, trip.legs, activity.day.date)
+            : undefined,
+      });
+      const fileName = activityId
+        ? toFileName(trip.activities[0].name)
+        : toFileName(trip.title);
+
+      return new NextResponse(ics, {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    if (!activityId) {
+      return NextResponse.json(
+        { error: `activityId is required for ${format} links` },
+        { status: 400 }
+      );
+    }
+
+    const activity = trip.activities[0];
+    if (!activity.day) {
+      return NextResponse.json(
+        { error: "Activity is not scheduled on a day" },
+        { status: 400 }
+      );
+    }
+
+    const activityTimezone = timezoneForDate(trip, trip.legs, activity.day.date);
+    const url =
+      format === "google"
+        ? calendarGenerator.generateGoogleCalendarUrl(activity, activityTimezone)
+        : calendarGenerator.generateOutlookCalendarUrl(activity, activityTimezone);
+
+    return NextResponse.json({ url, format, timezone: activityTimezone });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Calendar export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export calendar" },
+      { status: 500 }
+    );
+  }
 }
 
 export async function GET() {
@@ -14,6 +122,8 @@ export async function GET() {
     endpoints: {
       "POST /api/export/calendar":
         "Generate calendar export for trip or individual activity",
+      "GET /api/export/calendar/[token].ics":
+        "Subscribable live calendar feed for a trip",
     },
     formats: ["ical", "google", "outlook"],
     examples: {
@@ -60,7 +60,7 @@ export async function GET() {
       },
 
       api_keys: {
-        ai_configured: !!process.env.GEMINI_API_KEY,
+        ai_configured: aiHealth.status === 'healthy',
         weather_configured: !!process.env.WEATHER_API_KEY,
         maps_configured: !!process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY,
         mapbox_configured: !!process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN,
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { validateSession } from "@/lib/auth-utils"
+import { CollaborationService, CollaborationError } from "@/lib/collaboration-service"
+
+const respondSchema = z.object({
+  action: z.enum(["accept", "decline"]),
+})
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+// GET /api/invitations/[token] - Invitation details for the invitation page
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params
+    const invitation = await CollaborationService.getInvitation(token)
+
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ invitation })
+  } catch (error) {
+    console.error("Error fetching invitation:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/invitations/[token] - Accept or decline as the signed-in user
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const email = authResult.session?.user?.email
+    if (!email) {
+      return NextResponse.json(
+        { error: "Your account has no email address to match the invitation" },
+        { status: 400 }
+      )
+    }
+
+    const { token } = await params
+    const body = await request.json()
+    const { action } = respondSchema.parse(body)
+
+    if (action === "accept") {
+      const result = await CollaborationService.acceptInvitation(token, authResult.userId!, email)
+      return NextResponse.json({ success: true, ...result })
+    }
+
+    await CollaborationService.declineInvitation(token, authResult.userId!, email)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CollaborationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error responding to invitation:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
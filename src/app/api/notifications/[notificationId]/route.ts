@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { NotificationService, NotificationError } from '@/lib/notification-service'
+
+const updateSchema = z.object({
+  read: z.boolean()
+})
+
+interface RouteParams {
+  params: Promise<{ notificationId: string }>
+}
+
+// PATCH /api/notifications/[notificationId] - Mark one notification read or unread
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { notificationId } = await params
+    const body = await request.json()
+    const { read } = updateSchema.parse(body)
+
+    const notification = await NotificationService.setRead(session.user.id, notificationId, read)
+
+    return NextResponse.json({ notification })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof NotificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Notification update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notification' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/notifications/[notificationId] - Remove a notification from the inbox
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { notificationId } = await params
+    await NotificationService.delete(session.user.id, notificationId)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Notification delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete notification' },
+      { status: 500 }
+    )
+  }
+}
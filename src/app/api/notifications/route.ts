@@ -1,93 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
+import { z } from 'zod'
 import { authOptions } from '@/lib/auth'
+import { NotificationService, NotificationError } from '@/lib/notification-service'
+
+const listQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  unreadOnly: z.enum(['true', 'false']).optional()
+})
+
+const markReadSchema = z.object({
+  // Omit to mark everything as read
+  ids: z.array(z.string().min(1)).max(100).optional()
+})
+
+// GET /api/notifications - Inbox for the signed-in user, newest first
 export async function GET(request: NextRequest) {
   try {
-    // Use mock notifications if enabled
-    if (useMocks) {
-      await simulateDelay('notifications')
-      
-      const { searchParams } = new URL(request.url)
-      const limit = parseInt(searchParams.get('limit') || '20')
-      const unreadOnly = searchParams.get('unreadOnly') === 'true'
-      
-      // Mock notifications data
-      const mockNotifications = [
-        {
-          id: 'notif-1',
-          type: 'trip_shared',
-          title: 'Trip Shared',
-          message: 'John Doe shared "Paris Adventure" with you',
-          read: false,
-          createdAt: new Date(Date.now() - 3600000).toISOString(), // 1 hour ago
-          data: {
-            tripId: 'trip-1',
-            tripTitle: 'Paris Adventure',
-            sharedBy: 'John Doe'
-          }
-        },
-        {
-          id: 'notif-2',
-          type: 'activity_updated',
-          title: 'Activity Updated',
-          message: 'Activity "Visit Eiffel Tower" was updated',
-          read: false,
-          createdAt: new Date(Date.now() - 7200000).toISOString(), // 2 hours ago
-          data: {
-            tripId: 'trip-1',
-            activityId: 'activity-1',
-            activityTitle: 'Visit Eiffel Tower'
-          }
-        },
-        {
-          id: 'notif-3',
-          type: 'comment_added',
-          title: 'New Comment',
-          message: 'Jane Smith added a comment to your trip',
-          read: true,
-          createdAt: new Date(Date.now() - 86400000).toISOString(), // 1 day ago
-          data: {
-            tripId: 'trip-1',
-            commentId: 'comment-1',
-            commentBy: 'Jane Smith'
-          }
-        }
-      ]
-      
-      // Filter and limit notifications
-      let filteredNotifications = unreadOnly 
-        ? mockNotifications.filter(n => !n.read)
-        : mockNotifications
-      
-      filteredNotifications = filteredNotifications.slice(0, limit)
-      
-      const unreadCount = mockNotifications.filter(n => !n.read).length
-      
-      return NextResponse.json({
-        notifications: filteredNotifications,
-        unreadCount,
-        totalCount: mockNotifications.length
-      })
-    }
-    
     const session = await getServerSession(authOptions)
     if (!session?.user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Parameters are currently unused now that collaboration notifications are disabled,
-    // but we parse them to maintain backward compatibility with callers.
     const { searchParams } = new URL(request.url)
-    searchParams.get('limit')
-    searchParams.get('unreadOnly')
+    const query = listQuerySchema.parse(Object.fromEntries(searchParams))
 
-    return NextResponse.json({
-      notifications: [],
-      unreadCount: 0,
-      total: 0
+    const result = await NotificationService.list(session.user.id, {
+      cursor: query.cursor,
+      limit: query.limit,
+      unreadOnly: query.unreadOnly === 'true'
     })
 
+    return NextResponse.json(result)
+
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof NotificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Notifications fetch error:', error)
     return NextResponse.json(
       { error: 'Failed to fetch notifications' },
@@ -96,6 +54,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// PATCH /api/notifications - Mark the given notifications, or all of them, as read
 export async function PATCH(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
@@ -103,11 +62,22 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    await request.json().catch(() => null)
-    // Collaboration notifications have been removed; acknowledge the request.
-    return NextResponse.json({ success: true })
+    const body = await request.json().catch(() => ({}))
+    const { ids } = markReadSchema.parse(body ?? {})
+
+    const updated = await NotificationService.markAllRead(session.user.id, ids)
+    const unreadCount = await NotificationService.getUnreadCount(session.user.id)
+
+    return NextResponse.json({ success: true, updated, unreadCount })
 
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     console.error('Notification update error:', error)
     return NextResponse.json(
       { error: 'Failed to update notification' },
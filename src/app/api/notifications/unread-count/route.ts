@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { NotificationService } from '@/lib/notification-service'
+
+// GET /api/notifications/unread-count - Cheap poll for the navbar badge
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const unreadCount = await NotificationService.getUnreadCount(session.user.id)
+
+    return NextResponse.json({ unreadCount })
+
+  } catch (error) {
+    console.error('Unread count error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch unread count' },
+      { status: 500 }
+    )
+  }
+}
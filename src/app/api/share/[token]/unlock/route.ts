@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  shareAccessCookieName,
+  shareGenerator,
+  ShareError,
+} from "@/lib/share-generator";
+import { shareUnlockRateLimit } from "@/lib/rate-limit";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+// POST /api/share/[token]/unlock - Exchange the link password for an access cookie
+// Posted by the password form on /share/[token]; always redirects back to it
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+  const sharePage = new URL(`/share/${encodeURIComponent(token)}`, request.url);
+
+  const limit = await shareUnlockRateLimit(request);
+  if (!limit.success) {
+    sharePage.searchParams.set("error", "too-many-attempts");
+    return NextResponse.redirect(sharePage, 303);
+  }
+
+  try {
+    const form = await request.formData();
+    const password = form.get("password");
+
+    const { accessPass, expiresAt } = await shareGenerator.unlockSharedTrip(
+      token,
+      typeof password === "string" ? password : ""
+    );
+
+    const response = NextResponse.redirect(sharePage, 303);
+    response.cookies.set(shareAccessCookieName(token), accessPass, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      expires: expiresAt,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof ShareError && error.code === "INVALID_PASSWORD") {
+      sharePage.searchParams.set("error", "invalid-password");
+    } else if (!(error instanceof ShareError)) {
+      console.error("Failed to unlock shared trip:", error);
+    }
+
+    // The share page explains expired and missing links itself
+    return NextResponse.redirect(sharePage, 303);
+  }
+}
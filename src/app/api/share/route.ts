@@ -1,21 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { shareGenerator } from "@/lib/share-generator";
+import {
+  shareAccessFromCookies,
+  shareGenerator,
+  ShareError,
+} from "@/lib/share-generator";
 import { z } from "zod";
 
+const MAX_SHARE_DAYS = 365;
+
 const createShareSchema = z.object({
   tripId: z.string(),
   options: z
     .object({
-      expiresInDays: z.number().optional().default(30),
+      // null keeps the link open until it is revoked; omitted keeps the current expiry
+      expiresInDays: z.number().int().positive().max(MAX_SHARE_DAYS).nullable().optional(),
       allowComments: z.boolean().optional().default(false),
       showContactInfo: z.boolean().optional().default(false),
       showBudget: z.boolean().optional().default(false),
       password: z.string().optional(),
     })
     .default({
-      expiresInDays: 30,
       allowComments: false,
       showContactInfo: false,
       showBudget: false,
@@ -26,23 +32,118 @@ const revokeShareSchema = z.object({
   tripId: z.string(),
 });
 
+const shareErrorStatus: Record<ShareError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  EXPIRED: 410,
+  PASSWORD_REQUIRED: 401,
+  INVALID_PASSWORD: 401,
+};
+
+function handleShareError(error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: "Invalid data", details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ShareError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: shareErrorStatus[error.code] }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
+
+// POST /api/share - Create (or update) the share link for a trip
 export async function POST(request: NextRequest) {
-  return NextResponse.json(
-    { error: "Sharing has been disabled" },
-    { status: 410 }
-  );
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { tripId, options } = createShareSchema.parse(body);
+
+    const result = await shareGenerator.createShareableLink(
+      tripId,
+      session.user.id,
+      options
+    );
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleShareError(error, "Failed to create share link");
+  }
 }
 
+// DELETE /api/share - Revoke the share link for a trip
 export async function DELETE(request: NextRequest) {
-  return NextResponse.json(
-    { error: "Sharing has been disabled" },
-    { status: 410 }
-  );
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { tripId } = revokeShareSchema.parse(body);
+
+    const revoked = await shareGenerator.revokeShareableLink(
+      tripId,
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    return handleShareError(error, "Failed to revoke share link");
+  }
 }
 
+// GET /api/share?tripId=... - Share stats for the trip owner
+// GET /api/share?token=... - Read-only shared trip; protected links need the
+// access cookie set by POST /api/share/[token]/unlock
 export async function GET(request: NextRequest) {
-  return NextResponse.json(
-    { error: "Sharing has been disabled" },
-    { status: 410 }
-  );
+  try {
+    const { searchParams } = new URL(request.url);
+    const tripId = searchParams.get("tripId");
+    const token = searchParams.get("token");
+
+    if (token) {
+      const trip = await shareGenerator.getSharedTrip(
+        token,
+        shareAccessFromCookies(request.cookies, token)
+      );
+
+      if (!trip) {
+        return NextResponse.json(
+          { error: "Shared trip not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ trip });
+    }
+
+    if (!tripId) {
+      return NextResponse.json(
+        { error: "Either tripId or token is required" },
+        { status: 400 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const stats = await shareGenerator.getShareStats(tripId, session.user.id);
+    return NextResponse.json({ shared: !!stats, stats });
+  } catch (error) {
+    return handleShareError(error, "Failed to fetch share data");
+  }
 }
@@ -58,21 +58,20 @@ export async function POST(request: NextRequest) {
 
     let result: any = { success: true }
 
+    const definition = jobName ? BackgroundJobService.definitions[jobName] : undefined
+    const requiresJob = action === 'start' || action === 'restart' || action === 'run-once'
+
+    if (requiresJob && !definition) {
+      return NextResponse.json(
+        { error: `Unknown job: ${jobName}` },
+        { status: 400 }
+      )
+    }
+
     switch (action) {
       case 'start':
-        if (jobName === 'status-transitions') {
-          BackgroundJobService.startJob(
-            'status-transitions', 
-            () => import('@/lib/trip-status-service').then(m => m.TripStatusService.runDateBasedStatusChecks()),
-            30 * 60 * 1000 // 30 minutes
-          )
-          result.message = `Started job: ${jobName}`
-        } else {
-          return NextResponse.json(
-            { error: `Unknown job: ${jobName}` },
-            { status: 400 }
-          )
-        }
+        BackgroundJobService.startJob(jobName, definition!.run, definition!.intervalMs)
+        result.message = `Started job: ${jobName}`
         break
 
       case 'stop':
@@ -81,37 +80,16 @@ export async function POST(request: NextRequest) {
         break
 
       case 'restart':
-        if (jobName === 'status-transitions') {
-          BackgroundJobService.stopJob(jobName)
-          BackgroundJobService.startJob(
-            'status-transitions', 
-            () => import('@/lib/trip-status-service').then(m => m.TripStatusService.runDateBasedStatusChecks()),
-            30 * 60 * 1000
-          )
-          result.message = `Restarted job: ${jobName}`
-        } else {
-          return NextResponse.json(
-            { error: `Unknown job: ${jobName}` },
-            { status: 400 }
-          )
-        }
+        BackgroundJobService.stopJob(jobName)
+        BackgroundJobService.startJob(jobName, definition!.run, definition!.intervalMs)
+        result.message = `Restarted job: ${jobName}`
         break
 
-      case 'run-once':
-        if (jobName === 'status-transitions') {
-          const { TripStatusService } = await import('@/lib/trip-status-service')
-          const jobResult = await BackgroundJobService.runJobOnce(
-            'status-transitions',
-            () => TripStatusService.runDateBasedStatusChecks()
-          )
-          result = { ...result, ...jobResult }
-        } else {
-          return NextResponse.json(
-            { error: `Unknown job: ${jobName}` },
-            { status: 400 }
-          )
-        }
+      case 'run-once': {
+        const jobResult = await BackgroundJobService.runJobOnce(jobName, definition!.run)
+        result = { ...result, ...jobResult }
         break
+      }
 
       case 'start-all':
         BackgroundJobService.startAll()
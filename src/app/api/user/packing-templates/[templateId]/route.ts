@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { PackingError, PackingService } from "@/lib/packing-service"
+
+interface RouteParams {
+  params: Promise<{ templateId: string }>
+}
+
+// DELETE /api/user/packing-templates/[templateId] - Delete one of the user's templates
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    await PackingService.deleteTemplate(userId, templateId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof PackingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting packing template:", error)
+    return NextResponse.json(
+      { error: "Failed to delete packing template" },
+      { status: 500 }
+    )
+  }
+}
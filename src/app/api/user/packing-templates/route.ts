@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { PackingService, packingTemplateInputSchema } from "@/lib/packing-service"
+
+// GET /api/user/packing-templates - The user's reusable packing templates
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const templates = await PackingService.listTemplates(userId)
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error("Error fetching packing templates:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch packing templates" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/user/packing-templates - Save a template; an existing one with the same name is replaced
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const input = packingTemplateInputSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const template = await PackingService.saveTemplate(userId, input)
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error("Error saving packing template:", error)
+    return NextResponse.json(
+      { error: "Failed to save packing template" },
+      { status: 500 }
+    )
+  }
+}
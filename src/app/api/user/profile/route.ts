@@ -98,6 +98,7 @@ const updateProfileSchema = z.object({
           marketing: z.boolean().optional(),
           tripReminders: z.boolean().optional(),
           activityUpdates: z.boolean().optional(),
+          emailDigest: z.boolean().optional(),
         })
         .partial()
         .optional(),
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { BookingError, BookingService, bookingInputSchema } from "@/lib/booking-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string; activityId: string }>
+}
+
+// GET /api/user/trips/[tripId]/activities/[activityId]/booking - The activity's booking, if any
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, activityId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const entry = await BookingService.getBooking(tripId, activityId, userId)
+    return NextResponse.json(entry)
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching booking:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch booking" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/user/trips/[tripId]/activities/[activityId]/booking - Record a booking or change its details and status
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, activityId } = await params
+    const body = await request.json()
+    const input = bookingInputSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const entry = await BookingService.saveBooking(tripId, activityId, userId, input)
+    return NextResponse.json(entry)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof BookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error saving booking:", error)
+    return NextResponse.json(
+      { error: "Failed to save booking" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/user/trips/[tripId]/activities/[activityId]/booking - Remove the booking record
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, activityId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    await BookingService.removeBooking(tripId, activityId, userId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error removing booking:", error)
+    return NextResponse.json(
+      { error: "Failed to remove booking" },
+      { status: 500 }
+    )
+  }
+}
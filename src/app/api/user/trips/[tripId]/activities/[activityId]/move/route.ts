@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ActivityService, ActivityError } from "@/lib/activity-service"
+import { moveActivitySchema } from "@/lib/activity-validation"
+
+interface RouteParams {
+  params: Promise<{ tripId: string; activityId: string }>
+}
+
+// POST /api/user/trips/[tripId]/activities/[activityId]/move - Move to another day and/or position
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, activityId } = await params
+    const body = await request.json()
+    const { toDay, toIndex } = moveActivitySchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const activity = await ActivityService.moveActivity(tripId, userId, activityId, toDay, toIndex)
+
+    return NextResponse.json({ activity })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error moving activity:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ActivityService, ActivityError } from "@/lib/activity-service"
+import { updateActivitySchema } from "@/lib/activity-validation"
+
+interface RouteParams {
+  params: Promise<{ tripId: string; activityId: string }>
+}
+
+// PATCH /api/user/trips/[tripId]/activities/[activityId] - Update activity details
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, activityId } = await params
+    const body = await request.json()
+    const { activity } = updateActivitySchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const updated = await ActivityService.updateActivity(tripId, userId, activityId, activity)
+
+    return NextResponse.json({ activity: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error updating activity:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/user/trips/[tripId]/activities/[activityId] - Remove an activity
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, activityId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    await ActivityService.deleteActivity(tripId, userId, activityId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting activity:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
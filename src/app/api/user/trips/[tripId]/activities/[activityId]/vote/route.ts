@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { validateSession } from "@/lib/auth-utils"
+import { VoteService, VoteError } from "@/lib/vote-service"
+
+const voteSchema = z.object({
+  value: z.union([z.literal(-1), z.literal(0), z.literal(1)]),
+})
+
+interface RouteParams {
+  params: Promise<{ tripId: string; activityId: string }>
+}
+
+// PUT /api/user/trips/[tripId]/activities/[activityId]/vote - Vote up (1), down (-1) or clear (0)
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId, activityId } = await params
+    const body = await request.json()
+    const { value } = voteSchema.parse(body)
+
+    const tally = await VoteService.castVote(tripId, activityId, authResult.userId!, value)
+
+    return NextResponse.json({ tally })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof VoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error casting vote:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ActivityService, ActivityError } from "@/lib/activity-service"
+import { saveActivitiesSchema } from "@/lib/activity-validation"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// POST /api/user/trips/[tripId]/activities/batch - Save a list of itinerary edits atomically
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const { actions } = saveActivitiesSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const result = await ActivityService.applyActions(tripId, userId, actions)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error saving itinerary changes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ActivityService, ActivityError } from "@/lib/activity-service"
+import { reorderActivitiesSchema } from "@/lib/activity-validation"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// PUT /api/user/trips/[tripId]/activities/reorder - Set the order of a day's activities
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const { dayNumber, activityIds } = reorderActivitiesSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    await ActivityService.reorderDay(tripId, userId, dayNumber, activityIds)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error reordering activities:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
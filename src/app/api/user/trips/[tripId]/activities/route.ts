@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ActivityService, ActivityError } from "@/lib/activity-service"
+import { createActivitySchema } from "@/lib/activity-validation"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/activities - List activities in itinerary order
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    await ActivityService.assertCanEdit(tripId, userId, [])
+    const activities = await ActivityService.getActivities(tripId)
+
+    return NextResponse.json({ activities })
+  } catch (error) {
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching activities:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/user/trips/[tripId]/activities - Add an activity to a day
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const { dayNumber, index, activity } = createActivitySchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const created = await ActivityService.createActivity(tripId, userId, dayNumber, activity, index)
+
+    return NextResponse.json({ activity: created }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error creating activity:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { BookingError, BookingService } from "@/lib/booking-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/bookings - Bookings ledger and what still needs booking
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const ledger = await BookingService.getLedger(tripId, userId)
+    return NextResponse.json(ledger)
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching bookings:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch bookings" },
+      { status: 500 }
+    )
+  }
+}
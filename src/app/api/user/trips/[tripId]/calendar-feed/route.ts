@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { validateSession } from "@/lib/auth-utils"
+import { CalendarFeedService } from "@/lib/calendar-feed-service"
+
+const updateFeedSchema = z.object({
+  rotate: z.boolean().default(false),
+})
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// Only the trip owner can manage the calendar feed
+async function authorize(tripId: string) {
+  const authResult = await validateSession()
+  if (!authResult.success) {
+    return { error: NextResponse.json({ error: authResult.error }, { status: authResult.status }) }
+  }
+
+  const trip = await db.trip.findUnique({
+    where: { id: tripId },
+    select: { id: true, userId: true }
+  })
+
+  if (!trip) {
+    return { error: NextResponse.json({ error: "Trip not found" }, { status: 404 }) }
+  }
+
+  if (trip.userId !== authResult.userId) {
+    return { error: NextResponse.json({ error: "Permission denied" }, { status: 403 }) }
+  }
+
+  return { userId: authResult.userId! }
+}
+
+// GET /api/user/trips/[tripId]/calendar-feed - Get the trip's feed URL
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const auth = await authorize(tripId)
+    if (auth.error) return auth.error
+
+    const feed = await CalendarFeedService.getFeed(tripId)
+    return NextResponse.json({ feed })
+  } catch (error) {
+    console.error("Calendar feed fetch error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/user/trips/[tripId]/calendar-feed - Enable the feed or rotate its token
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const auth = await authorize(tripId)
+    if (auth.error) return auth.error
+
+    const body = await request.json().catch(() => ({}))
+    const { rotate } = updateFeedSchema.parse(body)
+
+    const feed = rotate
+      ? await CalendarFeedService.rotateToken(tripId, auth.userId)
+      : await CalendarFeedService.enableFeed(tripId, auth.userId)
+
+    return NextResponse.json({ feed })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error("Calendar feed update error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/user/trips/[tripId]/calendar-feed - Revoke the feed
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const auth = await authorize(tripId)
+    if (auth.error) return auth.error
+
+    const revoked = await CalendarFeedService.revokeFeed(tripId)
+    return NextResponse.json({ success: true, revoked })
+  } catch (error) {
+    console.error("Calendar feed revoke error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
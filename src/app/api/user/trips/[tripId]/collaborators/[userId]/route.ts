@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { validateSession } from "@/lib/auth-utils"
+import { CollaborationService, CollaborationError } from "@/lib/collaboration-service"
+
+const updateRoleSchema = z.object({
+  role: z.enum(["ADMIN", "EDITOR", "VIEWER"]),
+})
+
+interface RouteParams {
+  params: Promise<{ tripId: string; userId: string }>
+}
+
+// PATCH /api/user/trips/[tripId]/collaborators/[userId] - Change a member's role
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId, userId } = await params
+    const body = await request.json()
+    const { role } = updateRoleSchema.parse(body)
+
+    const collaboration = await CollaborationService.updateMemberRole(tripId, authResult.userId!, userId, role)
+
+    return NextResponse.json({ collaboration })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CollaborationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error updating collaborator role:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/user/trips/[tripId]/collaborators/[userId] - Remove a member, or leave the trip
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId, userId } = await params
+    await CollaborationService.removeMember(tripId, authResult.userId!, userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof CollaborationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error removing collaborator:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
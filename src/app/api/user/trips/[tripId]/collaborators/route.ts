@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { validateSession } from "@/lib/auth-utils"
+import { CollaborationService, CollaborationError } from "@/lib/collaboration-service"
+
+const inviteSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  role: z.enum(["ADMIN", "EDITOR", "VIEWER"]).default("VIEWER"),
+  message: z.string().max(500).optional(),
+})
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/collaborators - List members and pending invitations
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId } = await params
+    const result = await CollaborationService.getMembers(tripId, authResult.userId!)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof CollaborationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching collaborators:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/user/trips/[tripId]/collaborators - Invite someone by email
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId } = await params
+    const body = await request.json()
+    const input = inviteSchema.parse(body)
+
+    const result = await CollaborationService.inviteMember(tripId, authResult.userId!, input)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CollaborationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error inviting collaborator:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { CommentService, CommentError } from "@/lib/comment-service"
+import { shareAccessFromCookies } from "@/lib/share-generator"
+
+const updateCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(2000),
+  shareToken: z.string().min(1).optional(),
+})
+
+interface RouteParams {
+  params: Promise<{ tripId: string; commentId: string }>
+}
+
+// PATCH /api/user/trips/[tripId]/comments/[commentId] - Edit your own comment
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, commentId } = await params
+    const body = await request.json()
+    const { content, shareToken } = updateCommentSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const comment = await CommentService.updateComment(
+      tripId,
+      commentId,
+      {
+        userId: session?.user?.id ?? null,
+        shareToken,
+        shareAccess: shareAccessFromCookies(request.cookies, shareToken),
+      },
+      content
+    )
+
+    return NextResponse.json({ comment })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error updating comment:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/user/trips/[tripId]/comments/[commentId] - Delete your own comment, or any as the trip owner
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, commentId } = await params
+
+    const session = await getServerSession(authOptions)
+    await CommentService.deleteComment(tripId, commentId, { userId: session?.user?.id ?? null })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting comment:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { CommentService, CommentError } from "@/lib/comment-service"
+import { shareAccessFromCookies } from "@/lib/share-generator"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/comments/counts - Comment counts per activity
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const { searchParams } = new URL(request.url)
+
+    const shareToken = searchParams.get("shareToken") ?? undefined
+
+    const session = await getServerSession(authOptions)
+    const counts = await CommentService.countByActivity(tripId, {
+      userId: session?.user?.id ?? null,
+      shareToken,
+      shareAccess: shareAccessFromCookies(request.cookies, shareToken),
+    })
+
+    return NextResponse.json({ counts })
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching comment counts:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
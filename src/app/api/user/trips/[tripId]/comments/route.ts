@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { CommentService, CommentError } from "@/lib/comment-service"
+import { shareAccessFromCookies } from "@/lib/share-generator"
+
+const createCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(2000),
+  activityId: z.string().min(1).optional(),
+  parentId: z.string().min(1).optional(),
+  shareToken: z.string().min(1).optional(),
+})
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/comments - Threaded comments for the trip or an activity
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const { searchParams } = new URL(request.url)
+
+    const shareToken = searchParams.get("shareToken") ?? undefined
+
+    const session = await getServerSession(authOptions)
+    const result = await CommentService.listComments(
+      tripId,
+      {
+        userId: session?.user?.id ?? null,
+        shareToken,
+        shareAccess: shareAccessFromCookies(request.cookies, shareToken),
+      },
+      searchParams.get("activityId") ?? undefined
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching comments:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/user/trips/[tripId]/comments - Add a comment or a reply
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const { shareToken, ...input } = createCommentSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const comment = await CommentService.createComment(
+      tripId,
+      {
+        userId: session?.user?.id ?? null,
+        shareToken,
+        shareAccess: shareAccessFromCookies(request.cookies, shareToken),
+      },
+      input
+    )
+
+    return NextResponse.json({ comment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error creating comment:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
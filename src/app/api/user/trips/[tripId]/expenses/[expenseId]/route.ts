@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ExpenseError, ExpenseService, expenseUpdateSchema } from "@/lib/expense-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string; expenseId: string }>
+}
+
+// PATCH /api/user/trips/[tripId]/expenses/[expenseId] - Edit an expense you logged, or any as owner or admin
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, expenseId } = await params
+    const body = await request.json()
+    const input = expenseUpdateSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const expense = await ExpenseService.updateExpense(tripId, expenseId, userId, input)
+    return NextResponse.json({ expense })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ExpenseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error updating expense:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/user/trips/[tripId]/expenses/[expenseId] - Remove an expense you logged, or any as owner or admin
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId, expenseId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    await ExpenseService.deleteExpense(tripId, expenseId, userId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ExpenseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting expense:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
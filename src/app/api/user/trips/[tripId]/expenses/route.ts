@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ExpenseError, ExpenseService, expenseInputSchema } from "@/lib/expense-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/expenses - Logged expenses and spending against plan
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const result = await ExpenseService.getForTrip(tripId, userId)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof ExpenseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching expenses:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch expenses" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/user/trips/[tripId]/expenses - Log an expense
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const input = expenseInputSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const expense = await ExpenseService.createExpense(tripId, userId, input)
+    return NextResponse.json({ expense }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ExpenseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error logging expense:", error)
+    return NextResponse.json(
+      { error: "Failed to log expense" },
+      { status: 500 }
+    )
+  }
+}
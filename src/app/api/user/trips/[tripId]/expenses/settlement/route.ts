@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ExpenseError, ExpenseService } from "@/lib/expense-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/expenses/settlement - Member balances and who owes whom (?format=csv to download)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const settlement = await ExpenseService.getSettlement(tripId, userId)
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      const filename = `${settlement.tripTitle.replace(/[^\w-]+/g, '-').toLowerCase() || 'trip'}-expenses.csv`
+      return new NextResponse(ExpenseService.settlementCsv(settlement), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      })
+    }
+
+    return NextResponse.json({ settlement })
+  } catch (error) {
+    if (error instanceof ExpenseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error settling expenses:", error)
+    return NextResponse.json(
+      { error: "Failed to settle expenses" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ItineraryGenerationError, ItineraryGenerationService, describeGenerationError } from '@/lib/itinerary-generation'
+import { encodeGenerationEvent, GenerationEvent } from '@/lib/generation-events'
+import { createCancellationToken } from '@/lib/retry-logic'
+
+export const dynamic = 'force-dynamic'
+
+// Generation can run for minutes; keep proxies from closing an idle stream
+const KEEP_ALIVE_INTERVAL = 15000
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// POST /api/user/trips/[tripId]/generate-itinerary/stream - Generate with live progress over SSE
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { tripId } = await params
+
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    // Check before opening the stream so refusals get a proper status code
+    await ItineraryGenerationService.authorize(tripId, userId)
+
+    // Closing the connection (the client's AbortController) cancels the generation
+    const cancellationToken = createCancellationToken()
+    request.signal.addEventListener('abort', () => cancellationToken.cancel())
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false
+        const write = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            // The client went away; generation is cancelled via the abort signal
+            closed = true
+          }
+        }
+        const send = (event: GenerationEvent) => write(encodeGenerationEvent(event))
+        const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL)
+
+        try {
+          const result = await ItineraryGenerationService.generateForTrip(tripId, userId, {
+            cancellationToken,
+            onProgress: (progress) => send({ type: 'progress', progress }),
+            onPartialDay: (day, index) => send({ type: 'day', index, day }),
+            onWarning: (message) => send({ type: 'warning', message })
+          })
+
+          result.warnings?.forEach(message => send({ type: 'warning', message }))
+          send({ type: 'result', result: { success: true, itinerary: result } })
+        } catch (error) {
+          console.error('❌ Error streaming itinerary generation:', error)
+          send({ type: 'error', failure: describeGenerationError(error) })
+        } finally {
+          clearInterval(keepAlive)
+          if (!closed) {
+            closed = true
+            try {
+              controller.close()
+            } catch {
+              // Already cancelled by the client
+            }
+          }
+        }
+      },
+      cancel() {
+        cancellationToken.cancel()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    if (error instanceof ItineraryGenerationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error starting itinerary stream:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { validateSession } from "@/lib/auth-utils"
+import { CollaborationService, CollaborationError } from "@/lib/collaboration-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string; invitationId: string }>
+}
+
+// DELETE /api/user/trips/[tripId]/invitations/[invitationId] - Revoke a pending invitation
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId, invitationId } = await params
+    await CollaborationService.revokeInvitation(tripId, authResult.userId!, invitationId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof CollaborationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error revoking invitation:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
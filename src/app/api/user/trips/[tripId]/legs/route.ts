@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { TripLegError, TripLegService, tripLegsSchema } from "@/lib/trip-legs"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/legs - Ordered destinations of a multi-city trip
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const result = await TripLegService.getForTrip(tripId, userId)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof TripLegError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching trip legs:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch trip destinations" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/user/trips/[tripId]/legs - Replace the trip's destinations (an empty list makes it single-destination)
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const { legs } = tripLegsSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const saved = await TripLegService.replaceLegs(tripId, userId, legs)
+    return NextResponse.json({ legs: saved })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TripLegError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error updating trip legs:", error)
+    return NextResponse.json(
+      { error: "Failed to update trip destinations" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { PackingError, PackingService } from "@/lib/packing-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// POST /api/user/trips/[tripId]/packing/generate - Merge weather-driven suggestions into the user's list
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const view = await PackingService.generate(tripId, userId)
+    return NextResponse.json(view)
+  } catch (error) {
+    if (error instanceof PackingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error generating packing list:", error)
+    return NextResponse.json(
+      { error: "Failed to generate packing list" },
+      { status: 500 }
+    )
+  }
+}
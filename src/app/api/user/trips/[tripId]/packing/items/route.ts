@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { PackingError, PackingService, packingItemInputSchema } from "@/lib/packing-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// POST /api/user/trips/[tripId]/packing/items - Add a custom item to the user's list
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const input = packingItemInputSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const view = await PackingService.addItem(tripId, userId, input)
+    return NextResponse.json(view, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof PackingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error adding packing item:", error)
+    return NextResponse.json(
+      { error: "Failed to add packing item" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { PackingError, PackingService } from "@/lib/packing-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/packing - A traveller's packing list (?travellerId=, ?format=csv or text to download)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const searchParams = request.nextUrl.searchParams
+    const view = await PackingService.getList(tripId, userId, searchParams.get('travellerId') || userId)
+
+    const format = searchParams.get('format')
+    if (format === 'csv' || format === 'text') {
+      const filename = `${view.traveller.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'traveller'}-packing-list.${format === 'csv' ? 'csv' : 'txt'}`
+      return new NextResponse(PackingService.exportList(view, format), {
+        headers: {
+          'Content-Type': format === 'csv' ? 'text/csv' : 'text/plain; charset=utf-8',
+          // The text checklist opens in the browser for printing
+          'Content-Disposition': `${format === 'csv' ? 'attachment' : 'inline'}; filename="${filename}"`
+        }
+      })
+    }
+
+    return NextResponse.json(view)
+  } catch (error) {
+    if (error instanceof PackingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching packing list:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch packing list" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { PackingError, PackingService } from "@/lib/packing-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+const applyTemplateSchema = z.object({
+  templateId: z.string().min(1)
+})
+
+// POST /api/user/trips/[tripId]/packing/templates - Add a personal template's items to the user's list
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const { templateId } = applyTemplateSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const view = await PackingService.applyTemplate(tripId, userId, templateId)
+    return NextResponse.json(view)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof PackingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error applying packing template:", error)
+    return NextResponse.json(
+      { error: "Failed to apply packing template" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { TripPreferencesError, TripPreferencesService, tripPreferencesSchema } from "@/lib/trip-preferences"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/preferences - Planning preferences used when (re)generating the itinerary
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const result = await TripPreferencesService.getForTrip(tripId, userId)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof TripPreferencesError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching trip preferences:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch trip preferences" },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/user/trips/[tripId]/preferences - Update the trip's planning preferences
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const input = tripPreferencesSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const preferences = await TripPreferencesService.update(tripId, userId, input)
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TripPreferencesError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error updating trip preferences:", error)
+    return NextResponse.json(
+      { error: "Failed to update trip preferences" },
+      { status: 500 }
+    )
+  }
+}
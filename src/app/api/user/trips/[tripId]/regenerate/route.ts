@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ActivityError } from "@/lib/activity-service"
+import { regenerateItinerarySchema } from "@/lib/activity-validation"
+import { ItineraryRegenerationService } from "@/lib/itinerary-regeneration"
+import { describeGenerationError } from "@/lib/itinerary-generation"
+import { createCancellationToken } from "@/lib/retry-logic"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// POST /api/user/trips/[tripId]/regenerate - Regenerate one day, replace one activity or fill a time slot
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json()
+    const input = regenerateItinerarySchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    // Closing the request cancels the AI call
+    const cancellationToken = createCancellationToken()
+    request.signal.addEventListener('abort', () => cancellationToken.cancel())
+
+    const result = await ItineraryRegenerationService.regenerate(tripId, userId, input, { cancellationToken })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error regenerating itinerary:", error)
+    const failure = describeGenerationError(error)
+    return NextResponse.json(
+      { error: failure.error, details: failure.details, retryable: failure.retryable },
+      { status: failure.status }
+    )
+  }
+}
@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
 import { z } from "zod"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { db } from "@/lib/db"
 import { getTripPermissions, getPermissionMessages } from "@/lib/trip-permissions"
+import { CollaborationService } from "@/lib/collaboration-service"
+import { NotificationService } from "@/lib/notification-service"
+import { TripLegError, TripLegService } from "@/lib/trip-legs"
+import { ItineraryGenerationService } from "@/lib/itinerary-generation"
+import { CurrencyService, currencyCodeSchema } from "@/lib/currency-service"
 
 const updateTripSchema = z.object({
   title: z.string().min(1).max(200).optional(),
@@ -13,8 +19,8 @@ const updateTripSchema = z.object({
   endDate: z.string().datetime().optional(),
   budget: z.number().positive().optional(),
   travelers: z.number().int().min(1).max(50).optional(),
-  status: z.enum(["DRAFT", "PLANNED", "ACTIVE", "COMPLETED", "CANCELLED"]).optional(),
   isPublic: z.boolean().optional(),
+  displayCurrency: currencyCodeSchema.optional(),
 })
 
 interface RouteParams {
@@ -44,11 +50,12 @@ export async function GET(
 
     // Use real database
     try {
-      const trip = await db.trip.findFirst({
+      const query = {
         where: {
           id: tripId,
           OR: [
             { userId: userId }, // User can access their own trips
+            { collaborations: { some: { userId, acceptedAt: { not: null } } } }, // Trips shared with the user
             { isPublic: true }  // Anyone can access public trips
           ]
         },
@@ -61,6 +68,9 @@ export async function GET(
               }
             }
           },
+          legs: {
+            orderBy: { order: 'asc' }
+          },
           itineraryData: {
             select: {
               id: true,
@@ -77,7 +87,8 @@ export async function GET(
             }
           }
         }
-      })
+      } satisfies Prisma.TripFindFirstArgs
+      let trip = await db.trip.findFirst(query)
 
       if (!trip) {
         return NextResponse.json(
@@ -86,14 +97,28 @@ export async function GET(
         )
       }
 
+      // Itineraries stored only as raw JSON get their days written out, so they can be edited
+      if (trip._count.days === 0 && trip.itineraryData && await ItineraryGenerationService.restoreDays(tripId)) {
+        trip = (await db.trip.findFirst(query)) ?? trip
+      }
+
       // Calculate permissions for the trip  
-      const permissions = getTripPermissions(trip, userId)
-      const permissionMessages = getPermissionMessages(trip, userId)
+      const role = await CollaborationService.getMemberRole(tripId, userId)
+      const permissions = getTripPermissions(trip, userId, role ?? undefined)
+      const permissionMessages = getPermissionMessages(trip, userId, role ?? undefined)
+
+      // Prices are still usable in their own currencies if conversion fails
+      const pricing = await CurrencyService.priceTrip(trip).catch((error) => {
+        console.warn("Currency conversion failed:", error)
+        return null
+      })
 
       return NextResponse.json({ 
         trip,
+        role,
         permissions,
-        permissionMessages
+        permissionMessages,
+        pricing
       })
     } catch (dbError) {
       console.error("Database error:", dbError)
@@ -160,10 +185,11 @@ export async function PUT(
     const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
 
     // Check permissions
-    const permissions = getTripPermissions(currentTrip, userId)
+    const role = await CollaborationService.getMemberRole(tripId, userId)
+    const permissions = getTripPermissions(currentTrip, userId, role ?? undefined)
 
     if (!permissions.canEdit) {
-      const messages = getPermissionMessages(currentTrip, userId)
+      const messages = getPermissionMessages(currentTrip, userId, role ?? undefined)
       return NextResponse.json(
         { 
           error: "Permission denied",
@@ -174,12 +200,34 @@ export async function PUT(
       )
     }
 
-    // Update trip in database
+    // Only the owner can change who can see the trip
+    if (validatedData.isPublic !== undefined && role !== 'OWNER') {
+      return NextResponse.json(
+        { error: "Permission denied", message: "Only the trip owner can change trip visibility." },
+        { status: 403 }
+      )
+    }
+
+    // Multi-city legs have to move with the trip's dates
+    let fittedLegs: Awaited<ReturnType<typeof TripLegService.fitToDates>> = []
+    if (validatedData.startDate || validatedData.endDate) {
+      const dates = {
+        startDate: validatedData.startDate ? new Date(validatedData.startDate) : currentTrip.startDate,
+        endDate: validatedData.endDate ? new Date(validatedData.endDate) : currentTrip.endDate
+      }
+      try {
+        fittedLegs = await TripLegService.fitToDates(tripId, currentTrip, dates)
+      } catch (error) {
+        if (error instanceof TripLegError) {
+          return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        throw error
+      }
+    }
+
+    // Update trip in database (editors and admins were cleared by the permission check above)
     const updatedTrip = await db.trip.update({
-      where: { 
-        id: tripId,
-        userId: userId // Only allow updating your own trips
-      },
+      where: { id: tripId },
       data: validatedData,
       include: {
         _count: {
@@ -197,6 +245,18 @@ export async function PUT(
       )
     }
 
+    if (fittedLegs.length > 0) {
+      await TripLegService.saveDates(fittedLegs)
+    }
+
+    const actorName = await NotificationService.displayName(userId)
+    await NotificationService.notifyTripMembers(tripId, userId, {
+      type: "TRIP_UPDATE",
+      title: "Trip details updated",
+      message: `${actorName} updated "${updatedTrip.title}"`,
+      data: { url: NotificationService.tripUrl(tripId), fields: Object.keys(validatedData) }
+    })
+
     return NextResponse.json({ trip: updatedTrip })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -254,10 +314,11 @@ export async function DELETE(
     const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
 
     // Check permissions
-    const permissions = getTripPermissions(currentTrip, userId)
+    const role = await CollaborationService.getMemberRole(tripId, userId)
+    const permissions = getTripPermissions(currentTrip, userId, role ?? undefined)
 
     if (!permissions.canDelete) {
-      const messages = getPermissionMessages(currentTrip, userId)
+      const messages = getPermissionMessages(currentTrip, userId, role ?? undefined)
       return NextResponse.json(
         { 
           error: "Permission denied",
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { ActivityError } from "@/lib/activity-service"
+import { checkScheduleSchema } from "@/lib/activity-validation"
+import { ScheduleService } from "@/lib/schedule-validation"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// POST /api/user/trips/[tripId]/schedule - Compute travel times between activities and flag impossible gaps
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+    const body = await request.json().catch(() => ({}))
+    const { dayNumber } = checkScheduleSchema.parse(body)
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const days = await ScheduleService.checkTrip(tripId, userId, dayNumber)
+
+    return NextResponse.json({ days })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error checking schedule:", error)
+    return NextResponse.json(
+      { error: "Failed to check travel times" },
+      { status: 500 }
+    )
+  }
+}
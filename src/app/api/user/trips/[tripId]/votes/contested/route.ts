@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { validateSession } from "@/lib/auth-utils"
+import { VoteService, VoteError } from "@/lib/vote-service"
+import { ActivityError } from "@/lib/activity-service"
+
+const resolveSchema = z.object({
+  activityId: z.string().min(1),
+  decision: z.enum(["keep", "remove"]),
+})
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/votes/contested - Activities with split votes
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId } = await params
+    const result = await VoteService.getContested(tripId, authResult.userId!)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof VoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching contested activities:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/user/trips/[tripId]/votes/contested - Keep or remove a contested activity
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId } = await params
+    const body = await request.json()
+    const { activityId, decision } = resolveSchema.parse(body)
+
+    await VoteService.resolve(tripId, activityId, authResult.userId!, decision)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof VoteError || error instanceof ActivityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error resolving contested activity:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
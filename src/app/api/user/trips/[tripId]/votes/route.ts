@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { validateSession } from "@/lib/auth-utils"
+import { VoteService, VoteError } from "@/lib/vote-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/votes - Vote tallies for the trip's activities
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await validateSession()
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { tripId } = await params
+    const votes = await VoteService.getTallies(tripId, authResult.userId!)
+
+    return NextResponse.json({ votes })
+  } catch (error) {
+    if (error instanceof VoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching votes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
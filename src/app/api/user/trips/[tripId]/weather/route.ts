@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { WeatherSnapshotError, WeatherSnapshotService } from "@/lib/weather-snapshot-service"
+
+interface RouteParams {
+  params: Promise<{ tripId: string }>
+}
+
+// GET /api/user/trips/[tripId]/weather - Stored weather snapshots and recent changes
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { tripId } = await params
+
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const [forecast, changes] = await Promise.all([
+      WeatherSnapshotService.getTripWeather(tripId, userId),
+      WeatherSnapshotService.getRecentChanges(userId, tripId)
+    ])
+    return NextResponse.json({ forecast, changes })
+  } catch (error) {
+    if (error instanceof WeatherSnapshotError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching trip weather:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch trip weather" },
+      { status: 500 }
+    )
+  }
+}
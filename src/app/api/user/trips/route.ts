@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from "next/server"
 import { z } from "zod"
+import { Prisma } from "@prisma/client"
 import { db } from "@/lib/db"
 import { itineraryService } from "@/lib/itinerary-service"
 import { TripOverlapService } from "@/lib/trip-overlap-service"
 import { TripStatusService } from "@/lib/trip-status-service"
 import { validateSession } from "@/lib/auth-utils"
+import { accommodationTypeSchema, interestCategoriesSchema, travelerDataSchema } from "@/lib/trip-validation"
+import { StoredTripPreferences, TripPreferencesService, tripPreferencesSchema } from "@/lib/trip-preferences"
+import { PreparedLeg, TripLegError, TripLegService, tripLegsSchema } from "@/lib/trip-legs"
+import { MultiCityItineraryService } from "@/lib/multi-city-itinerary"
+import { currencyCodeSchema } from "@/lib/currency-service"
 
 // Helper function to map AI activity types to database enum
 function mapActivityType(aiType: string): string {
@@ -32,12 +38,18 @@ const createTripSchema = z.object({
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
   budget: z.number().positive().optional(),
-  currency: z.string().length(3).default('USD'), // Fixed to USD only
+  currency: currencyCodeSchema.default('USD'),
   travelers: z.number().int().min(1).max(50).default(1),
   isPublic: z.boolean().default(false),
   generateItinerary: z.boolean().default(true), // Add option to generate itinerary
   interests: z.array(z.string()).optional(), // Add interests for itinerary generation
   accommodationType: z.string().optional(), // Add accommodation preference
+  // Remaining planning-form answers, saved with the trip and reused on regeneration
+  travelerBreakdown: travelerDataSchema.optional(),
+  preferences: tripPreferencesSchema.shape.preferences,
+  travelStyle: tripPreferencesSchema.shape.travelStyle,
+  // Ordered stops for a multi-city trip
+  legs: tripLegsSchema.shape.legs.optional(),
 })
 
 // GET /api/user/trips - Get user's trips
@@ -284,6 +296,31 @@ export async function POST(request: NextRequest) {
       }, { status: 500 })
     }
     
+    // Multi-city trips: check the legs cover the trip's dates and locate each stop
+    let legs: PreparedLeg[] = []
+    if (validatedData.legs && validatedData.legs.length > 0) {
+      try {
+        legs = await TripLegService.prepare({ startDate, endDate }, validatedData.legs)
+      } catch (legError) {
+        if (legError instanceof TripLegError) {
+          return NextResponse.json({ error: legError.message }, { status: legError.status })
+        }
+        throw legError
+      }
+    }
+
+    // Planning-form answers to keep with the trip; anything missing or invalid
+    // falls back to the owner's profile defaults when generating
+    const tripPreferences: StoredTripPreferences = {
+      interests: interestCategoriesSchema.safeParse(validatedData.interests).data,
+      travelers: validatedData.travelerBreakdown,
+      preferences: {
+        accommodationType: accommodationTypeSchema.safeParse(validatedData.accommodationType).data,
+        ...validatedData.preferences
+      },
+      travelStyle: validatedData.travelStyle
+    }
+
     // Generate itinerary SYNCHRONOUSLY before saving to database
     let itineraryResult = null
     
@@ -292,6 +329,11 @@ export async function POST(request: NextRequest) {
         console.log('Generating itinerary synchronously for:', validatedData.destination)
         
         // Create form data for itinerary service
+        const saved = await TripPreferencesService.resolve({
+          userId,
+          travelers: validatedData.travelers,
+          preferences: tripPreferences
+        })
         const formData = {
           destination: {
             destination: validatedData.destination,
@@ -303,32 +345,24 @@ export async function POST(request: NextRequest) {
           },
           budget: {
             amount: validatedData.budget || 2000,
-            currency: 'USD', // Always USD
+            currency: validatedData.currency,
             range: 'total' as const
           },
-          interests: validatedData.interests || ['culture', 'food'],
-          preferences: {
-            pace: 'moderate' as const,
-            accommodationType: (validatedData.accommodationType || 'mid-range') as 'budget' | 'mid-range' | 'luxury' | 'mixed',
-            transportation: 'public' as const,
-            accessibility: false,
-            dietaryRestrictions: [],
-            specialRequests: ''
-          },
-          travelers: {
-            adults: validatedData.travelers,
-            children: 0,
-            infants: 0
-          }
+          interests: saved.interests,
+          preferences: saved.preferences,
+          travelers: saved.travelers,
+          userContext: saved.travelStyle ? { travelStyle: saved.travelStyle } : undefined
         }
         
         // Generate itinerary using AI service synchronously
-        itineraryResult = await itineraryService.generateItinerary(formData, {
-          prioritizeSpeed: false, // Generate high-quality itinerary
-          useCache: true,
-          fallbackOnTimeout: false, // Don't use fallbacks - let errors bubble up
-          maxTimeout: 240000 // 4 minutes - enough time for proper generation
-        })
+        itineraryResult = legs.length > 1
+          ? await MultiCityItineraryService.generate(formData, legs, { maxTimeout: 240000 })
+          : await itineraryService.generateItinerary(formData, {
+            prioritizeSpeed: false, // Generate high-quality itinerary
+            useCache: true,
+            fallbackOnTimeout: false, // Don't use fallbacks - let errors bubble up
+            maxTimeout: 240000 // 4 minutes - enough time for proper generation
+          })
         
         console.log('Itinerary generated successfully:', {
           destination: validatedData.destination,
@@ -379,10 +413,11 @@ export async function POST(request: NextRequest) {
           startDate,
           endDate,
           budget: validatedData.budget,
-          currency: 'USD', // Always USD
+          currency: validatedData.currency,
           travelers: validatedData.travelers,
           isPublic: validatedData.isPublic || false, // Default to private
           destinationCoords,
+          preferences: tripPreferences as Prisma.InputJsonValue,
           userId: userId, // Use authenticated user ID
         },
         select: {
@@ -401,6 +436,12 @@ export async function POST(request: NextRequest) {
         }
       })
       
+      if (legs.length > 0) {
+        await tx.tripLeg.createMany({
+          data: legs.map(leg => TripLegService.toCreateData(createdTrip.id, leg))
+        })
+      }
+
       // Create initial status history entry
       await tx.statusHistory.create({
         data: {
@@ -478,13 +519,13 @@ export async function POST(request: NextRequest) {
                   timeSlot: activityData.timeSlot || 'morning',
                   type: mapActivityType(activityData.type || 'other') as any,
                   price: activityData.pricing?.amount || null,
-                  // Always use USD for consistency
-                  currency: 'USD',
+                  currency: activityData.pricing?.currency || validatedData.currency,
                   priceType: activityData.pricing?.priceType || 'per_person',
                   duration: activityData.duration || '',
                   tips: Array.isArray(activityData.tips) ? activityData.tips : [],
                   bookingRequired: Boolean(activityData.bookingRequired),
                   accessibility: activityData.accessibility || {},
+                  ...(activityData.openingHours && { openingHours: activityData.openingHours }),
                   order: activityIndex
                 })
               })
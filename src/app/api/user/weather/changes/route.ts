@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { WeatherSnapshotError, WeatherSnapshotService } from "@/lib/weather-snapshot-service"
+
+// GET /api/user/weather/changes - Recent weather changes across the user's trips
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id || 'demo-user-001' // Fallback to demo user
+
+    const tripId = request.nextUrl.searchParams.get('tripId') || undefined
+    const changes = await WeatherSnapshotService.getRecentChanges(userId, tripId)
+    return NextResponse.json({ changes })
+  } catch (error) {
+    if (error instanceof WeatherSnapshotError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching weather changes:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch weather changes" },
+      { status: 500 }
+    )
+  }
+}
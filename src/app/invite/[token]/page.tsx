@@ -0,0 +1,78 @@
+import { notFound } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { MapPin, Calendar } from "lucide-react";
+import { authOptions } from "@/lib/auth";
+import { CollaborationService } from "@/lib/collaboration-service";
+import { InvitationResponse } from "@/components/trip/invitation-response";
+import { formatDate } from "@/lib/utils";
+
+interface InvitePageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+const ROLE_DESCRIPTIONS = {
+  OWNER: "full control of the trip",
+  ADMIN: "edit the itinerary and manage members",
+  EDITOR: "edit the itinerary",
+  VIEWER: "view the itinerary",
+} as const;
+
+export default async function InvitePage({ params }: InvitePageProps) {
+  const { token } = await params;
+  const invitation = await CollaborationService.getInvitation(token);
+
+  if (!invitation) {
+    notFound();
+  }
+
+  const session = await getServerSession(authOptions);
+  const inviter = invitation.invitedBy.name || invitation.invitedBy.email;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-sm max-w-lg w-full">
+        <p className="text-sm text-gray-500 mb-2">
+          {inviter} invited you to join
+        </p>
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">
+          {invitation.trip.title}
+        </h1>
+        <div className="space-y-2 text-gray-700 mb-6">
+          <div className="flex items-center gap-2">
+            <MapPin className="h-4 w-4" />
+            <span>{invitation.trip.destination}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            <span>
+              {formatDate(invitation.trip.startDate)} -{" "}
+              {formatDate(invitation.trip.endDate)}
+            </span>
+          </div>
+        </div>
+
+        {invitation.message && (
+          <blockquote className="border-l-4 border-blue-200 pl-4 italic text-gray-700 mb-6">
+            {invitation.message}
+          </blockquote>
+        )}
+
+        <p className="text-sm text-gray-600 mb-6">
+          As {invitation.role === "ADMIN" ? "an" : "a"}{" "}
+          {invitation.role.toLowerCase()} you can{" "}
+          {ROLE_DESCRIPTIONS[invitation.role]}.
+        </p>
+
+        <InvitationResponse
+          token={token}
+          tripId={invitation.trip.id}
+          status={invitation.status}
+          invitedEmail={invitation.email}
+          userEmail={session?.user?.email ?? null}
+        />
+      </div>
+    </div>
+  );
+}
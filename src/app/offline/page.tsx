@@ -1,11 +1,21 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { Wifi, WifiOff, RefreshCw, Plane } from 'lucide-react'
+import Link from 'next/link'
+import { Wifi, WifiOff, RefreshCw, Plane, MapPin } from 'lucide-react'
+import { offlineCacheManager, CachedTrip } from '@/lib/offline-cache'
 
 export default function OfflinePage() {
   const [isOnline, setIsOnline] = useState(true)
   const [retryCount, setRetryCount] = useState(0)
+  const [cachedTrips, setCachedTrips] = useState<CachedTrip[]>([])
+
+  useEffect(() => {
+    // Trips the service worker saved while they were viewed online
+    offlineCacheManager.getAllCachedTrips()
+      .then(setCachedTrips)
+      .catch(error => console.error('Failed to load cached trips:', error))
+  }, [])
 
   useEffect(() => {
     // Check initial online status
@@ -118,6 +128,27 @@ export default function OfflinePage() {
               </button>
             </div>
 
+            {cachedTrips.length > 0 && (
+              <div className="mt-6 text-left">
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  Available offline
+                </h3>
+                <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                  {cachedTrips.map(({ id, data, syncStatus }) => (
+                    <li key={id}>
+                      <Link href={`/trip/${id}`} className="flex items-center gap-2 px-3 py-2 text-sm hover:bg-gray-50">
+                        <MapPin className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                        <span className="flex-1 truncate text-gray-800">{data.title}</span>
+                        {syncStatus === 'pending' && (
+                          <span className="text-xs text-amber-600">Unsynced changes</span>
+                        )}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Offline Features Info */}
             <div className="mt-8 p-4 bg-blue-50 rounded-lg">
               <h3 className="text-sm font-semibold text-blue-900 mb-2">
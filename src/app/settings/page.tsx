@@ -43,6 +43,7 @@ interface UserPreferences {
     marketing: boolean;
     tripReminders: boolean;
     activityUpdates: boolean;
+    emailDigest?: boolean;
   };
 
   // Privacy
@@ -71,6 +72,7 @@ const defaultPreferences: UserPreferences = {
     marketing: false,
     tripReminders: true,
     activityUpdates: true,
+    emailDigest: false,
   },
   privacy: {
     profilePublic: false,
@@ -472,6 +474,40 @@ function SettingsContent() {
                     }
                   />
                 </div>
+
+                <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <Label className="font-medium">Activity Updates</Label>
+                    <p className="text-sm text-gray-600 mt-1">
+                      Email me when trip plans change
+                    </p>
+                  </div>
+                  <Switch
+                    checked={preferences.notifications.activityUpdates}
+                    onCheckedChange={(checked) =>
+                      updatePreference(
+                        "notifications",
+                        "activityUpdates",
+                        checked
+                      )
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <Label className="font-medium">Weekly Digest</Label>
+                    <p className="text-sm text-gray-600 mt-1">
+                      Bundle trip updates into one email each Monday
+                    </p>
+                  </div>
+                  <Switch
+                    checked={!!preferences.notifications.emailDigest}
+                    onCheckedChange={(checked) =>
+                      updatePreference("notifications", "emailDigest", checked)
+                    }
+                  />
+                </div>
               </div>
             </CardContent>
           </Card>
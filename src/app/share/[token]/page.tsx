@@ -1,31 +1,259 @@
+import { cookies } from "next/headers";
 import { notFound } from "next/navigation";
-import { MapPin, Calendar, Users, DollarSign, Clock } from "lucide-react";
+import { MapPin, Calendar, Users, DollarSign, Clock, Lock } from "lucide-react";
+import {
+  shareAccessFromCookies,
+  shareGenerator,
+  ShareError,
+} from "@/lib/share-generator";
+import type { TripWithActivities } from "@/lib/share-types";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { CommentsPanel } from "@/components/trip/comments-panel";
 
 interface SharedTripPageProps {
   params: Promise<{
     token: string;
   }>;
   searchParams: Promise<{
-    password?: string;
+    error?: string;
   }>;
 }
 
+function ShareMessage({
+  title,
+  message,
+  children,
+}: {
+  title: string;
+  message: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="bg-white p-8 rounded-lg shadow-sm max-w-lg w-full text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">{title}</h1>
+        <p className="text-gray-700 mb-6">{message}</p>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+const UNLOCK_ERRORS: Record<string, string> = {
+  "invalid-password": "That password is incorrect. Please try again.",
+  "too-many-attempts": "Too many attempts. Please wait a few minutes and try again.",
+};
+
+function PasswordForm({ token, error }: { token: string; error?: string }) {
+  return (
+    <form
+      method="POST"
+      action={`/api/share/${encodeURIComponent(token)}/unlock`}
+      className="space-y-3 text-left"
+    >
+      <label htmlFor="password" className="text-sm font-medium text-gray-700">
+        Password
+      </label>
+      <input
+        id="password"
+        name="password"
+        type="password"
+        required
+        autoFocus
+        className="flex h-10 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {error && UNLOCK_ERRORS[error] && (
+        <p className="text-sm text-red-600">{UNLOCK_ERRORS[error]}</p>
+      )}
+      <button
+        type="submit"
+        className="w-full h-10 rounded-md bg-blue-600 text-white text-sm font-medium hover:bg-blue-700"
+      >
+        View trip
+      </button>
+    </form>
+  );
+}
+
 export default async function SharedTripPage({
   params,
   searchParams,
 }: SharedTripPageProps) {
-  // Sharing is disabled in this build — render a friendly message instead of
-  // attempting to fetch or render shared trip data.
+  const { token } = await params;
+  const { error: unlockError } = await searchParams;
+  const accessPass = shareAccessFromCookies(await cookies(), token);
+
+  let trip: TripWithActivities | null;
+  try {
+    trip = await shareGenerator.getSharedTrip(token, accessPass);
+  } catch (error) {
+    if (error instanceof ShareError) {
+      if (error.code === "EXPIRED") {
+        return (
+          <ShareMessage
+            title="Link Expired"
+            message="This shared itinerary is no longer available. Ask the trip owner for a new link."
+          />
+        );
+      }
+
+      if (error.code === "PASSWORD_REQUIRED" || error.code === "INVALID_PASSWORD") {
+        return (
+          <ShareMessage
+            title="Password Protected"
+            message="The trip owner has protected this itinerary with a password."
+          >
+            <Lock className="h-8 w-8 mx-auto mb-4 text-gray-400" />
+            <PasswordForm token={token} error={unlockError} />
+          </ShareMessage>
+        );
+      }
+    }
+    throw error;
+  }
+
+  if (!trip) {
+    notFound();
+  }
+
+  const currency = trip.currency || "USD";
+
   return (
-    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-      <div className="bg-white p-8 rounded-lg shadow-sm max-w-lg w-full text-center">
-        <h1 className="text-2xl font-bold text-gray-900 mb-4">
-          Sharing Disabled
-        </h1>
-        <p className="text-gray-700 mb-6">
-          Public sharing of itineraries has been disabled in this build. If you
-          need to enable sharing for testing, re-enable the feature in
-          configuration or contact the maintainers.
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{trip.title}</h1>
+          {trip.description && (
+            <p className="text-gray-600 mb-4">{trip.description}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-6 text-gray-600">
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              <span>{trip.destination}</span>
+            </div>
+            {trip.startDate && trip.endDate && (
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                <span>
+                  {formatDate(new Date(trip.startDate))} -{" "}
+                  {formatDate(new Date(trip.endDate))}
+                </span>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              <span>
+                {trip.travelers} traveler{trip.travelers !== 1 ? "s" : ""}
+              </span>
+            </div>
+            {trip.share.showBudget && trip.budget != null && (
+              <div className="flex items-center gap-2">
+                <DollarSign className="h-4 w-4" />
+                <span className="font-semibold">
+                  {formatCurrency(trip.budget, currency)} total
+                </span>
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-gray-500 mt-4">
+            Shared by {trip.user?.name || "a TerraVoyage traveler"}
+            {trip.share.showContactInfo && trip.user?.email && (
+              <>
+                {" "}
+                &middot;{" "}
+                <a
+                  href={`mailto:${trip.user.email}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {trip.user.email}
+                </a>
+              </>
+            )}
+          </p>
+        </div>
+
+        {trip.days.length === 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-600">
+            This trip doesn&apos;t have an itinerary yet.
+          </div>
+        )}
+
+        {trip.days.map((day) => (
+          <div key={day.id} className="bg-white rounded-lg shadow-sm p-6">
+            <div className="flex items-baseline justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Day {day.dayNumber}
+                {day.theme && (
+                  <span className="text-gray-500 font-normal">
+                    {" "}
+                    &middot; {day.theme}
+                  </span>
+                )}
+              </h2>
+              <span className="text-sm text-gray-500">{day.date}</span>
+            </div>
+
+            <ol className="space-y-4">
+              {day.activities.map((activity) => (
+                <li
+                  key={activity.id}
+                  className="border-l-2 border-blue-200 pl-4"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <h3 className="font-medium text-gray-900">
+                      {activity.name}
+                    </h3>
+                    {trip.share.showBudget && activity.price ? (
+                      <span className="text-sm text-gray-600">
+                        {formatCurrency(
+                          activity.price,
+                          activity.currency || currency
+                        )}
+                      </span>
+                    ) : null}
+                  </div>
+                  {(activity.startTime || activity.endTime) && (
+                    <div className="flex items-center gap-1 text-sm text-gray-500">
+                      <Clock className="h-3 w-3" />
+                      <span>
+                        {activity.startTime}
+                        {activity.endTime && ` - ${activity.endTime}`}
+                      </span>
+                    </div>
+                  )}
+                  {(activity.location || activity.address) && (
+                    <div className="flex items-center gap-1 text-sm text-gray-500">
+                      <MapPin className="h-3 w-3" />
+                      <span>{activity.address || activity.location}</span>
+                    </div>
+                  )}
+                  {activity.description && (
+                    <p className="text-sm text-gray-700 mt-1">
+                      {activity.description}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+
+        {trip.share.allowComments && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Comments
+            </h2>
+            <CommentsPanel
+              tripId={trip.id}
+              shareToken={token}
+            />
+          </div>
+        )}
+
+        <p className="text-center text-xs text-gray-400">
+          {trip.share.allowComments
+            ? "Itinerary shared via TerraVoyage"
+            : "Read-only itinerary shared via TerraVoyage"}
         </p>
       </div>
     </div>
@@ -4,13 +4,30 @@ import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
 import { ItineraryDisplay } from '@/components/itinerary/itinerary-display'
 import { WeatherSidebar } from '@/components/weather/weather-sidebar'
+import { WeatherItineraryIntegration } from '@/components/weather/weather-itinerary-integration'
 import { TravelMap } from '@/components/maps/travel-map'
-import { Day } from '@/lib/itinerary-types'
+import { Day, ActivityAction } from '@/lib/itinerary-types'
+import { apiClient } from '@/lib/api-client'
+import { SUPPORTED_CURRENCIES } from '@/lib/budget-calculator'
+import type { TripPricing } from '@/lib/currency-service'
+import { formatCurrency } from '@/lib/utils'
+import { toast } from 'sonner'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { StatusManager } from '@/components/trip/status-manager'
 import { StatusHistory } from '@/components/trip/status-history'
+import { ShareDialog } from '@/components/trip/share-dialog'
+import { CollaboratorsDialog } from '@/components/trip/collaborators-dialog'
+import { TripPreferencesDialog } from '@/components/trip/trip-preferences-dialog'
+import { TripLegsDialog } from '@/components/trip/trip-legs-dialog'
+import { ExportButton } from '@/components/trip/export-button'
+import { CommentsPanel } from '@/components/trip/comments-panel'
+import { VoteSummary } from '@/components/trip/vote-summary'
+import { ExpenseTracker } from '@/components/trip/expense-tracker'
+import { BookingLedger } from '@/components/trip/booking-ledger'
+import { PackingListPanel } from '@/components/trip/packing-list'
+import { RetryEnabledGeneration } from '@/components/trip/retry-enabled-generation'
 import { 
   MapPin, 
   Calendar, 
@@ -19,18 +36,20 @@ import {
   ArrowLeft,
   Cloud,
   RefreshCw,
-  AlertCircle
+  AlertCircle,
+  MessageSquare
 } from 'lucide-react'
 import Link from 'next/link'
-import { TripStatus } from '@prisma/client'
+import { TripLeg, TripStatus } from '@prisma/client'
 
 // Helper function to transform API days data to UI format
-function transformApiDaysToUiFormat(apiDays: any[], tripCurrency: string = 'USD'): Day[] {
+function transformApiDaysToUiFormat(apiDays: any[], tripCurrency: string = 'USD', pricing?: TripPricing | null): Day[] {
   return apiDays.map(day => ({
     day: day.dayNumber,
     date: day.date,
     transportation: day.transportation,
     dailyBudget: day.dailyBudget,
+    travelLegs: day.travelLegs || undefined,
     theme: day.theme || `Day ${day.dayNumber}`,
     activities: day.activities.map((activity: any) => ({
       id: activity.id,
@@ -60,6 +79,12 @@ function transformApiDaysToUiFormat(apiDays: any[], tripCurrency: string = 'USD'
       },
       tips: Array.isArray(activity.tips) ? activity.tips : [],
       bookingRequired: activity.bookingRequired || false,
+      locked: activity.locked || false,
+      openingHours: activity.openingHours || undefined,
+      ...(pricing && pricing.prices[activity.id] !== undefined &&
+        pricing.currency !== (activity.currency || tripCurrency) && {
+        convertedPrice: { amount: pricing.prices[activity.id], currency: pricing.currency }
+      }),
       accessibility: activity.accessibility || {
         wheelchairAccessible: true,
         hasElevator: false,
@@ -156,6 +181,13 @@ function generateMockItinerary(destination: string, startDate: string, endDate:
   return days
 }
 
+// A trip leg as the trip API serialises it
+type ApiTripLeg = Pick<TripLeg, 'destination' | 'order' | 'timezone'> & {
+  startDate: string
+  endDate: string
+  coordinates: { lat: number; lng: number } | null
+}
+
 interface TripData {
   id: string
   title: string
@@ -163,6 +195,11 @@ interface TripData {
     name: string
     coordinates: { lat: number; lng: number }
   }
+  // Ordered stops of a multi-city trip; empty for single-destination trips
+  legs: Array<{
+    destination: string
+    coordinates?: { lat: number; lng: number } | null
+  }>
   startDate: string
   endDate: string
   travelers: {
@@ -174,7 +211,11 @@ interface TripData {
     amount: number
     currency: string
   }
+  // Prices converted to the trip's display currency; null when no rates were available
+  pricing: TripPricing | null
   days: Day[]
+  // False while `days` is placeholder content because nothing has been generated yet
+  hasItinerary: boolean
   status: string
 }
 
@@ -188,6 +229,9 @@ export default function TripDetailsPage() {
   const [showWeather, setShowWeather] = useState(true)
   const [selectedDay, setSelectedDay] = useState<number | undefined>(undefined)
   const [showMap, setShowMap] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [votesVersion, setVotesVersion] = useState(0)
+  const [reloadKey, setReloadKey] = useState(0)
 
   // Load trip data from API or use mock data
   useEffect(() => {
@@ -210,6 +254,10 @@ export default function TripDetailsPage() {
                 name: data.trip.destination,
                 coordinates: data.trip.destinationCoords || { lat: 48.8566, lng: 2.3522 } // Use actual coords or fallback to Paris
               },
+              legs: (data.trip.legs || []).map((leg: ApiTripLeg) => ({
+                destination: leg.destination,
+                coordinates: leg.coordinates
+              })),
               startDate: data.trip.startDate.split('T')[0],
               endDate: data.trip.endDate.split('T')[0],
               travelers: {
@@ -221,19 +269,12 @@ export default function TripDetailsPage() {
                 amount: data.trip.budget || 2000,
                 currency: data.trip.currency || "USD"
               },
+              pricing: data.pricing ?? null,
               // Use REAL itinerary data from API if available, otherwise fallback to generated mock
               days: data.trip.days && data.trip.days.length > 0 
-                ? transformApiDaysToUiFormat(data.trip.days, data.trip.currency || 'USD')
-                : data.trip.itineraryData && data.trip.itineraryData.rawData?.itinerary?.days
-                ? transformApiDaysToUiFormat(data.trip.itineraryData.rawData.itinerary.days.map((day: any, index: number) => ({
-                    dayNumber: day.day || (index + 1),
-                    date: day.date || new Date(new Date(data.trip.startDate).getTime() + index * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-                    theme: day.theme || `Day ${day.day || (index + 1)}`,
-                    transportation: day.transportation,
-                    dailyBudget: day.dailyBudget,
-                    activities: day.activities || []
-                  })), data.trip.currency || 'USD')
+                ? transformApiDaysToUiFormat(data.trip.days, data.trip.currency || 'USD', data.pricing)
                 : generateMockItinerary(data.trip.destination, data.trip.startDate, data.trip.endDate, data.trip.currency || 'USD', data.trip.destinationCoords),
+              hasItinerary: (data.trip.days?.length ?? 0) > 0,
               status: data.trip.status || "PLANNED"
             }
             
@@ -267,7 +308,7 @@ export default function TripDetailsPage() {
     }
 
     loadTrip()
-  }, [tripId])
+  }, [tripId, reloadKey])
 
   const handleUpdateDays = (updatedDays: Day[]) => {
     if (trip) {
@@ -275,9 +316,65 @@ export default function TripDetailsPage() {
     }
   }
 
-  const handleSaveTrip = async () => {
-    // Mock save functionality
-    // TODO: Implement actual save functionality
+  const handleContestedActivityRemoved = (activityId: string) => {
+    setTrip(prev => prev && {
+      ...prev,
+      days: prev.days.map(day => ({
+        ...day,
+        activities: day.activities.filter(activity => activity.id !== activityId)
+      }))
+    })
+  }
+
+  const handleBookingStatusChange = (activityId: string, status: string) => {
+    setTrip(prev => prev && {
+      ...prev,
+      days: prev.days.map(day => ({
+        ...day,
+        activities: day.activities.map(activity =>
+          activity.id === activityId ? { ...activity, isBooked: status === 'CONFIRMED' } : activity
+        )
+      }))
+    })
+  }
+
+  const handleDisplayCurrencyChange = async (displayCurrency: string) => {
+    try {
+      await apiClient.updateTrip(tripId, { displayCurrency })
+      setReloadKey(key => key + 1)
+    } catch (err) {
+      console.error('Failed to change display currency:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to change currency')
+    }
+  }
+
+  const handleSaveTrip = async (actions: ActivityAction[]) => {
+    setIsSaving(true)
+    try {
+      const result = await apiClient.saveActivityChanges(tripId, actions) as {
+        idMap: Record<string, string>
+      }
+
+      // Newly added activities get database ids on save
+      setTrip(prev => prev && {
+        ...prev,
+        days: prev.days.map(day => ({
+          ...day,
+          activities: day.activities.map(activity => ({
+            ...activity,
+            id: result.idMap[activity.id] ?? activity.id
+          }))
+        }))
+      })
+
+      toast.success('Itinerary saved')
+    } catch (err) {
+      console.error('Failed to save itinerary:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to save itinerary')
+      throw err
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   if (isLoading) {
@@ -401,8 +498,11 @@ export default function TripDetailsPage() {
                 <Cloud className="h-4 w-4" />
                 {showWeather ? 'Hide Weather' : `Weather for ${trip.destination.name}`}
               </Button>
-              {/* <ExportButton tripId={trip.id} /> */}
-              <Button variant="outline">Export Trip</Button>
+              <TripLegsDialog tripId={trip.id} onSaved={() => setReloadKey(key => key + 1)} />
+              <TripPreferencesDialog tripId={trip.id} onSaved={() => setReloadKey(key => key + 1)} />
+              <CollaboratorsDialog tripId={trip.id} />
+              <ShareDialog tripId={trip.id} />
+              <ExportButton tripId={trip.id} />
             </div>
           </div>
           
@@ -413,7 +513,11 @@ export default function TripDetailsPage() {
                 <div className="flex items-center gap-6 text-gray-600">
                   <div className="flex items-center gap-2">
                     <MapPin className="h-4 w-4" />
-                    <span>{trip.destination.name}</span>
+                    <span>
+                      {trip.legs.length > 1
+                        ? trip.legs.map(leg => leg.destination).join(' → ')
+                        : trip.destination.name}
+                    </span>
                   </div>
                   <div className="flex items-center gap-2">
                     <Calendar className="h-4 w-4" />
@@ -434,6 +538,29 @@ export default function TripDetailsPage() {
                           ~{Math.round(trip.budget.amount / totalTravelers)} {trip.budget.currency}/person
                         </span>
                       )}
+                      {trip.pricing && trip.pricing.budget !== null && trip.pricing.currency !== trip.budget.currency && (
+                        <span className="text-xs text-gray-500">
+                          ≈ {formatCurrency(trip.pricing.budget, trip.pricing.currency)}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1 text-xs text-gray-500">
+                        <label htmlFor="display-currency">Prices in</label>
+                        <select
+                          id="display-currency"
+                          value={trip.pricing?.currency ?? trip.budget.currency}
+                          onChange={(e) => handleDisplayCurrencyChange(e.target.value)}
+                          className="rounded border border-gray-300 bg-transparent px-1"
+                        >
+                          {SUPPORTED_CURRENCIES.map(code => (
+                            <option key={code} value={code}>{code}</option>
+                          ))}
+                        </select>
+                        {trip.pricing && (
+                          <span title={`Exchange rates from ${trip.pricing.source}`}>
+                            rates of {trip.pricing.rateDate}
+                          </span>
+                        )}
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -490,6 +617,7 @@ export default function TripDetailsPage() {
                     <TravelMap
                       days={trip.days}
                       destinationCoords={trip.destination.coordinates}
+                      legs={trip.legs}
                       selectedDay={selectedDay}
                       onDaySelect={setSelectedDay}
                       showRoutes={true}
@@ -515,14 +643,82 @@ export default function TripDetailsPage() {
               </div>
             )}
             
+            {/* Nothing generated yet: the itinerary below is a placeholder */}
+            {!trip.hasItinerary && (
+              <RetryEnabledGeneration
+                tripData={{ tripId: trip.id, destination: trip.destination.name }}
+                onSuccess={() => setReloadKey(key => key + 1)}
+              />
+            )}
+
+            {/* Split votes waiting on the owner */}
+            <VoteSummary
+              tripId={trip.id}
+              refreshKey={votesVersion}
+              onActivityRemoved={handleContestedActivityRemoved}
+            />
+
+            {/* Actual spending, once the trip is under way */}
+            {(trip.status === 'ACTIVE' || trip.status === 'COMPLETED') && (
+              <ExpenseTracker
+                tripId={trip.id}
+                activities={trip.hasItinerary
+                  ? trip.days.flatMap(day => day.activities.map(activity => ({
+                      id: activity.id,
+                      name: activity.name,
+                      dayNumber: day.day
+                    })))
+                  : []}
+              />
+            )}
+
+            {/* Reservations for activities that need them */}
+            {trip.hasItinerary && (
+              <BookingLedger
+                tripId={trip.id}
+                defaultCurrency={trip.budget.currency}
+                onStatusChange={handleBookingStatusChange}
+              />
+            )}
+
+            {/* Each traveller's own checklist */}
+            {trip.status !== 'COMPLETED' && <PackingListPanel tripId={trip.id} />}
+
+            {/* Forecast impact per day, with swaps to dodge bad weather */}
+            {showWeather && trip.hasItinerary && (
+              <WeatherItineraryIntegration
+                tripId={trip.id}
+                days={trip.days}
+                destination={trip.destination}
+                startDate={trip.startDate}
+                endDate={trip.endDate}
+                onItineraryChanged={() => setReloadKey(key => key + 1)}
+              />
+            )}
+
             {/* Itinerary Section */}
             <ItineraryDisplay
+              tripId={trip.id}
               days={trip.days}
               onUpdateDays={handleUpdateDays}
               onSave={handleSaveTrip}
-              isLoading={false}
-              isDirty={false}
+              isLoading={isSaving}
+              onVotesChange={() => setVotesVersion(version => version + 1)}
+              onItineraryChanged={() => setReloadKey(key => key + 1)}
             />
+
+            {/* Trip-level discussion */}
+            <Card>
+              <CardHeader className="pb-4">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5" />
+                  Discussion
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CommentsPanel tripId={trip.id} />
+              </CardContent>
+            </Card>
           </div>
 
           {/* Sidebar with Weather */}
@@ -530,6 +726,7 @@ export default function TripDetailsPage() {
             {showWeather && (
               <div className="sticky top-8">
                 <WeatherSidebar
+                  tripId={trip.id}
                   days={trip.days}
                   destination={trip.destination}
                   startDate={trip.startDate}